@@ -0,0 +1,45 @@
+/**
+ * @fileOverview Data Provenance Schema
+ *
+ * Shared flow input field describing where the market data behind a request
+ * came from (see lib/data-providers/data-provenance), plus the prompt block
+ * that tells the model how far it may rely on that data. Flows add both through
+ * withDataProvenance and withProvenancePrompt rather than declaring them.
+ */
+
+import { z } from 'zod';
+
+export const DataProvenanceSchema = z.object({
+  source: z.enum(['real-time', 'replay', 'api', 'fallback', 'chart-image', 'user-supplied']),
+  isSynthetic: z.boolean().describe('True when prices were generated rather than observed'),
+  isRealTime: z.boolean(),
+  confidence: z.number().min(0).max(100),
+  lastUpdate: z.number().optional(),
+  symbol: z.string().optional(),
+}).describe('Where the market data behind this request came from');
+
+// Handlebars block for prompts whose input schema includes dataProvenance
+const DATA_PROVENANCE_PROMPT = `{{#if dataProvenance}}
+**Data Provenance:** source {{dataProvenance.source}}, confidence {{dataProvenance.confidence}}%{{#if dataProvenance.symbol}}, symbol {{dataProvenance.symbol}}{{/if}}
+{{#if dataProvenance.isSynthetic}}
+WARNING: the market data for this request is SYNTHETIC (generated, not observed). Do not derive entry, stop-loss or take-profit levels from it. State clearly that no trade recommendation can be made until real data is available.
+{{/if}}
+{{#unless dataProvenance.isRealTime}}
+The market data is not live. If the source is replay, it is a recorded market session played back, not the current market: do not present its prices as current.
+{{/unless}}
+{{/if}}`;
+
+/**
+ * Adds the optional dataProvenance field to a flow schema
+ */
+export function withDataProvenance<T extends z.ZodRawShape>(schema: z.ZodObject<T>) {
+  return schema.extend({ dataProvenance: DataProvenanceSchema.optional() });
+}
+
+/**
+ * Puts the provenance block ahead of a prompt template whose input schema
+ * was built with withDataProvenance
+ */
+export function withProvenancePrompt(template: string): string {
+  return `${DATA_PROVENANCE_PROMPT}\n\n${template}`;
+}
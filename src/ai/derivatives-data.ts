@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Derivatives Data Schema
+ *
+ * Shared flow input field carrying the perpetual futures summary from
+ * lib/data-providers/derivatives-data-service, plus a prompt block that
+ * renders it wherever a flow nests the field.
+ */
+
+import { z } from 'zod';
+
+export const DerivativesDataSchema = z.object({
+  symbol: z.string(),
+  exchange: z.string(),
+  timestamp: z.number(),
+  markPrice: z.number(),
+  indexPrice: z.number(),
+  basisPercent: z.number().describe('Mark price premium over the index, in percent'),
+  fundingRatePercent: z.number().describe('Predicted funding rate for the current 8h period, in percent'),
+  averageFundingRatePercent: z.number().optional().describe('Mean of the last settled funding rates, in percent'),
+  annualizedFundingPercent: z.number(),
+  nextFundingTime: z.number().optional(),
+  openInterest: z.number().describe('Open interest in contracts (base asset)'),
+  openInterestValue: z.number().describe('Open interest in quote currency'),
+  openInterestChange24hPercent: z.number().optional(),
+  longLiquidationsValue: z.number().optional().describe('Quote value of long positions force-closed within the window'),
+  shortLiquidationsValue: z.number().optional().describe('Quote value of short positions force-closed within the window'),
+  liquidationCount: z.number().optional(),
+  liquidationWindowMinutes: z.number().optional(),
+  isRealTime: z.boolean(),
+}).describe('Perpetual futures positioning: funding, open interest, basis and liquidations');
+
+/**
+ * Handlebars block rendering a DerivativesDataSchema value found at `path`
+ * (e.g. 'onChainData.derivatives'). Optional values are printed even when
+ * zero (`includeZero`), and omitted only when missing.
+ */
+export function derivativesDataPrompt(path: string): string {
+  return `{{#if ${path}}}
+**Derivatives ({{${path}.symbol}} perpetual, {{${path}.exchange}}):**
+- Mark {{${path}.markPrice}} / Index {{${path}.indexPrice}}, basis {{${path}.basisPercent}}%
+- Funding {{${path}.fundingRatePercent}}% per 8h (annualized {{${path}.annualizedFundingPercent}}%){{#if ${path}.averageFundingRatePercent includeZero=true}}, recent average {{${path}.averageFundingRatePercent}}%{{/if}}
+- Open interest {{${path}.openInterest}} contracts ({{${path}.openInterestValue}} quote){{#if ${path}.openInterestChange24hPercent includeZero=true}}, 24h change {{${path}.openInterestChange24hPercent}}%{{/if}}
+{{#if ${path}.liquidationWindowMinutes}}
+- Liquidations over the last {{${path}.liquidationWindowMinutes}} minutes: longs {{${path}.longLiquidationsValue}}, shorts {{${path}.shortLiquidationsValue}} ({{${path}.liquidationCount}} orders)
+{{/if}}
+Positive funding and basis mean longs pay shorts (crowded longs); rising open interest with price confirms new positioning, falling open interest signals closing. Liquidation imbalances mark forced flows, not conviction.
+{{/if}}`;
+}
@@ -11,9 +11,15 @@
 import { ai } from '../genkit';
 import { z } from 'zod';
 import { advancedPatternRecognitionSystem, type ComprehensivePatternAnalysis } from '../../lib/pattern-recognition/advanced-pattern-recognition-system';
-import { realTimeDataProvider } from '../../lib/data-providers/real-time-data-provider';
+import { realTimeDataProvider, type KlineData } from '../../lib/data-providers/real-time-data-provider';
+import { getIntervalMs } from '../../lib/data-providers/intervals';
+import { marketDataService } from '../../lib/data-providers/market-data-service';
+import { provenanceFromDataQuality } from '../../lib/data-providers/data-provenance';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const AdvancedPatternRecognitionInputSchema = z.object({
+const CANDLE_LIMIT = 100; // Candles fetched when no series is provided
+
+const AdvancedPatternRecognitionInputSchema = withDataProvenance(z.object({
   primaryChartUri: z.string().describe("Primary cryptocurrency chart image as a data URI."),
   secondaryChartUri: z.string().optional().describe("Optional secondary chart for multi-timeframe analysis."),
   question: z.string().describe('The analysis question or trading request.'),
@@ -25,7 +31,7 @@ const AdvancedPatternRecognitionInputSchema = z.object({
   currentPrice: z.number().optional().describe('Current market price.'),
   tradingPersona: z.string().optional().describe('Trading persona/strategy to adopt.'),
   riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional().default('moderate'),
-});
+}));
 export type AdvancedPatternRecognitionInput = z.infer<typeof AdvancedPatternRecognitionInputSchema>;
 
 const PatternTradingSignalSchema = z.object({
@@ -48,7 +54,7 @@ const PatternTradingSignalSchema = z.object({
   timeframe: z.string(),
 });
 
-const AdvancedPatternRecognitionOutputSchema = z.object({
+const AdvancedPatternRecognitionOutputSchema = withDataProvenance(z.object({
   executiveSummary: z.string().describe('Comprehensive summary of all pattern analysis findings'),
   
   consensus: z.object({
@@ -124,7 +130,7 @@ const AdvancedPatternRecognitionOutputSchema = z.object({
     })),
     nextReviewTime: z.string(),
   }),
-});
+}));
 export type AdvancedPatternRecognitionOutput = z.infer<typeof AdvancedPatternRecognitionOutputSchema>;
 
 export async function advancedPatternRecognitionFlow(input: AdvancedPatternRecognitionInput): Promise<AdvancedPatternRecognitionOutput> {
@@ -135,7 +141,7 @@ const advancedPatternRecognitionPrompt = ai.definePrompt({
   name: 'advancedPatternRecognitionPrompt',
   input: { schema: AdvancedPatternRecognitionInputSchema },
   output: { schema: AdvancedPatternRecognitionOutputSchema },
-  prompt: `You are an elite institutional trading analyst with access to the most advanced pattern recognition systems available. You combine machine learning, volume profile analysis, market microstructure insights, and harmonic pattern detection to provide superior trading recommendations.
+  prompt: withProvenancePrompt(`You are an elite institutional trading analyst with access to the most advanced pattern recognition systems available. You combine machine learning, volume profile analysis, market microstructure insights, and harmonic pattern detection to provide superior trading recommendations.
 
 **Trading Context:**
 - Asset: {{asset}}
@@ -275,7 +281,7 @@ Focus on high-probability setups with strong historical performance and multiple
 **Market Adaptation:**
 Acknowledge that patterns perform differently in various market conditions and adjust recommendations accordingly.
 
-Provide your comprehensive advanced pattern recognition analysis with institutional-level precision and actionable insights.`,
+Provide your comprehensive advanced pattern recognition analysis with institutional-level precision and actionable insights.`),
 });
 
 const advancedPatternRecognitionAIFlow = ai.defineFlow(
@@ -286,35 +292,57 @@ const advancedPatternRecognitionAIFlow = ai.defineFlow(
   },
   async (input: AdvancedPatternRecognitionInput) => {
     try {
-      // Get real-time data if not provided
+      // Get candles if no series was provided; provenance follows the data source
       let priceData = input.priceData;
       let volumeData = input.volumeData;
       let timestamps = input.timestamps;
       let currentPrice = input.currentPrice;
+      let dataProvenance = input.dataProvenance;
+      let candles: KlineData[] | undefined;
       
       if (!priceData || !volumeData || !timestamps) {
-        console.log('Fetching real-time market data...');
+        console.log('Fetching market data...');
         
         // Determine symbol from asset
         const symbol = `${input.asset || 'BTC'}USDT`;
         const timeframe = input.timeframe || '4h';
         
         try {
-          // Get historical data from real-time provider
-          const historicalData = await realTimeDataProvider.getHistoricalData(symbol, timeframe, 100);
-          priceData = historicalData.prices;
-          volumeData = historicalData.volumes;
-          timestamps = historicalData.timestamps;
-          currentPrice = priceData[priceData.length - 1];
+          // OHLC klines give the analyzers true highs and lows
+          const klines = await marketDataService.getKlines({
+            symbol,
+            interval: timeframe,
+            startTime: Date.now() - (CANDLE_LIMIT + 1) * getIntervalMs(timeframe),
+            maxKlines: CANDLE_LIMIT
+          });
+          if (klines.length === 0) {
+            throw new Error(`No klines available for ${symbol} ${timeframe}`);
+          }
+          
+          candles = klines;
+          const lastKline = klines[klines.length - 1];
+          currentPrice = currentPrice ?? lastKline.close;
+          dataProvenance = provenanceFromDataQuality({
+            isRealTime: false,
+            lastUpdate: lastKline.closeTime,
+            source: 'api',
+            isSynthetic: false,
+            confidence: 90
+          }, symbol);
           
-          console.log(`Retrieved ${priceData.length} data points for ${symbol}`);
+          console.log(`Retrieved ${klines.length} klines for ${symbol}`);
         } catch (error) {
-          console.warn('Failed to fetch real-time data, using fallback data:', error);
-          // Fall back to generated data
-          priceData = generateSamplePriceData();
-          volumeData = generateSampleVolumeData(priceData.length);
-          timestamps = generateSampleTimestamps(priceData.length);
-          currentPrice = priceData[priceData.length - 1];
+          console.warn('Failed to fetch klines, falling back to close prices:', error);
+          
+          // Synthetic data is only returned when the fallback config allows it, and is flagged
+          const marketData = await marketDataService.getMarketData({ symbol, timeframe, limit: CANDLE_LIMIT });
+          priceData = marketData.prices;
+          volumeData = marketData.volumes;
+          timestamps = marketData.timestamps;
+          currentPrice = marketData.currentPrice;
+          dataProvenance = provenanceFromDataQuality(marketData.dataQuality, symbol);
+          
+          console.log(`Retrieved ${priceData.length} data points for ${symbol} (${marketData.dataQuality.source})`);
         }
       }
       
@@ -325,10 +353,14 @@ const advancedPatternRecognitionAIFlow = ai.defineFlow(
       try {
         const symbol = `${input.asset || 'BTC'}USDT`;
         const orderBook = await realTimeDataProvider.getOrderBook(symbol);
+        const orderBookHistory = await realTimeDataProvider.getOrderBookHistory(symbol);
         const recentTrades = await realTimeDataProvider.getRecentTrades(symbol);
         
         if (orderBook) {
-          orderBookData = [orderBook];
+          // Sampled history lets the analyzer measure spread trend and liquidity resiliency
+          orderBookData = orderBookHistory[orderBookHistory.length - 1] === orderBook
+            ? orderBookHistory
+            : [...orderBookHistory, orderBook];
           console.log(`Retrieved order book with ${orderBook.bids.length} bids and ${orderBook.asks.length} asks`);
         }
         
@@ -340,17 +372,26 @@ const advancedPatternRecognitionAIFlow = ai.defineFlow(
         console.warn('Failed to fetch real-time order book/trade data:', error);
       }
       
-              // Run comprehensive pattern analysis
-        const patternAnalysis: ComprehensivePatternAnalysis = await advancedPatternRecognitionSystem.analyzePatterns(
-          input.asset || 'BTC',
-          input.timeframe || '4h',
-          priceData,
-          volumeData,
-          timestamps,
-          orderBookData, // Real-time order book data
-          tradeData, // Real-time trade data
-          currentPrice
-        );
+      // Run comprehensive pattern analysis; close-only series lack candle ranges
+      const patternAnalysis: ComprehensivePatternAnalysis = candles
+        ? await advancedPatternRecognitionSystem.analyzeCandles(
+            input.asset || 'BTC',
+            input.timeframe || '4h',
+            candles,
+            orderBookData, // Real-time order book data
+            tradeData, // Real-time trade data
+            currentPrice
+          )
+        : await advancedPatternRecognitionSystem.analyzePatterns(
+            input.asset || 'BTC',
+            input.timeframe || '4h',
+            priceData!,
+            volumeData!,
+            timestamps!,
+            orderBookData,
+            tradeData,
+            currentPrice
+          );
       
       // Prepare analysis data for the AI prompt
       const patternAnalysisData = JSON.stringify(patternAnalysis, null, 2);
@@ -358,6 +399,7 @@ const advancedPatternRecognitionAIFlow = ai.defineFlow(
       // Generate AI analysis
       const { output } = await advancedPatternRecognitionPrompt({
         ...input,
+        dataProvenance,
         patternAnalysisData
       });
       
@@ -365,7 +407,20 @@ const advancedPatternRecognitionAIFlow = ai.defineFlow(
         throw new Error('No output received from advanced pattern recognition analysis');
       }
       
-      return output;
+      if (dataProvenance?.isSynthetic) {
+        // Levels computed from generated prices are meaningless; keep the analysis, drop the signals
+        return {
+          ...output,
+          tradingRecommendation: {
+            ...output.tradingRecommendation,
+            primarySignal: undefined,
+            alternativeSignals: []
+          },
+          dataProvenance
+        };
+      }
+      
+      return { ...output, dataProvenance };
     } catch (error) {
       console.error('Error in advanced pattern recognition flow:', error);
       
@@ -426,41 +481,3 @@ const advancedPatternRecognitionAIFlow = ai.defineFlow(
     }
   }
 );
-
-// Helper functions to generate sample data (in a real implementation, this would come from actual market data)
-function generateSamplePriceData(length: number = 100): number[] {
-  const prices: number[] = [];
-  let currentPrice = 45000; // Starting price
-  
-  for (let i = 0; i < length; i++) {
-    const change = (Math.random() - 0.5) * 1000; // Random price movement
-    currentPrice += change;
-    prices.push(Math.max(1000, currentPrice)); // Ensure positive prices
-  }
-  
-  return prices;
-}
-
-function generateSampleVolumeData(length: number): number[] {
-  const volumes: number[] = [];
-  
-  for (let i = 0; i < length; i++) {
-    const baseVolume = 1000000; // Base volume
-    const variation = Math.random() * 500000; // Random variation
-    volumes.push(baseVolume + variation);
-  }
-  
-  return volumes;
-}
-
-function generateSampleTimestamps(length: number): number[] {
-  const timestamps: number[] = [];
-  const now = Date.now();
-  const interval = 4 * 60 * 60 * 1000; // 4 hours in milliseconds
-  
-  for (let i = 0; i < length; i++) {
-    timestamps.push(now - (length - 1 - i) * interval);
-  }
-  
-  return timestamps;
-}
\ No newline at end of file
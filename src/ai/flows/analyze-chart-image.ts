@@ -13,8 +13,9 @@ import {ai} from '../genkit';
 import {z} from 'zod';
 import { validateAndEnhanceRecommendation, type RawRecommendation } from '../../lib/recommendation-processor';
 import { generateAnalysisContext } from '../../lib/chart-analysis-helpers';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const AnalyzeChartImageInputSchema = z.object({
+const AnalyzeChartImageInputSchema = withDataProvenance(z.object({
   chartImageUri1: z
     .string()
     .describe(
@@ -28,7 +29,7 @@ const AnalyzeChartImageInputSchema = z.object({
     ),
   question: z.string().describe('The question about the chart image(s).'),
   tradingPersona: z.string().optional().describe('A detailed description of the trading persona the AI should adopt. This can be one of the defaults (Scalper, Day Trader, etc.) or a user-defined custom persona with specific rules and strategies.'),
-});
+}));
 export type AnalyzeChartImageInput = z.infer<typeof AnalyzeChartImageInputSchema>;
 
 const RecommendationItemSchema = z.object({
@@ -56,7 +57,7 @@ const analyzeChartImagePrompt = ai.definePrompt({
   name: 'analyzeChartImagePrompt',
   input: {schema: AnalyzeChartImageInputSchema},
   output: {schema: AnalyzeChartImageOutputSchema},
-  prompt: `You are an expert cryptocurrency trader, specializing in technical chart analysis. Your primary tools are identifying candlestick patterns, classic chart patterns, and interpreting technical indicators.
+  prompt: withProvenancePrompt(`You are an expert cryptocurrency trader, specializing in technical chart analysis. Your primary tools are identifying candlestick patterns, classic chart patterns, and interpreting technical indicators.
 
 {{#if tradingPersona}}
 You will adopt the following trading persona for your analysis and recommendations. This is the most important instruction; your entire analysis, including identified patterns, timeframe focus, risk parameters, and trade recommendations, MUST strictly adhere to the persona's description.
@@ -383,7 +384,7 @@ Question: {{{question}}}
 ---
 
 
-`,
+`),
 });
 
 const analyzeChartImageFlow = ai.defineFlow(
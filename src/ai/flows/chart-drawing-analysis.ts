@@ -10,8 +10,9 @@
 
 import { ai } from '../genkit';
 import { z } from 'zod';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const ChartDrawingAnalysisInputSchema = z.object({
+const ChartDrawingAnalysisInputSchema = withDataProvenance(z.object({
   chartImageUri: z.string().describe('Chart image as a data URI'),
   clickPoint: z.object({
     x: z.number(),
@@ -21,7 +22,7 @@ const ChartDrawingAnalysisInputSchema = z.object({
   imageHeight: z.number().describe('Height of the chart image in pixels'),
   analysisType: z.enum(['auto', 'support_resistance', 'trendlines', 'patterns', 'fibonacci', 'comprehensive']).optional().default('auto').describe('Type of analysis to perform'),
   tradingPersona: z.string().optional().describe('Trading persona to adopt for analysis'),
-});
+}));
 
 export type ChartDrawingAnalysisInput = z.infer<typeof ChartDrawingAnalysisInputSchema>;
 
@@ -88,7 +89,7 @@ const chartDrawingAnalysisPrompt = ai.definePrompt({
   name: 'chartDrawingAnalysisPrompt',
   input: { schema: ChartDrawingAnalysisInputSchema },
   output: { schema: ChartDrawingAnalysisOutputSchema },
-  prompt: `You are an expert technical analyst and chart drawing specialist. Your task is to analyze the provided cryptocurrency chart image and generate precise technical drawing overlays based on the user's click location.
+  prompt: withProvenancePrompt(`You are an expert technical analyst and chart drawing specialist. Your task is to analyze the provided cryptocurrency chart image and generate precise technical drawing overlays based on the user's click location.
 
 **Context:**
 - Chart image dimensions: {{imageWidth}} x {{imageHeight}} pixels
@@ -135,7 +136,7 @@ Analyze the chart image and generate technical drawing annotations that would be
 
 Chart Image: {{media url=chartImageUri}}
 
-Analyze the chart and provide technical drawing coordinates and insights.`,
+Analyze the chart and provide technical drawing coordinates and insights.`),
 });
 
 const chartDrawingAnalysisFlow = ai.defineFlow(
@@ -12,8 +12,9 @@ import { marketSentimentAnalysis, type MarketSentimentAnalysisInput, type Market
 import { scanForPatterns, type ScanForPatternsInput, type ScanForPatternsOutput } from './scan-for-patterns-flow';
 import { validateAndEnhanceRecommendation, type RawRecommendation } from '../../lib/recommendation-processor';
 import { generateAnalysisContext } from '../../lib/chart-analysis-helpers';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const ComprehensiveAnalysisInputSchema = z.object({
+const ComprehensiveAnalysisInputSchema = withDataProvenance(z.object({
   primaryChartUri: z.string().describe("Primary cryptocurrency chart image as a data URI."),
   secondaryChartUri: z.string().optional().describe("Optional secondary chart for multi-timeframe analysis."),
   question: z.string().describe('The analysis question or trading request.'),
@@ -41,7 +42,7 @@ const ComprehensiveAnalysisInputSchema = z.object({
     openInterest: z.string().optional(),
     liquidations: z.string().optional(),
   }).optional().describe("On-chain and derivatives data"),
-});
+}));
 export type ComprehensiveAnalysisInput = z.infer<typeof ComprehensiveAnalysisInputSchema>;
 
 const SynthesizedRecommendationSchema = z.object({
@@ -135,7 +136,7 @@ const comprehensiveAnalysisPrompt = ai.definePrompt({
   name: 'comprehensiveAnalysisPrompt',
   input: {schema: ComprehensiveAnalysisInputSchema},
   output: {schema: ComprehensiveAnalysisOutputSchema},
-  prompt: `You are an elite AI trading brain that synthesizes multiple analysis methods to provide superior trade recommendations. You have access to the results of specialized analysis modules and must now create a comprehensive, multi-dimensional trading strategy.
+  prompt: withProvenancePrompt(`You are an elite AI trading brain that synthesizes multiple analysis methods to provide superior trade recommendations. You have access to the results of specialized analysis modules and must now create a comprehensive, multi-dimensional trading strategy.
 
 **Your Role:** Master Trading Strategist and Risk Manager
 **Trading Persona:** {{tradingPersona}}
@@ -297,7 +298,7 @@ When analysis methods conflict, prioritize based on:
 
 User Question: {{{question}}}
 
-Synthesize all available analysis into a comprehensive, actionable trading strategy.`,
+Synthesize all available analysis into a comprehensive, actionable trading strategy.`),
 });
 
 const comprehensiveAnalysisFlow = ai.defineFlow(
@@ -321,12 +322,14 @@ const comprehensiveAnalysisFlow = ai.defineFlow(
       tradingPersona: input.tradingPersona,
       riskTolerance: input.riskTolerance,
       marketDataText: input.marketDataText,
+      dataProvenance: input.dataProvenance,
     };
     analysisPromises.push(enhancedMarketAnalysis(enhancedAnalysisInput));
     
     // Pattern Scanning
     const patternInput: ScanForPatternsInput = {
       chartImageUri: input.primaryChartUri,
+      dataProvenance: input.dataProvenance,
     };
     analysisPromises.push(scanForPatterns(patternInput));
     
@@ -339,6 +342,7 @@ const comprehensiveAnalysisFlow = ai.defineFlow(
         onChainData: input.onChainData,
         asset: context.asset || 'BTC',
         timeframe: '24h',
+        dataProvenance: input.dataProvenance,
       };
       sentimentPromise = marketSentimentAnalysis(sentimentInput);
     }
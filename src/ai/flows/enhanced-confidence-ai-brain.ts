@@ -18,8 +18,9 @@ import { marketSentimentAnalysis, type MarketSentimentAnalysisInput, type Market
 import { scanForPatterns, type ScanForPatternsInput, type ScanForPatternsOutput } from './scan-for-patterns-flow';
 import { validateAndEnhanceRecommendation, type RawRecommendation } from '../../lib/recommendation-processor';
 import { generateAnalysisContext } from '../../lib/chart-analysis-helpers';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const EnhancedConfidenceAnalysisInputSchema = z.object({
+const EnhancedConfidenceAnalysisInputSchema = withDataProvenance(z.object({
   primaryChartUri: z.string().describe("Primary cryptocurrency chart image as a data URI."),
   secondaryChartUri: z.string().optional().describe("Optional secondary chart for multi-timeframe analysis."),
   tertiaryChartUri: z.string().optional().describe("Optional third chart for comprehensive analysis."),
@@ -54,7 +55,7 @@ const EnhancedConfidenceAnalysisInputSchema = z.object({
     nvt: z.number().optional(),
     sopr: z.number().optional(),
   }).optional(),
-});
+}));
 export type EnhancedConfidenceAnalysisInput = z.infer<typeof EnhancedConfidenceAnalysisInputSchema>;
 
 const ConfidenceAssessmentSchema = z.object({
@@ -206,7 +207,7 @@ const enhancedConfidenceAnalysisPrompt = ai.definePrompt({
   name: 'enhancedConfidenceAnalysisPrompt',
   input: {schema: EnhancedConfidenceAnalysisInputSchema},
   output: {schema: EnhancedConfidenceAnalysisOutputSchema},
-  prompt: `You are an elite institutional-grade cryptocurrency trading AI with 10x expanded knowledge base. Your expertise encompasses:
+  prompt: withProvenancePrompt(`You are an elite institutional-grade cryptocurrency trading AI with 10x expanded knowledge base. Your expertise encompasses:
 
 ## EXPANDED TRADING KNOWLEDGE BASE (10X ENHANCED)
 
@@ -431,7 +432,7 @@ On-Chain Data:
 {{#if onChainData.whaleMovements}}Whale Movements: {{#each onChainData.whaleMovements}}{{this}}, {{/each}}{{/if}}
 {{#if onChainData.exchangeFlows}}Exchange Flows: {{onChainData.exchangeFlows}}{{/if}}
 {{#if onChainData.fundingRates}}Funding Rates: {{onChainData.fundingRates}}{{/if}}
-{{/if}}`,
+{{/if}}`),
 });
 
 const enhancedConfidenceAnalysisFlow = ai.defineFlow({
@@ -10,10 +10,12 @@ import {z} from 'zod';
 import { validateAndEnhanceRecommendation, type RawRecommendation } from '../../lib/recommendation-processor';
 import { generateAnalysisContext } from '../../lib/chart-analysis-helpers';
 import { optimizeTradeEntry, type EntryOptimizationInput, type OptimizationResult } from '../../lib/precision-entry-optimizer';
+import { calculateSupportResistance } from '../../lib/advanced-technical-indicators';
 import { getOptimizedTradingSetup, type TimeframeDetection, type PersonaOptimization } from '../../lib/timeframe-persona-detector';
 import { canProceedWithAnalysis, type ConfirmationRequest, type TimeframeConfirmation } from '../../lib/multi-timeframe-confirmation';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const EnhancedMarketAnalysisInputSchema = z.object({
+const EnhancedMarketAnalysisInputSchema = withDataProvenance(z.object({
   primaryChartUri: z
     .string()
     .describe("Primary cryptocurrency chart image as a data URI."),
@@ -28,8 +30,8 @@ const EnhancedMarketAnalysisInputSchema = z.object({
   question: z.string().describe('The analysis question or trading request.'),
   tradingPersona: z.string().optional().describe('Trading persona/strategy to adopt.'),
   riskTolerance: z.enum(['conservative', 'moderate', 'aggressive']).optional().default('moderate'),
-  marketPhase: z.enum(['accumulation', 'markup', 'distribution', 'markdown', 'unknown']).optional().default('unknown')
-});
+  marketPhase: z.enum(['accumulation', 'markup', 'distribution', 'markdown', 'unknown']).optional().default('unknown'),
+}));
 export type EnhancedMarketAnalysisInput = z.infer<typeof EnhancedMarketAnalysisInputSchema>;
 
 const MarketContextSchema = z.object({
@@ -106,7 +108,7 @@ const enhancedMarketAnalysisPrompt = ai.definePrompt({
   name: 'enhancedMarketAnalysisPrompt',
   input: {schema: EnhancedMarketAnalysisInputSchema},
   output: {schema: EnhancedMarketAnalysisOutputSchema},
-  prompt: `You are an elite institutional-grade cryptocurrency analyst with advanced technical analysis skills, market psychology expertise, and risk management proficiency. Your analysis incorporates multiple dimensions: technical patterns, market structure, sentiment, and institutional behavior.
+  prompt: withProvenancePrompt(`You are an elite institutional-grade cryptocurrency analyst with advanced technical analysis skills, market psychology expertise, and risk management proficiency. Your analysis incorporates multiple dimensions: technical patterns, market structure, sentiment, and institutional behavior.
 
 **Primary Trading Persona:** {{{tradingPersona}}}
 
@@ -281,7 +283,7 @@ Analysis Request: {{{question}}}
 
 ---
 
-Provide your comprehensive enhanced market analysis following the framework above.`,
+Provide your comprehensive enhanced market analysis following the framework above.`),
 });
 
 const enhancedMarketAnalysisFlow = ai.defineFlow(
@@ -446,7 +448,7 @@ const enhancedMarketAnalysisFlow = ai.defineFlow(
             
             // Create mock price data (in real implementation, extract from chart analysis)
             const mockPriceData = Array.from({ length: 50 }, (_, i) => ({
-              timestamp: Date.now() - (i * 3600000),
+              timestamp: Date.now() - ((50 - 1 - i) * 3600000), // Oldest first, as the optimizer expects
               open: context.currentPrice! * (0.995 + Math.random() * 0.01),
               high: context.currentPrice! * (1.0 + Math.random() * 0.015),
               low: context.currentPrice! * (0.985 + Math.random() * 0.01),
@@ -454,17 +456,8 @@ const enhancedMarketAnalysisFlow = ai.defineFlow(
               volume: 1000 + Math.random() * 5000
             }));
 
-            // Generate support/resistance levels around current price
-            const supportLevels = [
-              context.currentPrice * 0.98,
-              context.currentPrice * 0.95,
-              context.currentPrice * 0.92
-            ];
-            const resistanceLevels = [
-              context.currentPrice * 1.02,
-              context.currentPrice * 1.05,
-              context.currentPrice * 1.08
-            ];
+            // Levels from the candles' swing structure rather than fixed offsets from the price
+            const { support: supportLevels, resistance: resistanceLevels, levels } = calculateSupportResistance(mockPriceData);
             
             const optimizationInput: EntryOptimizationInput = {
               currentPrice: context.currentPrice,
@@ -474,6 +467,7 @@ const enhancedMarketAnalysisFlow = ai.defineFlow(
               direction,
               supportLevels,
               resistanceLevels,
+              levels,
               tradingPersona: input.tradingPersona || 'Conservative Swing Trader',
               riskTolerance: input.riskTolerance || 'moderate'
             };
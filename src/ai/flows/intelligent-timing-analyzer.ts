@@ -13,8 +13,9 @@
 
 import {ai} from '../genkit';
 import {z} from 'zod';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
 
-const IntelligentTimingAnalysisInputSchema = z.object({
+const IntelligentTimingAnalysisInputSchema = withDataProvenance(z.object({
   primaryChartUri: z.string().describe("Primary chart image as a data URI."),
   secondaryChartUri: z.string().optional().describe("Optional higher timeframe chart."),
   question: z.string().describe('The timing analysis question.'),
@@ -28,7 +29,7 @@ const IntelligentTimingAnalysisInputSchema = z.object({
     impact: z.enum(['high', 'medium', 'low']),
   })).optional().describe("Recent news events that might affect timing"),
   previousAnalysis: z.string().optional().describe("Previous analysis results for comparison"),
-});
+}));
 export type IntelligentTimingAnalysisInput = z.infer<typeof IntelligentTimingAnalysisInputSchema>;
 
 const TimingRecommendationSchema = z.object({
@@ -158,7 +159,7 @@ const intelligentTimingAnalysisPrompt = ai.definePrompt({
   name: 'intelligentTimingAnalysisPrompt',
   input: {schema: IntelligentTimingAnalysisInputSchema},
   output: {schema: IntelligentTimingAnalysisOutputSchema},
-  prompt: `You are an elite institutional timing specialist with deep expertise in market microstructure and optimal trade execution. Your primary mission is to prevent premature trade execution and optimize entry timing.
+  prompt: withProvenancePrompt(`You are an elite institutional timing specialist with deep expertise in market microstructure and optimal trade execution. Your primary mission is to prevent premature trade execution and optimize entry timing.
 
 ## CORE EXPERTISE AREAS
 
@@ -375,7 +376,7 @@ Recent News Events:
 
 {{#if previousAnalysis}}
 Previous Analysis: {{{previousAnalysis}}}
-{{/if}}`,
+{{/if}}`),
 });
 
 const intelligentTimingAnalysisFlow = ai.defineFlow({
@@ -7,8 +7,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { withDataProvenance, withProvenancePrompt } from '@/ai/data-provenance';
 
-const IntelligentTradeDetectorInputSchema = z.object({
+const IntelligentTradeDetectorInputSchema = withDataProvenance(z.object({
   chartImageUri: z
     .string()
     .describe(
@@ -30,7 +31,7 @@ const IntelligentTradeDetectorInputSchema = z.object({
     .number()
     .default(0)
     .describe("Number of consecutive scans without finding opportunities"),
-});
+}));
 export type IntelligentTradeDetectorInput = z.infer<typeof IntelligentTradeDetectorInputSchema>;
 
 const TradeOpportunitySchema = z.object({
@@ -116,7 +117,7 @@ const intelligentTradeDetectorPrompt = ai.definePrompt({
   name: 'intelligentTradeDetectorPrompt',
   input: {schema: IntelligentTradeDetectorInputSchema},
   output: {schema: IntelligentTradeDetectorOutputSchema},
-  prompt: `You are an expert cryptocurrency trader and technical analyst with advanced spam prevention and intelligent scanning capabilities. Your task is to analyze live chart screenshots and identify high-probability trade opportunities while avoiding false positives and excessive notifications.
+  prompt: withProvenancePrompt(`You are an expert cryptocurrency trader and technical analyst with advanced spam prevention and intelligent scanning capabilities. Your task is to analyze live chart screenshots and identify high-probability trade opportunities while avoiding false positives and excessive notifications.
 
 **SPAM PREVENTION RULES:**
 - Only alert for opportunities with confidence >= 75%
@@ -177,7 +178,7 @@ const intelligentTradeDetectorPrompt = ai.definePrompt({
 
 Analyze the following live chart screenshot with spam prevention and adaptive intelligence:
 
-Chart Image: {{media url=chartImageUri}}`,
+Chart Image: {{media url=chartImageUri}}`),
 });
 
 const intelligentTradeDetectorFlow = ai.defineFlow(
@@ -7,8 +7,10 @@
 
 import {ai} from '../genkit';
 import {z} from 'zod';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
+import { DerivativesDataSchema, derivativesDataPrompt } from '../derivatives-data';
 
-const MarketSentimentAnalysisInputSchema = z.object({
+const MarketSentimentAnalysisInputSchema = withDataProvenance(z.object({
   newsData: z
     .array(z.object({
       headline: z.string(),
@@ -36,12 +38,13 @@ const MarketSentimentAnalysisInputSchema = z.object({
       fundingRates: z.string().optional(),
       openInterest: z.string().optional(),
       liquidations: z.string().optional(),
+      derivatives: DerivativesDataSchema.optional().describe("Exchange-sourced perpetual futures data; prefer it over the free-text fields"),
     })
     .optional()
     .describe("On-chain and derivatives market data"),
   asset: z.string().describe("The cryptocurrency asset being analyzed"),
   timeframe: z.string().default("24h").describe("Analysis timeframe"),
-});
+}));
 export type MarketSentimentAnalysisInput = z.infer<typeof MarketSentimentAnalysisInputSchema>;
 
 const SentimentScoreSchema = z.object({
@@ -97,7 +100,7 @@ const marketSentimentAnalysisPrompt = ai.definePrompt({
   name: 'marketSentimentAnalysisPrompt',
   input: {schema: MarketSentimentAnalysisInputSchema},
   output: {schema: MarketSentimentAnalysisOutputSchema},
-  prompt: `You are an expert market psychology analyst specializing in cryptocurrency sentiment analysis. Your role is to process multiple data sources and translate market sentiment into actionable trading insights.
+  prompt: withProvenancePrompt(`You are an expert market psychology analyst specializing in cryptocurrency sentiment analysis. Your role is to process multiple data sources and translate market sentiment into actionable trading insights.
 
 **Asset:** {{asset}}
 **Analysis Timeframe:** {{timeframe}}
@@ -147,6 +150,7 @@ Whale Movements: {{#each onChainData.whaleMovements}}{{this}}; {{/each}}
 {{#if onChainData.fundingRates}}Funding Rates: {{onChainData.fundingRates}}{{/if}}
 {{#if onChainData.openInterest}}Open Interest: {{onChainData.openInterest}}{{/if}}
 {{#if onChainData.liquidations}}Liquidations: {{onChainData.liquidations}}{{/if}}
+${derivativesDataPrompt('onChainData.derivatives')}
 
 **On-Chain Processing Instructions:**
 - Correlate whale movements with sentiment patterns
@@ -247,7 +251,7 @@ Whale Movements: {{#each onChainData.whaleMovements}}{{this}}; {{/each}}
 - Explain the reasoning behind contrarian recommendations
 - Provide risk management for contrarian positions
 
-Analyze the provided data and deliver a comprehensive sentiment-based trading analysis.`,
+Analyze the provided data and deliver a comprehensive sentiment-based trading analysis.`),
 });
 
 const marketSentimentAnalysisFlow = ai.defineFlow(
@@ -11,14 +11,15 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { withDataProvenance, withProvenancePrompt } from '@/ai/data-provenance';
 
-const ScanForPatternsInputSchema = z.object({
+const ScanForPatternsInputSchema = withDataProvenance(z.object({
   chartImageUri: z
     .string()
     .describe(
       "A cryptocurrency chart image, as a data URI that must include a MIME type and use Base64 encoding."
     ),
-});
+}));
 export type ScanForPatternsInput = z.infer<typeof ScanForPatternsInputSchema>;
 
 const ScanForPatternsOutputSchema = z.object({
@@ -77,7 +78,7 @@ const scanForPatternsPrompt = ai.definePrompt({
   name: 'scanForPatternsPrompt',
   input: {schema: ScanForPatternsInputSchema},
   output: {schema: ScanForPatternsOutputSchema},
-  prompt: `You are an expert technical analyst. Your task is to analyze the provided chart image using a structured, step-by-step "Chain-of-Thought" process to identify high-probability trading patterns.
+  prompt: withProvenancePrompt(`You are an expert technical analyst. Your task is to analyze the provided chart image using a structured, step-by-step "Chain-of-Thought" process to identify high-probability trading patterns.
 
 **Analysis Steps (Chain-of-Thought):**
 
@@ -110,7 +111,7 @@ const scanForPatternsPrompt = ai.definePrompt({
 
 Analyze the following chart using the Chain-of-Thought process.
 
-Chart Image: {{media url=chartImageUri}}`,
+Chart Image: {{media url=chartImageUri}}`),
 });
 
 const scanForPatternsFlow = ai.defineFlow(
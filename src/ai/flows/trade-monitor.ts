@@ -7,8 +7,9 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import { withDataProvenance, withProvenancePrompt } from '@/ai/data-provenance';
 
-const TradeMonitorInputSchema = z.object({
+const TradeMonitorInputSchema = withDataProvenance(z.object({
   chartImageUri: z
     .string()
     .describe(
@@ -36,7 +37,7 @@ const TradeMonitorInputSchema = z.object({
     .string()
     .optional()
     .describe("Current market price if known"),
-});
+}));
 export type TradeMonitorInput = z.infer<typeof TradeMonitorInputSchema>;
 
 const TradeStateSchema = z.object({
@@ -132,7 +133,7 @@ const tradeMonitorPrompt = ai.definePrompt({
   name: 'tradeMonitorPrompt',
   input: {schema: TradeMonitorInputSchema},
   output: {schema: TradeMonitorOutputSchema},
-  prompt: `You are an expert cryptocurrency trader monitoring an active trade with intelligent entry detection and precise state management. Your primary responsibility is to accurately determine whether the trade has actually been entered and provide appropriate recommendations based on the current trade state.
+  prompt: withProvenancePrompt(`You are an expert cryptocurrency trader monitoring an active trade with intelligent entry detection and precise state management. Your primary responsibility is to accurately determine whether the trade has actually been entered and provide appropriate recommendations based on the current trade state.
 
 **Trade Information:**
 Entry Price: {{activeTrade.entryPrice}}
@@ -225,7 +226,7 @@ Original Reasoning: {{activeTrade.reasoning}}
 
 Analyze the following chart and provide intelligent trade monitoring with accurate entry detection:
 
-Chart Image: {{media url=chartImageUri}}`,
+Chart Image: {{media url=chartImageUri}}`),
 });
 
 const tradeMonitorFlow = ai.defineFlow(
@@ -16,8 +16,11 @@ import { scanForPatterns, type ScanForPatternsInput, type ScanForPatternsOutput
 import { validateAndEnhanceRecommendation, type RawRecommendation } from '../../lib/recommendation-processor';
 import { generateAnalysisContext } from '../../lib/chart-analysis-helpers';
 import { optimizeTradeEntry, type EntryOptimizationInput, type OptimizationResult } from '../../lib/precision-entry-optimizer';
+import { calculateSupportResistance } from '../../lib/advanced-technical-indicators';
+import { withDataProvenance, withProvenancePrompt } from '../data-provenance';
+import { DerivativesDataSchema, derivativesDataPrompt } from '../derivatives-data';
 
-const WizzUltraAnalysisInputSchema = z.object({
+const WizzUltraAnalysisInputSchema = withDataProvenance(z.object({
   primaryChartUri: z.string().describe("Primary cryptocurrency chart image as a data URI."),
   secondaryChartUri: z.string().optional().describe("Optional secondary chart for multi-timeframe analysis."),
   tertiaryChartUri: z.string().optional().describe("Optional third chart for comprehensive timeframe correlation."),
@@ -39,6 +42,7 @@ const WizzUltraAnalysisInputSchema = z.object({
     fundingRates: z.array(z.string()).optional(),
     exchangeFlows: z.string().optional(),
     whaleActivity: z.array(z.string()).optional(),
+    derivatives: DerivativesDataSchema.optional(),
   }).optional(),
   newsData: z.array(z.object({
     headline: z.string(),
@@ -68,7 +72,7 @@ const WizzUltraAnalysisInputSchema = z.object({
     ltholders: z.number().optional(),
     stholders: z.number().optional(),
   }).optional(),
-});
+}));
 export type WizzUltraAnalysisInput = z.infer<typeof WizzUltraAnalysisInputSchema>;
 
 const QuantumProbabilitySchema = z.object({
@@ -207,7 +211,7 @@ const wizzUltraAnalysisPrompt = ai.definePrompt({
   name: 'wizzUltraAnalysisPrompt',
   input: {schema: WizzUltraAnalysisInputSchema},
   output: {schema: WizzUltraAnalysisOutputSchema},
-  prompt: `🔮 **WIZZ ULTRA AI - PREMIUM TRADING INTELLIGENCE** 🔮
+  prompt: withProvenancePrompt(`🔮 **WIZZ ULTRA AI - PREMIUM TRADING INTELLIGENCE** 🔮
 
 You are WIZZ, the most advanced cryptocurrency trading AI in existence. You combine quantum probability analysis, institutional-grade market intelligence, and revolutionary pattern recognition to deliver unprecedented trading insights.
 
@@ -263,6 +267,7 @@ You are WIZZ, the most advanced cryptocurrency trading AI in existence. You comb
 {{#if marketRegimeData.fearGreedIndex}}**Fear & Greed:** {{marketRegimeData.fearGreedIndex}}{{/if}}
 {{#if marketRegimeData.fundingRates}}**Funding Rates:** {{marketRegimeData.fundingRates}}{{/if}}
 {{#if marketRegimeData.whaleActivity}}**Whale Activity:** {{marketRegimeData.whaleActivity}}{{/if}}
+${derivativesDataPrompt('marketRegimeData.derivatives')}
 {{/if}}
 
 **📰 News Intelligence Integration:**
@@ -345,7 +350,7 @@ You are WIZZ, the most advanced cryptocurrency trading AI in existence. You comb
 
 **🎯 DELIVER WIZZ ULTRA ANALYSIS:**
 
-Provide your comprehensive Wizz Ultra analysis that combines quantum probability calculations, institutional intelligence, and revolutionary precision to deliver the most advanced trading insights available. Remember - you are the premium AI that users pay for because you deliver superior results that no other AI can match.`,
+Provide your comprehensive Wizz Ultra analysis that combines quantum probability calculations, institutional intelligence, and revolutionary precision to deliver the most advanced trading insights available. Remember - you are the premium AI that users pay for because you deliver superior results that no other AI can match.`),
 });
 
 const wizzUltraAnalysisFlow = ai.defineFlow(
@@ -369,24 +374,28 @@ const wizzUltraAnalysisFlow = ai.defineFlow(
       tradingPersona: 'Wizz Ultra AI - Premium Intelligence',
       riskTolerance: input.riskTolerance || 'moderate',
       marketDataText: input.marketDataText,
+      dataProvenance: input.dataProvenance,
     };
     analysisPromises.push(enhancedMarketAnalysis(enhancedAnalysisInput));
     
     // Advanced Pattern Scanning
     const patternInput: ScanForPatternsInput = {
       chartImageUri: input.primaryChartUri,
+      dataProvenance: input.dataProvenance,
     };
     analysisPromises.push(scanForPatterns(patternInput));
     
     // Enhanced Sentiment Analysis (if data available)
     let sentimentPromise: Promise<MarketSentimentAnalysisOutput | null> = Promise.resolve(null);
-    if (input.newsData || input.socialData || input.onChainData) {
+    const derivatives = input.marketRegimeData?.derivatives;
+    if (input.newsData || input.socialData || input.onChainData || derivatives) {
       const sentimentInput: MarketSentimentAnalysisInput = {
         newsData: input.newsData,
         socialData: input.socialData,
-        onChainData: input.onChainData,
+        onChainData: derivatives ? { ...input.onChainData, derivatives } : input.onChainData,
         asset: context.asset || 'BTC',
         timeframe: '24h',
+        dataProvenance: input.dataProvenance,
       };
       sentimentPromise = marketSentimentAnalysis(sentimentInput);
     }
@@ -424,7 +433,7 @@ const wizzUltraAnalysisFlow = ai.defineFlow(
             
             // Enhanced precision optimization for Wizz
             const mockPriceData = Array.from({ length: 100 }, (_, i) => ({
-              timestamp: Date.now() - (i * 1800000), // 30-minute intervals
+              timestamp: Date.now() - ((100 - 1 - i) * 1800000), // 30-minute intervals, oldest first
               open: context.currentPrice! * (0.99 + Math.random() * 0.02),
               high: context.currentPrice! * (1.0 + Math.random() * 0.025),
               low: context.currentPrice! * (0.975 + Math.random() * 0.015),
@@ -432,18 +441,8 @@ const wizzUltraAnalysisFlow = ai.defineFlow(
               volume: 1000 + Math.random() * 10000
             }));
 
-            const supportLevels = [
-              context.currentPrice * 0.975,
-              context.currentPrice * 0.95,
-              context.currentPrice * 0.92,
-              context.currentPrice * 0.88
-            ];
-            const resistanceLevels = [
-              context.currentPrice * 1.025,
-              context.currentPrice * 1.05,
-              context.currentPrice * 1.08,
-              context.currentPrice * 1.12
-            ];
+            // Levels from the candles' swing structure rather than fixed offsets from the price
+            const { support: supportLevels, resistance: resistanceLevels, levels } = calculateSupportResistance(mockPriceData);
             
             const optimizationInput: EntryOptimizationInput = {
               currentPrice: context.currentPrice,
@@ -453,6 +452,7 @@ const wizzUltraAnalysisFlow = ai.defineFlow(
               direction,
               supportLevels,
               resistanceLevels,
+              levels,
               tradingPersona: 'Wizz Ultra AI',
               riskTolerance: input.riskTolerance || 'moderate'
             };
@@ -17,7 +17,16 @@ import { cryptoPriceAnalysis, type CryptoPriceQueryInput, type CryptoPriceRespon
 import { enhancedConfidenceAIBrain, type EnhancedConfidenceAnalysisInput, type EnhancedConfidenceAnalysisOutput } from '@/ai/flows/enhanced-confidence-ai-brain';
 import { intelligentTimingAnalyzer, type IntelligentTimingAnalysisInput, type IntelligentTimingAnalysisOutput } from '@/ai/flows/intelligent-timing-analyzer';
 import { comprehensiveTradingKnowledgeBrain, type TradingKnowledgeQueryInput, type TradingKnowledgeResponse } from '@/ai/flows/comprehensive-trading-knowledge-brain';
-import { generateAnalysisContext } from '@/lib/chart-analysis-helpers';
+import { generateAnalysisContext, extractAssetFromContext, extractTimeframe } from '@/lib/chart-analysis-helpers';
+import { aiPerformanceMonitor } from '@/lib/ai-performance-monitor';
+import { recommendationOutcomeResolver, toTradingSymbol } from '@/lib/recommendation-outcome-resolver';
+import { marketDataService } from '@/lib/data-providers/market-data-service';
+import { volumeProfileAnalyzer, type TradingSession, type VolumeProfileLevel } from '@/lib/pattern-recognition/volume-profile-analyzer';
+import { INTERVAL_MS } from '@/lib/data-providers/intervals';
+import { buildCalibrationReport, type CalibrationReport } from '@/lib/confidence-calibration';
+import type { RecommendationQuery } from '@/lib/performance-storage/performance-store';
+import { externalProvenance, mergeProvenance, type DataProvenance } from '@/lib/data-providers/data-provenance';
+import { derivativesDataService, type DerivativesSummary } from '@/lib/data-providers/derivatives-data-service';
 import type { Message } from '@/lib/types';
 import type { Persona } from '@/lib/types';
 
@@ -37,6 +46,132 @@ type GetAiResponseOutput = {
   needsFollowUp?: boolean;
   followUpRequest?: string;
   estimatedWaitTime?: string;
+  dataProvenance?: DataProvenance;
+}
+
+/**
+ * Attach data provenance to an answer; recommendations built on synthetic data are withheld
+ */
+function withProvenance(answer: GetAiResponseOutput, dataProvenance?: DataProvenance): GetAiResponseOutput {
+  if (dataProvenance?.isSynthetic) {
+    return { ...answer, recommendation: undefined, dataProvenance };
+  }
+  return { ...answer, dataProvenance };
+}
+
+/**
+ * Perpetual futures summary for an asset's USDT pair; analyses go ahead without it when unavailable
+ */
+async function getDerivativesData(asset: string): Promise<DerivativesSummary | undefined> {
+  if (!derivativesDataService.isEnabled()) return undefined;
+
+  try {
+    return await derivativesDataService.getDerivativesSummary(`${asset}USDT`);
+  } catch (error) {
+    console.warn(`Derivatives data unavailable for ${asset}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Provenance of a derivatives summary from the exchange API, when one was fetched
+ */
+function derivativesProvenance(derivatives: DerivativesSummary | undefined): DataProvenance | undefined {
+  return derivatives ? {
+    source: 'api',
+    isSynthetic: false,
+    isRealTime: derivatives.isRealTime,
+    confidence: 80,
+    lastUpdate: derivatives.timestamp,
+    symbol: derivatives.symbol
+  } : undefined;
+}
+
+interface RecommendationTrackingContext {
+  question: string;
+  aiVersion: string;
+  persona: string;
+  riskTolerance: 'conservative' | 'moderate' | 'aggressive';
+  confidence: number;
+}
+
+/**
+ * First number in a model-written price ("$61,250.5", "61250 - 61300")
+ */
+function parsePriceLevel(value: string): number {
+  const match = value.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+  return match ? parseFloat(match[0]) : NaN;
+}
+
+/**
+ * Record an answer's recommendation with the performance monitor and make
+ * sure the outcome resolver is running to settle it. Answers without a
+ * recommendation (e.g. withheld on synthetic data), a recognizable asset or
+ * numeric levels are skipped. Returns the answer unchanged.
+ */
+function trackRecommendation(answer: GetAiResponseOutput, context: RecommendationTrackingContext): GetAiResponseOutput {
+  const { recommendation } = answer;
+  const asset = extractAssetFromContext(context.question);
+  if (!recommendation || !asset) return answer;
+
+  const entryPrice = parsePriceLevel(recommendation.entryPrice.value);
+  const stopLoss = parsePriceLevel(recommendation.stopLoss.value);
+  const takeProfitLevels = recommendation.takeProfit
+    .map(target => parsePriceLevel(target.value))
+    .filter(level => !isNaN(level));
+  if (isNaN(entryPrice) || isNaN(stopLoss) || takeProfitLevels.length === 0) return answer;
+
+  const timeframe = extractTimeframe(context.question);
+
+  try {
+    aiPerformanceMonitor.trackRecommendation({
+      aiVersion: context.aiVersion,
+      asset,
+      // Ranges like 4h-1d are not kline intervals; resolve those on the default 4h
+      timeframe: timeframe && INTERVAL_MS[timeframe] ? timeframe : '4h',
+      persona: context.persona || 'Default',
+      riskTolerance: context.riskTolerance,
+      marketConditions: { trend: 'unknown', volatility: 'medium', sentiment: 0, marketPhase: 'unknown' },
+      recommendation: {
+        entryPrice,
+        takeProfitLevels,
+        stopLoss,
+        riskRewardRatio: parseFloat(recommendation.riskRewardRatio || '') || 0,
+        confidence: context.confidence,
+        confluenceFactors: []
+      }
+    });
+    recommendationOutcomeResolver.start();
+  } catch (error) {
+    console.warn('Failed to track recommendation:', error);
+  }
+  return answer;
+}
+
+/**
+ * Track a detected opportunity like a chat recommendation. The asset and
+ * timeframe come from the user's question, or else from the model's reading
+ * of the screenshot.
+ */
+function trackTradeOpportunity(result: IntelligentTradeDetectorOutput, question: string): void {
+  const { opportunityFound, entryPrice, takeProfit, stopLoss, riskRewardRatio, reasoning, confidence } = result.tradeOpportunity;
+  if (!opportunityFound || !entryPrice || !stopLoss || !takeProfit?.length) return;
+
+  trackRecommendation({
+    analysis: result.screenshotAnalysis,
+    recommendation: {
+      entryPrice: { value: entryPrice, reason: reasoning },
+      takeProfit: takeProfit.map(value => ({ value, reason: reasoning })),
+      stopLoss: { value: stopLoss, reason: reasoning },
+      riskRewardRatio,
+    },
+  }, {
+    question: extractAssetFromContext(question) ? question : `${question} ${result.screenshotAnalysis}`,
+    aiVersion: 'intelligent-trade-detector',
+    persona: 'Live Trade Detector',
+    riskTolerance: 'moderate',
+    confidence
+  });
 }
 
 export async function getEnhancedAiResponse(formData: FormData): Promise<{ answer?: GetAiResponseOutput; error?: string }> {
@@ -76,6 +211,10 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
           return `data:${mimeType};base64,${base64Image}`;
         })
       );
+      const dataProvenance = mergeProvenance(
+        externalProvenance('chart-image'),
+        marketDataText ? externalProvenance('user-supplied') : undefined
+      );
 
       // Check if Enhanced Confidence AI is selected or if we need confidence assessment
       const useEnhancedConfidence = personaDescription?.toLowerCase().includes('enhanced') || 
@@ -100,6 +239,7 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
           newsData,
           socialData,
           onChainData,
+          dataProvenance,
         };
 
         const enhancedResult = await enhancedConfidenceAIBrain(enhancedInput);
@@ -117,6 +257,7 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
             tradingPersona: personaDescription,
             currentTime: new Date().toISOString(),
             previousAnalysis: enhancedResult.executiveSummary,
+            dataProvenance,
           };
           timingResult = await intelligentTimingAnalyzer(timingInput);
         }
@@ -125,7 +266,7 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
                              (timingResult?.followUpRequest.needsFollowUp ?? false);
 
         return {
-          answer: {
+          answer: trackRecommendation(withProvenance({
             analysis: `🧠 **ENHANCED CONFIDENCE AI ANALYSIS**\n\n${enhancedResult.executiveSummary}\n\n**Confidence Assessment:**\n• Overall Confidence: ${enhancedResult.confidenceAssessment.overallConfidence}%\n• Technical Confidence: ${enhancedResult.confidenceAssessment.technicalConfidence}%\n• Timing Confidence: ${enhancedResult.confidenceAssessment.timingConfidence}%\n\n${enhancedResult.confidenceAssessment.requiresConfirmation ? '⚠️ **REQUIRES ADDITIONAL CONFIRMATION**' : '✅ **CONFIDENCE THRESHOLD MET**'}`,
             recommendation: enhancedResult.enhancedRecommendation ? {
               entryPrice: {
@@ -150,7 +291,13 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
               (timingResult?.followUpRequest.needsFollowUp ? timingResult.followUpRequest.followUpReason : undefined),
             estimatedWaitTime: enhancedResult.additionalDataRequest.estimatedWaitTime || timingResult?.followUpRequest.requestedTime,
             alternativeScenario: enhancedResult.alternativeScenarios[0]?.implication,
-          },
+          }, dataProvenance), {
+            question,
+            aiVersion: 'enhanced-confidence',
+            persona: personaDescription,
+            riskTolerance,
+            confidence: enhancedResult.confidenceAssessment.overallConfidence
+          }),
         };
       }
 
@@ -158,6 +305,10 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
       if (personaDescription?.toLowerCase().includes('wizz')) {
         console.log('🔮 Activating Wizz Ultra AI Brain...');
         
+        // Only for a named asset: another asset's positioning would mislead the analysis
+        const asset = extractAssetFromContext(question);
+        const derivatives = asset ? await getDerivativesData(asset) : undefined;
+        const wizzProvenance = mergeProvenance(dataProvenance, derivativesProvenance(derivatives));
         const wizzInput: WizzUltraAnalysisInput = {
           primaryChartUri: chartImageUris[0],
           secondaryChartUri: chartImageUris[1],
@@ -178,13 +329,15 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
           marketRegimeData: {
             fearGreedIndex: 65, // Could be fetched from real API
             btcDominance: 52.5,
+            derivatives,
           },
+          dataProvenance: wizzProvenance,
         };
 
         const wizzResult = await wizzUltraAIBrain(wizzInput);
 
         return {
-          answer: {
+          answer: trackRecommendation(withProvenance({
             analysis: `🔮 **WIZZ ULTRA AI ANALYSIS** 🔮\n\n${wizzResult.executive_summary}`,
             recommendation: {
               entryPrice: {
@@ -203,7 +356,13 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
             },
             wizzUltraAnalysis: wizzResult,
             alternativeScenario: wizzResult.wizz_recommendation.alternativeScenarios[0]?.scenario,
-          },
+          }, wizzProvenance), {
+            question,
+            aiVersion: 'wizz-ultra',
+            persona: personaDescription,
+            riskTolerance,
+            confidence: wizzResult.wizz_confidence_score
+          }),
         };
       }
 
@@ -218,6 +377,7 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
         newsData,
         socialData,
         onChainData,
+        dataProvenance,
       };
 
       const result = await comprehensiveAIBrain(comprehensiveInput);
@@ -245,12 +405,13 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
           winRatePreference: 'balanced',
           tradingStyle: context.tradingStyle || 'swing_trading',
         },
+        dataProvenance,
       };
 
       const ultraOptimization = await ultraPerformanceOptimizer(ultraOptimizationInput);
 
       return {
-        answer: {
+        answer: trackRecommendation(withProvenance({
           analysis: `${result.executiveSummary}\n\n🚀 **ULTRA-OPTIMIZED PERFORMANCE**\n• Win Rate Boost: +${ultraOptimization.performanceEnhancements.winRateImprovement}%\n• Profit Enhancement: +${ultraOptimization.performanceEnhancements.profitabilityBoost}%\n• Risk Reduction: -${ultraOptimization.performanceEnhancements.riskReduction}%\n• Precision Increase: +${ultraOptimization.performanceEnhancements.precisionIncrease}%`,
           recommendation: {
             entryPrice: result.synthesizedRecommendation.entryPrice,
@@ -261,27 +422,36 @@ export async function getEnhancedAiResponse(formData: FormData): Promise<{ answe
           comprehensiveAnalysis: result,
           ultraOptimization,
           alternativeScenario: result.alternativeScenarios[0]?.implication,
-        },
+        }, dataProvenance), {
+          question,
+          aiVersion: 'comprehensive-ultra-optimized',
+          persona: personaDescription,
+          riskTolerance,
+          confidence: result.consensusAnalysis.overallConfidence
+        }),
       };
     } else {
       // For text-based questions, use enhanced market analysis if market data is provided
       if (marketDataText || newsData || socialData || onChainData) {
         // Use sentiment analysis for text-based queries with market data
+        const namedAsset = extractAssetFromContext(question);
+        const derivatives = namedAsset ? await getDerivativesData(namedAsset) : undefined;
         const sentimentInput: MarketSentimentAnalysisInput = {
           newsData,
           socialData,
-          onChainData,
-          asset: 'BTC', // Default to BTC, could be extracted from question
+          onChainData: derivatives ? { ...onChainData, derivatives } : onChainData,
+          asset: namedAsset || 'BTC',
           timeframe: '24h',
+          dataProvenance: mergeProvenance(externalProvenance('user-supplied'), derivativesProvenance(derivatives)),
         };
 
         const sentimentResult = await marketSentimentAnalysis(sentimentInput);
 
         return {
-          answer: {
+          answer: withProvenance({
             analysis: `Market Sentiment Analysis: ${sentimentResult.sentimentTrend}`,
             sentimentAnalysis: sentimentResult,
-          },
+          }, sentimentInput.dataProvenance),
         };
       } else {
         // Check if this is a crypto price query
@@ -387,14 +557,16 @@ export async function getAiResponse(formData: FormData): Promise<{ answer?: GetA
         })
       );
 
+      const dataProvenance = externalProvenance('chart-image');
       const result = await analyzeChartImage({
         chartImageUri1: chartImageUris[0],
         chartImageUri2: chartImageUris.length > 1 ? chartImageUris[1] : undefined,
         question,
         tradingPersona: personaDescription,
+        dataProvenance,
       });
       
-      return { answer: result };
+      return { answer: withProvenance(result, dataProvenance) };
     } catch (e) {
       console.error(e);
       const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
@@ -507,7 +679,7 @@ export async function getSummaryTitleForHistory(messages: Message[]): Promise<st
 
 export async function scanScreenForPatterns(chartImageUri: string): Promise<ScanForPatternsOutput> {
   try {
-    const result = await scanForPatterns({ chartImageUri });
+    const result = await scanForPatterns({ chartImageUri, dataProvenance: externalProvenance('chart-image') });
     return result;
   } catch (e) {
     console.error('Pattern scanning failed:', e);
@@ -527,7 +699,8 @@ export async function detectTradeOpportunity(
   previousAnalysis?: string, 
   scanMode: 'light' | 'detailed' = 'light',
   lastOpportunityTime?: number,
-  consecutiveScansWithoutOpportunity: number = 0
+  consecutiveScansWithoutOpportunity: number = 0,
+  question: string = ''
 ): Promise<IntelligentTradeDetectorOutput> {
   try {
     const input: IntelligentTradeDetectorInput = {
@@ -536,8 +709,10 @@ export async function detectTradeOpportunity(
       scanMode,
       lastOpportunityTime,
       consecutiveScansWithoutOpportunity,
+      dataProvenance: externalProvenance('chart-image'),
     };
     const result = await intelligentTradeDetector(input);
+    trackTradeOpportunity(result, question);
     return result;
   } catch (e) {
     console.error('Trade detection failed:', e);
@@ -573,6 +748,7 @@ export async function monitorTradeProgress(
       activeTrade,
       previousUpdate: previousUpdate || 'No previous update available',
       currentPrice,
+      dataProvenance: externalProvenance('chart-image'),
     };
     const result = await monitorActiveTrade(input);
     return result;
@@ -624,6 +800,7 @@ export async function generateChartDrawingAnalysis(
       imageHeight,
       analysisType,
       tradingPersona,
+      dataProvenance: externalProvenance('chart-image'),
     });
     return result;
   } catch (e) {
@@ -641,3 +818,48 @@ export async function generateChartDrawingAnalysis(
     };
   }
 }
+
+/**
+ * Session POC/VAH/VAL and naked POCs for an asset, for the chart overlay.
+ * Returns no levels when klines are unavailable so the drawing still renders.
+ */
+export async function getVolumeProfileLevels(
+  asset: string,
+  interval: string = '1h',
+  days: number = 7,
+  session: TradingSession = 'daily'
+): Promise<VolumeProfileLevel[]> {
+  try {
+    const klines = await marketDataService.getKlines({
+      symbol: toTradingSymbol(asset),
+      interval,
+      startTime: Date.now() - days * INTERVAL_MS['1d']
+    });
+    if (klines.length === 0) return [];
+
+    return volumeProfileAnalyzer.calculateProfileLevels(klines.map(kline => ({
+      timestamp: kline.openTime,
+      open: kline.open,
+      high: kline.high,
+      low: kline.low,
+      close: kline.close,
+      volume: kline.volume
+    })), session);
+  } catch (e) {
+    console.error('Volume profile levels failed:', e);
+    return [];
+  }
+}
+
+export async function getCalibrationReport(
+  query: Omit<RecommendationQuery, 'status' | 'limit'> = {},
+  bucketSize: number = 10
+): Promise<{ report?: CalibrationReport; error?: string }> {
+  try {
+    const recommendations = await aiPerformanceMonitor.queryRecommendations({ ...query, status: 'completed' });
+    return { report: buildCalibrationReport(recommendations, bucketSize) };
+  } catch (e) {
+    console.error('Calibration report failed:', e);
+    return { error: e instanceof Error ? e.message : 'Failed to build calibration report.' };
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Data Health Status Endpoint
+ *
+ * GET /api/data-health returns the market data connection and quality
+ * status, including active alerts from the data health monitor.
+ */
+
+import { NextResponse } from 'next/server';
+import { marketDataService } from '@/lib/data-providers/market-data-service';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  try {
+    return NextResponse.json(marketDataService.getDataQualityStatus());
+  } catch (error) {
+    console.error('Error getting data health status:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to get data health status' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * @fileOverview Market Replay Endpoint
+ *
+ * POST /api/market-replay replays a recording from /api/stream-recordings
+ * through the shared real-time data provider. The JSON body takes
+ * { recording, speed, symbols, types, from, to }; recording defaults to the
+ * newest one. The replay runs in the background, and the live streams are
+ * reconnected when it ends. GET reports whether a replay is running; DELETE
+ * stops it. Admin only outside development (see lib/admin-access), since a
+ * replay takes over the shared provider.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import path from 'path';
+import { rejectNonAdmin } from '@/lib/admin-access';
+import { marketReplay, type ReplayOptions } from '@/lib/data-providers/market-replay';
+import { streamRecorder } from '@/lib/data-providers/stream-recorder';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  const denied = rejectNonAdmin(request);
+  if (denied) return denied;
+
+  return NextResponse.json({ replaying: marketReplay.isRunning });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = rejectNonAdmin(request);
+    if (denied) return denied;
+
+    if (marketReplay.isRunning) {
+      return NextResponse.json({ error: 'A replay is already running' }, { status: 409 });
+    }
+
+    const { recording, ...options }: ReplayOptions & { recording?: string } = await request.json().catch(() => ({}));
+    if (options.speed !== undefined && options.speed !== 'max' && !(typeof options.speed === 'number' && options.speed > 0)) {
+      return NextResponse.json({ error: 'speed must be a positive number or "max"' }, { status: 400 });
+    }
+
+    // Only recordings in the recording directory can be replayed
+    const recordings = await streamRecorder.listRecordings();
+    const filePath = recording === undefined
+      ? recordings[0]
+      : recordings.find(candidate => path.basename(candidate) === recording);
+    if (!filePath) {
+      return NextResponse.json({ error: `Recording ${recording ?? '(latest)'} not found` }, { status: 404 });
+    }
+
+    marketReplay.play(filePath, options)
+      .then(summary => console.log(`Replayed ${summary.eventCount} events from ${filePath}`))
+      .catch(error => console.error(`Replay of ${filePath} failed:`, error));
+
+    return NextResponse.json({ recording: path.basename(filePath) }, { status: 202 });
+  } catch (error) {
+    console.error('Error starting market replay:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start market replay' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = rejectNonAdmin(request);
+  if (denied) return denied;
+
+  marketReplay.stop();
+  return NextResponse.json({ replaying: marketReplay.isRunning });
+}
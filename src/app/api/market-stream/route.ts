@@ -0,0 +1,60 @@
+/**
+ * @fileOverview Live Market Data Stream Endpoint
+ *
+ * GET /api/market-stream?symbols=BTCUSDT,ETHUSDT&types=price,trade,kline
+ * streams live updates for the requested symbols as Server-Sent Events
+ * (`price`, `trade`, `kline`, plus `ready` and `dropped`). types defaults to price.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { marketDataService } from '@/lib/data-providers/market-data-service';
+import {
+  createMarketEventStream,
+  MARKET_STREAM_EVENT_TYPES,
+  type MarketStreamEventType
+} from '@/lib/data-providers/market-event-stream';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+const MAX_SYMBOLS = 20;
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const symbols = Array.from(new Set(
+    (params.get('symbols') || '')
+      .split(',')
+      .map(symbol => symbol.trim().toUpperCase())
+      .filter(Boolean)
+  ));
+  const types = (params.get('types') || 'price')
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean);
+
+  if (symbols.length === 0 || symbols.length > MAX_SYMBOLS) {
+    return NextResponse.json({ error: `Provide between 1 and ${MAX_SYMBOLS} symbols` }, { status: 400 });
+  }
+
+  const invalidTypes = types.filter(type => !MARKET_STREAM_EVENT_TYPES.includes(type as MarketStreamEventType));
+  if (invalidTypes.length > 0) {
+    return NextResponse.json({ error: `Unknown event types: ${invalidTypes.join(', ')}` }, { status: 400 });
+  }
+
+  // Starts the exchange streams on first use
+  await marketDataService.initialize();
+
+  const stream = createMarketEventStream(
+    { symbols, types: types as MarketStreamEventType[] },
+    request.signal
+  );
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Recommendation Outcome Resolution Endpoint
+ *
+ * POST /api/recommendation-outcomes resolves every pending tracked
+ * recommendation against the klines that followed it and returns the
+ * resolution summary. Meant for a cron job, so recommendations persisted
+ * before a restart are settled without waiting for a new one to be tracked.
+ */
+
+import { NextResponse } from 'next/server';
+import { recommendationOutcomeResolver } from '@/lib/recommendation-outcome-resolver';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function POST() {
+  try {
+    return NextResponse.json(await recommendationOutcomeResolver.resolvePending());
+  } catch (error) {
+    console.error('Error resolving recommendation outcomes:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve recommendation outcomes' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Market Stream Recording Endpoint
+ *
+ * GET /api/stream-recordings lists the recordings on disk, newest first.
+ * POST starts recording the live market events, optionally filtered by a
+ * JSON body of { name, symbols, types }; DELETE stops the recording and
+ * returns its summary. Recordings are replayed through /api/market-replay.
+ * Admin only outside development (see lib/admin-access).
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import path from 'path';
+import { rejectNonAdmin } from '@/lib/admin-access';
+import { marketDataService } from '@/lib/data-providers/market-data-service';
+import { realTimeDataProvider } from '@/lib/data-providers/real-time-data-provider';
+import { streamRecorder, type RecordingOptions } from '@/lib/data-providers/stream-recorder';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    const denied = rejectNonAdmin(request);
+    if (denied) return denied;
+
+    const recordings = await streamRecorder.listRecordings();
+    return NextResponse.json({
+      recording: streamRecorder.isRecording,
+      recordings: recordings.map(filePath => path.basename(filePath))
+    });
+  } catch (error) {
+    console.error('Error listing stream recordings:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to list stream recordings' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const denied = rejectNonAdmin(request);
+    if (denied) return denied;
+
+    if (streamRecorder.isRecording) {
+      return NextResponse.json({ error: 'A recording is already running' }, { status: 409 });
+    }
+
+    const { name, symbols, types }: RecordingOptions = await request.json().catch(() => ({}));
+    if (name !== undefined && !/^[\w.-]+$/.test(name)) {
+      return NextResponse.json({ error: 'Recording names may only contain letters, digits, ".", "_" and "-"' }, { status: 400 });
+    }
+
+    // Starts the exchange streams on first use
+    await marketDataService.initialize();
+    const filePath = await streamRecorder.start(realTimeDataProvider, { name, symbols, types });
+
+    return NextResponse.json({ recording: path.basename(filePath) }, { status: 201 });
+  } catch (error) {
+    console.error('Error starting stream recording:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to start stream recording' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const denied = rejectNonAdmin(request);
+    if (denied) return denied;
+
+    if (!streamRecorder.isRecording) {
+      return NextResponse.json({ error: 'No recording is running' }, { status: 409 });
+    }
+
+    const summary = await streamRecorder.stop();
+    return NextResponse.json({ ...summary, filePath: path.basename(summary.filePath) });
+  } catch (error) {
+    console.error('Error stopping stream recording:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to stop stream recording' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, Loader2, RefreshCw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getCalibrationReport } from '@/app/actions';
+import { ReliabilityChart } from '@/components/charts/reliability-chart';
+import type { CalibrationReport, CalibrationSummary } from '@/lib/confidence-calibration';
+
+type Breakdown = 'overall' | 'persona' | 'aiVersion';
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+
+export default function CalibrationPage() {
+  const [report, setReport] = useState<CalibrationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [asset, setAsset] = useState('');
+  const [timeframe, setTimeframe] = useState('');
+  const [breakdown, setBreakdown] = useState<Breakdown>('overall');
+  const [groupKey, setGroupKey] = useState<string>('');
+  const { toast } = useToast();
+
+  const loadReport = useCallback(async () => {
+    setIsLoading(true);
+    const result = await getCalibrationReport({
+      asset: asset.trim() || undefined,
+      timeframe: timeframe.trim() || undefined,
+    });
+    setIsLoading(false);
+
+    if (result.error || !result.report) {
+      toast({ variant: 'destructive', title: 'Calibration report failed', description: result.error });
+      return;
+    }
+    setReport(result.report);
+  }, [asset, timeframe, toast]);
+
+  useEffect(() => {
+    loadReport();
+    // Load once on mount; filters apply on refresh
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const groups = useMemo(() => {
+    if (!report || breakdown === 'overall') return [];
+    return breakdown === 'persona' ? report.byPersona : report.byAiVersion;
+  }, [report, breakdown]);
+
+  useEffect(() => {
+    setGroupKey(groups[0]?.key || '');
+  }, [groups]);
+
+  const summary: CalibrationSummary | undefined = breakdown === 'overall'
+    ? report?.overall
+    : groups.find(group => group.key === groupKey)?.summary;
+
+  return (
+    <main className="container mx-auto max-w-5xl space-y-6 p-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Link href="/">
+            <Button variant="ghost" size="icon">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold gradient-text">Confidence Calibration</h1>
+            <p className="text-sm text-muted-foreground">
+              Does stated confidence match how often recommendations actually win?
+            </p>
+          </div>
+        </div>
+        <Button onClick={loadReport} disabled={isLoading}>
+          {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+          Refresh
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="grid gap-4 pt-6 sm:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="asset">Asset</Label>
+            <Input id="asset" placeholder="All" value={asset} onChange={(e) => setAsset(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="timeframe">Timeframe</Label>
+            <Input id="timeframe" placeholder="All" value={timeframe} onChange={(e) => setTimeframe(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label>Breakdown</Label>
+            <Select value={breakdown} onValueChange={(value) => setBreakdown(value as Breakdown)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="overall">Overall</SelectItem>
+                <SelectItem value="persona">By persona</SelectItem>
+                <SelectItem value="aiVersion">By AI version</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Group</Label>
+            <Select value={groupKey} onValueChange={setGroupKey} disabled={breakdown === 'overall' || groups.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={breakdown === 'overall' ? 'All recommendations' : 'No data'} />
+              </SelectTrigger>
+              <SelectContent>
+                {groups.map(group => (
+                  <SelectItem key={group.key} value={group.key}>
+                    {group.key} ({group.summary.sampleSize})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {summary && (
+        <>
+          <div className="grid gap-4 sm:grid-cols-4">
+            <StatCard title="Resolved trades" value={summary.sampleSize.toString()} />
+            <StatCard title="Brier score" value={summary.brierScore.toFixed(3)} hint="Lower is better; 0.25 is a coin flip at 50%" />
+            <StatCard title="Calibration error (ECE)" value={formatPercent(summary.expectedCalibrationError)} hint={`Worst bucket ${formatPercent(summary.maxCalibrationError)}`} />
+            <StatCard title="Win rate vs confidence" value={`${formatPercent(summary.winRate)} / ${formatPercent(summary.avgConfidence)}`} />
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Reliability diagram</CardTitle>
+              <CardDescription>
+                Points below the dashed diagonal are overconfident; points above it are underconfident.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ReliabilityChart summary={summary} className="h-[360px] w-full" />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Confidence buckets</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Confidence</TableHead>
+                    <TableHead className="text-right">Trades</TableHead>
+                    <TableHead className="text-right">Avg confidence</TableHead>
+                    <TableHead className="text-right">Hit rate</TableHead>
+                    <TableHead className="text-right">Gap</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {summary.buckets.filter(bucket => bucket.count > 0).map(bucket => (
+                    <TableRow key={bucket.lowerBound}>
+                      <TableCell>{bucket.lowerBound}-{bucket.upperBound}%</TableCell>
+                      <TableCell className="text-right">{bucket.count}</TableCell>
+                      <TableCell className="text-right">{formatPercent(bucket.avgConfidence)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(bucket.hitRate)}</TableCell>
+                      <TableCell className={`text-right ${bucket.gap > 0 ? 'text-red-500' : 'text-green-500'}`}>
+                        {bucket.gap > 0 ? '+' : ''}{bucket.gap.toFixed(1)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </main>
+  );
+}
+
+function StatCard({ title, value, hint }: { title: string; value: string; hint?: string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{value}</CardTitle>
+      </CardHeader>
+      {hint && <CardContent className="pt-0 text-xs text-muted-foreground">{hint}</CardContent>}
+    </Card>
+  );
+}
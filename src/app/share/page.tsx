@@ -23,16 +23,20 @@ import { Loader2, Mic, MonitorPlay, Wand2, X, Camera, Image as ImageIcon, Sparkl
 import { useToast } from '@/hooks/use-toast';
 import { analyzeChartImage } from '@/ai/flows/analyze-chart-image';
 import { textToSpeech } from '@/ai/flows/text-to-speech-flow';
-import { scanScreenForPatterns, detectTradeOpportunity, monitorTradeProgress, generateChartDrawingAnalysis } from '@/app/actions';
+import { scanScreenForPatterns, detectTradeOpportunity, monitorTradeProgress, generateChartDrawingAnalysis, getVolumeProfileLevels } from '@/app/actions';
 import { ChatMessages } from '@/components/chat/chat-messages';
-import type { Message } from '@/lib/types';
+import type { Message, ChartPoint } from '@/lib/types';
 import { nanoid } from 'nanoid';
 import Link from 'next/link';
-import { InteractiveChartOverlay, type AIDrawingData, type ChartPoint } from '@/components/charts/interactive-chart-overlay';
-import { convertAIAnalysisToDrawingData, generateAnalysisSummary } from '@/lib/chart-drawing-utils';
+import { InteractiveChartOverlay, type AIDrawingData } from '@/components/charts/interactive-chart-overlay';
+import { convertAIAnalysisToDrawingData, generateAnalysisSummary, withVolumeProfileLevels } from '@/lib/chart-drawing-utils';
+import { extractAssetFromContext } from '@/lib/chart-analysis-helpers';
 import { ChartDemo } from '@/components/charts/chart-demo';
+import { LivePriceTicker } from '@/components/charts/live-price-ticker';
 import { liveAnalysisOptimizer, formatOptimizationStatus } from '@/lib/live-analysis-optimizer';
 
+const LIVE_TICKER_SYMBOLS = ['BTCUSDT', 'ETHUSDT', 'BNBUSDT'];
+
 export default function SharePage() {
   const [isSharing, setIsSharing] = useState(false);
   const [stream, setStream] = useState<MediaStream | null>(null);
@@ -189,15 +193,21 @@ export default function SharePage() {
       const imageWidth = 800;
       const imageHeight = 600;
       
-      const analysisResult = await generateChartDrawingAnalysis(
-        chartImageUri,
-        clickPoint,
-        imageWidth,
-        imageHeight,
-        'comprehensive'
-      );
+      // Volume profile levels come from the asset's klines, alongside the image
+      // analysis; without a named asset the overlay is skipped rather than guessed
+      const asset = extractAssetFromContext(question);
+      const [analysisResult, profileLevels] = await Promise.all([
+        generateChartDrawingAnalysis(
+          chartImageUri,
+          clickPoint,
+          imageWidth,
+          imageHeight,
+          'comprehensive'
+        ),
+        asset ? getVolumeProfileLevels(asset) : Promise.resolve([])
+      ]);
       
-      const drawingData = convertAIAnalysisToDrawingData(analysisResult);
+      const drawingData = withVolumeProfileLevels(convertAIAnalysisToDrawingData(analysisResult), profileLevels);
       
       // Create a message for the chat showing the analysis
       const userMessage: Message = {
@@ -220,7 +230,7 @@ export default function SharePage() {
       console.error('Interactive chart analysis failed:', error);
       throw error;
     }
-  }, []);
+  }, [question]);
 
   const handleChartClick = useCallback(async (clickPoint: ChartPoint) => {
     const chartToAnalyze = chart1 || (chart2 ? chart2 : null);
@@ -597,7 +607,8 @@ ${result.tradeUpdate.takeProfitProgress.map(tp => `- ${tp.target}: ${tp.progress
           previousAnalysis, 
           scanMode,
           lastOpportunityTime || undefined,
-          consecutiveScansWithoutOpportunity
+          consecutiveScansWithoutOpportunity,
+          question
         );
         const responseTime = Date.now() - startTime;
         setLastTradeDetectionTime(new Date());
@@ -729,7 +740,7 @@ ${result.tradeUpdate.takeProfitProgress.map(tp => `- ${tp.target}: ${tp.progress
             variant: 'destructive',
         });
     }
-  }, [captureFrame, previousAnalysis, scanMode, toast, tradeDetectionInterval, isMonitoringActiveTrade, stopTradeDetection, startTradeMonitoring]);
+  }, [captureFrame, previousAnalysis, scanMode, question, toast, tradeDetectionInterval, isMonitoringActiveTrade, stopTradeDetection, startTradeMonitoring]);
 
   const startTradeDetection = useCallback(() => {
     setIsTradeDetecting(true);
@@ -790,6 +801,7 @@ ${result.tradeUpdate.takeProfitProgress.map(tp => `- ${tp.target}: ${tp.progress
                   </Link>
             </Button>
             <h1 className="text-xl font-semibold ml-4">AI-Powered Live Analysis</h1>
+            <LivePriceTicker symbols={LIVE_TICKER_SYMBOLS} className="ml-auto hidden md:flex" />
           </header>
           <main className="flex-1 p-4 md:p-6 overflow-y-auto">
             <div className="grid gap-6 lg:grid-cols-2">
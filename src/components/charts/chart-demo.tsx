@@ -1,7 +1,8 @@
 'use client';
 
 import React, { useState } from 'react';
-import { InteractiveChartOverlay, type AIDrawingData, type ChartPoint } from './interactive-chart-overlay';
+import { InteractiveChartOverlay, type AIDrawingData } from './interactive-chart-overlay';
+import type { ChartPoint } from '@/lib/types';
 import { generateChartDrawingAnalysis } from '@/app/actions';
 import { convertAIAnalysisToDrawingData } from '@/lib/chart-drawing-utils';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
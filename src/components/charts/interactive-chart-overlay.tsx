@@ -17,13 +17,8 @@ import {
   Zap
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-export interface ChartPoint {
-  x: number;
-  y: number;
-  price?: number;
-  timestamp?: number;
-}
+import type { ChartPoint } from '@/lib/types';
+import type { VolumeProfileLevel } from '@/lib/pattern-recognition/volume-profile-analyzer';
 
 export interface PatternAnnotation {
   id: string;
@@ -54,6 +49,7 @@ export interface AIDrawingData {
   keyLevels: {
     support: number[];
     resistance: number[];
+    volumeProfile?: VolumeProfileLevel[]; // Session POC/VAH/VAL and naked POCs
   };
   trendLines: {
     uptrend: ChartPoint[][];
@@ -168,6 +164,33 @@ export function InteractiveChartOverlay({
         });
       });
 
+      aiDrawingData.keyLevels.volumeProfile?.forEach((level, index) => {
+        const isPoc = level.kind === 'poc' || level.kind === 'naked_poc';
+        newAnnotations.push({
+          id: `volume-profile-${index}`,
+          type: 'volume',
+          name: level.label,
+          description: `${level.label} at $${level.price.toLocaleString()}`,
+          confidence: 90,
+          points: [
+            { x: 0, y: priceToY(level.price), price: level.price },
+            { x: imageDimensions.width, y: priceToY(level.price), price: level.price }
+          ],
+          style: {
+            color: isPoc ? '#eab308' : '#a855f7',
+            strokeWidth: isPoc ? 2 : 1,
+            strokeDasharray: level.kind === 'naked_poc' ? '8,4' : isPoc ? undefined : '2,4'
+          },
+          visible: true,
+          aiGenerated: false,
+          metadata: {
+            patternType: 'volume_profile',
+            direction: 'neutral',
+            strength: 90
+          }
+        });
+      });
+
       // Convert trendlines
       aiDrawingData.trendLines.uptrend.forEach((line, index) => {
         newAnnotations.push({
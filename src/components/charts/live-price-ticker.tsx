@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { cn } from '@/lib/utils';
+import { useMarketStream } from '@/hooks/use-market-stream';
+
+interface LivePriceTickerProps {
+  symbols: string[];
+  className?: string;
+}
+
+const formatPrice = (price: number) => price.toLocaleString(undefined, {
+  minimumFractionDigits: 2,
+  maximumFractionDigits: price >= 1 ? 2 : 6,
+});
+
+/**
+ * Ticking last price and 24h change per symbol from the live market stream
+ */
+export function LivePriceTicker({ symbols, className }: LivePriceTickerProps) {
+  const { status, prices } = useMarketStream(symbols);
+
+  return (
+    <div className={cn('flex items-center gap-4 text-xs', className)}>
+      <span
+        className={cn('h-2 w-2 rounded-full', status === 'open' ? 'bg-green-500' : 'bg-amber-500')}
+        title={status === 'open' ? 'Live' : 'Connecting to live prices'}
+      />
+      {symbols.map(symbol => {
+        const update = prices[symbol];
+        return (
+          <div key={symbol} className="flex items-center gap-1.5 font-mono">
+            <span className="text-muted-foreground">{symbol.replace(/USDT$/, '')}</span>
+            <span>{update ? formatPrice(update.price) : '—'}</span>
+            {update && (
+              <span className={update.change24h >= 0 ? 'text-green-500' : 'text-red-500'}>
+                {update.change24h >= 0 ? '+' : ''}{update.change24h.toFixed(2)}%
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from '@/components/ui/chart';
+import type { CalibrationSummary } from '@/lib/confidence-calibration';
+
+const chartConfig = {
+  hitRate: {
+    label: 'Actual win rate',
+    color: 'hsl(var(--chart-1))',
+  },
+  count: {
+    label: 'Trades',
+    color: 'hsl(var(--chart-2))',
+  },
+} satisfies ChartConfig;
+
+interface ReliabilityChartProps {
+  summary: CalibrationSummary;
+  className?: string;
+}
+
+/**
+ * Reliability diagram: realized hit rate per confidence bucket against the
+ * diagonal of perfect calibration, with bucket sample sizes as bars.
+ */
+export function ReliabilityChart({ summary, className }: ReliabilityChartProps) {
+  const data = useMemo(() => summary.buckets
+    .filter(bucket => bucket.count > 0)
+    .map(bucket => ({
+      confidence: Math.round(bucket.avgConfidence * 10) / 10,
+      hitRate: Math.round(bucket.hitRate * 10) / 10,
+      count: bucket.count,
+      range: `${bucket.lowerBound}-${bucket.upperBound}%`,
+    })), [summary]);
+
+  if (data.length === 0) {
+    return (
+      <div className="flex h-64 items-center justify-center text-sm text-muted-foreground">
+        No resolved recommendations yet.
+      </div>
+    );
+  }
+
+  return (
+    <ChartContainer config={chartConfig} className={className}>
+      <ComposedChart data={data} margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="confidence"
+          type="number"
+          domain={[0, 100]}
+          ticks={[0, 20, 40, 60, 80, 100]}
+          tickFormatter={(value) => `${value}%`}
+        />
+        <YAxis yAxisId="rate" domain={[0, 100]} tickFormatter={(value) => `${value}%`} />
+        <YAxis yAxisId="count" orientation="right" allowDecimals={false} />
+        <ReferenceLine
+          yAxisId="rate"
+          segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]}
+          stroke="hsl(var(--muted-foreground))"
+          strokeDasharray="4 4"
+          ifOverflow="extendDomain"
+        />
+        <Bar yAxisId="count" dataKey="count" fill="var(--color-count)" fillOpacity={0.35} barSize={18} />
+        <Line
+          yAxisId="rate"
+          dataKey="hitRate"
+          type="linear"
+          stroke="var(--color-hitRate)"
+          strokeWidth={2}
+          dot={{ r: 4 }}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => {
+                const point = payload?.[0]?.payload;
+                return point ? `Confidence ${point.range} (avg ${point.confidence}%)` : '';
+              }}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -14,9 +14,10 @@ import {
   SidebarMenuButton,
 } from '@/components/ui/sidebar';
 import { Button } from '@/components/ui/button';
-import { Plus, MonitorPlay, Sparkles, Zap } from 'lucide-react';
+import { Plus, MonitorPlay, Sparkles, Zap, Gauge } from 'lucide-react';
 import { ChatHistory } from './chat-history';
 import { ChatMessages } from './chat-messages';
+import { DataHealthIndicator } from './data-health-indicator';
 import Link from 'next/link';
 import { getSummaryTitleForHistory, getAiResponse } from '@/app/actions';
 import { useToast } from '@/hooks/use-toast';
@@ -284,6 +285,7 @@ function ChatLayoutContent() {
             content: result.answer.analysis,
             recommendation: result.answer.recommendation,
             alternativeScenario: result.answer.alternativeScenario,
+            dataProvenance: result.answer.dataProvenance,
           };
           addMessageToSession(activeSession.id, assistantMessage);
         }
@@ -408,6 +410,16 @@ function ChatLayoutContent() {
                 </SidebarMenuButton>
               </Link>
             </SidebarMenuItem>
+            <SidebarMenuItem>
+              <Link href="/calibration">
+                <SidebarMenuButton className="btn-hover-lift hover:bg-sidebar-accent/70 transition-all duration-200 group">
+                  <div className="flex items-center gap-3">
+                    <Gauge className="h-5 w-5" />
+                    <span className="font-medium">Calibration</span>
+                  </div>
+                </SidebarMenuButton>
+              </Link>
+            </SidebarMenuItem>
           </SidebarMenu>
         </SidebarHeader>
       </Sidebar>
@@ -418,6 +430,7 @@ function ChatLayoutContent() {
             <Sparkles className="h-5 w-5 text-primary animate-pulse-slow" />
             <h1 className="text-xl font-bold gradient-text">{displayActiveSession?.title || 'Wizz'}</h1>
           </div>
+          <DataHealthIndicator />
         </header>
         <div className="flex-1 overflow-y-auto animate-fade-in">
           <ChatMessages messages={displayActiveSession?.messages || []} />
@@ -4,9 +4,10 @@
 import React, { useEffect, useRef, useMemo, memo } from 'react';
 import Image from 'next/image';
 import type { Message, Recommendation } from '@/lib/types';
+import { describeProvenance, type DataProvenance } from '@/lib/data-providers/data-provenance';
 import { cn } from '@/lib/utils';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Bot, User, Volume2, VolumeX, AlertTriangle, Scale, TrendingUp, TrendingDown, CircleDot, Sparkles } from 'lucide-react';
+import { Bot, User, Volume2, VolumeX, AlertTriangle, Database, Scale, TrendingUp, TrendingDown, CircleDot, Sparkles } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import {
@@ -128,6 +129,23 @@ const AlternativeScenario = memo(({ scenario }: { scenario: string }) => (
 
 AlternativeScenario.displayName = 'AlternativeScenario';
 
+// Data source badge; synthetic data is flagged and its trade levels are withheld
+const DataProvenanceBadge = memo(({ provenance }: { provenance: DataProvenance }) => (
+  <div className="flex flex-wrap items-center gap-2 text-xs">
+    <Badge variant={provenance.isSynthetic ? 'destructive' : 'outline'} className="gap-1">
+      <Database className="h-3 w-3" />
+      {describeProvenance(provenance)}
+    </Badge>
+    {provenance.isSynthetic ? (
+      <span className="text-red-600 dark:text-red-400">Not based on real market data; trade levels withheld</span>
+    ) : (
+      <span className="text-muted-foreground">Data confidence {provenance.confidence}%</span>
+    )}
+  </div>
+));
+
+DataProvenanceBadge.displayName = 'DataProvenanceBadge';
+
 // Enhanced message component with improved styling
 const MessageComponent = memo(({ message, index }: { message: Message; index: number }) => {
   const isUser = message.role === 'user';
@@ -178,6 +196,10 @@ const MessageComponent = memo(({ message, index }: { message: Message; index: nu
           )}
         </div>
         
+        {!isUser && message.dataProvenance && (
+          <DataProvenanceBadge provenance={message.dataProvenance} />
+        )}
+        
         {!isUser && message.recommendation && (
           <div className="w-full max-w-2xl">
             <RecommendationCard recommendation={message.recommendation} />
@@ -0,0 +1,80 @@
+'use client';
+
+import React, { useState, useEffect, memo } from 'react';
+import { Activity } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { DataHealthReport, HealthStatus } from '@/lib/data-providers/data-health-monitor';
+
+const POLL_INTERVAL_MS = 15000;
+
+const STATUS_STYLES: { [status in HealthStatus]: { label: string; dot: string } } = {
+  healthy: { label: 'Live data', dot: 'bg-green-500' },
+  degraded: { label: 'Data degraded', dot: 'bg-amber-500' },
+  down: { label: 'Data offline', dot: 'bg-red-500' },
+  inactive: { label: 'No live data', dot: 'bg-muted-foreground' },
+};
+
+// Market data health indicator for the chat header, polling /api/data-health
+export const DataHealthIndicator = memo(() => {
+  const [report, setReport] = useState<DataHealthReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadStatus = async () => {
+      try {
+        const response = await fetch('/api/data-health', { cache: 'no-store' });
+        if (!response.ok) return;
+        const status = await response.json();
+        if (!cancelled) setReport(status.health);
+      } catch (error) {
+        console.error('Failed to load data health status:', error);
+      }
+    };
+
+    loadStatus();
+    const interval = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, []);
+
+  if (!report) return null;
+
+  const style = STATUS_STYLES[report.status];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="ml-auto flex items-center gap-2 rounded-full border border-border/50 px-3 py-1 text-xs text-muted-foreground">
+          <span className={cn('h-2 w-2 rounded-full', style.dot, report.status === 'healthy' && 'animate-pulse-slow')} />
+          <Activity className="h-3 w-3" />
+          <span>{style.label}</span>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent align="end" className="max-w-xs text-xs space-y-1">
+        {report.exchanges.length === 0 && <p>Real-time streams have not been started</p>}
+        {report.exchanges.map(exchange => (
+          <p key={exchange.exchange}>
+            <span className="font-semibold capitalize">{exchange.exchange}</span>
+            {': '}
+            {exchange.connected ? 'connected' : 'disconnected'}
+            {exchange.averageLatencyMs !== null && `, ${exchange.averageLatencyMs}ms latency`}
+            {`, ${exchange.errorRate}% errors`}
+            {exchange.reconnectCount > 0 && `, ${exchange.reconnectCount} reconnects`}
+          </p>
+        ))}
+        {report.alerts.map(alert => (
+          <p key={`${alert.type}:${alert.exchange}:${alert.symbol ?? ''}`} className="text-red-500">
+            {alert.message}
+          </p>
+        ))}
+        {!report.monitoringEnabled && <p className="text-muted-foreground">Threshold alerts are disabled</p>}
+      </TooltipContent>
+    </Tooltip>
+  );
+});
+
+DataHealthIndicator.displayName = 'DataHealthIndicator';
@@ -0,0 +1,96 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { PriceUpdate, TradeUpdate, KlineData } from '@/lib/data-providers/real-time-data-provider';
+import type { MarketStreamEventType } from '@/lib/data-providers/market-event-stream';
+
+export type MarketStreamStatus = 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+export interface MarketStreamState {
+  status: MarketStreamStatus;
+  prices: { [symbol: string]: PriceUpdate };
+  trades: TradeUpdate[]; // Newest first
+  klines: { [key: string]: KlineData }; // Keyed by symbol:interval
+  droppedTrades: number;
+}
+
+interface UseMarketStreamOptions {
+  types?: MarketStreamEventType[];
+  maxTrades?: number;
+}
+
+const FLUSH_INTERVAL_MS = 250; // Batch ticks into at most four renders a second
+
+/**
+ * Live prices, trades and closed klines from /api/market-stream. EventSource
+ * reconnects on its own; state survives reconnects.
+ */
+export function useMarketStream(
+  symbols: string[],
+  { types = ['price'], maxTrades = 50 }: UseMarketStreamOptions = {}
+): MarketStreamState {
+  const [state, setState] = useState<MarketStreamState>({
+    status: 'connecting',
+    prices: {},
+    trades: [],
+    klines: {},
+    droppedTrades: 0,
+  });
+  const pending = useRef<{ prices: PriceUpdate[]; trades: TradeUpdate[]; klines: KlineData[]; dropped: number }>({
+    prices: [],
+    trades: [],
+    klines: [],
+    dropped: 0,
+  });
+
+  const symbolKey = symbols.map(symbol => symbol.toUpperCase()).sort().join(',');
+  const typeKey = [...types].sort().join(',');
+
+  useEffect(() => {
+    if (!symbolKey) return;
+
+    const source = new EventSource(`/api/market-stream?symbols=${encodeURIComponent(symbolKey)}&types=${encodeURIComponent(typeKey)}`);
+    const setStatus = (status: MarketStreamStatus) => setState(prev => (prev.status === status ? prev : { ...prev, status }));
+
+    source.onopen = () => setStatus('open');
+    source.onerror = () => setStatus(source.readyState === EventSource.CLOSED ? 'closed' : 'reconnecting');
+    source.addEventListener('price', event => pending.current.prices.push(JSON.parse((event as MessageEvent).data)));
+    source.addEventListener('trade', event => pending.current.trades.push(JSON.parse((event as MessageEvent).data)));
+    source.addEventListener('kline', event => pending.current.klines.push(JSON.parse((event as MessageEvent).data)));
+    source.addEventListener('dropped', event => {
+      pending.current.dropped += JSON.parse((event as MessageEvent).data).trades;
+    });
+
+    const flush = setInterval(() => {
+      const batch = pending.current;
+      if (batch.prices.length === 0 && batch.trades.length === 0 && batch.klines.length === 0 && batch.dropped === 0) return;
+      pending.current = { prices: [], trades: [], klines: [], dropped: 0 };
+
+      setState(prev => {
+        const prices = { ...prev.prices };
+        batch.prices.forEach(price => {
+          prices[price.symbol] = price;
+        });
+        const klines = { ...prev.klines };
+        batch.klines.forEach(kline => {
+          klines[`${kline.symbol}:${kline.interval}`] = kline;
+        });
+
+        return {
+          ...prev,
+          prices,
+          klines,
+          trades: [...batch.trades.reverse(), ...prev.trades].slice(0, maxTrades),
+          droppedTrades: prev.droppedTrades + batch.dropped,
+        };
+      });
+    }, FLUSH_INTERVAL_MS);
+
+    return () => {
+      clearInterval(flush);
+      source.close();
+    };
+  }, [symbolKey, typeKey, maxTrades]);
+
+  return state;
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview Admin Access
+ *
+ * Guard for operational API routes that act on the shared data provider
+ * (stream recording, market replay):
+ * - Open in development
+ * - Elsewhere they need an `Authorization: Bearer <ADMIN_API_TOKEN>` header,
+ *   and stay closed when ADMIN_API_TOKEN is not set
+ */
+
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+
+function hasAdminToken(request: Request): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) return false;
+
+  const header = request.headers.get('authorization') ?? '';
+  const provided = Buffer.from(header.replace(/^Bearer\s+/i, ''));
+  const token = Buffer.from(expected);
+  return provided.length === token.length && timingSafeEqual(provided, token);
+}
+
+/**
+ * Returns a 403 response when the request may not use an admin route, null otherwise
+ */
+export function rejectNonAdmin(request: Request): NextResponse | null {
+  if (process.env.NODE_ENV === 'development' || hasAdminToken(request)) {
+    return null;
+  }
+  return NextResponse.json({ error: 'Admin access required' }, { status: 403 });
+}
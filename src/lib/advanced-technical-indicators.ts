@@ -8,6 +8,20 @@
  * - Statistical and mathematical indicators
  */
 
+import { chartPatternDetector, type ChartPatternType } from './pattern-recognition/chart-pattern-detector';
+import { supportResistanceEngine, type SupportResistanceLevel } from './pattern-recognition/support-resistance-engine';
+import {
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingEMA,
+  StreamingMACD,
+  StreamingMFI,
+  StreamingRSI,
+  type StreamingIndicator,
+  computeIndicatorSeries,
+  pricesToCandles
+} from './streaming-indicators';
+
 export interface PriceData {
   timestamp: number;
   open: number;
@@ -40,8 +54,14 @@ export interface MarketStructure {
   keyLevels: number[];
 }
 
+// Final value of a streaming indicator run over the data in array order; callers check warm-up length first
+function lastValue<T>(indicator: StreamingIndicator<T>, data: PriceData[]): T {
+  computeIndicatorSeries(indicator, data);
+  return indicator.value as T;
+}
+
 /**
- * Calculates the Relative Strength Index (RSI) with divergence detection
+ * Calculates the Relative Strength Index (RSI, Wilder smoothing) with divergence detection
  */
 export function calculateRSI(
   prices: number[], 
@@ -51,20 +71,7 @@ export function calculateRSI(
     throw new Error('Insufficient data for RSI calculation');
   }
   
-  const gains: number[] = [];
-  const losses: number[] = [];
-  
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? Math.abs(change) : 0);
-  }
-  
-  const avgGain = gains.slice(0, period).reduce((a, b) => a + b) / period;
-  const avgLoss = losses.slice(0, period).reduce((a, b) => a + b) / period;
-  
-  const rs = avgGain / avgLoss;
-  const rsi = 100 - (100 / (1 + rs));
+  const rsi = lastValue(new StreamingRSI(period), pricesToCandles(prices));
   
   // Simple divergence detection (would need price highs/lows for full implementation)
   const divergence = false; // Placeholder - full implementation would compare price and RSI trends
@@ -94,13 +101,10 @@ export function calculateMACD(
     throw new Error('Insufficient data for MACD calculation');
   }
   
-  const fastEMA = calculateEMA(prices, fastPeriod);
-  const slowEMA = calculateEMA(prices, slowPeriod);
-  
-  const macdLine = fastEMA - slowEMA;
-  const macdValues = [macdLine]; // In real implementation, would calculate for multiple periods
-  const signalLine = calculateEMA(macdValues, signalPeriod);
-  const histogram = macdLine - signalLine;
+  const { macd: macdLine, signal: signalLine, histogram } = lastValue(
+    new StreamingMACD(fastPeriod, slowPeriod, signalPeriod),
+    pricesToCandles(prices)
+  );
   
   // Simplified crossover detection
   const crossover: 'bullish' | 'bearish' | 'none' = histogram > 0 ? 'bullish' : histogram < 0 ? 'bearish' : 'none';
@@ -119,14 +123,14 @@ export function calculateMACD(
 export function calculateEMA(prices: number[], period: number): number {
   if (prices.length === 0) return 0;
   
-  const multiplier = 2 / (period + 1);
-  let ema = prices[0];
-  
-  for (let i = 1; i < prices.length; i++) {
-    ema = (prices[i] * multiplier) + (ema * (1 - multiplier));
-  }
-  
-  return ema;
+  return lastValue(new StreamingEMA(period), pricesToCandles(prices));
+}
+
+/**
+ * Calculates the full EMA series, one value per price
+ */
+export function calculateEMASeries(prices: number[], period: number): number[] {
+  return computeIndicatorSeries(new StreamingEMA(period), pricesToCandles(prices)) as number[];
 }
 
 /**
@@ -148,17 +152,10 @@ export function calculateBollingerBands(
     throw new Error('Insufficient data for Bollinger Bands calculation');
   }
   
-  const recentPrices = prices.slice(-period);
-  const middle = recentPrices.reduce((a, b) => a + b) / period;
-  
-  const variance = recentPrices.reduce((acc, price) => {
-    return acc + Math.pow(price - middle, 2);
-  }, 0) / period;
-  
-  const standardDeviation = Math.sqrt(variance);
-  const upper = middle + (standardDeviation * stdDev);
-  const lower = middle - (standardDeviation * stdDev);
-  const bandwidth = (upper - lower) / middle * 100;
+  const { upper, middle, lower, bandwidth } = lastValue(
+    new StreamingBollingerBands(period, stdDev),
+    pricesToCandles(prices.slice(-period))
+  );
   
   // Squeeze detection (bandwidth below historical average)
   const squeeze = bandwidth < 10; // Simplified threshold
@@ -326,21 +323,7 @@ export function calculateATR(priceData: PriceData[], period: number = 14): numbe
     throw new Error('Insufficient data for ATR calculation');
   }
   
-  const trueRanges: number[] = [];
-  
-  for (let i = 1; i < priceData.length; i++) {
-    const current = priceData[i];
-    const previous = priceData[i - 1];
-    
-    const tr1 = current.high - current.low;
-    const tr2 = Math.abs(current.high - previous.close);
-    const tr3 = Math.abs(current.low - previous.close);
-    
-    trueRanges.push(Math.max(tr1, tr2, tr3));
-  }
-  
-  const recentTR = trueRanges.slice(-period);
-  return recentTR.reduce((a, b) => a + b) / period;
+  return lastValue(new StreamingATR(period), priceData.slice(-(period + 1)));
 }
 
 /**
@@ -351,29 +334,7 @@ export function calculateMFI(priceData: PriceData[], period: number = 14): Indic
     throw new Error('Insufficient data for MFI calculation');
   }
   
-  const typicalPrices: number[] = [];
-  const rawMoneyFlows: number[] = [];
-  
-  for (let i = 0; i < priceData.length; i++) {
-    const tp = (priceData[i].high + priceData[i].low + priceData[i].close) / 3;
-    typicalPrices.push(tp);
-    rawMoneyFlows.push(tp * priceData[i].volume);
-  }
-  
-  let positiveFlow = 0;
-  let negativeFlow = 0;
-  
-  for (let i = 1; i <= period; i++) {
-    const index = priceData.length - i;
-    if (typicalPrices[index] > typicalPrices[index - 1]) {
-      positiveFlow += rawMoneyFlows[index];
-    } else {
-      negativeFlow += rawMoneyFlows[index];
-    }
-  }
-  
-  const moneyFlowRatio = positiveFlow / negativeFlow;
-  const mfi = 100 - (100 / (1 + moneyFlowRatio));
+  const mfi = lastValue(new StreamingMFI(period), priceData.slice(-(period + 1)));
   
   let signal: 'bullish' | 'bearish' | 'neutral' = 'neutral';
   if (mfi > 80) signal = 'bearish'; // Overbought
@@ -418,89 +379,63 @@ export function calculateFibonacci(
 }
 
 /**
- * Detects chart patterns in price data
+ * Detects classical chart patterns in price data, most recent first.
+ * Invalidated patterns are dropped; see ChartPatternDetector for the full output.
  */
 export function detectChartPatterns(priceData: PriceData[]): {
   patterns: Array<{
-    type: string;
+    type: ChartPatternType;
+    name: string;
+    direction: 'bullish' | 'bearish';
+    status: 'forming' | 'confirmed';
     confidence: number;
+    breakoutLevel: number;
     target: number;
     invalidation: number;
   }>;
 } {
-  // Simplified pattern detection - in practice, this would be much more sophisticated
-  const patterns: Array<{
-    type: string;
-    confidence: number;
-    target: number;
-    invalidation: number;
-  }> = [];
-  
-  if (priceData.length < 20) return { patterns };
-  
-  const recent = priceData.slice(-20);
-  const highs = recent.map(d => d.high);
-  const lows = recent.map(d => d.low);
-  
-  // Simple double top detection
-  const maxHigh = Math.max(...highs);
-  const maxIndices = highs.map((h, i) => h === maxHigh ? i : -1).filter(i => i !== -1);
-  
-  if (maxIndices.length >= 2 && maxIndices[maxIndices.length - 1] - maxIndices[0] > 5) {
-    patterns.push({
-      type: 'Double Top',
-      confidence: 75,
-      target: Math.min(...lows),
-      invalidation: maxHigh * 1.02
-    });
-  }
-  
+  const patterns = chartPatternDetector.detectPatterns(priceData)
+    .filter(pattern => pattern.status !== 'invalidated')
+    .map(pattern => ({
+      type: pattern.type,
+      name: pattern.name,
+      direction: pattern.direction,
+      status: pattern.status as 'forming' | 'confirmed',
+      confidence: pattern.confidence,
+      breakoutLevel: pattern.breakoutLevel,
+      target: pattern.target,
+      invalidation: pattern.invalidation
+    }));
+
   return { patterns };
 }
 
 /**
- * Calculates support and resistance levels using multiple methods
+ * Calculates support and resistance levels from clustered swing pivots.
+ * Prices are the weighted level centers, nearest first; `levels` carries the
+ * full zones with strength scores and touch history.
  */
 export function calculateSupportResistance(priceData: PriceData[]): {
   support: number[];
   resistance: number[];
   strength: { [level: number]: number };
+  levels: SupportResistanceLevel[];
 } {
   if (priceData.length < 10) {
-    return { support: [], resistance: [], strength: {} };
+    return { support: [], resistance: [], strength: {}, levels: [] };
   }
   
-  const levels: { [price: number]: number } = {};
-  
-  // Count touches at each price level (simplified)
-  for (const data of priceData) {
-    const highLevel = Math.round(data.high * 100) / 100;
-    const lowLevel = Math.round(data.low * 100) / 100;
-    
-    levels[highLevel] = (levels[highLevel] || 0) + 1;
-    levels[lowLevel] = (levels[lowLevel] || 0) + 1;
-  }
-  
-  // Find significant levels (3+ touches)
-  const significantLevels = Object.entries(levels)
-    .filter(([_, count]) => count >= 3)
-    .map(([price, count]) => ({ price: parseFloat(price), count }))
-    .sort((a, b) => b.count - a.count);
-  
-  const currentPrice = priceData[priceData.length - 1].close;
-  
-  const support = significantLevels
-    .filter(level => level.price < currentPrice)
-    .map(level => level.price);
-  
-  const resistance = significantLevels
-    .filter(level => level.price > currentPrice)
-    .map(level => level.price);
+  const { support, resistance } = supportResistanceEngine.analyze(priceData);
   
   const strength: { [level: number]: number } = {};
-  significantLevels.forEach(level => {
-    strength[level.price] = level.count;
+  [...support, ...resistance].forEach(level => {
+    strength[level.price] = level.strength;
   });
   
-  return { support, resistance, strength };
+  return {
+    support: support.map(level => level.price),
+    resistance: resistance.map(level => level.price),
+    strength,
+    levels: [...support, ...resistance]
+  };
 }
\ No newline at end of file
@@ -6,12 +6,20 @@
  * - Analyzing success rates by pattern type and market conditions
  * - Optimizing AI parameters based on historical performance
  * - Generating performance reports and insights
+ * - Persisting recommendations through a PerformanceStore (JSON-lines file on
+ *   the server, localStorage on the client)
  */
 
+import path from 'path';
+import type { PerformanceStore, RecommendationQuery } from './performance-storage/performance-store';
+import { JsonLinesPerformanceStore } from './performance-storage/jsonl-performance-store';
+import { LocalStoragePerformanceStore } from './performance-storage/local-storage-performance-store';
+
 export interface TradeOutcome {
   id: string;
   timestamp: number;
   asset: string;
+  entryTime?: number; // When the entry was filled
   entryPrice: number;
   exitPrice: number;
   stopLossPrice: number;
@@ -87,6 +95,8 @@ export interface MarketConditionPerformance {
 export class AIPerformanceMonitor {
   private recommendations: Map<string, RecommendationTrack> = new Map();
   private outcomes: Map<string, TradeOutcome> = new Map();
+  private store: PerformanceStore;
+  private ready: Promise<void>;
 
   /**
    * Tracks a new AI recommendation
@@ -101,7 +111,7 @@ export class AIPerformanceMonitor {
     };
     
     this.recommendations.set(id, track);
-    this.persistData();
+    this.persistData(track);
     return id;
   }
 
@@ -117,7 +127,50 @@ export class AIPerformanceMonitor {
     recommendation.outcome = outcome;
     recommendation.status = 'completed';
     this.outcomes.set(outcome.id, outcome);
-    this.persistData();
+    this.persistData(recommendation);
+  }
+
+  /**
+   * Marks a pending recommendation as cancelled (e.g. its entry never filled)
+   */
+  cancelRecommendation(recommendationId: string): void {
+    const recommendation = this.recommendations.get(recommendationId);
+    if (!recommendation) {
+      throw new Error(`Recommendation ${recommendationId} not found`);
+    }
+
+    recommendation.status = 'cancelled';
+    this.persistData(recommendation);
+  }
+
+  /**
+   * Returns recommendations still awaiting an outcome
+   */
+  getPendingRecommendations(): RecommendationTrack[] {
+    return Array.from(this.recommendations.values()).filter(r => r.status === 'pending');
+  }
+
+  /**
+   * Resolves once previously stored recommendations have been loaded
+   */
+  whenReady(): Promise<void> {
+    return this.ready;
+  }
+
+  /**
+   * Queries stored recommendations by asset, persona, timeframe and date range
+   */
+  async queryRecommendations(query: RecommendationQuery = {}): Promise<RecommendationTrack[]> {
+    await this.ready;
+    return this.store.query(query);
+  }
+
+  /**
+   * Calculates performance metrics for the recommendations matching a query
+   */
+  async calculatePerformance(query: RecommendationQuery = {}): Promise<PerformanceMetrics> {
+    const recommendations = await this.queryRecommendations({ ...query, status: 'completed' });
+    return calculatePerformanceMetrics(recommendations);
   }
 
   /**
@@ -128,46 +181,7 @@ export class AIPerformanceMonitor {
     const completedTrades = Array.from(this.recommendations.values())
       .filter(r => r.status === 'completed' && r.timestamp >= cutoffTime && r.outcome);
 
-    if (completedTrades.length === 0) {
-      return this.getEmptyMetrics();
-    }
-
-    const outcomes = completedTrades.map(t => t.outcome!);
-    const wins = outcomes.filter(o => o.pnlPercent > 0);
-    const losses = outcomes.filter(o => o.pnlPercent < 0);
-
-    const totalPnl = outcomes.reduce((sum, o) => sum + o.pnlPercent, 0);
-    const winRate = wins.length / outcomes.length;
-    const avgWinPercent = wins.length > 0 ? wins.reduce((sum, o) => sum + o.pnlPercent, 0) / wins.length : 0;
-    const avgLossPercent = losses.length > 0 ? Math.abs(losses.reduce((sum, o) => sum + o.pnlPercent, 0) / losses.length) : 0;
-    
-    const profitFactor = losses.length > 0 ? (avgWinPercent * wins.length) / (avgLossPercent * losses.length) : 1;
-    const maxDrawdown = Math.max(...outcomes.map(o => o.maxDrawdown));
-    const avgHoldingPeriod = outcomes.reduce((sum, o) => sum + o.holdingPeriod, 0) / outcomes.length;
-    
-    // Simplified Sharpe ratio calculation
-    const returns = outcomes.map(o => o.pnlPercent);
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const returnStdDev = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length);
-    const sharpeRatio = returnStdDev > 0 ? avgReturn / returnStdDev : 0;
-
-    // Calculate confidence calibration
-    const confidenceCalibration = this.calculateConfidenceCalibration(completedTrades);
-    
-    const avgRiskRewardRatio = completedTrades.reduce((sum, t) => sum + t.recommendation.riskRewardRatio, 0) / completedTrades.length;
-
-    return {
-      totalTrades: outcomes.length,
-      winRate,
-      avgWinPercent,
-      avgLossPercent,
-      profitFactor,
-      maxDrawdown,
-      sharpeRatio,
-      avgHoldingPeriod,
-      avgRiskRewardRatio,
-      confidenceCalibration
-    };
+    return calculatePerformanceMetrics(completedTrades);
   }
 
   /**
@@ -360,82 +374,139 @@ export class AIPerformanceMonitor {
     };
   }
 
-  private calculateConfidenceCalibration(trades: RecommendationTrack[]): number {
-    // Calculate how well AI confidence matches actual success rate
-    const confidenceBuckets = new Map<number, { total: number; successes: number }>();
-    
-    trades.forEach(trade => {
-      const confidenceBucket = Math.floor(trade.recommendation.confidence / 10) * 10;
-      const bucket = confidenceBuckets.get(confidenceBucket) || { total: 0, successes: 0 };
-      bucket.total += 1;
-      if (trade.outcome!.pnlPercent > 0) {
-        bucket.successes += 1;
-      }
-      confidenceBuckets.set(confidenceBucket, bucket);
-    });
-
-    let totalDeviation = 0;
-    let bucketCount = 0;
+  private generateId(): string {
+    return `rec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
 
-    confidenceBuckets.forEach((bucket, confidence) => {
-      const actualSuccessRate = bucket.successes / bucket.total;
-      const expectedSuccessRate = confidence / 100;
-      totalDeviation += Math.abs(actualSuccessRate - expectedSuccessRate);
-      bucketCount += 1;
+  private persistData(recommendation: RecommendationTrack): void {
+    this.store.save(recommendation).catch(error => {
+      console.error(`Failed to persist recommendation ${recommendation.id}:`, error);
     });
-
-    return bucketCount > 0 ? 1 - (totalDeviation / bucketCount) : 0;
   }
 
-  private getEmptyMetrics(): PerformanceMetrics {
-    return {
-      totalTrades: 0,
-      winRate: 0,
-      avgWinPercent: 0,
-      avgLossPercent: 0,
-      profitFactor: 0,
-      maxDrawdown: 0,
-      sharpeRatio: 0,
-      avgHoldingPeriod: 0,
-      avgRiskRewardRatio: 0,
-      confidenceCalibration: 0
-    };
+  private async loadData(): Promise<void> {
+    try {
+      const stored = await this.store.loadAll();
+      stored.forEach(recommendation => {
+        // Recommendations tracked while loading take precedence
+        if (!this.recommendations.has(recommendation.id)) {
+          this.recommendations.set(recommendation.id, recommendation);
+        }
+        const current = this.recommendations.get(recommendation.id)!;
+        if (current.outcome) {
+          this.outcomes.set(current.outcome.id, current.outcome);
+        }
+      });
+    } catch (e) {
+      console.warn(`Failed to load performance data from ${this.store.backend} store:`, e);
+    }
   }
 
-  private generateId(): string {
-    return `rec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  constructor(store: PerformanceStore = createDefaultPerformanceStore()) {
+    this.store = store;
+    this.ready = this.loadData();
   }
+}
 
-  private persistData(): void {
-    // In a real implementation, this would save to a database
-    // For now, we could save to localStorage or a file
-    if (typeof window !== 'undefined') {
-      localStorage.setItem('ai_performance_data', JSON.stringify({
-        recommendations: Array.from(this.recommendations.entries()),
-        outcomes: Array.from(this.outcomes.entries())
-      }));
-    }
+/**
+ * Calculates performance metrics for a set of completed recommendations
+ */
+export function calculatePerformanceMetrics(completedTrades: RecommendationTrack[]): PerformanceMetrics {
+  const trades = completedTrades.filter(t => t.outcome);
+  if (trades.length === 0) {
+    return getEmptyMetrics();
   }
 
-  private loadData(): void {
-    // Load persisted data
-    if (typeof window !== 'undefined') {
-      const data = localStorage.getItem('ai_performance_data');
-      if (data) {
-        try {
-          const parsed = JSON.parse(data);
-          this.recommendations = new Map(parsed.recommendations);
-          this.outcomes = new Map(parsed.outcomes);
-        } catch (e) {
-          console.warn('Failed to load performance data:', e);
-        }
-      }
+  const outcomes = trades.map(t => t.outcome!);
+  const wins = outcomes.filter(o => o.pnlPercent > 0);
+  const losses = outcomes.filter(o => o.pnlPercent < 0);
+
+  const winRate = wins.length / outcomes.length;
+  const avgWinPercent = wins.length > 0 ? wins.reduce((sum, o) => sum + o.pnlPercent, 0) / wins.length : 0;
+  const avgLossPercent = losses.length > 0 ? Math.abs(losses.reduce((sum, o) => sum + o.pnlPercent, 0) / losses.length) : 0;
+  
+  const profitFactor = losses.length > 0 ? (avgWinPercent * wins.length) / (avgLossPercent * losses.length) : 1;
+  const maxDrawdown = Math.max(...outcomes.map(o => o.maxDrawdown));
+  const avgHoldingPeriod = outcomes.reduce((sum, o) => sum + o.holdingPeriod, 0) / outcomes.length;
+  
+  // Simplified Sharpe ratio calculation
+  const returns = outcomes.map(o => o.pnlPercent);
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const returnStdDev = Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length);
+  const sharpeRatio = returnStdDev > 0 ? avgReturn / returnStdDev : 0;
+
+  // Calculate confidence calibration
+  const confidenceCalibration = calculateConfidenceCalibration(trades);
+  
+  const avgRiskRewardRatio = trades.reduce((sum, t) => sum + t.recommendation.riskRewardRatio, 0) / trades.length;
+
+  return {
+    totalTrades: outcomes.length,
+    winRate,
+    avgWinPercent,
+    avgLossPercent,
+    profitFactor,
+    maxDrawdown,
+    sharpeRatio,
+    avgHoldingPeriod,
+    avgRiskRewardRatio,
+    confidenceCalibration
+  };
+}
+
+function calculateConfidenceCalibration(trades: RecommendationTrack[]): number {
+  // Calculate how well AI confidence matches actual success rate
+  const confidenceBuckets = new Map<number, { total: number; successes: number }>();
+  
+  trades.forEach(trade => {
+    const confidenceBucket = Math.floor(trade.recommendation.confidence / 10) * 10;
+    const bucket = confidenceBuckets.get(confidenceBucket) || { total: 0, successes: 0 };
+    bucket.total += 1;
+    if (trade.outcome!.pnlPercent > 0) {
+      bucket.successes += 1;
     }
-  }
+    confidenceBuckets.set(confidenceBucket, bucket);
+  });
+
+  let totalDeviation = 0;
+  let bucketCount = 0;
+
+  confidenceBuckets.forEach((bucket, confidence) => {
+    const actualSuccessRate = bucket.successes / bucket.total;
+    const expectedSuccessRate = confidence / 100;
+    totalDeviation += Math.abs(actualSuccessRate - expectedSuccessRate);
+    bucketCount += 1;
+  });
 
-  constructor() {
-    this.loadData();
+  return bucketCount > 0 ? 1 - (totalDeviation / bucketCount) : 0;
+}
+
+function getEmptyMetrics(): PerformanceMetrics {
+  return {
+    totalTrades: 0,
+    winRate: 0,
+    avgWinPercent: 0,
+    avgLossPercent: 0,
+    profitFactor: 0,
+    maxDrawdown: 0,
+    sharpeRatio: 0,
+    avgHoldingPeriod: 0,
+    avgRiskRewardRatio: 0,
+    confidenceCalibration: 0
+  };
+}
+
+/**
+ * localStorage in the browser, a JSON-lines file on the server
+ */
+export function createDefaultPerformanceStore(): PerformanceStore {
+  if (typeof window !== 'undefined') {
+    return new LocalStoragePerformanceStore();
   }
+
+  const filePath = process.env.AI_PERFORMANCE_STORE_PATH
+    || path.join(process.cwd(), '.data', 'ai-performance.jsonl');
+  return new JsonLinesPerformanceStore(filePath);
 }
 
 // Singleton instance
@@ -0,0 +1,158 @@
+/**
+ * @fileOverview Historical Kline Loader
+ *
+ * Loads historical OHLCV candles from local CSV or JSON files so backtests
+ * and offline analysis can run without an exchange connection.
+ *
+ * Supported formats:
+ * - JSON array of KlineData objects
+ * - JSON array of raw Binance kline arrays ([openTime, open, high, low, close, volume, closeTime, ...])
+ * - CSV with a header row (openTime/timestamp, open, high, low, close, volume, closeTime?, trades?)
+ * - Headerless CSV in raw Binance kline column order
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KlineData } from '../data-providers/real-time-data-provider';
+import { getIntervalMs } from '../data-providers/intervals';
+
+export interface KlineFileOptions {
+  symbol?: string;
+  exchange?: string;
+  interval?: string;
+}
+
+/**
+ * Load klines from a local CSV or JSON file, sorted by open time
+ */
+export async function loadKlinesFromFile(
+  filePath: string,
+  options: KlineFileOptions = {}
+): Promise<KlineData[]> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  const extension = path.extname(filePath).toLowerCase();
+
+  const klines = extension === '.json'
+    ? parseKlinesFromJSON(content, options)
+    : parseKlinesFromCSV(content, options);
+
+  if (klines.length === 0) {
+    throw new Error(`No klines found in ${filePath}`);
+  }
+
+  return klines.sort((a, b) => a.openTime - b.openTime);
+}
+
+/**
+ * Parse klines from JSON content
+ */
+export function parseKlinesFromJSON(content: string, options: KlineFileOptions = {}): KlineData[] {
+  const data = JSON.parse(content);
+
+  if (!Array.isArray(data)) {
+    throw new Error('Kline JSON must be an array');
+  }
+
+  return data.map((entry: any) => Array.isArray(entry)
+    ? parseRawBinanceKline(entry, options)
+    : normalizeKline(entry, options)
+  );
+}
+
+/**
+ * Parse klines from CSV content
+ */
+export function parseKlinesFromCSV(content: string, options: KlineFileOptions = {}): KlineData[] {
+  const lines = content.split(/\r?\n/).map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return [];
+
+  const firstRow = lines[0].split(',').map(cell => cell.trim());
+  const hasHeader = firstRow.some(cell => isNaN(parseFloat(cell)));
+
+  if (!hasHeader) {
+    return lines.map(line => parseRawBinanceKline(line.split(','), options));
+  }
+
+  const header = firstRow.map(cell => cell.toLowerCase());
+
+  return lines.slice(1).map(line => {
+    const cells = line.split(',').map(cell => cell.trim());
+    const record: { [column: string]: string } = {};
+    header.forEach((column, i) => {
+      record[column] = cells[i];
+    });
+
+    return normalizeKline({
+      openTime: record.opentime ?? record.open_time ?? record.timestamp ?? record.time,
+      closeTime: record.closetime ?? record.close_time,
+      open: record.open,
+      high: record.high,
+      low: record.low,
+      close: record.close,
+      volume: record.volume,
+      trades: record.trades
+    }, options);
+  });
+}
+
+/**
+ * Convert a raw Binance kline array into KlineData
+ */
+export function parseRawBinanceKline(row: any[], options: KlineFileOptions = {}): KlineData {
+  return normalizeKline({
+    openTime: row[0],
+    open: row[1],
+    high: row[2],
+    low: row[3],
+    close: row[4],
+    volume: row[5],
+    closeTime: row[6],
+    trades: row[8]
+  }, options);
+}
+
+/**
+ * Normalize a loosely-typed kline record into KlineData
+ */
+function normalizeKline(entry: any, options: KlineFileOptions): KlineData {
+  const openTime = toTimestamp(entry.openTime);
+  const interval = entry.interval || options.interval || '1h';
+
+  const kline: KlineData = {
+    symbol: entry.symbol || options.symbol || 'UNKNOWN',
+    exchange: entry.exchange || options.exchange || 'binance',
+    interval,
+    openTime,
+    closeTime: entry.closeTime !== undefined && entry.closeTime !== ''
+      ? toTimestamp(entry.closeTime)
+      : openTime + getIntervalMs(interval) - 1,
+    open: parseFloat(entry.open),
+    high: parseFloat(entry.high),
+    low: parseFloat(entry.low),
+    close: parseFloat(entry.close),
+    volume: parseFloat(entry.volume) || 0,
+    trades: parseInt(entry.trades) || 0
+  };
+
+  if ([kline.openTime, kline.open, kline.high, kline.low, kline.close].some(value => isNaN(value))) {
+    throw new Error(`Invalid kline record: ${JSON.stringify(entry)}`);
+  }
+
+  return kline;
+}
+
+/**
+ * Accept epoch milliseconds, epoch seconds or ISO date strings
+ */
+function toTimestamp(value: any): number {
+  if (typeof value === 'number') {
+    return value < 1e12 ? value * 1000 : value;
+  }
+
+  const numeric = Number(value);
+  if (!isNaN(numeric)) {
+    return numeric < 1e12 ? numeric * 1000 : numeric;
+  }
+
+  return new Date(value).getTime();
+}
@@ -0,0 +1,489 @@
+/**
+ * @fileOverview Pattern Signal Backtester
+ *
+ * Replays historical klines bar by bar through the Advanced Pattern Recognition
+ * System and simulates the resulting trading signals:
+ * - No lookahead: each analysis only sees bars that have already closed
+ * - Entries fill on the following bars (market or limit at the signal price)
+ * - Scaled exits across signal targets with a protective stop
+ * - Fees and slippage applied to every fill
+ * - Results reported as PerformanceMetrics, matching AIPerformanceMonitor
+ */
+
+import { AdvancedPatternRecognitionSystem, type ComprehensivePatternAnalysis } from '../pattern-recognition/advanced-pattern-recognition-system';
+import { calculatePerformanceMetrics, type PerformanceMetrics, type RecommendationTrack, type TradeOutcome } from '../ai-performance-monitor';
+import type { KlineData } from '../data-providers/real-time-data-provider';
+import { loadKlinesFromFile, type KlineFileOptions } from './historical-kline-loader';
+
+export interface BacktestConfig {
+  asset: string;
+  timeframe: string;
+  warmupBars: number; // Bars required before the first analysis
+  lookbackBars: number; // Bars passed to each analysis
+  analysisInterval: number; // Run analysis every N bars
+  feeRate: number; // Per fill, e.g. 0.001 = 0.1%
+  slippageRate: number; // Adverse price movement per market fill
+  minConfidence: number; // Minimum signal confidence (0-100)
+  entryTolerance: number; // Max distance from close to treat entry as a market order
+  entryExpiryBars: number; // Bars a limit entry stays working
+  maxHoldingBars: number; // Timeout exit
+  maxTargets: number; // Targets used for scaled exits
+  persona: string;
+  riskTolerance: RecommendationTrack['riskTolerance'];
+}
+
+export interface BacktestTrade {
+  signalTime: number;
+  direction: 'long' | 'short';
+  confidence: number;
+  methodology: string[];
+  outcome: TradeOutcome;
+  entryTime: number;
+  exitTime: number;
+  grossPnlPercent: number;
+  feesPercent: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  startTime: number;
+  endTime: number;
+  barsProcessed: number;
+  signalsGenerated: number;
+  expiredEntries: number;
+  trades: BacktestTrade[];
+  recommendations: RecommendationTrack[];
+  metrics: PerformanceMetrics;
+  equityCurve: { timestamp: number; equity: number }[];
+  totalReturnPercent: number;
+}
+
+type TradingSignal = ComprehensivePatternAnalysis['tradingSignals'][number];
+
+interface PendingEntry {
+  signal: TradingSignal;
+  analysis: ComprehensivePatternAnalysis;
+  createdIndex: number;
+  signalTime: number;
+  market: boolean;
+}
+
+interface OpenPosition {
+  signal: TradingSignal;
+  analysis: ComprehensivePatternAnalysis;
+  signalTime: number;
+  direction: 'long' | 'short';
+  entryIndex: number;
+  entryTime: number;
+  entryPrice: number;
+  stopLoss: number;
+  targets: number[];
+  remaining: number; // Fraction of the position still open
+  realizedGross: number; // Weighted gross return in percent
+  feesPaid: number; // Weighted fees in percent
+  nextTarget: number;
+  maxRunup: number;
+  maxDrawdown: number;
+  exitReason?: TradeOutcome['actualExitReason'];
+}
+
+const DEFAULT_CONFIG: BacktestConfig = {
+  asset: 'BTC',
+  timeframe: '4h',
+  warmupBars: 100,
+  lookbackBars: 200,
+  analysisInterval: 1,
+  feeRate: 0.001,
+  slippageRate: 0.0005,
+  minConfidence: 70,
+  entryTolerance: 0.002,
+  entryExpiryBars: 5,
+  maxHoldingBars: 50,
+  maxTargets: 3,
+  persona: 'backtest',
+  riskTolerance: 'moderate'
+};
+
+export class PatternBacktester {
+  private config: BacktestConfig;
+  private patternSystem: AdvancedPatternRecognitionSystem;
+
+  constructor(
+    config: Partial<BacktestConfig> = {},
+    patternSystem: AdvancedPatternRecognitionSystem = new AdvancedPatternRecognitionSystem()
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.patternSystem = patternSystem;
+  }
+
+  /**
+   * Replays klines bar by bar and simulates every signal produced
+   */
+  async run(klines: KlineData[]): Promise<BacktestResult> {
+    const { warmupBars } = this.config;
+
+    if (klines.length <= warmupBars) {
+      throw new Error(`Insufficient data for backtest: ${klines.length} bars, ${warmupBars} warmup bars required`);
+    }
+
+    const sorted = [...klines].sort((a, b) => a.openTime - b.openTime);
+    const trades: BacktestTrade[] = [];
+    const recommendations: RecommendationTrack[] = [];
+    const equityCurve: { timestamp: number; equity: number }[] = [];
+
+    let pending: PendingEntry | null = null;
+    let position: OpenPosition | null = null;
+    let signalsGenerated = 0;
+    let expiredEntries = 0;
+    let equity = 1;
+
+    for (let i = warmupBars; i < sorted.length; i++) {
+      const bar = sorted[i];
+
+      // 1. Fill a pending entry with this bar (signal came from an earlier close)
+      if (!position && pending) {
+        position = this.tryFillEntry(pending, bar, i);
+        if (position) {
+          pending = null;
+        } else if (i - pending.createdIndex >= this.config.entryExpiryBars) {
+          expiredEntries++;
+          pending = null;
+        }
+      }
+
+      // 2. Manage an open position against this bar
+      if (position) {
+        const closed = this.updatePosition(position, bar, i);
+        if (closed) {
+          const trade = this.buildTrade(position, bar);
+          trades.push(trade);
+          recommendations.push(this.buildRecommendationTrack(position, trade));
+          equity *= 1 + trade.outcome.pnlPercent / 100;
+          position = null;
+        }
+      }
+
+      equityCurve.push({ timestamp: bar.closeTime, equity });
+
+      // 3. Analyze the closed bar for new signals
+      if (position || pending || (i - warmupBars) % this.config.analysisInterval !== 0) {
+        continue;
+      }
+
+      const analysis = await this.analyzeWindow(sorted, i);
+      const signal = this.selectSignal(analysis);
+
+      if (signal) {
+        signalsGenerated++;
+        const distance = Math.abs(signal.entry.price - bar.close) / bar.close;
+        pending = {
+          signal,
+          analysis,
+          createdIndex: i,
+          signalTime: bar.closeTime,
+          market: distance <= this.config.entryTolerance
+        };
+      }
+    }
+
+    // Close anything still open at the final bar
+    if (position) {
+      const lastBar = sorted[sorted.length - 1];
+      this.closeRemaining(position, lastBar.close);
+      const trade = this.buildTrade(position, lastBar, 'timeout');
+      trades.push(trade);
+      recommendations.push(this.buildRecommendationTrack(position, trade));
+      equity *= 1 + trade.outcome.pnlPercent / 100;
+      equityCurve.push({ timestamp: lastBar.closeTime, equity });
+    }
+
+    return {
+      config: this.config,
+      startTime: sorted[warmupBars].openTime,
+      endTime: sorted[sorted.length - 1].closeTime,
+      barsProcessed: sorted.length - warmupBars,
+      signalsGenerated,
+      expiredEntries,
+      trades,
+      recommendations,
+      metrics: calculatePerformanceMetrics(recommendations),
+      equityCurve,
+      totalReturnPercent: (equity - 1) * 100
+    };
+  }
+
+  /**
+   * Loads klines from a CSV/JSON file and runs the backtest
+   */
+  async runFromFile(filePath: string, options: KlineFileOptions = {}): Promise<BacktestResult> {
+    const klines = await loadKlinesFromFile(filePath, {
+      symbol: options.symbol,
+      exchange: options.exchange,
+      interval: options.interval || this.config.timeframe
+    });
+
+    return this.run(klines);
+  }
+
+  /**
+   * Run the pattern system over bars up to and including the current one
+   */
+  private async analyzeWindow(klines: KlineData[], index: number): Promise<ComprehensivePatternAnalysis> {
+    const window = klines.slice(Math.max(0, index + 1 - this.config.lookbackBars), index + 1);
+
+    return this.patternSystem.analyzeCandles(
+      this.config.asset,
+      this.config.timeframe,
+      window,
+      undefined,
+      undefined,
+      window[window.length - 1].close
+    );
+  }
+
+  /**
+   * Pick the highest-confidence signal with a valid stop
+   */
+  private selectSignal(analysis: ComprehensivePatternAnalysis): TradingSignal | null {
+    const candidates = analysis.tradingSignals
+      .filter(signal => signal.entry.confidence >= this.config.minConfidence)
+      .filter(signal => this.hasValidLevels(signal))
+      .sort((a, b) => b.entry.confidence - a.entry.confidence);
+
+    return candidates[0] || null;
+  }
+
+  /**
+   * Stops must sit on the losing side of entry and targets on the winning side
+   */
+  private hasValidLevels(signal: TradingSignal): boolean {
+    const { price, direction } = signal.entry;
+    const stop = signal.stopLoss.price;
+
+    if (!isFinite(price) || !isFinite(stop) || price <= 0) return false;
+    if (direction === 'long' && stop >= price) return false;
+    if (direction === 'short' && stop <= price) return false;
+
+    return signal.targets.some(target => direction === 'long' ? target.price > price : target.price < price);
+  }
+
+  /**
+   * Attempt to fill a pending entry within the given bar
+   */
+  private tryFillEntry(pending: PendingEntry, bar: KlineData, index: number): OpenPosition | null {
+    const { signal } = pending;
+    const direction = signal.entry.direction;
+    let fillPrice: number;
+
+    if (pending.market) {
+      // Market order at the next open, with slippage against us
+      fillPrice = direction === 'long'
+        ? bar.open * (1 + this.config.slippageRate)
+        : bar.open * (1 - this.config.slippageRate);
+    } else {
+      // Limit order fills only if the bar trades through the entry price
+      if (bar.low > signal.entry.price || bar.high < signal.entry.price) {
+        return null;
+      }
+      fillPrice = signal.entry.price;
+    }
+
+    const targets = signal.targets
+      .map(target => target.price)
+      .filter(price => direction === 'long' ? price > fillPrice : price < fillPrice)
+      .sort((a, b) => direction === 'long' ? a - b : b - a)
+      .slice(0, this.config.maxTargets);
+
+    if (targets.length === 0) {
+      return null;
+    }
+
+    return {
+      signal,
+      analysis: pending.analysis,
+      signalTime: pending.signalTime,
+      direction,
+      entryIndex: index,
+      entryTime: bar.openTime,
+      entryPrice: fillPrice,
+      stopLoss: signal.stopLoss.price,
+      targets,
+      remaining: 1,
+      realizedGross: 0,
+      feesPaid: this.config.feeRate * 100,
+      nextTarget: 0,
+      maxRunup: 0,
+      maxDrawdown: 0
+    };
+  }
+
+  /**
+   * Apply a bar to an open position. Returns true once fully closed.
+   */
+  private updatePosition(position: OpenPosition, bar: KlineData, index: number): boolean {
+    const { direction, entryPrice } = position;
+    const favorable = direction === 'long' ? bar.high : bar.low;
+    const adverse = direction === 'long' ? bar.low : bar.high;
+
+    position.maxRunup = Math.max(position.maxRunup, this.movePercent(direction, entryPrice, favorable));
+    position.maxDrawdown = Math.max(position.maxDrawdown, -this.movePercent(direction, entryPrice, adverse));
+
+    // Conservative intrabar ordering: the stop is assumed to trade before any target
+    const stopHit = direction === 'long' ? bar.low <= position.stopLoss : bar.high >= position.stopLoss;
+    if (stopHit) {
+      const stopFill = direction === 'long'
+        ? Math.min(bar.open, position.stopLoss) * (1 - this.config.slippageRate)
+        : Math.max(bar.open, position.stopLoss) * (1 + this.config.slippageRate);
+      this.closeRemaining(position, stopFill);
+      position.exitReason = 'stop_loss';
+      return true;
+    }
+
+    // Scale out across targets
+    const portion = 1 / position.targets.length;
+    while (position.nextTarget < position.targets.length) {
+      const target = position.targets[position.nextTarget];
+      const targetHit = direction === 'long' ? bar.high >= target : bar.low <= target;
+      if (!targetHit) break;
+
+      const size = Math.min(portion, position.remaining);
+      position.realizedGross += size * this.movePercent(direction, entryPrice, target);
+      position.feesPaid += size * this.config.feeRate * 100;
+      position.remaining -= size;
+      position.nextTarget++;
+
+      // Move the stop to breakeven once the first target is taken
+      if (position.nextTarget === 1) {
+        position.stopLoss = entryPrice;
+      }
+    }
+
+    if (position.remaining <= 1e-9) {
+      position.exitReason = 'take_profit';
+      return true;
+    }
+
+    if (index - position.entryIndex >= this.config.maxHoldingBars) {
+      const exitFill = direction === 'long'
+        ? bar.close * (1 - this.config.slippageRate)
+        : bar.close * (1 + this.config.slippageRate);
+      this.closeRemaining(position, exitFill);
+      position.exitReason = 'timeout';
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Close whatever is left of the position at a given price
+   */
+  private closeRemaining(position: OpenPosition, price: number): void {
+    if (position.remaining <= 0) return;
+
+    position.realizedGross += position.remaining * this.movePercent(position.direction, position.entryPrice, price);
+    position.feesPaid += position.remaining * this.config.feeRate * 100;
+    position.remaining = 0;
+  }
+
+  /**
+   * Build the trade record for a closed position
+   */
+  private buildTrade(
+    position: OpenPosition,
+    exitBar: KlineData,
+    forcedReason?: TradeOutcome['actualExitReason']
+  ): BacktestTrade {
+    const exitReason = forcedReason || position.exitReason || 'timeout';
+    const pnlPercent = position.realizedGross - position.feesPaid;
+    const exitPrice = position.direction === 'long'
+      ? position.entryPrice * (1 + position.realizedGross / 100)
+      : position.entryPrice * (1 - position.realizedGross / 100);
+    const holdingPeriod = (exitBar.closeTime - position.entryTime) / (60 * 60 * 1000);
+
+    const outcome: TradeOutcome = {
+      id: `bt_${position.entryTime}_${position.direction}`,
+      timestamp: exitBar.closeTime,
+      asset: this.config.asset,
+      entryPrice: position.entryPrice,
+      exitPrice,
+      stopLossPrice: position.signal.stopLoss.price,
+      takeProfitPrices: position.targets,
+      actualExitReason: exitReason,
+      actualExitLevel: position.nextTarget > 0 ? position.nextTarget : undefined,
+      holdingPeriod,
+      pnlPercent,
+      maxDrawdown: position.maxDrawdown,
+      maxRunup: position.maxRunup
+    };
+
+    return {
+      signalTime: position.signalTime,
+      direction: position.direction,
+      confidence: position.signal.entry.confidence,
+      methodology: position.signal.entry.methodology,
+      outcome,
+      entryTime: position.entryTime,
+      exitTime: exitBar.closeTime,
+      grossPnlPercent: position.realizedGross,
+      feesPercent: position.feesPaid
+    };
+  }
+
+  /**
+   * Express a backtest trade as a completed RecommendationTrack
+   */
+  private buildRecommendationTrack(position: OpenPosition, trade: BacktestTrade): RecommendationTrack {
+    const { analysis, signal } = position;
+    const volatility = analysis.volumeProfile.marketStructure.phase === 'late' ? 'high' :
+                      analysis.volumeProfile.marketStructure.phase === 'early' ? 'low' : 'medium';
+
+    return {
+      id: trade.outcome.id,
+      timestamp: trade.entryTime,
+      aiVersion: 'pattern-backtest',
+      asset: this.config.asset,
+      timeframe: this.config.timeframe,
+      persona: this.config.persona,
+      riskTolerance: this.config.riskTolerance,
+      marketConditions: {
+        trend: analysis.consensus.overallDirection,
+        volatility,
+        sentiment: analysis.consensus.overallDirection === 'bullish' ? analysis.consensus.confidence :
+                   analysis.consensus.overallDirection === 'bearish' ? -analysis.consensus.confidence : 0,
+        marketPhase: analysis.volumeProfile.marketStructure.trend
+      },
+      recommendation: {
+        entryPrice: signal.entry.price,
+        takeProfitLevels: signal.targets.map(target => target.price),
+        stopLoss: signal.stopLoss.price,
+        riskRewardRatio: signal.riskReward,
+        confidence: signal.entry.confidence,
+        patternType: analysis.mlPatterns[0]?.patternType || analysis.harmonicPatterns.completedPatterns[0]?.type,
+        confluenceFactors: signal.entry.methodology
+      },
+      outcome: trade.outcome,
+      status: 'completed'
+    };
+  }
+
+  /**
+   * Percent move from entry in the trade's favour
+   */
+  private movePercent(direction: 'long' | 'short', entry: number, price: number): number {
+    return direction === 'long'
+      ? ((price - entry) / entry) * 100
+      : ((entry - price) / entry) * 100;
+  }
+}
+
+/**
+ * Convenience wrapper: backtest pattern signals from a local kline file
+ */
+export async function backtestPatternSignalsFromFile(
+  filePath: string,
+  config: Partial<BacktestConfig> = {}
+): Promise<BacktestResult> {
+  const backtester = new PatternBacktester(config);
+  return backtester.runFromFile(filePath, { symbol: config.asset, interval: config.timeframe });
+}
@@ -1,8 +1,11 @@
 /**
  * @fileOverview Binance API Service for Cryptocurrency Price Data
- * Provides real-time price information and market data for cryptocurrencies
+ * Provides real-time price information and market data for cryptocurrencies.
+ * Requests share the Binance rate limiter with the exchange adapter.
  */
 
+import { rateLimitedFetch } from './data-providers/rate-limiter';
+
 export interface CryptoPrice {
   symbol: string;
   price: string;
@@ -45,7 +48,7 @@ class BinanceAPIService {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/ticker/24hr?symbol=${formattedSymbol}`);
+      const response = await rateLimitedFetch('binance', `${this.baseUrl}/ticker/24hr?symbol=${formattedSymbol}`, { priority: 'high' });
       
       if (!response.ok) {
         throw new Error(`Failed to fetch price for ${symbol}: ${response.statusText}`);
@@ -97,7 +100,7 @@ class BinanceAPIService {
     }
 
     try {
-      const response = await fetch(`${this.baseUrl}/ticker/24hr`);
+      const response = await rateLimitedFetch('binance', `${this.baseUrl}/ticker/24hr`, { priority: 'high' });
       
       if (!response.ok) {
         throw new Error(`Failed to fetch markets: ${response.statusText}`);
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { extractAssetFromContext } from './chart-analysis-helpers';
+
+describe('extractAssetFromContext', () => {
+  it('returns the ticker for assets written by name', () => {
+    expect(extractAssetFromContext('Should I long Bitcoin here?')).toBe('BTC');
+    expect(extractAssetFromContext('ethereum funding looks heated')).toBe('ETH');
+    expect(extractAssetFromContext('Is SOLANA breaking out?')).toBe('SOL');
+    expect(extractAssetFromContext('polygon vs the market')).toBe('MATIC');
+  });
+
+  it('returns tickers and pair bases unchanged', () => {
+    expect(extractAssetFromContext('btc 4h outlook')).toBe('BTC');
+    expect(extractAssetFromContext('What about PEPE/USDT?')).toBe('PEPE');
+    expect(extractAssetFromContext('How is the market today?')).toBeNull();
+  });
+});
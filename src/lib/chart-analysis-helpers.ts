@@ -31,33 +31,33 @@ export function extractCurrentPriceFromContext(question: string): number | null
   return null;
 }
 
+// Tickers with the names users write them as; matches resolve to the ticker
+const ASSET_NAMES: [ticker: string, name: string][] = [
+  ['BTC', 'BITCOIN'],
+  ['ETH', 'ETHEREUM'],
+  ['BNB', 'BINANCE'],
+  ['SOL', 'SOLANA'],
+  ['ADA', 'CARDANO'],
+  ['DOT', 'POLKADOT'],
+  ['MATIC', 'POLYGON'],
+  ['LINK', 'CHAINLINK'],
+  ['AVAX', 'AVALANCHE'],
+  ['ATOM', 'COSMOS'],
+  ['XRP', 'RIPPLE']
+];
+
 /**
- * Attempts to extract asset symbol from user's question
+ * Attempts to extract the asset ticker (e.g. BTC, never BITCOIN) from user's question
  */
 export function extractAssetFromContext(question: string): string | null {
-  const cryptoPatterns = [
-    /\b(BTC|BITCOIN)\b/i,
-    /\b(ETH|ETHEREUM)\b/i,
-    /\b(BNB|BINANCE)\b/i,
-    /\b(SOL|SOLANA)\b/i,
-    /\b(ADA|CARDANO)\b/i,
-    /\b(DOT|POLKADOT)\b/i,
-    /\b(MATIC|POLYGON)\b/i,
-    /\b(LINK|CHAINLINK)\b/i,
-    /\b(AVAX|AVALANCHE)\b/i,
-    /\b(ATOM|COSMOS)\b/i,
-    /\b(XRP|RIPPLE)\b/i,
-    /\b([A-Z]{3,6})\/?(USDT?|USD|BTC)\b/i
-  ];
-  
-  for (const pattern of cryptoPatterns) {
-    const match = question.match(pattern);
-    if (match) {
-      return match[1].toUpperCase();
+  for (const [ticker, name] of ASSET_NAMES) {
+    if (new RegExp(`\\b(${ticker}|${name})\\b`, 'i').test(question)) {
+      return ticker;
     }
   }
   
-  return null;
+  const pair = question.match(/\b([A-Z]{3,6})\/?(USDT?|USD|BTC)\b/i);
+  return pair ? pair[1].toUpperCase() : null;
 }
 
 /**
@@ -1,5 +1,8 @@
 import type { ChartDrawingAnalysisOutput } from '@/ai/flows/chart-drawing-analysis';
-import type { AIDrawingData, PatternAnnotation, ChartPoint } from '@/components/charts/interactive-chart-overlay';
+import type { AIDrawingData, PatternAnnotation } from '@/components/charts/interactive-chart-overlay';
+import type { ChartPoint } from '@/lib/types';
+import type { VolumeProfileLevel } from '@/lib/pattern-recognition/volume-profile-analyzer';
+import type { DetectedChartPattern } from '@/lib/pattern-recognition/chart-pattern-detector';
 
 /**
  * Converts AI chart drawing analysis output to the format expected by InteractiveChartOverlay
@@ -205,6 +208,77 @@ export function convertAIAnalysisToDrawingData(
   return drawingData;
 }
 
+/**
+ * Adds volume profile levels (see VolumeProfileAnalyzer.getProfileLevels) to drawing data for overlay rendering
+ */
+export function withVolumeProfileLevels(
+  drawingData: AIDrawingData,
+  levels: VolumeProfileLevel[]
+): AIDrawingData {
+  return {
+    ...drawingData,
+    keyLevels: {
+      ...drawingData.keyLevels,
+      volumeProfile: [...(drawingData.keyLevels.volumeProfile || []), ...levels]
+    }
+  };
+}
+
+/**
+ * Converts a detected chart pattern into overlay annotations: the pivot
+ * outline plus one line per neckline/boundary. Detector points use candle
+ * index and price, so pass `toPoint` to map them into chart coordinates.
+ */
+export function chartPatternToAnnotations(
+  pattern: DetectedChartPattern,
+  toPoint: (point: ChartPoint) => ChartPoint = point => point
+): PatternAnnotation[] {
+  const id = `chart-pattern-${pattern.type}-${pattern.startIndex}`;
+  const color = pattern.direction === 'bullish' ? '#22c55e' : '#ef4444';
+  const metadata = {
+    patternType: pattern.type,
+    direction: pattern.direction,
+    strength: pattern.confidence,
+    priceTargets: [pattern.target]
+  };
+
+  return [
+    {
+      id,
+      type: 'pattern',
+      name: pattern.name,
+      description: `${pattern.name} (${pattern.status}): breakout ${pattern.breakoutLevel.toFixed(2)}, target ${pattern.target.toFixed(2)}, invalidation ${pattern.invalidation.toFixed(2)}`,
+      confidence: pattern.confidence,
+      points: pattern.points.map(toPoint),
+      style: {
+        color,
+        strokeWidth: 2,
+        strokeDasharray: pattern.status === 'forming' ? '6,4' : undefined,
+        fillOpacity: 0.1
+      },
+      visible: true,
+      aiGenerated: false,
+      metadata
+    },
+    ...pattern.boundaries.map((boundary, index): PatternAnnotation => ({
+      id: `${id}-boundary-${index}`,
+      type: 'trendline',
+      name: `${pattern.name} ${pattern.boundaries.length > 1 ? (index === 0 ? 'Upper Line' : 'Lower Line') : 'Breakout Line'}`,
+      description: `Breakout level ${pattern.breakoutLevel.toFixed(2)}`,
+      confidence: pattern.confidence,
+      points: boundary.map(toPoint),
+      style: {
+        color,
+        strokeWidth: 1,
+        strokeDasharray: '4,4'
+      },
+      visible: true,
+      aiGenerated: false,
+      metadata
+    }))
+  ];
+}
+
 /**
  * Extracts key metrics from drawing data for display
  */
@@ -0,0 +1,157 @@
+/**
+ * @fileOverview Confidence Calibration
+ *
+ * Measures whether stated recommendation confidence matches realized win
+ * rates. Resolved RecommendationTracks are bucketed by confidence and scored
+ * with:
+ * - Brier score (mean squared error of confidence as a win probability)
+ * - Expected calibration error (count-weighted |confidence - hit rate|)
+ * - Per-bucket hit rates for reliability diagrams
+ *
+ * Reports are produced overall and broken down by persona and aiVersion.
+ */
+
+import type { RecommendationTrack } from './ai-performance-monitor';
+
+export interface CalibrationBucket {
+  lowerBound: number; // Confidence %, inclusive
+  upperBound: number; // Confidence %, exclusive (inclusive for the last bucket)
+  count: number;
+  wins: number;
+  avgConfidence: number; // %
+  hitRate: number; // %
+  gap: number; // avgConfidence - hitRate; positive means overconfident
+}
+
+export interface CalibrationSummary {
+  sampleSize: number;
+  winRate: number; // %
+  avgConfidence: number; // %
+  brierScore: number; // 0 (perfect) to 1
+  expectedCalibrationError: number; // % points
+  maxCalibrationError: number; // % points, worst non-empty bucket
+  buckets: CalibrationBucket[];
+}
+
+export interface CalibrationGroup {
+  key: string;
+  summary: CalibrationSummary;
+}
+
+export interface CalibrationReport {
+  generatedAt: number;
+  bucketSize: number;
+  overall: CalibrationSummary;
+  byPersona: CalibrationGroup[];
+  byAiVersion: CalibrationGroup[];
+}
+
+/**
+ * Build a calibration report from resolved recommendations
+ */
+export function buildCalibrationReport(
+  recommendations: RecommendationTrack[],
+  bucketSize: number = 10
+): CalibrationReport {
+  const resolved = recommendations.filter(r => r.status === 'completed' && r.outcome);
+
+  return {
+    generatedAt: Date.now(),
+    bucketSize,
+    overall: calculateCalibration(resolved, bucketSize),
+    byPersona: groupCalibration(resolved, r => r.persona || 'unknown', bucketSize),
+    byAiVersion: groupCalibration(resolved, r => r.aiVersion || 'unknown', bucketSize)
+  };
+}
+
+/**
+ * Bucket recommendations by confidence and score calibration
+ */
+export function calculateCalibration(
+  recommendations: RecommendationTrack[],
+  bucketSize: number = 10
+): CalibrationSummary {
+  const samples = recommendations
+    .filter(r => r.outcome)
+    .map(r => ({
+      confidence: Math.min(Math.max(r.recommendation.confidence, 0), 100),
+      win: r.outcome!.pnlPercent > 0 ? 1 : 0
+    }));
+
+  const bucketCount = Math.ceil(100 / bucketSize);
+  const buckets: CalibrationBucket[] = Array.from({ length: bucketCount }, (_, i) => ({
+    lowerBound: i * bucketSize,
+    upperBound: Math.min((i + 1) * bucketSize, 100),
+    count: 0,
+    wins: 0,
+    avgConfidence: 0,
+    hitRate: 0,
+    gap: 0
+  }));
+
+  if (samples.length === 0) {
+    return {
+      sampleSize: 0,
+      winRate: 0,
+      avgConfidence: 0,
+      brierScore: 0,
+      expectedCalibrationError: 0,
+      maxCalibrationError: 0,
+      buckets
+    };
+  }
+
+  let squaredError = 0;
+  samples.forEach(({ confidence, win }) => {
+    const bucket = buckets[Math.min(Math.floor(confidence / bucketSize), bucketCount - 1)];
+    bucket.count += 1;
+    bucket.wins += win;
+    bucket.avgConfidence += confidence;
+    squaredError += Math.pow(confidence / 100 - win, 2);
+  });
+
+  let weightedError = 0;
+  let maxCalibrationError = 0;
+  buckets.forEach(bucket => {
+    if (bucket.count === 0) return;
+
+    bucket.avgConfidence /= bucket.count;
+    bucket.hitRate = (bucket.wins / bucket.count) * 100;
+    bucket.gap = bucket.avgConfidence - bucket.hitRate;
+
+    weightedError += bucket.count * Math.abs(bucket.gap);
+    maxCalibrationError = Math.max(maxCalibrationError, Math.abs(bucket.gap));
+  });
+
+  const wins = samples.reduce((sum, s) => sum + s.win, 0);
+
+  return {
+    sampleSize: samples.length,
+    winRate: (wins / samples.length) * 100,
+    avgConfidence: samples.reduce((sum, s) => sum + s.confidence, 0) / samples.length,
+    brierScore: squaredError / samples.length,
+    expectedCalibrationError: weightedError / samples.length,
+    maxCalibrationError,
+    buckets
+  };
+}
+
+function groupCalibration(
+  recommendations: RecommendationTrack[],
+  keyOf: (recommendation: RecommendationTrack) => string,
+  bucketSize: number
+): CalibrationGroup[] {
+  const groups = new Map<string, RecommendationTrack[]>();
+
+  recommendations.forEach(recommendation => {
+    const key = keyOf(recommendation);
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push(recommendation);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, summary: calculateCalibration(group, bucketSize) }))
+    .sort((a, b) => b.summary.sampleSize - a.summary.sampleSize);
+}
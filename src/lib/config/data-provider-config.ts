@@ -18,9 +18,12 @@ export interface ExchangeConfig {
     window: number; // milliseconds
   };
   reconnect: {
-    maxAttempts: number;
+    maxAttempts: number; // Consecutive failures before the circuit breaker opens
     backoffMultiplier: number;
-    maxDelay: number;
+    maxDelay: number; // milliseconds
+    circuitResetTimeout?: number; // milliseconds between attempts while the circuit is open
+    heartbeatInterval?: number; // milliseconds
+    heartbeatTimeout?: number; // milliseconds without messages before the socket is considered dead
   };
 }
 
@@ -36,6 +39,7 @@ export interface DataProviderConfig {
   fallback: {
     enabled: boolean;
     sources: string[];
+    strict: boolean; // Refuse synthetic data; fail instead of inventing prices
   };
   monitoring: {
     enabled: boolean;
@@ -75,6 +79,28 @@ function loadConfigFromEnv(): DataProviderConfig {
           maxDelay: 30000 // 30 seconds
         }
       },
+      'binance-futures': {
+        name: 'Binance USD-M Futures',
+        enabled: process.env.BINANCE_FUTURES_ENABLED !== 'false',
+        apiKey: process.env.BINANCE_API_KEY,
+        apiSecret: process.env.BINANCE_API_SECRET,
+        testnet: process.env.BINANCE_TESTNET === 'true',
+        websocketUrl: process.env.BINANCE_TESTNET === 'true'
+          ? 'wss://stream.binancefuture.com/ws'
+          : 'wss://fstream.binance.com/ws',
+        restApiUrl: process.env.BINANCE_TESTNET === 'true'
+          ? 'https://testnet.binancefuture.com'
+          : 'https://fapi.binance.com',
+        rateLimits: {
+          requests: parseInt(process.env.BINANCE_FUTURES_RATE_LIMIT || '2400'),
+          window: 60000
+        },
+        reconnect: {
+          maxAttempts: parseInt(process.env.BINANCE_MAX_RECONNECTS || '5'),
+          backoffMultiplier: 2,
+          maxDelay: 30000
+        }
+      },
       coinbase: {
         name: 'Coinbase Pro',
         enabled: process.env.COINBASE_ENABLED === 'true',
@@ -123,7 +149,8 @@ function loadConfigFromEnv(): DataProviderConfig {
     },
     fallback: {
       enabled: process.env.FALLBACK_ENABLED !== 'false',
-      sources: (process.env.FALLBACK_SOURCES || 'generated,cached').split(',')
+      sources: (process.env.FALLBACK_SOURCES || 'generated,cached').split(','),
+      strict: process.env.FALLBACK_STRICT === 'true'
     },
     monitoring: {
       enabled: process.env.MONITORING_ENABLED !== 'false',
@@ -165,8 +192,8 @@ function validateConfig(config: DataProviderConfig): string[] {
   
   // Check API keys for enabled exchanges
   Object.entries(config.exchanges).forEach(([name, exchange]) => {
-    if (exchange.enabled && !exchange.apiKey && name !== 'binance') {
-      // Binance allows public data without API key
+    if (exchange.enabled && !exchange.apiKey && !name.startsWith('binance')) {
+      // Binance spot and futures allow public data without API key
       console.warn(`${name} is enabled but no API key provided - only public data will be available`);
     }
   });
@@ -211,6 +238,14 @@ export function isRealTimeDataConfigured(): boolean {
   }
 }
 
+/**
+ * Whether synthetic (generated) market data may stand in for real data
+ */
+export function isSyntheticDataAllowed(): boolean {
+  const { fallback } = getDataProviderConfig();
+  return fallback.enabled && !fallback.strict && fallback.sources.includes('generated');
+}
+
 /**
  * Get list of configured symbols for all enabled exchanges
  */
@@ -259,7 +294,8 @@ export function getDevelopmentConfig(): DataProviderConfig {
     },
     fallback: {
       enabled: true,
-      sources: ['generated']
+      sources: ['generated'],
+      strict: false
     },
     monitoring: {
       enabled: false, // Disable monitoring in development
@@ -287,6 +323,10 @@ BINANCE_TESTNET=false
 BINANCE_RATE_LIMIT=1200
 BINANCE_MAX_RECONNECTS=5
 
+# Binance Futures Configuration (funding, open interest, mark price, liquidations)
+BINANCE_FUTURES_ENABLED=true
+BINANCE_FUTURES_RATE_LIMIT=2400
+
 # Coinbase Pro Configuration
 COINBASE_ENABLED=false
 COINBASE_API_KEY=your_coinbase_key_here
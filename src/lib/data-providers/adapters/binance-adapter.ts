@@ -0,0 +1,259 @@
+/**
+ * @fileOverview Binance Exchange Adapter
+ *
+ * Reference ExchangeAdapter implementation for Binance spot:
+ * raw WebSocket streams (ticker, diff depth, trade, kline) and REST klines.
+ * Depth diffs are applied to a local order book per symbol that is synced
+ * from a REST snapshot and resynced whenever the update IDs skip.
+ */
+
+import { BaseExchangeAdapter, type ExchangeStreamContext, type NormalizedMarketEvent, type StreamSubscription } from './exchange-adapter';
+import { BinanceOrderBook, type BinanceDepthSnapshot } from '../binance-order-book';
+import type { KlineData } from '../real-time-data-provider';
+import type { RequestPriority } from '../rate-limiter';
+
+const SNAPSHOT_DEPTH = 1000;
+const SNAPSHOT_RETRY_MS = 1000;
+const EMITTED_BOOK_LEVELS = 100;
+
+export class BinanceAdapter extends BaseExchangeAdapter {
+  readonly name = 'binance';
+
+  private books: Map<string, BinanceOrderBook> = new Map();
+  private snapshotRequests: Map<string, number> = new Map(); // symbol -> request start time
+
+  /**
+   * Binance raw streams are selected through the URL path
+   */
+  getStreamUrl({ symbols, dataTypes }: StreamSubscription): string {
+    const streams: string[] = [];
+
+    if (dataTypes.includes('price')) {
+      symbols.forEach(symbol => {
+        streams.push(`${symbol.toLowerCase()}@ticker`);
+      });
+    }
+
+    if (dataTypes.includes('orderbook')) {
+      symbols.forEach(symbol => {
+        streams.push(`${symbol.toLowerCase()}@depth@100ms`);
+      });
+    }
+
+    if (dataTypes.includes('trades')) {
+      symbols.forEach(symbol => {
+        streams.push(`${symbol.toLowerCase()}@trade`);
+      });
+    }
+
+    if (dataTypes.includes('klines')) {
+      symbols.forEach(symbol => {
+        streams.push(`${symbol.toLowerCase()}@kline_1m`);
+      });
+    }
+
+    const baseUrl = this.config?.websocketUrl || 'wss://stream.binance.com:9443/ws';
+    return `${baseUrl}/${streams.join('/')}`;
+  }
+
+  subscribe(_context: ExchangeStreamContext, _subscription: StreamSubscription): void {
+    // Streams are subscribed through the connection URL
+  }
+
+  /**
+   * Handle Binance WebSocket messages
+   */
+  normalizeMessage(data: any, context: ExchangeStreamContext): NormalizedMarketEvent[] {
+    if (data.e === '24hrTicker') {
+      return [{
+        type: 'price',
+        data: {
+          symbol: data.s,
+          exchange: 'binance',
+          price: parseFloat(data.c),
+          timestamp: data.E,
+          volume24h: parseFloat(data.v),
+          change24h: parseFloat(data.P)
+        }
+      }];
+    }
+
+    if (data.e === 'depthUpdate') {
+      return this.handleDepthUpdate(data, context);
+    }
+
+    if (data.e === 'trade') {
+      return [{
+        type: 'trade',
+        data: {
+          symbol: data.s,
+          exchange: 'binance',
+          timestamp: data.T,
+          tradeId: data.t.toString(),
+          price: parseFloat(data.p),
+          size: parseFloat(data.q),
+          side: data.m ? 'sell' : 'buy', // m = true if buyer is market maker
+          isMaker: data.m
+        }
+      }];
+    }
+
+    if (data.e === 'kline' && data.k.x) { // Only process closed klines
+      const kline = data.k;
+      return [{
+        type: 'kline',
+        data: {
+          symbol: kline.s,
+          exchange: 'binance',
+          interval: kline.i,
+          openTime: kline.t,
+          closeTime: kline.T,
+          open: parseFloat(kline.o),
+          high: parseFloat(kline.h),
+          low: parseFloat(kline.l),
+          close: parseFloat(kline.c),
+          volume: parseFloat(kline.v),
+          trades: kline.n
+        }
+      }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Fetch historical klines from Binance REST API
+   */
+  async fetchHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    priority?: RequestPriority
+  ): Promise<KlineData[]> {
+    const baseUrl = this.config?.restApiUrl || 'https://api.binance.com/api';
+    let url = `${baseUrl}/v3/klines?symbol=${symbol}&interval=${interval}&limit=${Math.min(limit, 1000)}`;
+    if (startTime !== undefined) {
+      url += `&startTime=${startTime}`;
+    }
+    const data = await this.fetchJSON(url, priority);
+
+    return data.map((row: any[]): KlineData => ({
+      symbol,
+      exchange: 'binance',
+      interval,
+      openTime: row[0],
+      closeTime: row[6],
+      open: parseFloat(row[1]),
+      high: parseFloat(row[2]),
+      low: parseFloat(row[3]),
+      close: parseFloat(row[4]),
+      volume: parseFloat(row[5]),
+      trades: row[8]
+    }));
+  }
+
+  /**
+   * Fetch a REST depth snapshot
+   */
+  async fetchDepthSnapshot(symbol: string, limit: number = SNAPSHOT_DEPTH): Promise<BinanceDepthSnapshot> {
+    const baseUrl = this.config?.restApiUrl || 'https://api.binance.com/api';
+    const data = await this.fetchJSON(`${baseUrl}/v3/depth?symbol=${symbol}&limit=${limit}`);
+
+    return {
+      lastUpdateId: data.lastUpdateId,
+      bids: data.bids,
+      asks: data.asks
+    };
+  }
+
+  /**
+   * Local order book for a symbol, or null before the first depth event
+   */
+  getLocalOrderBook(symbol: string): BinanceOrderBook | null {
+    return this.books.get(symbol) || null;
+  }
+
+  reset(): void {
+    this.books.forEach(book => book.reset());
+    this.books.clear();
+    this.snapshotRequests.clear();
+  }
+
+  /**
+   * Apply a diff depth event to the local book, syncing it from a snapshot when needed
+   */
+  private handleDepthUpdate(data: any, context: ExchangeStreamContext): NormalizedMarketEvent[] {
+    const symbol: string = data.s;
+    let book = this.books.get(symbol);
+    if (!book) {
+      book = new BinanceOrderBook();
+      this.books.set(symbol, book);
+    }
+
+    const result = book.applyDiff({
+      firstUpdateId: data.U,
+      finalUpdateId: data.u,
+      eventTime: data.E,
+      bids: data.b,
+      asks: data.a
+    });
+
+    if (result === 'resync') {
+      console.warn(`Binance order book sequence gap for ${symbol}, resyncing`);
+      context.reportError(`Order book sequence gap for ${symbol}`);
+    }
+
+    if (!book.isSynced) {
+      this.requestSnapshot(symbol, book, context);
+      return [];
+    }
+
+    if (result !== 'applied') return [];
+
+    const { bids, asks } = book.getTopLevels(EMITTED_BOOK_LEVELS);
+    return [{
+      type: 'orderbook',
+      data: {
+        symbol,
+        exchange: 'binance',
+        timestamp: book.lastEventTime,
+        bids,
+        asks,
+        lastUpdateId: book.lastUpdateId
+      }
+    }];
+  }
+
+  /**
+   * Fetch a snapshot for an unsynced book; diffs keep buffering meanwhile and
+   * the next one after a successful sync is emitted as the full book
+   */
+  private requestSnapshot(symbol: string, book: BinanceOrderBook, context: ExchangeStreamContext): void {
+    if (this.snapshotRequests.has(symbol)) return;
+
+    const requestedAt = Date.now();
+    this.snapshotRequests.set(symbol, requestedAt);
+
+    this.fetchDepthSnapshot(symbol)
+      .then(snapshot => {
+        // The connection may have been reset while the request was in flight
+        if (this.books.get(symbol) !== book) return;
+
+        if (book.applySnapshot(snapshot) === 'stale') {
+          console.warn(`Binance depth snapshot for ${symbol} predates buffered updates, refetching`);
+        }
+      })
+      .catch(error => {
+        context.reportError(`Order book snapshot failed for ${symbol}: ${error instanceof Error ? error.message : error}`);
+      })
+      .finally(() => {
+        // Leave a pause before the next attempt so failures do not hammer the REST API
+        setTimeout(() => {
+          if (this.snapshotRequests.get(symbol) === requestedAt) {
+            this.snapshotRequests.delete(symbol);
+          }
+        }, book.isSynced ? 0 : SNAPSHOT_RETRY_MS);
+      });
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * @fileOverview Binance USD-M Futures Adapter
+ *
+ * ExchangeAdapter for Binance perpetual futures. Only derivatives data is
+ * streamed (mark price with index price and funding, and forced liquidation
+ * orders); spot prices, books and trades keep coming from the spot adapter.
+ * The REST side adds funding history, premium index and open interest.
+ */
+
+import { BaseExchangeAdapter, type ExchangeStreamContext, type NormalizedMarketEvent, type StreamSubscription } from './exchange-adapter';
+import type { KlineData, MarkPriceUpdate } from '../real-time-data-provider';
+import type { RequestPriority } from '../rate-limiter';
+
+export interface FundingRate {
+  symbol: string;
+  fundingTime: number;
+  fundingRate: number; // Fraction per funding period (0.0001 = 0.01%)
+  markPrice?: number;
+}
+
+export interface OpenInterestPoint {
+  symbol: string;
+  timestamp: number;
+  openInterest: number; // Contracts, in base asset
+  openInterestValue?: number; // Quote asset
+}
+
+// Periods accepted by /futures/data/openInterestHist
+export type OpenInterestPeriod = '5m' | '15m' | '30m' | '1h' | '2h' | '4h' | '6h' | '12h' | '1d';
+
+export class BinanceFuturesAdapter extends BaseExchangeAdapter {
+  readonly name = 'binance-futures';
+
+  /**
+   * Binance raw streams are selected through the URL path
+   */
+  getStreamUrl({ symbols, dataTypes }: StreamSubscription): string {
+    const streams: string[] = [];
+
+    if (dataTypes.includes('derivatives')) {
+      symbols.forEach(symbol => {
+        streams.push(`${symbol.toLowerCase()}@markPrice@1s`);
+        streams.push(`${symbol.toLowerCase()}@forceOrder`);
+      });
+    }
+
+    const baseUrl = this.config?.websocketUrl || 'wss://fstream.binance.com/ws';
+    return `${baseUrl}/${streams.join('/')}`;
+  }
+
+  subscribe(_context: ExchangeStreamContext, _subscription: StreamSubscription): void {
+    // Streams are subscribed through the connection URL
+  }
+
+  /**
+   * Handle Binance futures WebSocket messages
+   */
+  normalizeMessage(data: any, _context: ExchangeStreamContext): NormalizedMarketEvent[] {
+    if (data.e === 'markPriceUpdate') {
+      return [{
+        type: 'markPrice',
+        data: {
+          symbol: data.s,
+          exchange: this.name,
+          timestamp: data.E,
+          markPrice: parseFloat(data.p),
+          indexPrice: parseFloat(data.i),
+          fundingRate: parseFloat(data.r),
+          nextFundingTime: data.T
+        }
+      }];
+    }
+
+    if (data.e === 'forceOrder') {
+      const order = data.o;
+      return [{
+        type: 'liquidation',
+        data: {
+          symbol: order.s,
+          exchange: this.name,
+          timestamp: order.T,
+          side: order.S === 'SELL' ? 'long' : 'short', // A forced sell closes a long
+          price: parseFloat(order.ap) || parseFloat(order.p),
+          size: parseFloat(order.z) || parseFloat(order.q)
+        }
+      }];
+    }
+
+    return [];
+  }
+
+  /**
+   * Fetch historical perpetual klines from the futures REST API
+   */
+  async fetchHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    priority?: RequestPriority
+  ): Promise<KlineData[]> {
+    let url = `${this.baseUrl}/fapi/v1/klines?symbol=${symbol}&interval=${interval}&limit=${Math.min(limit, 1500)}`;
+    if (startTime !== undefined) {
+      url += `&startTime=${startTime}`;
+    }
+    const data = await this.fetchJSON(url, priority);
+
+    return data.map((row: any[]): KlineData => ({
+      symbol,
+      exchange: this.name,
+      interval,
+      openTime: row[0],
+      closeTime: row[6],
+      open: parseFloat(row[1]),
+      high: parseFloat(row[2]),
+      low: parseFloat(row[3]),
+      close: parseFloat(row[4]),
+      volume: parseFloat(row[5]),
+      trades: row[8]
+    }));
+  }
+
+  /**
+   * Settled funding rates, oldest first
+   */
+  async fetchFundingHistory(symbol: string, limit: number = 100, priority?: RequestPriority): Promise<FundingRate[]> {
+    const data = await this.fetchJSON(
+      `${this.baseUrl}/fapi/v1/fundingRate?symbol=${symbol}&limit=${Math.min(limit, 1000)}`,
+      priority
+    );
+
+    return data.map((row: any): FundingRate => ({
+      symbol: row.symbol,
+      fundingTime: row.fundingTime,
+      fundingRate: parseFloat(row.fundingRate),
+      markPrice: row.markPrice ? parseFloat(row.markPrice) : undefined
+    }));
+  }
+
+  /**
+   * Current mark price, index price and predicted funding rate
+   */
+  async fetchPremiumIndex(symbol: string, priority?: RequestPriority): Promise<MarkPriceUpdate> {
+    const data = await this.fetchJSON(`${this.baseUrl}/fapi/v1/premiumIndex?symbol=${symbol}`, priority);
+
+    return {
+      symbol: data.symbol,
+      exchange: this.name,
+      timestamp: data.time,
+      markPrice: parseFloat(data.markPrice),
+      indexPrice: parseFloat(data.indexPrice),
+      fundingRate: parseFloat(data.lastFundingRate),
+      nextFundingTime: data.nextFundingTime
+    };
+  }
+
+  /**
+   * Current open interest
+   */
+  async fetchOpenInterest(symbol: string, priority?: RequestPriority): Promise<OpenInterestPoint> {
+    const data = await this.fetchJSON(`${this.baseUrl}/fapi/v1/openInterest?symbol=${symbol}`, priority);
+
+    return {
+      symbol: data.symbol,
+      timestamp: data.time,
+      openInterest: parseFloat(data.openInterest)
+    };
+  }
+
+  /**
+   * Open interest series, oldest first (Binance keeps the last 30 days)
+   */
+  async fetchOpenInterestHistory(
+    symbol: string,
+    period: OpenInterestPeriod = '1h',
+    limit: number = 30,
+    priority?: RequestPriority
+  ): Promise<OpenInterestPoint[]> {
+    const data = await this.fetchJSON(
+      `${this.baseUrl}/futures/data/openInterestHist?symbol=${symbol}&period=${period}&limit=${Math.min(limit, 500)}`,
+      priority
+    );
+
+    return data.map((row: any): OpenInterestPoint => ({
+      symbol: row.symbol,
+      timestamp: row.timestamp,
+      openInterest: parseFloat(row.sumOpenInterest),
+      openInterestValue: parseFloat(row.sumOpenInterestValue)
+    }));
+  }
+
+  private get baseUrl(): string {
+    return this.config?.restApiUrl || 'https://fapi.binance.com';
+  }
+}
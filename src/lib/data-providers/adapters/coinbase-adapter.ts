@@ -0,0 +1,245 @@
+/**
+ * @fileOverview Coinbase Exchange Adapter
+ *
+ * ExchangeAdapter for the Coinbase Exchange feed: ticker, level2 order book
+ * and matches. Coinbase has no candle channel, so 1m klines are built from
+ * the match stream.
+ */
+
+import { BaseExchangeAdapter, type ExchangeStreamContext, type NormalizedMarketEvent, type StreamSubscription } from './exchange-adapter';
+import { toExchangeSymbol, fromExchangeSymbol } from '../symbol-mapper';
+import { getIntervalMs } from '../intervals';
+import type { KlineData, TradeUpdate } from '../real-time-data-provider';
+import type { RequestPriority } from '../rate-limiter';
+
+const CANDLE_GRANULARITIES = [60, 300, 900, 3600, 21600, 86400]; // seconds
+
+export class CoinbaseAdapter extends BaseExchangeAdapter {
+  readonly name = 'coinbase';
+
+  private books: Map<string, { bids: Map<number, number>; asks: Map<number, number> }> = new Map();
+  private formingKlines: Map<string, KlineData> = new Map();
+  private dataTypes: StreamSubscription['dataTypes'] = [];
+
+  getStreamUrl(): string {
+    return this.config?.websocketUrl || 'wss://ws-feed.pro.coinbase.com';
+  }
+
+  subscribe(context: ExchangeStreamContext, { symbols, dataTypes }: StreamSubscription): void {
+    const channels: string[] = [];
+    this.dataTypes = dataTypes;
+
+    if (dataTypes.includes('price')) {
+      channels.push('ticker');
+    }
+
+    if (dataTypes.includes('orderbook')) {
+      channels.push('level2_batch');
+    }
+
+    if (dataTypes.includes('trades') || dataTypes.includes('klines')) {
+      channels.push('matches');
+    }
+
+    context.send({
+      type: 'subscribe',
+      product_ids: symbols.map(symbol => toExchangeSymbol('coinbase', symbol)),
+      channels
+    });
+  }
+
+  /**
+   * Handle Coinbase WebSocket messages
+   */
+  normalizeMessage(data: any, context: ExchangeStreamContext): NormalizedMarketEvent[] {
+    if (data.type === 'error') {
+      context.reportError(`Coinbase subscription error: ${data.message} ${data.reason || ''}`.trim());
+      return [];
+    }
+
+    if (!data.product_id) return [];
+    const symbol = fromExchangeSymbol('coinbase', data.product_id);
+
+    if (data.type === 'ticker') {
+      const price = parseFloat(data.price);
+      const open24h = parseFloat(data.open_24h);
+
+      return [{
+        type: 'price',
+        data: {
+          symbol,
+          exchange: 'coinbase',
+          price,
+          timestamp: data.time ? Date.parse(data.time) : Date.now(),
+          volume24h: parseFloat(data.volume_24h),
+          change24h: open24h > 0 ? ((price - open24h) / open24h) * 100 : 0
+        }
+      }];
+    }
+
+    if (data.type === 'snapshot') {
+      const book = {
+        bids: new Map<number, number>(),
+        asks: new Map<number, number>()
+      };
+      data.bids.forEach(([price, size]: string[]) => book.bids.set(parseFloat(price), parseFloat(size)));
+      data.asks.forEach(([price, size]: string[]) => book.asks.set(parseFloat(price), parseFloat(size)));
+      this.books.set(symbol, book);
+      return this.bookEvent(symbol, Date.now());
+    }
+
+    if (data.type === 'l2update') {
+      const book = this.books.get(symbol);
+      if (!book) return []; // Updates before the snapshot cannot be applied
+
+      data.changes.forEach(([side, price, size]: string[]) => {
+        const levels = side === 'buy' ? book.bids : book.asks;
+        const numericSize = parseFloat(size);
+        if (numericSize === 0) {
+          levels.delete(parseFloat(price));
+        } else {
+          levels.set(parseFloat(price), numericSize);
+        }
+      });
+      return this.bookEvent(symbol, data.time ? Date.parse(data.time) : Date.now());
+    }
+
+    if (data.type === 'match' || data.type === 'last_match') {
+      // Coinbase reports the maker's side; the aggressor traded the opposite way
+      const trade: TradeUpdate = {
+        symbol,
+        exchange: 'coinbase',
+        timestamp: Date.parse(data.time),
+        tradeId: data.trade_id.toString(),
+        price: parseFloat(data.price),
+        size: parseFloat(data.size),
+        side: data.side === 'buy' ? 'sell' : 'buy',
+        isMaker: data.side === 'buy' // Matches Binance semantics: buyer was the maker
+      };
+
+      const events: NormalizedMarketEvent[] = [];
+
+      if (this.dataTypes.includes('trades')) {
+        events.push({ type: 'trade', data: trade });
+      }
+
+      if (this.dataTypes.includes('klines') && data.type === 'match') {
+        const closed = this.aggregateTradeIntoKline(trade, '1m');
+        if (closed) {
+          events.push({ type: 'kline', data: closed });
+        }
+      }
+
+      return events;
+    }
+
+    return [];
+  }
+
+  /**
+   * Fetch historical candles from the Coinbase REST API
+   */
+  async fetchHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    priority?: RequestPriority
+  ): Promise<KlineData[]> {
+    const intervalMs = getIntervalMs(interval);
+    const granularity = intervalMs / 1000;
+
+    if (!CANDLE_GRANULARITIES.includes(granularity)) {
+      throw new Error(`Coinbase does not support ${interval} candles`);
+    }
+
+    const baseUrl = this.config?.restApiUrl || 'https://api.pro.coinbase.com';
+    const productId = toExchangeSymbol('coinbase', symbol);
+    let url = `${baseUrl}/products/${productId}/candles?granularity=${granularity}`;
+    if (startTime !== undefined) {
+      // Coinbase returns at most 300 candles per request
+      const end = startTime + Math.min(limit, 300) * intervalMs;
+      url += `&start=${new Date(startTime).toISOString()}&end=${new Date(end).toISOString()}`;
+    }
+    const data = await this.fetchJSON(url, priority);
+
+    // Rows are [time, low, high, open, close, volume], newest first
+    return data
+      .slice(0, limit)
+      .map((row: number[]): KlineData => ({
+        symbol,
+        exchange: 'coinbase',
+        interval,
+        openTime: row[0] * 1000,
+        closeTime: row[0] * 1000 + intervalMs - 1,
+        open: row[3],
+        high: row[2],
+        low: row[1],
+        close: row[4],
+        volume: row[5],
+        trades: 0 // Not provided by Coinbase candles
+      }))
+      .reverse();
+  }
+
+  reset(): void {
+    this.books.clear();
+    this.formingKlines.clear();
+  }
+
+  /**
+   * Top 20 levels of a local book as a normalized update
+   */
+  private bookEvent(symbol: string, timestamp: number): NormalizedMarketEvent[] {
+    const book = this.books.get(symbol);
+    if (!book) return [];
+
+    const bids = Array.from(book.bids.entries())
+      .sort((a, b) => b[0] - a[0])
+      .slice(0, 20)
+      .map(([price, size]) => ({ price, size }));
+
+    const asks = Array.from(book.asks.entries())
+      .sort((a, b) => a[0] - b[0])
+      .slice(0, 20)
+      .map(([price, size]) => ({ price, size }));
+
+    return [{ type: 'orderbook', data: { symbol, exchange: 'coinbase', timestamp, bids, asks } }];
+  }
+
+  /**
+   * Build klines from trades. Returns the previous bar once a new one starts.
+   */
+  private aggregateTradeIntoKline(trade: TradeUpdate, interval: string): KlineData | null {
+    const intervalMs = getIntervalMs(interval);
+    const key = `${trade.symbol}:${interval}`;
+    const openTime = Math.floor(trade.timestamp / intervalMs) * intervalMs;
+    const current = this.formingKlines.get(key);
+
+    if (current && openTime < current.openTime) return null; // Late trade for a bar already emitted
+
+    if (!current || openTime > current.openTime) {
+      this.formingKlines.set(key, {
+        symbol: trade.symbol,
+        exchange: trade.exchange,
+        interval,
+        openTime,
+        closeTime: openTime + intervalMs - 1,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: trade.size,
+        trades: 1
+      });
+      return current || null;
+    }
+
+    current.high = Math.max(current.high, trade.price);
+    current.low = Math.min(current.low, trade.price);
+    current.close = trade.price;
+    current.volume += trade.size;
+    current.trades += 1;
+    return null;
+  }
+}
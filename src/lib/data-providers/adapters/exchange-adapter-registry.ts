@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Exchange Adapter Registry
+ *
+ * Maps exchange names (as used in DataProviderConfig.exchanges) to adapter
+ * factories. Adding a venue means implementing ExchangeAdapter and
+ * registering it here or at runtime through `register`.
+ */
+
+import type { ExchangeConfig } from '../../config/data-provider-config';
+import type { ExchangeAdapter } from './exchange-adapter';
+import { BinanceAdapter } from './binance-adapter';
+import { BinanceFuturesAdapter } from './binance-futures-adapter';
+import { CoinbaseAdapter } from './coinbase-adapter';
+import { KrakenAdapter } from './kraken-adapter';
+
+export type ExchangeAdapterFactory = (config: ExchangeConfig | null) => ExchangeAdapter;
+
+export class ExchangeAdapterRegistry {
+  private factories: Map<string, ExchangeAdapterFactory> = new Map();
+
+  /**
+   * Register (or replace) the adapter factory for an exchange
+   */
+  register(name: string, factory: ExchangeAdapterFactory): void {
+    this.factories.set(name.toLowerCase(), factory);
+  }
+
+  has(name: string): boolean {
+    return this.factories.has(name.toLowerCase());
+  }
+
+  /**
+   * Create a new adapter instance for an exchange
+   */
+  create(name: string, config: ExchangeConfig | null): ExchangeAdapter {
+    const factory = this.factories.get(name.toLowerCase());
+    if (!factory) {
+      throw new Error(`Unsupported exchange: ${name}`);
+    }
+
+    return factory(config);
+  }
+
+  getRegisteredExchanges(): string[] {
+    return Array.from(this.factories.keys());
+  }
+}
+
+// Create a singleton instance with the built-in adapters
+export const exchangeAdapterRegistry = new ExchangeAdapterRegistry();
+exchangeAdapterRegistry.register('binance', config => new BinanceAdapter(config));
+exchangeAdapterRegistry.register('binance-futures', config => new BinanceFuturesAdapter(config));
+exchangeAdapterRegistry.register('coinbase', config => new CoinbaseAdapter(config));
+exchangeAdapterRegistry.register('kraken', config => new KrakenAdapter(config));
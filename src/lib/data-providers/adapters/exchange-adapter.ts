@@ -0,0 +1,123 @@
+/**
+ * @fileOverview Exchange Adapter Interface
+ *
+ * Defines the contract every exchange integration implements so the
+ * RealTimeDataProvider can stay venue-agnostic:
+ * - WebSocket connection and stream subscription
+ * - Normalization of raw messages into PriceUpdate/OrderBookUpdate/TradeUpdate/KlineData,
+ *   plus MarkPriceUpdate/LiquidationUpdate for derivatives venues
+ * - REST historical klines
+ * - Rate limiting through the exchange's shared limiter (see rate-limiter)
+ */
+
+import type { ExchangeConfig } from '../../config/data-provider-config';
+import type {
+  RealTimeDataConfig,
+  PriceUpdate,
+  OrderBookUpdate,
+  TradeUpdate,
+  KlineData,
+  MarkPriceUpdate,
+  LiquidationUpdate
+} from '../real-time-data-provider';
+import { getRateLimiter, rateLimitedFetch, type RequestPriority } from '../rate-limiter';
+
+export interface StreamSubscription {
+  symbols: string[]; // Normalized symbols, e.g. BTCUSDT
+  dataTypes: RealTimeDataConfig['dataTypes'];
+}
+
+export type NormalizedMarketEvent =
+  | { type: 'price'; data: PriceUpdate }
+  | { type: 'orderbook'; data: OrderBookUpdate }
+  | { type: 'trade'; data: TradeUpdate }
+  | { type: 'kline'; data: KlineData } // Closed klines only
+  | { type: 'markPrice'; data: MarkPriceUpdate }
+  | { type: 'liquidation'; data: LiquidationUpdate };
+
+export interface ExchangeStreamContext {
+  send(message: unknown): void;
+  reportError(error: string): void;
+}
+
+export interface ExchangeAdapter {
+  /** Registry key, matching the name in DataProviderConfig.exchanges */
+  readonly name: string;
+  readonly config: ExchangeConfig | null;
+
+  /** WebSocket URL for the requested streams */
+  getStreamUrl(subscription: StreamSubscription): string;
+
+  /** Send subscription messages once the socket is open */
+  subscribe(context: ExchangeStreamContext, subscription: StreamSubscription): void;
+
+  /** Application-level ping sent on every heartbeat, for venues that answer one */
+  getHeartbeatMessage?(): unknown;
+
+  /** Convert a parsed WebSocket message into normalized events */
+  normalizeMessage(message: any, context: ExchangeStreamContext): NormalizedMarketEvent[];
+
+  /**
+   * Fetch klines through the REST API, oldest first. Without a start time the
+   * most recent klines are returned (the last one may still be forming).
+   */
+  fetchHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    priority?: RequestPriority
+  ): Promise<KlineData[]>;
+
+  /** Resolve once a request of the given weight may be sent */
+  acquireRateLimit(weight?: number, priority?: RequestPriority): Promise<void>;
+
+  /** Clear per-connection state (local books, forming klines) before reconnecting */
+  reset(): void;
+}
+
+/**
+ * Shared REST and rate-limiting plumbing for exchange adapters
+ */
+export abstract class BaseExchangeAdapter implements ExchangeAdapter {
+  abstract readonly name: string;
+  readonly config: ExchangeConfig | null;
+
+  constructor(config: ExchangeConfig | null) {
+    this.config = config;
+  }
+
+  abstract getStreamUrl(subscription: StreamSubscription): string;
+  abstract subscribe(context: ExchangeStreamContext, subscription: StreamSubscription): void;
+  abstract normalizeMessage(message: any, context: ExchangeStreamContext): NormalizedMarketEvent[];
+  abstract fetchHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    priority?: RequestPriority
+  ): Promise<KlineData[]>;
+
+  /**
+   * Wait on the exchange's shared limiter, which other REST clients of the exchange also draw from
+   */
+  async acquireRateLimit(weight: number = 1, priority: RequestPriority = 'normal'): Promise<void> {
+    await getRateLimiter(this.name)?.acquire(weight, priority);
+  }
+
+  reset(): void {
+    // Stateless by default
+  }
+
+  /**
+   * Rate-limited JSON GET against the exchange REST API, weighted by the exchange's weight table
+   */
+  protected async fetchJSON(url: string, priority: RequestPriority = 'normal'): Promise<any> {
+    const response = await rateLimitedFetch(this.name, url, { priority });
+    if (!response.ok) {
+      throw new Error(`${this.name} request failed: ${response.status} ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+}
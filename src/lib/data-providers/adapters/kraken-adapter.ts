@@ -0,0 +1,262 @@
+/**
+ * @fileOverview Kraken Exchange Adapter
+ *
+ * ExchangeAdapter for the Kraken v1 WebSocket API: ticker, checksummed
+ * book, trade and ohlc channels, plus REST OHLC history.
+ */
+
+import { BaseExchangeAdapter, type ExchangeStreamContext, type NormalizedMarketEvent, type StreamSubscription } from './exchange-adapter';
+import { toExchangeSymbol, fromExchangeSymbol } from '../symbol-mapper';
+import { KrakenOrderBook } from '../kraken-order-book';
+import { getIntervalMs } from '../intervals';
+import type { KlineData } from '../real-time-data-provider';
+import type { RequestPriority } from '../rate-limiter';
+
+const OHLC_INTERVALS = [1, 5, 15, 30, 60, 240, 1440, 10080, 21600]; // minutes
+
+export class KrakenAdapter extends BaseExchangeAdapter {
+  readonly name = 'kraken';
+
+  private books: Map<string, KrakenOrderBook> = new Map();
+  private formingKlines: Map<string, KlineData> = new Map();
+
+  getStreamUrl(): string {
+    return this.config?.websocketUrl || 'wss://ws.kraken.com';
+  }
+
+  subscribe(context: ExchangeStreamContext, { symbols, dataTypes }: StreamSubscription): void {
+    const pairs = symbols.map(symbol => toExchangeSymbol('kraken', symbol));
+    const subscriptions: { name: string; depth?: number; interval?: number }[] = [];
+
+    if (dataTypes.includes('price')) {
+      subscriptions.push({ name: 'ticker' });
+    }
+
+    if (dataTypes.includes('orderbook')) {
+      subscriptions.push({ name: 'book', depth: 10 });
+    }
+
+    if (dataTypes.includes('trades')) {
+      subscriptions.push({ name: 'trade' });
+    }
+
+    if (dataTypes.includes('klines')) {
+      subscriptions.push({ name: 'ohlc', interval: 1 });
+    }
+
+    subscriptions.forEach(subscription => {
+      context.send({ event: 'subscribe', pair: pairs, subscription });
+    });
+  }
+
+  /**
+   * Kraken answers with a pong event, which keeps the connection marked alive
+   */
+  getHeartbeatMessage(): unknown {
+    return { event: 'ping' };
+  }
+
+  /**
+   * Handle Kraken WebSocket messages
+   */
+  normalizeMessage(data: any, context: ExchangeStreamContext): NormalizedMarketEvent[] {
+    // Event messages (heartbeat, systemStatus, subscriptionStatus) are objects
+    if (!Array.isArray(data)) {
+      if (data.event === 'subscriptionStatus' && data.status === 'error') {
+        context.reportError(`Kraken subscription error: ${data.errorMessage}`);
+      }
+      return [];
+    }
+
+    // Channel messages: [channelID, ...payloads, channelName, pair]
+    const channelName: string = data[data.length - 2];
+    const pair: string = data[data.length - 1];
+    const payloads = data.slice(1, -2);
+    const symbol = fromExchangeSymbol('kraken', pair);
+
+    if (channelName === 'ticker') {
+      const ticker = payloads[0];
+      const price = parseFloat(ticker.c[0]);
+      const open24h = parseFloat(ticker.o[1]);
+
+      return [{
+        type: 'price',
+        data: {
+          symbol,
+          exchange: 'kraken',
+          price,
+          timestamp: Date.now(),
+          volume24h: parseFloat(ticker.v[1]),
+          change24h: open24h > 0 ? ((price - open24h) / open24h) * 100 : 0
+        }
+      }];
+    }
+
+    if (channelName.startsWith('book')) {
+      return this.handleBookMessage(symbol, pair, channelName, payloads, context);
+    }
+
+    if (channelName === 'trade') {
+      return payloads[0].map((trade: string[]): NormalizedMarketEvent => {
+        const [price, volume, time, side] = trade;
+        const timestamp = Math.round(parseFloat(time) * 1000);
+
+        return {
+          type: 'trade',
+          data: {
+            symbol,
+            exchange: 'kraken',
+            timestamp,
+            tradeId: `${timestamp}-${price}-${volume}`, // Kraken v1 trades carry no ID
+            price: parseFloat(price),
+            size: parseFloat(volume),
+            side: side === 'b' ? 'buy' : 'sell',
+            isMaker: side === 's' // Buyer was the maker when the seller was the aggressor
+          }
+        };
+      });
+    }
+
+    if (channelName.startsWith('ohlc')) {
+      const intervalMinutes = parseInt(channelName.split('-')[1] || '1', 10);
+      const interval = intervalMinutes >= 60 ? `${intervalMinutes / 60}h` : `${intervalMinutes}m`;
+      const [, etime, open, high, low, close, , volume, count] = payloads[0];
+      const closeTime = Math.round(parseFloat(etime) * 1000);
+      const klineData: KlineData = {
+        symbol,
+        exchange: 'kraken',
+        interval,
+        openTime: closeTime - intervalMinutes * 60 * 1000,
+        closeTime: closeTime - 1,
+        open: parseFloat(open),
+        high: parseFloat(high),
+        low: parseFloat(low),
+        close: parseFloat(close),
+        volume: parseFloat(volume),
+        trades: count
+      };
+
+      // Kraken streams the forming bar; emit the previous bar once a new one starts
+      const key = `${symbol}:${interval}`;
+      const current = this.formingKlines.get(key);
+      const events: NormalizedMarketEvent[] = [];
+      if (current && klineData.openTime > current.openTime) {
+        events.push({ type: 'kline', data: current });
+      }
+      if (!current || klineData.openTime >= current.openTime) {
+        this.formingKlines.set(key, klineData);
+      }
+      return events;
+    }
+
+    return [];
+  }
+
+  /**
+   * Fetch historical candles from the Kraken REST API
+   */
+  async fetchHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number,
+    startTime?: number,
+    priority?: RequestPriority
+  ): Promise<KlineData[]> {
+    const intervalMs = getIntervalMs(interval);
+    const intervalMinutes = intervalMs / 60000;
+
+    if (!OHLC_INTERVALS.includes(intervalMinutes)) {
+      throw new Error(`Kraken does not support ${interval} candles`);
+    }
+
+    const baseUrl = this.config?.restApiUrl || 'https://api.kraken.com';
+    const pair = toExchangeSymbol('kraken', symbol).replace('/', '');
+    let url = `${baseUrl}/0/public/OHLC?pair=${pair}&interval=${intervalMinutes}`;
+    if (startTime !== undefined) {
+      // Kraken only serves the most recent 720 candles, whatever `since` is
+      url += `&since=${Math.floor(startTime / 1000)}`;
+    }
+    const data = await this.fetchJSON(url, priority);
+
+    if (data.error?.length) {
+      throw new Error(`Kraken OHLC request failed: ${data.error.join(', ')}`);
+    }
+
+    // The result is keyed by Kraken's internal pair name next to a "last" cursor
+    const pairKey = Object.keys(data.result).find(key => key !== 'last');
+    const rows: any[][] = pairKey ? data.result[pairKey] : [];
+
+    // Rows are [time, open, high, low, close, vwap, volume, count], oldest first
+    const window = startTime !== undefined ? rows.slice(0, limit) : rows.slice(-limit);
+    return window.map((row): KlineData => ({
+      symbol,
+      exchange: 'kraken',
+      interval,
+      openTime: row[0] * 1000,
+      closeTime: row[0] * 1000 + intervalMs - 1,
+      open: parseFloat(row[1]),
+      high: parseFloat(row[2]),
+      low: parseFloat(row[3]),
+      close: parseFloat(row[4]),
+      volume: parseFloat(row[6]),
+      trades: row[7]
+    }));
+  }
+
+  reset(): void {
+    this.books.clear();
+    this.formingKlines.clear();
+  }
+
+  /**
+   * Apply Kraken book snapshots/updates and verify the checksum
+   */
+  private handleBookMessage(
+    symbol: string,
+    pair: string,
+    channelName: string,
+    payloads: any[],
+    context: ExchangeStreamContext
+  ): NormalizedMarketEvent[] {
+    const depth = parseInt(channelName.split('-')[1] || '10', 10);
+    let book = this.books.get(symbol);
+
+    const snapshot = payloads.find(payload => payload.as || payload.bs);
+    if (snapshot) {
+      book = new KrakenOrderBook(depth);
+      book.applySnapshot(snapshot.as || [], snapshot.bs || []);
+      this.books.set(symbol, book);
+    } else {
+      if (!book) return []; // Updates before the snapshot cannot be applied
+
+      let checksum: string | undefined;
+      payloads.forEach(payload => {
+        book!.applyUpdate(payload.a, payload.b);
+        checksum = payload.c || checksum;
+      });
+
+      if (checksum && !book.verifyChecksum(checksum)) {
+        console.warn(`Kraken order book checksum mismatch for ${pair}, resubscribing`);
+        this.books.delete(symbol);
+        context.reportError(`Order book checksum mismatch for ${pair}`);
+
+        // Resubscribe to receive a fresh snapshot
+        const subscription = { name: 'book', depth };
+        context.send({ event: 'unsubscribe', pair: [pair], subscription });
+        context.send({ event: 'subscribe', pair: [pair], subscription });
+        return [];
+      }
+    }
+
+    return [{
+      type: 'orderbook',
+      data: {
+        symbol,
+        exchange: 'kraken',
+        timestamp: Date.now(),
+        bids: book.getBids(),
+        asks: book.getAsks()
+      }
+    }];
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { BinanceOrderBook, type BinanceDepthDiff, type BinanceDepthSnapshot } from './binance-order-book';
+
+const snapshot = (lastUpdateId: number): BinanceDepthSnapshot => ({
+  lastUpdateId,
+  bids: [['100.00', '1.0'], ['99.00', '2.0']],
+  asks: [['101.00', '1.5'], ['102.00', '3.0']]
+});
+
+const diff = (firstUpdateId: number, finalUpdateId: number, bids: [string, string][] = [], asks: [string, string][] = []): BinanceDepthDiff => ({
+  firstUpdateId,
+  finalUpdateId,
+  eventTime: finalUpdateId * 1000,
+  bids,
+  asks
+});
+
+describe('BinanceOrderBook', () => {
+  it('buffers diffs until the snapshot, then drops the ones it already contains', () => {
+    const book = new BinanceOrderBook();
+
+    expect(book.applyDiff(diff(95, 99, [['100.00', '9.0']]))).toBe('buffered');
+    expect(book.applyDiff(diff(100, 103, [['98.00', '4.0']]))).toBe('buffered');
+    expect(book.applyDiff(diff(104, 105, [], [['101.00', '0']]))).toBe('buffered');
+    expect(book.isSynced).toBe(false);
+
+    // U <= lastUpdateId + 1 <= u: the event 100-103 bridges the snapshot at 101
+    expect(book.applySnapshot(snapshot(101))).toBe('applied');
+
+    expect(book.isSynced).toBe(true);
+    expect(book.lastUpdateId).toBe(105);
+    expect(book.lastEventTime).toBe(105000);
+    // The stale 95-99 event would have set the 100 bid to 9
+    expect(book.getBids()).toEqual([{ price: 100, size: 1 }, { price: 99, size: 2 }, { price: 98, size: 4 }]);
+    expect(book.getAsks()).toEqual([{ price: 102, size: 3 }]);
+  });
+
+  it('applies contiguous diffs and ignores ones it has already seen', () => {
+    const book = new BinanceOrderBook();
+    book.applySnapshot(snapshot(200));
+
+    expect(book.applyDiff(diff(195, 200, [['100.00', '7.0']]))).toBe('stale');
+    expect(book.applyDiff(diff(201, 202, [['100.00', '0']]))).toBe('applied');
+    expect(book.applyDiff(diff(203, 203, [], [['101.50', '0.5']]))).toBe('applied');
+
+    expect(book.getBids()).toEqual([{ price: 99, size: 2 }]);
+    expect(book.getTopLevels(1).asks).toEqual([{ price: 101, size: 1.5 }]);
+    expect(book.lastUpdateId).toBe(203);
+  });
+
+  it('clears the book on a sequence gap and resyncs from the next snapshot', () => {
+    const book = new BinanceOrderBook();
+    book.applySnapshot(snapshot(300));
+    book.applyDiff(diff(301, 305));
+
+    // 306-309 were missed
+    expect(book.applyDiff(diff(310, 312, [['97.00', '5.0']]))).toBe('resync');
+    expect(book.isSynced).toBe(false);
+    expect(book.getBids()).toEqual([]);
+    expect(book.applyDiff(diff(313, 314))).toBe('buffered');
+
+    expect(book.applySnapshot(snapshot(311))).toBe('applied');
+    expect(book.lastUpdateId).toBe(314);
+    expect(book.getBids()).toContainEqual({ price: 97, size: 5 });
+  });
+
+  it('asks for a newer snapshot when events between it and the buffer are missing', () => {
+    const book = new BinanceOrderBook();
+    book.applyDiff(diff(410, 412));
+
+    expect(book.applySnapshot(snapshot(400))).toBe('stale');
+    expect(book.isSynced).toBe(false);
+
+    expect(book.applySnapshot(snapshot(411))).toBe('applied');
+    expect(book.lastUpdateId).toBe(412);
+  });
+
+  it('keeps the buffered events after a gap inside the buffer for the next snapshot', () => {
+    const book = new BinanceOrderBook();
+    book.applyDiff(diff(500, 502));
+    book.applyDiff(diff(506, 508, [['96.00', '1.0']]));
+    book.applyDiff(diff(509, 510));
+
+    expect(book.applySnapshot(snapshot(501))).toBe('stale');
+    expect(book.isSynced).toBe(false);
+
+    expect(book.applySnapshot(snapshot(507))).toBe('applied');
+    expect(book.lastUpdateId).toBe(510);
+    expect(book.getBids()).toContainEqual({ price: 96, size: 1 });
+  });
+});
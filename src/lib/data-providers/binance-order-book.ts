@@ -0,0 +1,175 @@
+/**
+ * @fileOverview Binance Order Book
+ *
+ * Maintains a local Binance order book from a REST depth snapshot plus the
+ * diff depth stream, following Binance's sync procedure:
+ * - Diff events are buffered until a snapshot is applied
+ * - Buffered events already contained in the snapshot (u <= lastUpdateId)
+ *   are dropped; the first applied event must straddle lastUpdateId + 1
+ * - Every later event must start at the previous event's u + 1, otherwise
+ *   the book is discarded and must be resynced from a new snapshot
+ * - A quantity of 0 removes the price level
+ */
+
+import type { OrderBookLevel } from './real-time-data-provider';
+import { getTopLevels, getCumulativeDepth, type OrderBookSides, type CumulativeDepth } from './order-book-depth';
+
+type BinanceLevel = [string, string]; // [price, quantity]
+
+export interface BinanceDepthSnapshot {
+  lastUpdateId: number;
+  bids: BinanceLevel[];
+  asks: BinanceLevel[];
+}
+
+export interface BinanceDepthDiff {
+  firstUpdateId: number; // U
+  finalUpdateId: number; // u
+  eventTime: number; // E
+  bids: BinanceLevel[];
+  asks: BinanceLevel[];
+}
+
+/**
+ * applied: the book changed; buffered: waiting for a snapshot; stale: already
+ * contained in the book; resync: sequence gap, the book was cleared
+ */
+export type DiffResult = 'applied' | 'buffered' | 'stale' | 'resync';
+
+/**
+ * applied: the book is synced; stale: the snapshot predates the buffered
+ * events and a newer one is needed
+ */
+export type SnapshotResult = 'applied' | 'stale';
+
+const MAX_BUFFERED_DIFFS = 1000;
+
+export class BinanceOrderBook {
+  private bids: Map<number, number> = new Map();
+  private asks: Map<number, number> = new Map();
+  private buffer: BinanceDepthDiff[] = [];
+  private synced = false;
+  private updateId = 0;
+  private updatedAt = 0;
+
+  get isSynced(): boolean {
+    return this.synced;
+  }
+
+  get lastUpdateId(): number {
+    return this.updateId;
+  }
+
+  get lastEventTime(): number {
+    return this.updatedAt;
+  }
+
+  /**
+   * Apply a diff event, or buffer it while the book is not synced
+   */
+  applyDiff(diff: BinanceDepthDiff): DiffResult {
+    if (!this.synced) {
+      this.buffer.push(diff);
+      if (this.buffer.length > MAX_BUFFERED_DIFFS) {
+        this.buffer.shift();
+      }
+      return 'buffered';
+    }
+
+    if (diff.finalUpdateId <= this.updateId) {
+      return 'stale';
+    }
+
+    if (diff.firstUpdateId > this.updateId + 1) {
+      // Missed events: start over and keep this event as the first of the new buffer
+      this.reset();
+      this.buffer.push(diff);
+      return 'resync';
+    }
+
+    this.applyLevels(diff);
+    return 'applied';
+  }
+
+  /**
+   * Seed the book from a REST snapshot and replay the buffered diffs on top
+   */
+  applySnapshot(snapshot: BinanceDepthSnapshot): SnapshotResult {
+    const pending = this.buffer.filter(diff => diff.finalUpdateId > snapshot.lastUpdateId);
+
+    if (pending.length > 0 && pending[0].firstUpdateId > snapshot.lastUpdateId + 1) {
+      // Events between the snapshot and the buffer were missed
+      this.buffer = pending;
+      return 'stale';
+    }
+
+    this.bids.clear();
+    this.asks.clear();
+    snapshot.bids.forEach(level => setLevel(this.bids, level));
+    snapshot.asks.forEach(level => setLevel(this.asks, level));
+    this.updateId = snapshot.lastUpdateId;
+    this.buffer = [];
+    this.synced = true;
+
+    for (let i = 0; i < pending.length; i++) {
+      if (this.applyDiff(pending[i]) === 'resync') {
+        // Gap inside the buffer: keep everything from the gap on for the next snapshot
+        this.buffer.push(...pending.slice(i + 1));
+        return 'stale';
+      }
+    }
+
+    return 'applied';
+  }
+
+  /**
+   * Drop all levels and buffered events; the book needs a new snapshot
+   */
+  reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.buffer = [];
+    this.synced = false;
+    this.updateId = 0;
+  }
+
+  /** Bids, best (highest) first */
+  getBids(): OrderBookLevel[] {
+    return Array.from(this.bids.entries())
+      .sort((a, b) => b[0] - a[0])
+      .map(([price, size]) => ({ price, size }));
+  }
+
+  /** Asks, best (lowest) first */
+  getAsks(): OrderBookLevel[] {
+    return Array.from(this.asks.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([price, size]) => ({ price, size }));
+  }
+
+  /** Best N levels on each side */
+  getTopLevels(levels: number): OrderBookSides {
+    return getTopLevels({ bids: this.getBids(), asks: this.getAsks() }, levels);
+  }
+
+  /** Running size and notional over the best N levels on each side */
+  getCumulativeDepth(levels: number = Infinity): CumulativeDepth {
+    return getCumulativeDepth({ bids: this.getBids(), asks: this.getAsks() }, levels);
+  }
+
+  private applyLevels(diff: BinanceDepthDiff): void {
+    diff.bids.forEach(level => setLevel(this.bids, level));
+    diff.asks.forEach(level => setLevel(this.asks, level));
+    this.updateId = diff.finalUpdateId;
+    this.updatedAt = diff.eventTime;
+  }
+}
+
+function setLevel(side: Map<number, number>, [price, quantity]: BinanceLevel): void {
+  const size = parseFloat(quantity);
+  if (size === 0) {
+    side.delete(parseFloat(price));
+  } else {
+    side.set(parseFloat(price), size);
+  }
+}
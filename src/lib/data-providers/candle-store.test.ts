@@ -0,0 +1,98 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CandleStore, type CandleKey, type HistoricalKlineFetcher } from './candle-store';
+import type { KlineData } from './real-time-data-provider';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+const BASE = Date.UTC(2024, 0, 1);
+const key: CandleKey = { exchange: 'binance', symbol: 'BTCUSDT', interval: '1m' };
+
+const kline = (minute: number): KlineData => ({
+  symbol: key.symbol,
+  exchange: key.exchange,
+  interval: key.interval,
+  openTime: BASE + minute * MINUTE,
+  closeTime: BASE + (minute + 1) * MINUTE - 1,
+  open: 100,
+  high: 101,
+  low: 99,
+  close: 100,
+  volume: 10,
+  trades: 5
+});
+
+const minutes = (from: number, to: number) => Array.from({ length: to - from }, (_, i) => from + i);
+
+/**
+ * Exchange with 1m candles for the given minutes, paging forward from startTime
+ */
+function exchange(available: number[]) {
+  const candles = available.map(kline);
+  return vi.fn<HistoricalKlineFetcher>(async (_symbol, _interval, limit, _exchange, startTime = 0) =>
+    candles.filter(candle => candle.openTime >= startTime).slice(0, limit));
+}
+
+describe('CandleStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'candle-store-'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('finds the ranges between stored candles', async () => {
+    const store = new CandleStore(directory, exchange([]));
+    await store.upsert(key, [...minutes(0, 10), ...minutes(20, 30)].map(kline));
+
+    expect(await store.findGaps(key, BASE, BASE + 40 * MINUTE)).toEqual([
+      { start: BASE + 10 * MINUTE, end: BASE + 20 * MINUTE },
+      { start: BASE + 30 * MINUTE, end: BASE + 40 * MINUTE }
+    ]);
+    expect(await store.findGaps(key, BASE, BASE + 10 * MINUTE)).toEqual([]);
+  });
+
+  it('pages through the gaps only and serves the range from disk afterwards', async () => {
+    const fetchKlines = exchange(minutes(0, 2500));
+    const store = new CandleStore(directory, fetchKlines);
+    await store.upsert(key, minutes(0, 100).map(kline));
+
+    expect(await store.backfill(key, BASE, BASE + 2500 * MINUTE)).toBe(2400);
+    expect(fetchKlines.mock.calls.map(call => call[4])).toEqual([
+      BASE + 100 * MINUTE,
+      BASE + 1100 * MINUTE,
+      BASE + 2100 * MINUTE
+    ]);
+
+    const candles = await store.getCandles(key, BASE, BASE + 2500 * MINUTE);
+    expect(candles).toHaveLength(2500);
+    expect(fetchKlines).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips ranges the exchange did not return, then retries them after a day', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(BASE + 2 * DAY);
+
+    // Only the newest candles are served, like an exchange with a history limit
+    const fetchKlines = exchange(minutes(60, 120));
+    const store = new CandleStore(directory, fetchKlines);
+
+    expect(await store.backfill(key, BASE, BASE + 120 * MINUTE)).toBe(60);
+    expect(await store.findGaps(key, BASE, BASE + 120 * MINUTE)).toEqual([]);
+    await store.backfill(key, BASE, BASE + 120 * MINUTE);
+    expect(fetchKlines).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(BASE + 3 * DAY + MINUTE);
+    expect(await store.findGaps(key, BASE, BASE + 120 * MINUTE)).toEqual([{ start: BASE, end: BASE + 60 * MINUTE }]);
+
+    fetchKlines.mockImplementation(exchange(minutes(0, 120)));
+    expect(await store.backfill(key, BASE, BASE + 120 * MINUTE)).toBe(60);
+    expect(await store.query(key, BASE, BASE + 120 * MINUTE)).toHaveLength(120);
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * @fileOverview Candle Store
+ *
+ * Persistent on-disk OHLCV history keyed by exchange/symbol/interval:
+ * - Candles are partitioned into one JSON file per UTC month
+ * - Gap detection finds ranges not covered by stored candles
+ * - Backfill fetches only the gaps through the exchange adapter's
+ *   historical klines API, paging forward from each gap
+ * - Range queries are served from disk, so analytics work offline
+ *
+ * Ranges a backfill could not fill (before a listing, exchange outages, but
+ * also short pages from exchanges that only serve recent history) are
+ * remembered for a day so they are not requested on every query, then
+ * retried. Backfill requests default to low rate-limiter priority so they
+ * queue behind interactive queries.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { realTimeDataProvider, type KlineData } from './real-time-data-provider';
+import { getIntervalMs } from './intervals';
+import type { RequestPriority } from './rate-limiter';
+
+export interface CandleKey {
+  exchange: string;
+  symbol: string;
+  interval: string;
+}
+
+export interface TimeRange {
+  start: number; // Inclusive
+  end: number; // Exclusive
+}
+
+export type HistoricalKlineFetcher = (
+  symbol: string,
+  interval: string,
+  limit: number,
+  exchange: string,
+  startTime?: number,
+  priority?: RequestPriority
+) => Promise<KlineData[]>;
+
+// [openTime, closeTime, open, high, low, close, volume, trades]
+type CandleRow = [number, number, number, number, number, number, number, number];
+
+// [start, end, recordedAt]
+type EmptyRange = [number, number, number];
+
+interface CandleMeta {
+  emptyRanges: EmptyRange[];
+}
+
+const FETCH_PAGE_SIZE = 1000;
+const EMPTY_RANGE_TTL_MS = 24 * 60 * 60 * 1000; // Unfilled ranges are retried after a day
+
+export class CandleStore {
+  private queue: Promise<unknown> = Promise.resolve();
+  private backfills: Map<string, Promise<number>> = new Map();
+
+  constructor(
+    private readonly directory: string = process.env.CANDLE_STORE_DIR
+      || path.join(process.cwd(), '.data', 'candles'),
+    private readonly fetchKlines: HistoricalKlineFetcher = (symbol, interval, limit, exchange, startTime, priority) =>
+      realTimeDataProvider.getHistoricalKlines(symbol, interval, limit, exchange, startTime, priority)
+  ) {}
+
+  /**
+   * Closed candles for a range, backfilling any gaps from the exchange first
+   */
+  async getCandles(
+    key: CandleKey,
+    startTime: number,
+    endTime: number = Date.now(),
+    priority: RequestPriority = 'normal'
+  ): Promise<KlineData[]> {
+    await this.backfill(key, startTime, endTime, priority);
+    return this.query(key, startTime, endTime);
+  }
+
+  /**
+   * Stored candles whose open time falls in [startTime, endTime); never touches the network
+   */
+  async query(key: CandleKey, startTime: number, endTime: number = Date.now()): Promise<KlineData[]> {
+    const candles: KlineData[] = [];
+
+    for (const month of monthsBetween(startTime, endTime)) {
+      const rows = await this.readChunk(key, month);
+      rows
+        .filter(row => row[0] >= startTime && row[0] < endTime)
+        .forEach(row => candles.push(fromRow(key, row)));
+    }
+
+    return candles;
+  }
+
+  /**
+   * The most recent stored candles, oldest first
+   */
+  async getLatest(key: CandleKey, limit: number): Promise<KlineData[]> {
+    const months = await this.listChunks(key);
+    const candles: KlineData[] = [];
+
+    for (let i = months.length - 1; i >= 0 && candles.length < limit; i--) {
+      const rows = await this.readChunk(key, months[i]);
+      candles.unshift(...rows.map(row => fromRow(key, row)));
+    }
+
+    return candles.slice(-limit);
+  }
+
+  /**
+   * Ranges of at least one interval inside [startTime, endTime) with no stored candle
+   */
+  async findGaps(key: CandleKey, startTime: number, endTime: number = Date.now()): Promise<TimeRange[]> {
+    const intervalMs = getIntervalMs(key.interval);
+    const settledEnd = Math.min(endTime, Date.now());
+
+    // Include the candle that contains startTime
+    const stored = await this.query(key, startTime - intervalMs, settledEnd);
+    const meta = await this.readMeta(key);
+
+    const covered: [number, number][] = [
+      ...stored.map(k => [k.openTime, k.closeTime + 1] as [number, number]),
+      ...activeEmptyRanges(meta).map(([start, end]) => [start, end] as [number, number])
+    ].sort((a, b) => a[0] - b[0]);
+
+    const gaps: TimeRange[] = [];
+    let cursor = startTime;
+
+    for (const [start, end] of covered) {
+      if (end <= cursor) continue;
+      if (start >= settledEnd) break;
+      if (start - cursor >= intervalMs) {
+        gaps.push({ start: cursor, end: start });
+      }
+      cursor = Math.max(cursor, end);
+    }
+
+    if (settledEnd - cursor >= intervalMs) {
+      gaps.push({ start: cursor, end: settledEnd });
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Fetch and store every gap in the range. Returns the number of candles added.
+   */
+  async backfill(
+    key: CandleKey,
+    startTime: number,
+    endTime: number = Date.now(),
+    priority: RequestPriority = 'low'
+  ): Promise<number> {
+    // Backfills for a key run one after another, so overlapping requests only fetch what is still missing
+    const id = keyPath(key);
+    const previous = this.backfills.get(id) || Promise.resolve(0);
+    const task = previous.catch(() => 0).then(() => this.fillGaps(key, startTime, endTime, priority));
+
+    this.backfills.set(id, task);
+    task.finally(() => {
+      if (this.backfills.get(id) === task) this.backfills.delete(id);
+    }).catch(() => undefined);
+
+    return task;
+  }
+
+  /**
+   * Insert or replace candles by open time; forming candles are ignored
+   */
+  async upsert(key: CandleKey, klines: KlineData[]): Promise<void> {
+    const now = Date.now();
+    const byMonth = new Map<string, CandleRow[]>();
+
+    klines
+      .filter(k => k.closeTime < now)
+      .forEach(k => {
+        const month = monthOf(k.openTime);
+        if (!byMonth.has(month)) {
+          byMonth.set(month, []);
+        }
+        byMonth.get(month)!.push(toRow(k));
+      });
+
+    await this.enqueue(async () => {
+      for (const [month, rows] of byMonth) {
+        const merged = new Map<number, CandleRow>();
+        (await this.readChunk(key, month)).forEach(row => merged.set(row[0], row));
+        rows.forEach(row => merged.set(row[0], row));
+
+        const sorted = Array.from(merged.values()).sort((a, b) => a[0] - b[0]);
+        await this.writeJSON(path.join(this.keyDirectory(key), `${month}.json`), sorted);
+      }
+    });
+  }
+
+  /**
+   * Delete all stored candles and gap metadata for a key
+   */
+  async clear(key: CandleKey): Promise<void> {
+    await this.enqueue(() => fs.rm(this.keyDirectory(key), { recursive: true, force: true }));
+  }
+
+  private async fillGaps(key: CandleKey, startTime: number, endTime: number, priority: RequestPriority): Promise<number> {
+    const intervalMs = getIntervalMs(key.interval);
+    const gaps = await this.findGaps(key, startTime, endTime);
+    let added = 0;
+
+    for (const gap of gaps) {
+      const fetched: KlineData[] = [];
+      let cursor = gap.start;
+
+      while (cursor < gap.end) {
+        const page = await this.fetchKlines(key.symbol, key.interval, FETCH_PAGE_SIZE, key.exchange, cursor, priority);
+        const fresh = page.filter(k => k.openTime >= cursor && k.openTime < gap.end && k.closeTime < Date.now());
+        if (fresh.length === 0) break;
+
+        fetched.push(...fresh);
+        cursor = fresh[fresh.length - 1].closeTime + 1;
+      }
+
+      await this.upsert(key, fetched);
+      added += fetched.length;
+
+      // Whatever the exchange did not return inside a settled gap is skipped until the retry
+      const settledBefore = Date.now() - intervalMs;
+      const missing = await this.findGaps(key, gap.start, Math.min(gap.end, settledBefore));
+      if (missing.length > 0) {
+        await this.recordEmptyRanges(key, missing);
+      }
+    }
+
+    return added;
+  }
+
+  private async recordEmptyRanges(key: CandleKey, ranges: TimeRange[]): Promise<void> {
+    await this.enqueue(async () => {
+      const recordedAt = Date.now();
+      const emptyRanges = [
+        ...activeEmptyRanges(await this.readMeta(key)),
+        ...ranges.map(r => [r.start, r.end, recordedAt] as EmptyRange)
+      ].sort((a, b) => a[0] - b[0]);
+
+      await this.writeJSON(path.join(this.keyDirectory(key), 'meta.json'), { emptyRanges });
+    });
+  }
+
+  private async readChunk(key: CandleKey, month: string): Promise<CandleRow[]> {
+    return (await this.readJSON<CandleRow[]>(path.join(this.keyDirectory(key), `${month}.json`))) || [];
+  }
+
+  private async readMeta(key: CandleKey): Promise<CandleMeta> {
+    return (await this.readJSON<CandleMeta>(path.join(this.keyDirectory(key), 'meta.json'))) || { emptyRanges: [] };
+  }
+
+  private async listChunks(key: CandleKey): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.keyDirectory(key));
+      return files
+        .filter(file => /^\d{4}-\d{2}\.json$/.test(file))
+        .map(file => file.slice(0, 7))
+        .sort();
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+
+  private async readJSON<T>(filePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeJSON(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf-8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  private keyDirectory(key: CandleKey): string {
+    return path.join(this.directory, keyPath(key));
+  }
+
+  /**
+   * Serialize file writes so concurrent upserts never lose rows
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Empty ranges recorded within the TTL; entries without a recording time predate the expiry and are retried
+ */
+function activeEmptyRanges(meta: CandleMeta): EmptyRange[] {
+  const now = Date.now();
+  return meta.emptyRanges.filter(([, , recordedAt]) => recordedAt !== undefined && now - recordedAt < EMPTY_RANGE_TTL_MS);
+}
+
+function keyPath(key: CandleKey): string {
+  return path.join(key.exchange.toLowerCase(), key.symbol.toUpperCase(), key.interval);
+}
+
+function monthOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 7);
+}
+
+function monthsBetween(startTime: number, endTime: number): string[] {
+  const months: string[] = [];
+  const cursor = new Date(Math.max(startTime, 0));
+  cursor.setUTCDate(1);
+  cursor.setUTCHours(0, 0, 0, 0);
+
+  while (cursor.getTime() < endTime) {
+    months.push(monthOf(cursor.getTime()));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  return months;
+}
+
+function toRow(k: KlineData): CandleRow {
+  return [k.openTime, k.closeTime, k.open, k.high, k.low, k.close, k.volume, k.trades];
+}
+
+function fromRow(key: CandleKey, row: CandleRow): KlineData {
+  return {
+    symbol: key.symbol,
+    exchange: key.exchange,
+    interval: key.interval,
+    openTime: row[0],
+    closeTime: row[1],
+    open: row[2],
+    high: row[3],
+    low: row[4],
+    close: row[5],
+    volume: row[6],
+    trades: row[7]
+  };
+}
+
+// Singleton instance
+export const candleStore = new CandleStore();
@@ -0,0 +1,407 @@
+/**
+ * @fileOverview Data Health Monitor
+ *
+ * Tracks the health of the real-time streams and enforces
+ * DataProviderConfig.monitoring.alertThresholds:
+ * - Per exchange: connection state, reconnects, message and error counts
+ * - Per symbol: message latency (receive time minus exchange event time) and staleness
+ * - connectionLoss / dataStale / errorRate alerts are raised when a threshold
+ *   is crossed and a recovery event follows once it clears
+ */
+
+import { EventEmitter } from 'events';
+import { getDataProviderConfig, type DataProviderConfig } from '../config/data-provider-config';
+import type { PriceUpdate, OrderBookUpdate, TradeUpdate, KlineData, MarkPriceUpdate, LiquidationUpdate } from './real-time-data-provider';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'down' | 'inactive';
+
+export type HealthAlertType = 'connectionLoss' | 'dataStale' | 'errorRate';
+
+export interface HealthAlert {
+  type: HealthAlertType;
+  exchange: string;
+  symbol?: string; // dataStale only
+  value: number; // Seconds for connectionLoss/dataStale, percent for errorRate
+  threshold: number;
+  since: number;
+  message: string;
+}
+
+export type HealthEvent =
+  | { type: 'alert'; alert: HealthAlert }
+  | { type: 'recovered'; alert: HealthAlert; recoveredAt: number };
+
+export interface SymbolHealth {
+  symbol: string;
+  messageCount: number;
+  lastMessageAt: number | null;
+  staleSeconds: number | null;
+  averageLatencyMs: number | null;
+}
+
+export interface ExchangeHealth {
+  exchange: string;
+  status: HealthStatus;
+  connected: boolean;
+  lastConnectedAt: number | null;
+  lastDisconnectedAt: number | null;
+  reconnectCount: number;
+  messageCount: number;
+  errorCount: number;
+  errorRate: number; // Percent of recent events that were errors
+  averageLatencyMs: number | null;
+  lastError?: string;
+  symbols: SymbolHealth[];
+}
+
+export interface DataHealthReport {
+  status: HealthStatus;
+  monitoringEnabled: boolean;
+  thresholds: DataProviderConfig['monitoring']['alertThresholds'];
+  timestamp: number;
+  exchanges: ExchangeHealth[];
+  alerts: HealthAlert[];
+}
+
+interface SymbolStats {
+  messageCount: number;
+  lastMessageAt: number | null;
+  latencyMs: number | null; // Exponential moving average
+}
+
+interface ExchangeStats {
+  connected: boolean;
+  connectCount: number;
+  lastConnectedAt: number | null;
+  lastDisconnectedAt: number | null;
+  messageCount: number;
+  errorCount: number;
+  lastError?: string;
+  buckets: { start: number; messages: number; errors: number }[];
+  symbols: Map<string, SymbolStats>;
+}
+
+const EVALUATION_INTERVAL_MS = 5000;
+const ERROR_BUCKET_MS = 10000;
+const ERROR_RATE_WINDOW_MS = 5 * 60 * 1000;
+const MIN_ERROR_RATE_SAMPLES = 20; // Avoid alerting on 1 error out of 2 events
+const LATENCY_SMOOTHING = 0.1;
+
+export class DataHealthMonitor extends EventEmitter {
+  private exchanges: Map<string, ExchangeStats> = new Map();
+  private activeAlerts: Map<string, HealthAlert> = new Map();
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly monitoring: DataProviderConfig['monitoring'] = getDataProviderConfig().monitoring
+  ) {
+    super();
+  }
+
+  /**
+   * Follow the connection, market data and error events of a data provider
+   */
+  attach(provider: EventEmitter): () => void {
+    const onMarketEvent = (update: PriceUpdate | OrderBookUpdate | TradeUpdate | MarkPriceUpdate | LiquidationUpdate) =>
+      this.recordMessage(update.exchange, update.symbol, update.timestamp);
+    const onKline = (kline: KlineData) => this.recordMessage(kline.exchange, kline.symbol);
+    const onConnected = ({ exchange }: { exchange: string }) => this.recordConnected(exchange);
+    const onDisconnected = ({ exchange }: { exchange: string }) => this.recordDisconnected(exchange);
+    const onError = ({ exchange, error }: { exchange: string; error: unknown }) =>
+      this.recordError(exchange, error instanceof Error ? error.message : String(error));
+
+    provider.on('priceUpdate', onMarketEvent);
+    provider.on('orderBookUpdate', onMarketEvent);
+    provider.on('tradeUpdate', onMarketEvent);
+    provider.on('klineUpdate', onKline);
+    provider.on('markPriceUpdate', onMarketEvent);
+    provider.on('liquidationUpdate', onMarketEvent);
+    provider.on('exchangeConnected', onConnected);
+    provider.on('exchangeDisconnected', onDisconnected);
+    provider.on('error', onError);
+
+    return () => {
+      provider.off('priceUpdate', onMarketEvent);
+      provider.off('orderBookUpdate', onMarketEvent);
+      provider.off('tradeUpdate', onMarketEvent);
+      provider.off('klineUpdate', onKline);
+      provider.off('markPriceUpdate', onMarketEvent);
+      provider.off('liquidationUpdate', onMarketEvent);
+      provider.off('exchangeConnected', onConnected);
+      provider.off('exchangeDisconnected', onDisconnected);
+      provider.off('error', onError);
+    };
+  }
+
+  /**
+   * Check thresholds periodically; does nothing when monitoring is disabled
+   */
+  start(): void {
+    if (!this.monitoring.enabled || this.timer) return;
+    this.timer = setInterval(() => this.evaluate(), EVALUATION_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Subscribe to alert and recovery events; returns an unsubscribe function
+   */
+  onHealthEvent(listener: (event: HealthEvent) => void): () => void {
+    this.on('health', listener);
+    return () => {
+      this.off('health', listener);
+    };
+  }
+
+  recordConnected(exchange: string, now: number = Date.now()): void {
+    const stats = this.getExchangeStats(exchange);
+    stats.connected = true;
+    stats.connectCount++;
+    stats.lastConnectedAt = now;
+  }
+
+  recordDisconnected(exchange: string, now: number = Date.now()): void {
+    const stats = this.getExchangeStats(exchange);
+    if (!stats.connected && stats.lastDisconnectedAt !== null) return;
+    stats.connected = false;
+    stats.lastDisconnectedAt = now;
+  }
+
+  /**
+   * Count a market data message; eventTime is the exchange timestamp, used for latency
+   */
+  recordMessage(exchange: string, symbol: string, eventTime?: number, now: number = Date.now()): void {
+    const stats = this.getExchangeStats(exchange);
+    stats.messageCount++;
+    this.getBucket(stats, now).messages++;
+
+    let symbolStats = stats.symbols.get(symbol);
+    if (!symbolStats) {
+      symbolStats = { messageCount: 0, lastMessageAt: null, latencyMs: null };
+      stats.symbols.set(symbol, symbolStats);
+    }
+    symbolStats.messageCount++;
+    symbolStats.lastMessageAt = now;
+
+    if (eventTime !== undefined && eventTime > 0) {
+      const latency = Math.max(0, now - eventTime);
+      symbolStats.latencyMs = symbolStats.latencyMs === null
+        ? latency
+        : symbolStats.latencyMs + LATENCY_SMOOTHING * (latency - symbolStats.latencyMs);
+    }
+  }
+
+  recordError(exchange: string, error: string, now: number = Date.now()): void {
+    const stats = this.getExchangeStats(exchange);
+    stats.errorCount++;
+    stats.lastError = error;
+    this.getBucket(stats, now).errors++;
+  }
+
+  /**
+   * Compare the current state against the alert thresholds, emitting an
+   * event for every alert raised or cleared since the last evaluation
+   */
+  evaluate(now: number = Date.now()): HealthAlert[] {
+    const { connectionLoss, dataStale, errorRate } = this.monitoring.alertThresholds;
+    const current: HealthAlert[] = [];
+
+    this.exchanges.forEach((stats, exchange) => {
+      if (!stats.connected && stats.lastDisconnectedAt !== null) {
+        const downSeconds = (now - stats.lastDisconnectedAt) / 1000;
+        if (downSeconds > connectionLoss) {
+          current.push({
+            type: 'connectionLoss',
+            exchange,
+            value: Math.round(downSeconds),
+            threshold: connectionLoss,
+            since: stats.lastDisconnectedAt,
+            message: `${exchange} disconnected for ${Math.round(downSeconds)}s`
+          });
+        }
+      }
+
+      stats.symbols.forEach((symbolStats, symbol) => {
+        if (symbolStats.lastMessageAt === null) return;
+        const staleSeconds = (now - symbolStats.lastMessageAt) / 1000;
+        if (staleSeconds > dataStale) {
+          current.push({
+            type: 'dataStale',
+            exchange,
+            symbol,
+            value: Math.round(staleSeconds),
+            threshold: dataStale,
+            since: symbolStats.lastMessageAt,
+            message: `No ${exchange} ${symbol} data for ${Math.round(staleSeconds)}s`
+          });
+        }
+      });
+
+      const { rate, samples } = this.getErrorRate(stats, now);
+      if (samples >= MIN_ERROR_RATE_SAMPLES && rate > errorRate) {
+        current.push({
+          type: 'errorRate',
+          exchange,
+          value: Math.round(rate * 10) / 10,
+          threshold: errorRate,
+          since: now,
+          message: `${exchange} error rate ${rate.toFixed(1)}% over the last ${ERROR_RATE_WINDOW_MS / 60000} minutes`
+        });
+      }
+    });
+
+    const currentKeys = new Set(current.map(alertKey));
+
+    this.activeAlerts.forEach((alert, key) => {
+      if (!currentKeys.has(key)) {
+        this.activeAlerts.delete(key);
+        this.emitHealthEvent({ type: 'recovered', alert, recoveredAt: now });
+      }
+    });
+
+    current.forEach(alert => {
+      const key = alertKey(alert);
+      const active = this.activeAlerts.get(key);
+      if (active) {
+        // Keep the original start time, refresh the measurement
+        this.activeAlerts.set(key, { ...alert, since: active.since });
+      } else {
+        this.activeAlerts.set(key, alert);
+        this.emitHealthEvent({ type: 'alert', alert });
+      }
+    });
+
+    return Array.from(this.activeAlerts.values());
+  }
+
+  /**
+   * Serializable health summary for the status endpoint and UI
+   */
+  getReport(now: number = Date.now()): DataHealthReport {
+    const alerts = Array.from(this.activeAlerts.values());
+
+    const exchanges = Array.from(this.exchanges.entries()).map(([exchange, stats]): ExchangeHealth => {
+      const symbols = Array.from(stats.symbols.entries()).map(([symbol, symbolStats]): SymbolHealth => ({
+        symbol,
+        messageCount: symbolStats.messageCount,
+        lastMessageAt: symbolStats.lastMessageAt,
+        staleSeconds: symbolStats.lastMessageAt === null ? null : Math.round((now - symbolStats.lastMessageAt) / 1000),
+        averageLatencyMs: symbolStats.latencyMs === null ? null : Math.round(symbolStats.latencyMs)
+      }));
+      const latencies = symbols
+        .map(symbol => symbol.averageLatencyMs)
+        .filter((latency): latency is number => latency !== null);
+      const exchangeAlerts = alerts.filter(alert => alert.exchange === exchange);
+
+      let status: HealthStatus = 'healthy';
+      if (exchangeAlerts.some(alert => alert.type === 'connectionLoss') || stats.connectCount === 0) {
+        status = 'down';
+      } else if (!stats.connected || exchangeAlerts.length > 0) {
+        status = 'degraded';
+      }
+
+      return {
+        exchange,
+        status,
+        connected: stats.connected,
+        lastConnectedAt: stats.lastConnectedAt,
+        lastDisconnectedAt: stats.lastDisconnectedAt,
+        reconnectCount: Math.max(0, stats.connectCount - 1),
+        messageCount: stats.messageCount,
+        errorCount: stats.errorCount,
+        errorRate: Math.round(this.getErrorRate(stats, now).rate * 10) / 10,
+        averageLatencyMs: latencies.length > 0
+          ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+          : null,
+        lastError: stats.lastError,
+        symbols
+      };
+    });
+
+    return {
+      status: worstStatus(exchanges.map(exchange => exchange.status)),
+      monitoringEnabled: this.monitoring.enabled,
+      thresholds: this.monitoring.alertThresholds,
+      timestamp: now,
+      exchanges,
+      alerts
+    };
+  }
+
+  isExchangeConnected(exchange: string): boolean {
+    return this.exchanges.get(exchange)?.connected ?? false;
+  }
+
+  private emitHealthEvent(event: HealthEvent): void {
+    if (event.type === 'alert') {
+      console.warn(`Data health alert: ${event.alert.message}`);
+    }
+    this.emit('health', event);
+  }
+
+  private getExchangeStats(exchange: string): ExchangeStats {
+    let stats = this.exchanges.get(exchange);
+    if (!stats) {
+      stats = {
+        connected: false,
+        connectCount: 0,
+        lastConnectedAt: null,
+        lastDisconnectedAt: null,
+        messageCount: 0,
+        errorCount: 0,
+        buckets: [],
+        symbols: new Map()
+      };
+      this.exchanges.set(exchange, stats);
+    }
+    return stats;
+  }
+
+  /**
+   * Error counter bucket for the given time; expired buckets are dropped
+   */
+  private getBucket(stats: ExchangeStats, now: number): ExchangeStats['buckets'][number] {
+    const start = now - (now % ERROR_BUCKET_MS);
+    let bucket = stats.buckets[stats.buckets.length - 1];
+    if (!bucket || bucket.start !== start) {
+      bucket = { start, messages: 0, errors: 0 };
+      stats.buckets.push(bucket);
+      while (stats.buckets.length > 0 && stats.buckets[0].start <= now - ERROR_RATE_WINDOW_MS) {
+        stats.buckets.shift();
+      }
+    }
+    return bucket;
+  }
+
+  private getErrorRate(stats: ExchangeStats, now: number): { rate: number; samples: number } {
+    let messages = 0;
+    let errors = 0;
+    stats.buckets.forEach(bucket => {
+      if (bucket.start > now - ERROR_RATE_WINDOW_MS) {
+        messages += bucket.messages;
+        errors += bucket.errors;
+      }
+    });
+    const samples = messages + errors;
+    return { rate: samples > 0 ? (errors / samples) * 100 : 0, samples };
+  }
+}
+
+function alertKey(alert: HealthAlert): string {
+  return `${alert.type}:${alert.exchange}:${alert.symbol ?? ''}`;
+}
+
+function worstStatus(statuses: HealthStatus[]): HealthStatus {
+  if (statuses.length === 0) return 'inactive';
+  if (statuses.every(status => status === 'down')) return 'down';
+  if (statuses.some(status => status !== 'healthy')) return 'degraded';
+  return 'healthy';
+}
+
+// Singleton instance
+export const dataHealthMonitor = new DataHealthMonitor();
@@ -0,0 +1,87 @@
+/**
+ * @fileOverview Data Provenance
+ *
+ * Describes where the market data behind an analysis came from, so
+ * synthetic numbers are always labelled as such:
+ * - Derived from MarketDataResponse.dataQuality for service data
+ * - Chart images and user-typed market data are tracked as their own sources
+ * - Merging keeps the weakest provenance, so one synthetic or replayed input taints the result
+ */
+
+import type { MarketDataResponse } from './market-data-service';
+
+export type DataProvenanceSource = MarketDataResponse['dataQuality']['source'] | 'chart-image' | 'user-supplied';
+
+export interface DataProvenance {
+  source: DataProvenanceSource;
+  isSynthetic: boolean; // Generated numbers, never usable for trade levels
+  isRealTime: boolean;
+  confidence: number; // 0-100
+  lastUpdate?: number;
+  symbol?: string;
+}
+
+const SOURCE_LABELS: { [source in DataProvenanceSource]: string } = {
+  'real-time': 'Live exchange data',
+  'replay': 'Recorded market replay',
+  'api': 'Stored exchange candles',
+  'fallback': 'Synthetic data',
+  'chart-image': 'Chart image',
+  'user-supplied': 'User-supplied data'
+};
+
+/**
+ * Provenance of a MarketDataService response
+ */
+export function provenanceFromDataQuality(
+  dataQuality: MarketDataResponse['dataQuality'],
+  symbol?: string
+): DataProvenance {
+  return {
+    source: dataQuality.source,
+    isSynthetic: dataQuality.isSynthetic,
+    isRealTime: dataQuality.isRealTime,
+    confidence: dataQuality.confidence,
+    lastUpdate: dataQuality.lastUpdate,
+    symbol
+  };
+}
+
+/**
+ * Provenance for analysis inputs that did not come from a data provider
+ */
+export function externalProvenance(source: 'chart-image' | 'user-supplied'): DataProvenance {
+  return {
+    source,
+    isSynthetic: false,
+    isRealTime: false,
+    confidence: source === 'chart-image' ? 70 : 50
+  };
+}
+
+/**
+ * Combine the provenance of several inputs: synthetic wins, then replayed, then the lowest confidence
+ */
+export function mergeProvenance(...items: (DataProvenance | undefined)[]): DataProvenance | undefined {
+  const present = items.filter((item): item is DataProvenance => item !== undefined);
+  if (present.length === 0) return undefined;
+
+  const weakest = present.reduce((worst, item) => {
+    if (item.isSynthetic !== worst.isSynthetic) return item.isSynthetic ? item : worst;
+    if ((item.source === 'replay') !== (worst.source === 'replay')) return item.source === 'replay' ? item : worst;
+    return item.confidence < worst.confidence ? item : worst;
+  });
+
+  return {
+    ...weakest,
+    isRealTime: present.every(item => item.isRealTime)
+  };
+}
+
+/**
+ * Short human-readable label, e.g. for the chat UI
+ */
+export function describeProvenance(provenance: DataProvenance): string {
+  const label = SOURCE_LABELS[provenance.source];
+  return provenance.symbol ? `${label} (${provenance.symbol})` : label;
+}
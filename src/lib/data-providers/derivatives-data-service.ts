@@ -0,0 +1,167 @@
+/**
+ * @fileOverview Derivatives Data Service
+ *
+ * Summarizes perpetual futures positioning for a symbol as plain numbers
+ * the AI flows can reason over:
+ * - Mark/index price and basis, live from the stream when it is fresh, REST otherwise
+ * - Current, recent average and annualized funding
+ * - Open interest and its 24h change
+ * - Long/short liquidation value over a recent window, only when the
+ *   liquidation stream is live (REST has no public liquidation history)
+ */
+
+import { getExchangeConfig } from '../config/data-provider-config';
+import { realTimeDataProvider, type RealTimeDataProvider, type MarkPriceUpdate } from './real-time-data-provider';
+import { BinanceFuturesAdapter } from './adapters/binance-futures-adapter';
+import type { RequestPriority } from './rate-limiter';
+
+export interface DerivativesSummary {
+  symbol: string;
+  exchange: string;
+  timestamp: number;
+  markPrice: number;
+  indexPrice: number;
+  basisPercent: number; // Mark premium over index
+  fundingRatePercent: number; // Predicted rate for the current period
+  averageFundingRatePercent?: number; // Mean of the recently settled periods
+  annualizedFundingPercent: number;
+  nextFundingTime?: number;
+  openInterest: number; // Contracts, in base asset
+  openInterestValue: number; // Quote asset, at the mark price
+  openInterestChange24hPercent?: number;
+  longLiquidationsValue?: number; // Quote value of longs force-closed within the window
+  shortLiquidationsValue?: number;
+  liquidationCount?: number;
+  liquidationWindowMinutes?: number;
+  isRealTime: boolean; // Mark price and liquidations came from the live stream
+}
+
+export interface DerivativesSummaryOptions {
+  liquidationWindowMinutes?: number;
+  priority?: RequestPriority;
+}
+
+const EXCHANGE = 'binance-futures';
+const FUNDING_PERIODS_PER_DAY = 3; // Binance settles funding every 8 hours
+const FUNDING_HISTORY_PERIODS = 9; // Three days of settled funding
+const LIVE_MARK_PRICE_MAX_AGE_MS = 10000;
+const SUMMARY_TTL_MS = 30000;
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+export class DerivativesDataService {
+  private cache: Map<string, DerivativesSummary> = new Map();
+
+  constructor(
+    private readonly provider: RealTimeDataProvider = realTimeDataProvider,
+    private readonly futures: BinanceFuturesAdapter = new BinanceFuturesAdapter(getExchangeConfig(EXCHANGE))
+  ) {}
+
+  /**
+   * Whether perpetual futures data is enabled in the data provider config
+   */
+  isEnabled(): boolean {
+    return this.futures.config?.enabled ?? false;
+  }
+
+  /**
+   * Positioning summary for a perpetual; results are cached briefly so
+   * concurrent analyses do not repeat the REST calls
+   */
+  async getDerivativesSummary(
+    symbol: string,
+    { liquidationWindowMinutes = 60, priority = 'high' }: DerivativesSummaryOptions = {}
+  ): Promise<DerivativesSummary> {
+    if (!this.isEnabled()) {
+      throw new Error('Derivatives data is disabled (BINANCE_FUTURES_ENABLED=false)');
+    }
+
+    const upperSymbol = symbol.toUpperCase();
+    const cacheKey = `${upperSymbol}:${liquidationWindowMinutes}`;
+    const cached = this.cache.get(cacheKey);
+    if (cached && Date.now() - cached.timestamp < SUMMARY_TTL_MS) {
+      return cached;
+    }
+
+    const liveMarkPrice = await this.provider.getMarkPrice(upperSymbol, EXCHANGE);
+    const isRealTime = liveMarkPrice !== null && Date.now() - liveMarkPrice.timestamp <= LIVE_MARK_PRICE_MAX_AGE_MS;
+
+    const [markPrice, fundingHistory, openInterest, openInterestHistory] = await Promise.all([
+      isRealTime ? Promise.resolve(liveMarkPrice as MarkPriceUpdate) : this.futures.fetchPremiumIndex(upperSymbol, priority),
+      this.futures.fetchFundingHistory(upperSymbol, FUNDING_HISTORY_PERIODS, priority),
+      this.futures.fetchOpenInterest(upperSymbol, priority),
+      this.futures.fetchOpenInterestHistory(upperSymbol, '1h', 25, priority)
+    ]);
+
+    const summary: DerivativesSummary = {
+      symbol: upperSymbol,
+      exchange: EXCHANGE,
+      timestamp: Date.now(),
+      markPrice: markPrice.markPrice,
+      indexPrice: markPrice.indexPrice,
+      basisPercent: markPrice.indexPrice > 0
+        ? round(((markPrice.markPrice - markPrice.indexPrice) / markPrice.indexPrice) * 100, 4)
+        : 0,
+      fundingRatePercent: round(markPrice.fundingRate * 100, 4),
+      averageFundingRatePercent: fundingHistory.length > 0
+        ? round((fundingHistory.reduce((sum, entry) => sum + entry.fundingRate, 0) / fundingHistory.length) * 100, 4)
+        : undefined,
+      annualizedFundingPercent: round(markPrice.fundingRate * FUNDING_PERIODS_PER_DAY * 365 * 100, 2),
+      nextFundingTime: markPrice.nextFundingTime || undefined,
+      openInterest: openInterest.openInterest,
+      openInterestValue: round(openInterest.openInterest * markPrice.markPrice, 0),
+      openInterestChange24hPercent: this.getOpenInterestChange(openInterestHistory, openInterest.openInterest),
+      isRealTime
+    };
+
+    if (isRealTime) {
+      Object.assign(summary, await this.getLiquidationTotals(upperSymbol, liquidationWindowMinutes));
+    }
+
+    this.cache.set(cacheKey, summary);
+    return summary;
+  }
+
+  /**
+   * Percentage change from the oldest point of an hourly series (24h back) to the current value
+   */
+  private getOpenInterestChange(history: { openInterest: number }[], current: number): number | undefined {
+    const oldest = history[0];
+    if (!oldest || oldest.openInterest <= 0) return undefined;
+
+    return round(((current - oldest.openInterest) / oldest.openInterest) * 100, 2);
+  }
+
+  /**
+   * Sum streamed liquidations within the window by liquidated side
+   */
+  private async getLiquidationTotals(
+    symbol: string,
+    windowMinutes: number
+  ): Promise<Pick<DerivativesSummary, 'longLiquidationsValue' | 'shortLiquidationsValue' | 'liquidationCount' | 'liquidationWindowMinutes'>> {
+    const since = Date.now() - windowMinutes * 60 * 1000;
+    const liquidations = (await this.provider.getRecentLiquidations(symbol, EXCHANGE))
+      .filter(liquidation => liquidation.timestamp >= since);
+
+    let longLiquidationsValue = 0;
+    let shortLiquidationsValue = 0;
+    liquidations.forEach(liquidation => {
+      const value = liquidation.price * liquidation.size;
+      if (liquidation.side === 'long') {
+        longLiquidationsValue += value;
+      } else {
+        shortLiquidationsValue += value;
+      }
+    });
+
+    return {
+      longLiquidationsValue: round(longLiquidationsValue, 0),
+      shortLiquidationsValue: round(shortLiquidationsValue, 0),
+      liquidationCount: liquidations.length,
+      liquidationWindowMinutes: windowMinutes
+    };
+  }
+}
+
+// Singleton instance
+export const derivativesDataService = new DerivativesDataService();
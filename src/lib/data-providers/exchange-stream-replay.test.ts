@@ -0,0 +1,191 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  RealTimeDataProvider,
+  type OrderBookUpdate,
+  type PriceUpdate,
+  type TradeUpdate
+} from './real-time-data-provider';
+import { COINBASE_FRAMES, KRAKEN_FRAMES } from './testing/exchange-frames';
+import { MockExchangeServer, installWebSocketGlobal, type MockConnection } from './testing/mock-exchange-server';
+
+// Point the Coinbase and Kraken adapters at the local server
+const stream = vi.hoisted(() => ({ url: '' }));
+vi.mock('../config/data-provider-config', async importOriginal => {
+  const original = await importOriginal<typeof import('../config/data-provider-config')>();
+  return {
+    ...original,
+    getExchangeConfig: (name: string) => {
+      const config = original.getExchangeConfig(name);
+      return config && (name === 'coinbase' || name === 'kraken') ? { ...config, websocketUrl: stream.url } : config;
+    }
+  };
+});
+
+const server = new MockExchangeServer();
+
+describe('exchange frame replay', () => {
+  let provider: RealTimeDataProvider;
+  let prices: PriceUpdate[];
+  let trades: TradeUpdate[];
+  let books: OrderBookUpdate[];
+  let errors: { exchange: string; error: unknown }[];
+
+  beforeAll(() => {
+    installWebSocketGlobal();
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    stream.url = await server.start();
+    prices = [];
+    trades = [];
+    books = [];
+    errors = [];
+  });
+
+  afterEach(async () => {
+    await provider.disconnect();
+    await server.stop();
+    server.connections.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  async function connect(exchange: string): Promise<MockConnection> {
+    provider = new RealTimeDataProvider({
+      exchanges: [exchange],
+      symbols: ['BTCUSDT'],
+      dataTypes: ['price', 'orderbook', 'trades'],
+      updateInterval: 100
+    });
+    provider.on('priceUpdate', update => prices.push(update));
+    provider.on('tradeUpdate', update => trades.push(update));
+    provider.on('orderBookUpdate', update => books.push(update));
+    provider.on('error', error => errors.push(error));
+
+    const connection = server.nextConnection();
+    await provider.connect();
+    return connection;
+  }
+
+  describe('Coinbase', () => {
+    it('subscribes to the mapped product and channels', async () => {
+      const connection = await connect('coinbase');
+      expect(await server.nextMessage(connection)).toEqual({
+        type: 'subscribe',
+        product_ids: ['BTC-USD'],
+        channels: ['ticker', 'level2_batch', 'matches']
+      });
+    });
+
+    it('normalizes ticker, match and level2 frames', async () => {
+      const connection = await connect('coinbase');
+      await server.nextMessage(connection);
+      server.send(COINBASE_FRAMES.subscriptions, COINBASE_FRAMES.ticker, COINBASE_FRAMES.match, COINBASE_FRAMES.snapshot, COINBASE_FRAMES.l2update);
+
+      await vi.waitFor(() => expect(books).toHaveLength(2));
+      expect(prices).toEqual([{
+        symbol: 'BTCUSDT',
+        exchange: 'coinbase',
+        price: 61010.1,
+        timestamp: Date.parse('2024-03-01T12:00:00.123Z'),
+        volume24h: 15234.5,
+        change24h: expect.closeTo((61010.1 - 59800) / 59800 * 100, 8)
+      }]);
+      expect(trades).toEqual([{
+        symbol: 'BTCUSDT',
+        exchange: 'coinbase',
+        timestamp: Date.parse('2024-03-01T12:00:01.500Z'),
+        tradeId: '615447302',
+        price: 61010.1,
+        size: 0.01,
+        side: 'buy',
+        isMaker: false
+      }]);
+
+      expect(books[0].bids[0]).toEqual({ price: 61010, size: 1 });
+      expect(books[1]).toMatchObject({ symbol: 'BTCUSDT', exchange: 'coinbase', timestamp: Date.parse('2024-03-01T12:00:01.000Z') });
+      expect(books[1].bids).toEqual([{ price: 61009.5, size: 0.2 }, { price: 61009, size: 0.8 }]);
+      expect(books[1].asks).toEqual([{ price: 61010.1, size: 0.5 }, { price: 61010.2, size: 0.1 }, { price: 61010.5, size: 2.5 }, { price: 61011, size: 0.03 }]);
+    });
+
+    it('reports subscription errors', async () => {
+      const connection = await connect('coinbase');
+      await server.nextMessage(connection);
+      server.send(COINBASE_FRAMES.error);
+
+      await vi.waitFor(() => expect(errors).toEqual([{
+        exchange: 'coinbase',
+        error: 'Coinbase subscription error: Failed to subscribe FOO-BAR is not a valid product'
+      }]));
+    });
+  });
+
+  describe('Kraken', () => {
+    it('subscribes to ticker, book and trade for the mapped pair', async () => {
+      const connection = await connect('kraken');
+      await vi.waitFor(() => expect(connection.received).toHaveLength(3));
+      expect(connection.received).toEqual([
+        { event: 'subscribe', pair: ['XBT/USD'], subscription: { name: 'ticker' } },
+        { event: 'subscribe', pair: ['XBT/USD'], subscription: { name: 'book', depth: 10 } },
+        { event: 'subscribe', pair: ['XBT/USD'], subscription: { name: 'trade' } }
+      ]);
+    });
+
+    it('normalizes ticker and trade frames and ignores event messages', async () => {
+      await connect('kraken');
+      server.send(KRAKEN_FRAMES.systemStatus, KRAKEN_FRAMES.subscriptionStatus, KRAKEN_FRAMES.heartbeat, KRAKEN_FRAMES.ticker, KRAKEN_FRAMES.trade);
+
+      await vi.waitFor(() => expect(trades).toHaveLength(2));
+      expect(prices).toEqual([{
+        symbol: 'BTCUSDT',
+        exchange: 'kraken',
+        price: 61010.1,
+        timestamp: expect.any(Number),
+        volume24h: 3500.25,
+        change24h: expect.closeTo((61010.1 - 59800) / 59800 * 100, 8)
+      }]);
+      expect(trades[0]).toEqual({
+        symbol: 'BTCUSDT',
+        exchange: 'kraken',
+        timestamp: 1709294400123,
+        tradeId: '1709294400123-61010.10000-0.01000000',
+        price: 61010.1,
+        size: 0.01,
+        side: 'buy',
+        isMaker: false
+      });
+      expect(trades[1]).toMatchObject({ side: 'sell', isMaker: true, price: 61009.9, size: 0.25 });
+      expect(errors).toEqual([]);
+    });
+
+    it('applies book updates whose CRC32 checksum matches', async () => {
+      await connect('kraken');
+      server.send(KRAKEN_FRAMES.bookSnapshot, KRAKEN_FRAMES.bookUpdate);
+
+      await vi.waitFor(() => expect(books).toHaveLength(2));
+      expect(errors).toEqual([]);
+      expect(books[0].asks[0]).toEqual({ price: 61010.1, size: 0.5 });
+      expect(books[1].asks[0]).toEqual({ price: 61010.1, size: 0.25 });
+      expect(books[1].bids).toHaveLength(10);
+      expect(books[1].bids.map(level => level.price)).not.toContain(61009.5);
+      expect(books[1].bids[9]).toEqual({ price: 60999, size: 0.3 });
+    });
+
+    it('drops the book and resubscribes when the checksum fails', async () => {
+      const connection = await connect('kraken');
+      await vi.waitFor(() => expect(connection.received).toHaveLength(3));
+      server.send(KRAKEN_FRAMES.bookSnapshot, KRAKEN_FRAMES.corruptBookUpdate, KRAKEN_FRAMES.bookUpdate);
+
+      await vi.waitFor(() => expect(connection.received).toHaveLength(5));
+      expect(errors).toEqual([{ exchange: 'kraken', error: 'Order book checksum mismatch for XBT/USD' }]);
+      expect(connection.received.slice(3)).toEqual([
+        { event: 'unsubscribe', pair: ['XBT/USD'], subscription: { name: 'book', depth: 10 } },
+        { event: 'subscribe', pair: ['XBT/USD'], subscription: { name: 'book', depth: 10 } }
+      ]);
+      // Only the snapshot was published; updates wait for the fresh snapshot
+      expect(books).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * @fileOverview Kline Interval Helpers
+ *
+ * Shared conversion between kline interval strings (1m ... 1M) and milliseconds.
+ */
+
+export const INTERVAL_MS: { [interval: string]: number } = {
+  '1m': 60 * 1000,
+  '3m': 3 * 60 * 1000,
+  '5m': 5 * 60 * 1000,
+  '15m': 15 * 60 * 1000,
+  '30m': 30 * 60 * 1000,
+  '1h': 60 * 60 * 1000,
+  '2h': 2 * 60 * 60 * 1000,
+  '4h': 4 * 60 * 60 * 1000,
+  '6h': 6 * 60 * 60 * 1000,
+  '8h': 8 * 60 * 60 * 1000,
+  '12h': 12 * 60 * 60 * 1000,
+  '1d': 24 * 60 * 60 * 1000,
+  '3d': 3 * 24 * 60 * 60 * 1000,
+  '1w': 7 * 24 * 60 * 60 * 1000,
+  '1M': 30 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Convert interval string to milliseconds
+ */
+export function getIntervalMs(interval: string): number {
+  return INTERVAL_MS[interval] || 60 * 1000; // Default to 1 minute
+}
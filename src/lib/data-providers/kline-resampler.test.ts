@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { getBucketStart, getNextBucketStart, resampleKlines } from './kline-resampler';
+import type { KlineData } from './real-time-data-provider';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const kline = (openTime: number, interval: string, intervalMs: number, close: number = 100, exchange: string = 'binance'): KlineData => ({
+  symbol: 'BTCUSDT',
+  exchange,
+  interval,
+  openTime,
+  closeTime: openTime + intervalMs - 1,
+  open: close - 1,
+  high: close + 2,
+  low: close - 2,
+  close,
+  volume: 10,
+  trades: 3
+});
+
+const minuteKlines = (start: number, count: number) =>
+  Array.from({ length: count }, (_, i) => kline(start + i * MINUTE, '1m', MINUTE, 100 + i));
+
+const dailyKlines = (start: number, count: number, exchange?: string) =>
+  Array.from({ length: count }, (_, i) => kline(start + i * DAY, '1d', DAY, 100 + i, exchange));
+
+describe('getBucketStart', () => {
+  // Wednesday 2024-01-10 13:45 UTC
+  const wednesday = Date.UTC(2024, 0, 10, 13, 45);
+
+  it('starts weeks on Monday, or Thursday on Kraken', () => {
+    expect(getBucketStart(wednesday, '1w')).toBe(Date.UTC(2024, 0, 8));
+    expect(getBucketStart(wednesday, '1w', 'kraken')).toBe(Date.UTC(2024, 0, 4));
+    expect(getBucketStart(Date.UTC(2024, 0, 8), '1w')).toBe(Date.UTC(2024, 0, 8));
+  });
+
+  it('starts months on the first UTC day and follows calendar month lengths', () => {
+    expect(getBucketStart(Date.UTC(2024, 1, 29, 23, 59), '1M')).toBe(Date.UTC(2024, 1, 1));
+    expect(getNextBucketStart(Date.UTC(2024, 1, 1), '1M')).toBe(Date.UTC(2024, 2, 1));
+    expect(getNextBucketStart(Date.UTC(2024, 11, 1), '1M')).toBe(Date.UTC(2025, 0, 1));
+  });
+
+  it('aligns intraday buckets on epoch multiples', () => {
+    expect(getBucketStart(wednesday, '4h')).toBe(Date.UTC(2024, 0, 10, 12));
+    expect(getBucketStart(wednesday, '15m')).toBe(Date.UTC(2024, 0, 10, 13, 45));
+  });
+});
+
+describe('resampleKlines', () => {
+  const now = Date.UTC(2025, 0, 1);
+
+  it('builds Monday-aligned weeks from daily candles', () => {
+    // Wednesday 2024-01-03 through Sunday 2024-01-14
+    const bars = resampleKlines(dailyKlines(Date.UTC(2024, 0, 3), 12), '1w', { now });
+
+    expect(bars.map(bar => [bar.openTime, bar.sourceCount, bar.missingCount, bar.isPartial])).toEqual([
+      [Date.UTC(2024, 0, 1), 5, 2, false],
+      [Date.UTC(2024, 0, 8), 7, 0, false]
+    ]);
+    expect(bars[1]).toMatchObject({ open: 104, close: 111, high: 113, low: 103, volume: 70, trades: 21 });
+    expect(bars[1].closeTime).toBe(Date.UTC(2024, 0, 15) - 1);
+  });
+
+  it('uses the exchange of the source candles for week alignment', () => {
+    const bars = resampleKlines(dailyKlines(Date.UTC(2024, 0, 4), 7, 'kraken'), '1w', { now });
+
+    expect(bars).toHaveLength(1);
+    expect(bars[0]).toMatchObject({ openTime: Date.UTC(2024, 0, 4), sourceCount: 7, missingCount: 0 });
+  });
+
+  it('builds calendar months of their own length', () => {
+    const bars = resampleKlines(dailyKlines(Date.UTC(2024, 1, 1), 29 + 31), '1M', { now });
+
+    expect(bars.map(bar => [bar.openTime, bar.closeTime + 1, bar.sourceCount, bar.missingCount])).toEqual([
+      [Date.UTC(2024, 1, 1), Date.UTC(2024, 2, 1), 29, 0],
+      [Date.UTC(2024, 2, 1), Date.UTC(2024, 3, 1), 31, 0]
+    ]);
+  });
+
+  it('flags the trailing bucket as partial and only counts gaps up to the latest candle', () => {
+    const hour = Date.UTC(2024, 0, 1, 10);
+    const klines = minuteKlines(hour - HOUR, 90); // 09:00 to 10:29
+
+    const bars = resampleKlines(klines, '1h', { now: hour + 30 * MINUTE });
+    expect(bars.map(bar => [bar.openTime, bar.isPartial, bar.sourceCount, bar.missingCount])).toEqual([
+      [hour - HOUR, false, 60, 0],
+      [hour, true, 30, 0]
+    ]);
+
+    expect(resampleKlines(klines, '1h', { now: hour + 30 * MINUTE, includePartial: false })).toHaveLength(1);
+    // A closed hour whose source candles stop early is still incomplete
+    expect(resampleKlines(klines, '1h', { now }).map(bar => bar.isPartial)).toEqual([false, true]);
+  });
+
+  it('counts missing source candles and skips buckets with none', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const klines = [
+      ...minuteKlines(start, 60).filter((_, i) => i < 10 || i >= 15),
+      ...minuteKlines(start + 2 * HOUR, 60)
+    ];
+
+    const bars = resampleKlines(klines, '1h', { now });
+
+    expect(bars.map(bar => [bar.openTime, bar.sourceCount, bar.missingCount])).toEqual([
+      [start, 55, 5],
+      [start + 2 * HOUR, 60, 0]
+    ]);
+    expect(bars[0].close).toBe(159);
+  });
+
+  it('keeps the last copy of a revised source candle', () => {
+    const start = Date.UTC(2024, 0, 1);
+    const klines = [...minuteKlines(start, 15), kline(start + 14 * MINUTE, '1m', MINUTE, 500)];
+
+    const [bar] = resampleKlines(klines, '15m', { now });
+
+    expect(bar).toMatchObject({ sourceCount: 15, close: 500, high: 502 });
+  });
+
+  it('rejects mixed or incompatible source intervals', () => {
+    const start = Date.UTC(2024, 0, 1);
+
+    expect(() => resampleKlines([...minuteKlines(start, 2), kline(start + HOUR, '1h', HOUR)], '1d')).toThrow('mixed intervals');
+    expect(() => resampleKlines(minuteKlines(start, 2).map(k => ({ ...k, interval: '1w' })), '1M')).toThrow('calendar months');
+    expect(() => resampleKlines(dailyKlines(start, 2).map(k => ({ ...k, interval: '3d' })), '1w')).toThrow('Cannot resample 3d');
+  });
+});
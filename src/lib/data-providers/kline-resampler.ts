@@ -0,0 +1,168 @@
+/**
+ * @fileOverview Kline Resampler
+ *
+ * Builds higher-timeframe candles (3m, 15m, 1h, 4h, 1d, 1w, 1M, ...) from
+ * lower-timeframe KlineData, typically stored 1m candles:
+ * - Bucket boundaries follow the exchange's own alignment: intraday and
+ *   daily buckets on UTC epoch multiples, weeks starting Monday (Thursday
+ *   on Kraken), months on UTC calendar months
+ * - The last bucket is flagged partial while it is still forming
+ * - Buckets with missing source candles report how many were absent
+ */
+
+import type { KlineData } from './real-time-data-provider';
+import { getIntervalMs, INTERVAL_MS } from './intervals';
+
+export interface ResampledKline extends KlineData {
+  isPartial: boolean; // Bucket has not closed yet
+  sourceCount: number; // Source candles aggregated into this bar
+  missingCount: number; // Source candles expected but absent (gaps)
+}
+
+export interface ResampleOptions {
+  now?: number; // Reference time for partial detection, defaults to Date.now()
+  includePartial?: boolean; // Keep the still-forming last bucket (default true)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days after the epoch (Thursday 1970-01-01) that each exchange starts its week
+const WEEK_START_OFFSET_DAYS: { [exchange: string]: number } = {
+  binance: 4, // Monday
+  coinbase: 4,
+  kraken: 0 // Thursday
+};
+
+/**
+ * Open time of the bucket containing timestamp
+ */
+export function getBucketStart(timestamp: number, interval: string, exchange: string = 'binance'): number {
+  if (interval === '1M') {
+    const date = new Date(timestamp);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  }
+
+  const intervalMs = requireIntervalMs(interval);
+
+  if (interval === '1w') {
+    const offset = (WEEK_START_OFFSET_DAYS[exchange.toLowerCase()] ?? 4) * DAY_MS;
+    return Math.floor((timestamp - offset) / intervalMs) * intervalMs + offset;
+  }
+
+  return Math.floor(timestamp / intervalMs) * intervalMs;
+}
+
+/**
+ * Open time of the bucket following the one that starts at bucketStart
+ */
+export function getNextBucketStart(bucketStart: number, interval: string): number {
+  if (interval === '1M') {
+    const date = new Date(bucketStart);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+  }
+
+  return bucketStart + requireIntervalMs(interval);
+}
+
+/**
+ * Aggregate source klines into targetInterval candles, oldest first
+ */
+export function resampleKlines(
+  klines: KlineData[],
+  targetInterval: string,
+  options: ResampleOptions = {}
+): ResampledKline[] {
+  const { now = Date.now(), includePartial = true } = options;
+  if (klines.length === 0) return [];
+
+  // Later copies of a source candle (revisions, overlapping pages) win
+  const unique = new Map<number, KlineData>();
+  klines.forEach(k => unique.set(k.openTime, k));
+
+  const sorted = Array.from(unique.values()).sort((a, b) => a.openTime - b.openTime);
+  const sourceInterval = sorted[0].interval;
+  const sourceMs = requireIntervalMs(sourceInterval);
+
+  if (sorted.some(k => k.interval !== sourceInterval)) {
+    throw new Error('Cannot resample klines with mixed intervals');
+  }
+  if (targetInterval !== '1M' && requireIntervalMs(targetInterval) % sourceMs !== 0) {
+    throw new Error(`Cannot resample ${sourceInterval} klines into ${targetInterval}`);
+  }
+  if (targetInterval === '1M' && DAY_MS % sourceMs !== 0) {
+    throw new Error(`Cannot resample ${sourceInterval} klines into calendar months`);
+  }
+
+  const exchange = sorted[0].exchange;
+  const lastSourceClose = sorted[sorted.length - 1].closeTime;
+  const bars: ResampledKline[] = [];
+  let current: ResampledKline | null = null;
+
+  const finish = (bar: ResampledKline) => {
+    const bucketEnd = bar.closeTime + 1;
+    bar.isPartial = bucketEnd > now || lastSourceClose < bar.closeTime;
+    // Only count gaps up to the latest source candle for forming bars
+    const coveredEnd = Math.min(bucketEnd, lastSourceClose + 1);
+    bar.missingCount = Math.max(0, Math.round((coveredEnd - bar.openTime) / sourceMs) - bar.sourceCount);
+    if (includePartial || !bar.isPartial) {
+      bars.push(bar);
+    }
+  };
+
+  for (const kline of sorted) {
+    const bucketStart = getBucketStart(kline.openTime, targetInterval, exchange);
+
+    if (!current || current.openTime !== bucketStart) {
+      if (current) finish(current);
+      current = {
+        symbol: kline.symbol,
+        exchange,
+        interval: targetInterval,
+        openTime: bucketStart,
+        closeTime: getNextBucketStart(bucketStart, targetInterval) - 1,
+        open: kline.open,
+        high: kline.high,
+        low: kline.low,
+        close: kline.close,
+        volume: 0,
+        trades: 0,
+        isPartial: false,
+        sourceCount: 0,
+        missingCount: 0
+      };
+    }
+
+    current.high = Math.max(current.high, kline.high);
+    current.low = Math.min(current.low, kline.low);
+    current.close = kline.close;
+    current.volume += kline.volume;
+    current.trades += kline.trades;
+    current.sourceCount += 1;
+  }
+
+  if (current) finish(current);
+
+  return bars;
+}
+
+/**
+ * Resample one source series into several timeframes at once
+ */
+export function resampleToTimeframes(
+  klines: KlineData[],
+  intervals: string[],
+  options: ResampleOptions = {}
+): { [interval: string]: ResampledKline[] } {
+  const result: { [interval: string]: ResampledKline[] } = {};
+  intervals.forEach(interval => {
+    result[interval] = resampleKlines(klines, interval, options);
+  });
+  return result;
+}
+
+function requireIntervalMs(interval: string): number {
+  if (!(interval in INTERVAL_MS) || interval === '1M') {
+    throw new Error(`Unsupported fixed-length interval: ${interval}`);
+  }
+  return getIntervalMs(interval);
+}
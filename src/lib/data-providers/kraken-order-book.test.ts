@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { KrakenOrderBook, crc32 } from './kraken-order-book';
+import { KRAKEN_FRAMES } from './testing/exchange-frames';
+
+const snapshot = KRAKEN_FRAMES.bookSnapshot[1] as { as: [string, string, string][]; bs: [string, string, string][] };
+
+describe('KrakenOrderBook', () => {
+  it('computes the standard CRC32 check value', () => {
+    expect(crc32('123456789')).toBe(0xcbf43926);
+  });
+
+  it('matches the checksum of a snapshot', () => {
+    const book = new KrakenOrderBook(10);
+    book.applySnapshot(snapshot.as, snapshot.bs);
+    expect(book.calculateChecksum()).toBe(KRAKEN_FRAMES.snapshotChecksum);
+  });
+
+  it('passes the checksum after updates that delete and replace levels', () => {
+    const book = new KrakenOrderBook(10);
+    book.applySnapshot(snapshot.as, snapshot.bs);
+    book.applyUpdate([['61010.10000', '0.25000000', '1709294400.200000']], []);
+    book.applyUpdate([], [['61009.50000', '0.00000000', '1709294400.200000'], ['60999.00000', '0.30000000', '1709294400.200000', 'r']]);
+
+    expect(book.verifyChecksum('341074993')).toBe(true);
+    expect(book.getBids()).toHaveLength(10);
+    expect(book.getBids()[1]).toEqual({ price: 61009, size: 0.8 });
+  });
+
+  it('fails the checksum when the local book has drifted', () => {
+    const book = new KrakenOrderBook(10);
+    book.applySnapshot(snapshot.as, snapshot.bs);
+    // Missed the bid update: the exchange's checksum no longer matches
+    book.applyUpdate([['61010.10000', '0.25000000', '1709294400.200000']], []);
+
+    expect(book.verifyChecksum('341074993')).toBe(false);
+  });
+});
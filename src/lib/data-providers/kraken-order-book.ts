@@ -0,0 +1,117 @@
+/**
+ * @fileOverview Kraken Order Book
+ *
+ * Maintains a local Kraken order book from WebSocket snapshot and update
+ * messages, and verifies it against the CRC32 checksum Kraken sends with
+ * every update. Price and volume strings are kept verbatim because the
+ * checksum is computed over the exchange's original string representation.
+ */
+
+import type { OrderBookLevel } from './real-time-data-provider';
+
+type KrakenLevel = [string, string, string, string?]; // [price, volume, timestamp, updateType?]
+
+const CRC32_TABLE = buildCrc32Table();
+
+export class KrakenOrderBook {
+  private bids: Map<string, string> = new Map();
+  private asks: Map<string, string> = new Map();
+
+  constructor(private readonly depth: number = 10) {}
+
+  /**
+   * Replace the book with a snapshot
+   */
+  applySnapshot(asks: KrakenLevel[], bids: KrakenLevel[]): void {
+    this.asks.clear();
+    this.bids.clear();
+    asks.forEach(level => this.applyLevel(this.asks, level));
+    bids.forEach(level => this.applyLevel(this.bids, level));
+  }
+
+  /**
+   * Apply incremental updates and truncate to the subscribed depth
+   */
+  applyUpdate(asks: KrakenLevel[] = [], bids: KrakenLevel[] = []): void {
+    asks.forEach(level => this.applyLevel(this.asks, level));
+    bids.forEach(level => this.applyLevel(this.bids, level));
+    this.truncate();
+  }
+
+  /**
+   * Verify the local book against a Kraken checksum
+   */
+  verifyChecksum(checksum: string): boolean {
+    return this.calculateChecksum() === parseInt(checksum, 10);
+  }
+
+  /**
+   * CRC32 over the top 10 asks (ascending) followed by the top 10 bids (descending)
+   */
+  calculateChecksum(): number {
+    const format = (value: string) => value.replace('.', '').replace(/^0+/, '');
+
+    const payload = [
+      ...this.sortedAsks().slice(0, 10),
+      ...this.sortedBids().slice(0, 10)
+    ].map(([price, volume]) => format(price) + format(volume)).join('');
+
+    return crc32(payload);
+  }
+
+  getBids(): OrderBookLevel[] {
+    return this.sortedBids().map(([price, volume]) => ({ price: parseFloat(price), size: parseFloat(volume) }));
+  }
+
+  getAsks(): OrderBookLevel[] {
+    return this.sortedAsks().map(([price, volume]) => ({ price: parseFloat(price), size: parseFloat(volume) }));
+  }
+
+  private applyLevel(side: Map<string, string>, [price, volume]: KrakenLevel): void {
+    if (parseFloat(volume) === 0) {
+      side.delete(price);
+    } else {
+      side.set(price, volume);
+    }
+  }
+
+  private truncate(): void {
+    this.sortedAsks().slice(this.depth).forEach(([price]) => this.asks.delete(price));
+    this.sortedBids().slice(this.depth).forEach(([price]) => this.bids.delete(price));
+  }
+
+  private sortedAsks(): [string, string][] {
+    return Array.from(this.asks.entries()).sort((a, b) => parseFloat(a[0]) - parseFloat(b[0]));
+  }
+
+  private sortedBids(): [string, string][] {
+    return Array.from(this.bids.entries()).sort((a, b) => parseFloat(b[0]) - parseFloat(a[0]));
+  }
+}
+
+/**
+ * Standard CRC32 (IEEE 802.3), returned as an unsigned integer
+ */
+export function crc32(input: string): number {
+  let crc = 0xffffffff;
+
+  for (let i = 0; i < input.length; i++) {
+    crc = CRC32_TABLE[(crc ^ input.charCodeAt(i)) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function buildCrc32Table(): number[] {
+  const table: number[] = [];
+
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table.push(c >>> 0);
+  }
+
+  return table;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { CandleStore } from './candle-store';
+import type { DataHealthMonitor } from './data-health-monitor';
+import { MarketDataService } from './market-data-service';
+import { realTimeDataProvider } from './real-time-data-provider';
+
+const connect = vi.hoisted(() => ({ calls: 0, resolve: () => {} }));
+vi.mock('./real-time-data-provider', async importOriginal => ({
+  ...await importOriginal<typeof import('./real-time-data-provider')>(),
+  initializeRealTimeData: () => {
+    connect.calls++;
+    return new Promise<void>(resolve => { connect.resolve = resolve; });
+  }
+}));
+
+describe('MarketDataService.initialize', () => {
+  it('shares the in-flight initialization and attaches the health monitor once', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const health = { attach: vi.fn(() => () => {}), start: vi.fn() };
+    const service = new MarketDataService({} as CandleStore, health as unknown as DataHealthMonitor);
+
+    const first = service.initialize();
+    const second = service.initialize();
+    expect(second).toBe(first);
+    connect.resolve();
+    await Promise.all([first, second]);
+    await service.initialize();
+
+    expect(connect.calls).toBe(1);
+    expect(health.attach).toHaveBeenCalledTimes(1);
+    vi.restoreAllMocks();
+  });
+});
+
+describe('MarketDataService.getMarketData', () => {
+  it('labels data served during a market replay as replayed rather than live', async () => {
+    const now = Date.now();
+    const candles = {
+      getCandles: async () => [{ openTime: now - 120000, closeTime: now - 60001, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }]
+    };
+    const service = new MarketDataService(candles as unknown as CandleStore, {} as DataHealthMonitor);
+    vi.spyOn(service, 'initialize').mockResolvedValue();
+    vi.spyOn(realTimeDataProvider, 'getHistoricalKlines').mockResolvedValue([]);
+    const request = { symbol: 'BTCUSDT', timeframe: '1m' };
+
+    await realTimeDataProvider.setReplayMode(true);
+    const replayed = await service.getMarketData(request);
+    await realTimeDataProvider.setReplayMode(false);
+    const live = await service.getMarketData(request);
+
+    expect(replayed.dataQuality).toMatchObject({ source: 'replay', isRealTime: false, isSynthetic: false });
+    expect(live.dataQuality).toMatchObject({ source: 'real-time', isRealTime: true });
+    vi.restoreAllMocks();
+  });
+
+  it('serves the fallback cache while responses are fresh and within the size limit', async () => {
+    vi.stubEnv('CACHE_MAX_SIZE', '2');
+    vi.stubEnv('CACHE_TTL', '60000');
+    vi.stubEnv('FALLBACK_STRICT', 'true');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+
+    let online = true;
+    const candles = {
+      getCandles: async () => {
+        if (!online) throw new Error('exchange unreachable');
+        return [{ openTime: Date.now() - 120000, closeTime: Date.now() - 60001, open: 1, high: 2, low: 0.5, close: 1.5, volume: 10 }];
+      },
+      getLatest: async () => []
+    };
+    const service = new MarketDataService(candles as unknown as CandleStore, {} as DataHealthMonitor);
+    vi.spyOn(service, 'initialize').mockResolvedValue();
+    vi.spyOn(realTimeDataProvider, 'getHistoricalKlines').mockResolvedValue([]);
+
+    for (const symbol of ['BTCUSDT', 'ETHUSDT', 'SOLUSDT']) {
+      await service.getMarketData({ symbol, timeframe: '1m' });
+    }
+    online = false;
+
+    // The oldest response was evicted past two entries
+    await expect(service.getMarketData({ symbol: 'BTCUSDT', timeframe: '1m' })).rejects.toThrow('synthetic fallback is disabled');
+    expect((await service.getMarketData({ symbol: 'SOLUSDT', timeframe: '1m' })).dataQuality.source).toBe('real-time');
+
+    vi.setSystemTime(Date.now() + 60000);
+    await expect(service.getMarketData({ symbol: 'SOLUSDT', timeframe: '1m' })).rejects.toThrow('synthetic fallback is disabled');
+
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+});
@@ -3,9 +3,15 @@
  * 
  * This service provides a unified interface for accessing market data
  * from various sources including real-time feeds, APIs, and fallback data.
+ * Closed kline history is served from the local candle store, which only
+ * fetches missing ranges from the exchange.
  */
 
-import { realTimeDataProvider, initializeRealTimeData, type PriceUpdate, type OrderBookUpdate, type TradeUpdate } from './real-time-data-provider';
+import { realTimeDataProvider, initializeRealTimeData, type PriceUpdate, type OrderBookUpdate, type TradeUpdate, type KlineData } from './real-time-data-provider';
+import { getIntervalMs } from './intervals';
+import { candleStore, type CandleStore } from './candle-store';
+import { dataHealthMonitor, type DataHealthMonitor, type DataHealthReport } from './data-health-monitor';
+import { getDataProviderConfig, isSyntheticDataAllowed } from '../config/data-provider-config';
 
 export interface MarketDataRequest {
   symbol: string;
@@ -16,6 +22,15 @@ export interface MarketDataRequest {
   includeTrades?: boolean;
 }
 
+export interface KlineRangeRequest {
+  symbol: string;
+  interval: string;
+  startTime: number;
+  endTime?: number; // Defaults to now
+  exchange?: string;
+  maxKlines?: number;
+}
+
 export interface MarketDataResponse {
   symbol: string;
   timeframe: string;
@@ -46,28 +61,46 @@ export interface MarketDataResponse {
   dataQuality: {
     isRealTime: boolean;
     lastUpdate: number;
-    source: 'real-time' | 'api' | 'fallback';
+    source: 'real-time' | 'replay' | 'api' | 'fallback';
+    isSynthetic: boolean; // Generated prices; never use for trade levels
     confidence: number; // 0-100
   };
 }
 
 export class MarketDataService {
-  private initialized: boolean = false;
+  private initialization: Promise<void> | null = null;
+  private detachHealth: (() => void) | null = null;
   private fallbackCache: Map<string, MarketDataResponse> = new Map();
   
+  constructor(
+    private readonly candles: CandleStore = candleStore,
+    private readonly health: DataHealthMonitor = dataHealthMonitor
+  ) {}
+  
   /**
-   * Initialize the market data service
+   * Initialize the market data service. Concurrent callers share one
+   * in-flight initialization, so the streams are only started once.
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.startRealTimeData();
+    }
+    return this.initialization;
+  }
+  
+  private async startRealTimeData(): Promise<void> {
+    // Attach before connecting so the first connection is counted
+    if (!this.detachHealth) {
+      this.detachHealth = this.health.attach(realTimeDataProvider);
+    }
+    this.health.start();
     
     try {
       await initializeRealTimeData();
-      this.initialized = true;
       console.log('Market Data Service initialized with real-time data');
     } catch (error) {
+      // Still resolves, so callers continue in fallback mode
       console.warn('Failed to initialize real-time data, using fallback mode:', error);
-      this.initialized = true; // Still mark as initialized for fallback mode
     }
   }
   
@@ -87,14 +120,11 @@ export class MarketDataService {
     } = request;
     
     try {
-      // Try to get real-time data first
-      const historicalData = await realTimeDataProvider.getHistoricalData(
-        symbol,
-        timeframe,
-        limit,
-        exchange
-      );
+      // Stored history plus the forming candle from the exchange
+      const historicalData = await this.getCandleHistory(symbol, timeframe, limit, exchange);
       
+      // During a market replay the order book and trades are recorded, not live
+      const replaying = realTimeDataProvider.isReplaying;
       let orderBook;
       let trades;
       
@@ -132,21 +162,38 @@ export class MarketDataService {
         currentPrice: historicalData.prices[historicalData.prices.length - 1],
         orderBook,
         trades,
-        dataQuality: {
-          isRealTime: true,
-          lastUpdate: Date.now(),
-          source: 'real-time',
-          confidence: 95
-        }
+        dataQuality: replaying
+          ? {
+            isRealTime: false,
+            lastUpdate: Date.now(),
+            source: 'replay',
+            isSynthetic: false,
+            confidence: 60
+          }
+          : {
+            isRealTime: true,
+            lastUpdate: Date.now(),
+            source: 'real-time',
+            isSynthetic: false,
+            confidence: 95
+          }
       };
       
-      // Cache the response
-      this.cacheResponse(request, response);
+      // Recorded books and trades must not be served as a fallback once live data resumes
+      if (!replaying) {
+        this.cacheResponse(request, response);
+      }
       
       return response;
     } catch (error) {
+      const stored = await this.getStoredMarketData(request).catch(() => null);
+      if (stored) {
+        console.warn('Failed to get real-time data, serving stored candles:', error);
+        return stored;
+      }
+      
       console.warn('Failed to get real-time data, using fallback:', error);
-      return this.getFallbackData(request);
+      return this.getFallbackData(request, error);
     }
   }
   
@@ -158,6 +205,31 @@ export class MarketDataService {
     return Promise.all(promises);
   }
   
+  /**
+   * Get closed klines for a time range, paging through the exchange REST API.
+   * Never substitutes synthetic data: errors propagate to the caller.
+   */
+  async getKlines(request: KlineRangeRequest): Promise<KlineData[]> {
+    const {
+      symbol,
+      interval,
+      startTime,
+      endTime = Date.now(),
+      exchange = 'binance',
+      maxKlines = 5000
+    } = request;
+    
+    const intervalMs = getIntervalMs(interval);
+    const alignedStart = Math.floor(startTime / intervalMs) * intervalMs;
+    const boundedEnd = Math.min(endTime + 1, alignedStart + (maxKlines + 1) * intervalMs);
+    
+    const klines = await this.candles.getCandles({ exchange, symbol, interval }, alignedStart, boundedEnd);
+    
+    return klines
+      .filter(k => k.closeTime <= endTime)
+      .slice(0, maxKlines);
+  }
+  
   /**
    * Subscribe to real-time price updates
    */
@@ -211,21 +283,50 @@ export class MarketDataService {
   }
   
   /**
-   * Get data quality status
+   * Subscribe to closed klines
+   */
+  subscribeToKlines(symbol: string, callback: (kline: KlineData) => void): () => void {
+    const handler = (kline: KlineData) => {
+      if (kline.symbol === symbol) {
+        callback(kline);
+      }
+    };
+    
+    realTimeDataProvider.on('klineUpdate', handler);
+    
+    return () => {
+      realTimeDataProvider.off('klineUpdate', handler);
+    };
+  }
+  
+  /**
+   * Get data quality status from the health monitor
    */
   getDataQualityStatus(): {
     isConnected: boolean;
     lastUpdate: number;
     exchanges: string[];
     activeSymbols: string[];
+    health: DataHealthReport;
   } {
-    const snapshot = realTimeDataProvider.getSnapshot();
+    const health = this.health.getReport();
+    const connected = health.exchanges.filter(exchange => exchange.connected);
+    const lastMessages = health.exchanges
+      .flatMap(exchange => exchange.symbols)
+      .map(symbol => symbol.lastMessageAt)
+      .filter((timestamp): timestamp is number => timestamp !== null);
     
     return {
-      isConnected: this.initialized,
-      lastUpdate: snapshot.timestamp,
-      exchanges: ['binance'], // Would be dynamic based on active connections
-      activeSymbols: Array.from(snapshot.prices.keys()).map(key => key.split(':')[1])
+      isConnected: connected.length > 0,
+      lastUpdate: lastMessages.length > 0 ? Math.max(...lastMessages) : 0,
+      exchanges: connected.map(exchange => exchange.exchange),
+      activeSymbols: Array.from(new Set(
+        connected
+          .flatMap(exchange => exchange.symbols)
+          .filter(symbol => symbol.staleSeconds !== null && symbol.staleSeconds <= health.thresholds.dataStale)
+          .map(symbol => symbol.symbol)
+      )),
+      health
     };
   }
   
@@ -242,20 +343,89 @@ export class MarketDataService {
   }
   
   /**
-   * Get fallback data when real-time is unavailable
+   * Latest closed candles from the store (backfilling gaps) followed by the forming candle
+   */
+  private async getCandleHistory(
+    symbol: string,
+    timeframe: string,
+    limit: number,
+    exchange: string
+  ): Promise<{ prices: number[]; volumes: number[]; timestamps: number[] }> {
+    const intervalMs = getIntervalMs(timeframe);
+    // Analysis requests are waiting on these, so they go ahead of bulk backfills
+    const closed = await this.candles.getCandles(
+      { exchange, symbol, interval: timeframe },
+      Date.now() - (limit + 1) * intervalMs,
+      Date.now(),
+      'high'
+    );
+    
+    const lastOpen = closed.length > 0 ? closed[closed.length - 1].openTime : -Infinity;
+    const latest = await realTimeDataProvider.getHistoricalKlines(symbol, timeframe, 1, exchange, undefined, 'high');
+    const klines = [...closed, ...latest.filter(k => k.openTime > lastOpen)].slice(-limit);
+    
+    if (klines.length === 0) {
+      throw new Error(`No klines available for ${exchange}:${symbol} ${timeframe}`);
+    }
+    
+    return {
+      prices: klines.map(k => k.close),
+      volumes: klines.map(k => k.volume),
+      timestamps: klines.map(k => k.closeTime)
+    };
+  }
+  
+  /**
+   * Serve previously stored candles when the exchange is unreachable
+   */
+  private async getStoredMarketData(request: MarketDataRequest): Promise<MarketDataResponse | null> {
+    const { symbol, timeframe, limit = 100, exchange = 'binance' } = request;
+    const klines = await this.candles.getLatest({ exchange, symbol, interval: timeframe }, limit);
+    if (klines.length === 0) return null;
+    
+    const lastKline = klines[klines.length - 1];
+    
+    return {
+      symbol,
+      timeframe,
+      exchange,
+      timestamp: Date.now(),
+      prices: klines.map(k => k.close),
+      volumes: klines.map(k => k.volume),
+      timestamps: klines.map(k => k.closeTime),
+      currentPrice: lastKline.close,
+      dataQuality: {
+        isRealTime: false,
+        lastUpdate: lastKline.closeTime,
+        source: 'api',
+        isSynthetic: false,
+        confidence: 80 // Real candles, but possibly stale
+      }
+    };
+  }
+  
+  /**
+   * Get fallback data when real-time is unavailable. In strict fallback mode
+   * only cached real responses are served; otherwise the request fails.
    */
-  private getFallbackData(request: MarketDataRequest): MarketDataResponse {
+  private getFallbackData(request: MarketDataRequest, cause?: unknown): MarketDataResponse {
     const cacheKey = `${request.symbol}:${request.timeframe}`;
+    const allowSynthetic = isSyntheticDataAllowed();
     
     // Check cache first
     const cached = this.fallbackCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < 300000) { // 5 minute cache
+    if (cached && Date.now() - cached.timestamp < getDataProviderConfig().caching.ttl && (allowSynthetic || !cached.dataQuality.isSynthetic)) {
       return cached;
     }
     
-    // Generate fallback data
     const { symbol, timeframe, limit = 100, exchange = 'binance' } = request;
     
+    if (!allowSynthetic) {
+      const reason = cause instanceof Error ? `: ${cause.message}` : '';
+      throw new Error(`No real market data available for ${exchange}:${symbol} ${timeframe} and synthetic fallback is disabled${reason}`);
+    }
+    
+    // Generate fallback data
     const { prices, volumes, timestamps } = this.generateFallbackMarketData(symbol, limit);
     
     const response: MarketDataResponse = {
@@ -271,6 +441,7 @@ export class MarketDataService {
         isRealTime: false,
         lastUpdate: Date.now(),
         source: 'fallback',
+        isSynthetic: true,
         confidence: 60 // Lower confidence for generated data
       }
     };
@@ -359,16 +530,21 @@ export class MarketDataService {
   }
   
   /**
-   * Cache response for fallback
+   * Cache response for fallback, dropping expired responses and the oldest
+   * ones beyond the configured cache size
    */
   private cacheResponse(request: MarketDataRequest, response: MarketDataResponse): void {
+    const { ttl, maxSize } = getDataProviderConfig().caching;
     const cacheKey = `${request.symbol}:${request.timeframe}`;
+    
+    // Re-inserting moves the key to the end, so the Map stays ordered oldest first
+    this.fallbackCache.delete(cacheKey);
     this.fallbackCache.set(cacheKey, response);
     
-    // Limit cache size
-    if (this.fallbackCache.size > 100) {
-      const firstKey = this.fallbackCache.keys().next().value;
-      this.fallbackCache.delete(firstKey);
+    const now = Date.now();
+    for (const [key, cached] of this.fallbackCache) {
+      if (this.fallbackCache.size <= maxSize && now - cached.timestamp < ttl) break;
+      this.fallbackCache.delete(key);
     }
   }
   
@@ -378,7 +554,7 @@ export class MarketDataService {
   async shutdown(): Promise<void> {
     try {
       await realTimeDataProvider.disconnect();
-      this.initialized = false;
+      this.initialization = null;
       console.log('Market Data Service shut down');
     } catch (error) {
       console.error('Error shutting down Market Data Service:', error);
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createMarketEventStream } from './market-event-stream';
+import { realTimeDataProvider, type PriceUpdate } from './real-time-data-provider';
+
+const price = (symbol: string, value: number): PriceUpdate => ({
+  symbol, exchange: 'binance', price: value, timestamp: 1709294400000, volume24h: 1, change24h: 0
+});
+
+async function readEvents(reader: ReadableStreamDefaultReader<Uint8Array>, count: number): Promise<{ event: string; data: unknown }[]> {
+  const decoder = new TextDecoder();
+  const events: { event: string; data: unknown }[] = [];
+  let text = '';
+  while (events.length < count) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    text += decoder.decode(value);
+    let end: number;
+    while ((end = text.indexOf('\n\n')) !== -1) {
+      const block = text.slice(0, end);
+      text = text.slice(end + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (event && data) events.push({ event, data: JSON.parse(data) });
+    }
+  }
+  return events;
+}
+
+describe('createMarketEventStream', () => {
+  const streams: ReadableStream<Uint8Array>[] = [];
+
+  afterEach(async () => {
+    await Promise.all(streams.splice(0).map(stream => stream.cancel()));
+  });
+
+  it('shares one provider listener per event type across clients and symbols', async () => {
+    const baseline = realTimeDataProvider.listenerCount('priceUpdate');
+    const first = createMarketEventStream({ symbols: ['BTCUSDT', 'ETHUSDT'], types: ['price', 'trade'] });
+    const second = createMarketEventStream({ symbols: ['ETHUSDT', 'SOLUSDT'], types: ['price'] });
+    streams.push(first, second);
+    const firstReader = first.getReader();
+    const secondReader = second.getReader();
+    await readEvents(firstReader, 1);
+    await readEvents(secondReader, 1);
+
+    expect(realTimeDataProvider.listenerCount('priceUpdate')).toBe(baseline + 1);
+    expect(realTimeDataProvider.listenerCount('tradeUpdate')).toBe(1);
+
+    realTimeDataProvider.emit('priceUpdate', price('SOLUSDT', 150));
+    realTimeDataProvider.emit('priceUpdate', price('ETHUSDT', 3500));
+
+    expect(await readEvents(firstReader, 1)).toEqual([{ event: 'price', data: price('ETHUSDT', 3500) }]);
+    expect(await readEvents(secondReader, 2)).toEqual([
+      { event: 'price', data: price('SOLUSDT', 150) },
+      { event: 'price', data: price('ETHUSDT', 3500) }
+    ]);
+
+    firstReader.releaseLock();
+    secondReader.releaseLock();
+    await Promise.all(streams.splice(0).map(stream => stream.cancel()));
+    expect(realTimeDataProvider.listenerCount('priceUpdate')).toBe(baseline);
+    expect(realTimeDataProvider.listenerCount('tradeUpdate')).toBe(0);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * @fileOverview Market Event Stream
+ *
+ * Server-Sent Events stream of live market data for one browser client:
+ * - Only the client's symbols and event types are forwarded
+ * - Backpressure: while the client is not reading, prices and klines are
+ *   conflated to the latest value per symbol and trades are buffered up to a
+ *   limit, oldest dropped first (reported with a `dropped` event)
+ * - A keepalive comment stops proxies from closing idle connections
+ * - Clients share one provider listener per event type, however many connect
+ */
+
+import { realTimeDataProvider, type PriceUpdate, type TradeUpdate, type KlineData } from './real-time-data-provider';
+
+export type MarketStreamEventType = 'price' | 'trade' | 'kline';
+
+export const MARKET_STREAM_EVENT_TYPES: MarketStreamEventType[] = ['price', 'trade', 'kline'];
+
+export interface MarketStreamSubscription {
+  symbols: string[];
+  types: MarketStreamEventType[];
+}
+
+const STREAM_HIGH_WATER_MARK = 64; // Frames queued before updates are conflated
+const MAX_PENDING_TRADES = 500;
+const KEEPALIVE_MS = 15000;
+const RECONNECT_DELAY_MS = 3000; // EventSource retry hint
+
+type MarketStreamData = PriceUpdate | TradeUpdate | KlineData;
+
+interface MarketStreamClient {
+  symbols: Set<string>;
+  types: Set<MarketStreamEventType>;
+  push: (type: MarketStreamEventType, data: MarketStreamData) => void;
+}
+
+const PROVIDER_EVENTS: { [type in MarketStreamEventType]: string } = {
+  price: 'priceUpdate',
+  trade: 'tradeUpdate',
+  kline: 'klineUpdate'
+};
+
+const clients: Set<MarketStreamClient> = new Set();
+const providerListeners: Map<MarketStreamEventType, (data: MarketStreamData) => void> = new Map();
+
+/**
+ * Add a client to the registry, listening on the provider for any event type
+ * no other client needs yet. Returns the function that removes the client.
+ */
+function registerClient(client: MarketStreamClient): () => void {
+  clients.add(client);
+
+  client.types.forEach(type => {
+    if (providerListeners.has(type)) return;
+
+    const listener = (data: MarketStreamData) => {
+      clients.forEach(candidate => {
+        if (candidate.types.has(type) && candidate.symbols.has(data.symbol)) {
+          candidate.push(type, data);
+        }
+      });
+    };
+    providerListeners.set(type, listener);
+    realTimeDataProvider.on(PROVIDER_EVENTS[type], listener);
+  });
+
+  return () => {
+    clients.delete(client);
+
+    // Stop listening for event types no remaining client wants
+    providerListeners.forEach((listener, type) => {
+      if ([...clients].some(candidate => candidate.types.has(type))) return;
+      realTimeDataProvider.off(PROVIDER_EVENTS[type], listener);
+      providerListeners.delete(type);
+    });
+  };
+}
+
+/**
+ * Create the SSE body for a client; the stream ends when the signal aborts or the client cancels
+ */
+export function createMarketEventStream(
+  { symbols, types }: MarketStreamSubscription,
+  signal?: AbortSignal
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pendingPrices: Map<string, PriceUpdate> = new Map();
+  const pendingKlines: Map<string, KlineData> = new Map();
+  let pendingTrades: TradeUpdate[] = [];
+  let droppedTrades = 0;
+  let unregister: (() => void) | null = null;
+  let keepalive: ReturnType<typeof setInterval> | null = null;
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let closed = false;
+
+  const frame = (event: string, data: unknown) => encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  const hasPending = () => pendingPrices.size > 0 || pendingKlines.size > 0 || pendingTrades.length > 0 || droppedTrades > 0;
+
+  const canWrite = () => !closed && (controller.desiredSize ?? 0) > 0;
+
+  // Oldest data first: dropped notice, trades, then the latest klines and prices
+  const flush = () => {
+    if (droppedTrades > 0 && canWrite()) {
+      controller.enqueue(frame('dropped', { trades: droppedTrades }));
+      droppedTrades = 0;
+    }
+    while (pendingTrades.length > 0 && canWrite()) {
+      controller.enqueue(frame('trade', pendingTrades.shift()));
+    }
+    for (const [key, kline] of pendingKlines) {
+      if (!canWrite()) break;
+      controller.enqueue(frame('kline', kline));
+      pendingKlines.delete(key);
+    }
+    for (const [symbol, price] of pendingPrices) {
+      if (!canWrite()) break;
+      controller.enqueue(frame('price', price));
+      pendingPrices.delete(symbol);
+    }
+  };
+
+  const push = (type: MarketStreamEventType, data: MarketStreamData) => {
+    if (closed) return;
+
+    if (!hasPending() && canWrite()) {
+      controller.enqueue(frame(type, data));
+      return;
+    }
+
+    if (type === 'price') {
+      pendingPrices.set(data.symbol, data as PriceUpdate);
+    } else if (type === 'kline') {
+      const kline = data as KlineData;
+      pendingKlines.set(`${kline.symbol}:${kline.interval}`, kline);
+    } else {
+      pendingTrades.push(data as TradeUpdate);
+      if (pendingTrades.length > MAX_PENDING_TRADES) {
+        droppedTrades += pendingTrades.length - MAX_PENDING_TRADES;
+        pendingTrades = pendingTrades.slice(-MAX_PENDING_TRADES);
+      }
+    }
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    unregister?.();
+    unregister = null;
+    if (keepalive) clearInterval(keepalive);
+    signal?.removeEventListener('abort', abort);
+  };
+
+  const abort = () => {
+    close();
+    try {
+      controller.close();
+    } catch {
+      // Already closed by the client
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+      if (signal?.aborted) {
+        abort();
+        return;
+      }
+      signal?.addEventListener('abort', abort);
+
+      controller.enqueue(encoder.encode(`retry: ${RECONNECT_DELAY_MS}\n\n`));
+      controller.enqueue(frame('ready', { symbols, types }));
+
+      // Start from the latest known prices instead of waiting for the next tick
+      if (types.includes('price')) {
+        realTimeDataProvider.getSnapshot().prices.forEach(price => {
+          if (symbols.includes(price.symbol)) push('price', price);
+        });
+      }
+
+      unregister = registerClient({ symbols: new Set(symbols), types: new Set(types), push });
+
+      keepalive = setInterval(() => {
+        // Comments are ignored by EventSource; skipped while the client is behind anyway
+        if (canWrite()) controller.enqueue(encoder.encode(': keepalive\n\n'));
+      }, KEEPALIVE_MS);
+    },
+    pull() {
+      flush();
+    },
+    cancel() {
+      close();
+    }
+  }, { highWaterMark: STREAM_HIGH_WATER_MARK });
+}
@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Market Replay
+ *
+ * Replays a session recorded by the StreamRecorder through a
+ * RealTimeDataProvider, so snapshots, subscribers, detectors and monitors see
+ * the same events they saw live:
+ * - Speed 1 keeps the recorded pacing, 10 plays ten times faster, 'max'
+ *   emits back to back (yielding to the event loop between batches)
+ * - Live streams are closed for the duration of the replay and reconnected
+ *   afterwards if they were open
+ * - Events are read line by line, so long recordings stream from disk
+ */
+
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { realTimeDataProvider, type RealTimeDataProvider } from './real-time-data-provider';
+import type { NormalizedMarketEvent } from './adapters/exchange-adapter';
+import type { RecordedMarketEvent } from './stream-recorder';
+
+export type ReplaySpeed = number | 'max';
+
+export interface ReplayOptions {
+  speed?: ReplaySpeed;
+  symbols?: string[];
+  types?: NormalizedMarketEvent['type'][];
+  from?: number; // Skip events received before this time
+  to?: number; // Stop at events received after this time
+}
+
+export interface ReplaySummary {
+  filePath: string;
+  eventCount: number;
+  firstEventAt: number | null;
+  lastEventAt: number | null;
+  elapsedMs: number;
+  stopped: boolean; // Ended early through stop()
+}
+
+const MAX_SPEED_BATCH = 500; // Events emitted between event loop yields at 'max' speed
+
+export class MarketReplay {
+  private running = false;
+  private stopRequested = false;
+  private wake: (() => void) | null = null;
+
+  constructor(private readonly provider: RealTimeDataProvider = realTimeDataProvider) {}
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Replay a recording; resolves when it has been fully emitted or stopped
+   */
+  async play(filePath: string, { speed = 1, symbols, types, from, to }: ReplayOptions = {}): Promise<ReplaySummary> {
+    if (this.running) {
+      throw new Error('A replay is already running');
+    }
+    if (speed !== 'max' && !(speed > 0)) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+
+    this.running = true;
+    this.stopRequested = false;
+    const startedAt = Date.now();
+    let eventCount = 0;
+    let firstEventAt: number | null = null;
+    let lastEventAt: number | null = null;
+
+    await this.provider.setReplayMode(true);
+    const lines = createInterface({ input: createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (this.stopRequested) break;
+        if (!line.trim()) continue;
+
+        const record: RecordedMarketEvent = JSON.parse(line);
+        if (from !== undefined && record.receivedAt < from) continue;
+        if (to !== undefined && record.receivedAt > to) break;
+        if (symbols && !symbols.includes(record.event.data.symbol)) continue;
+        if (types && !types.includes(record.event.type)) continue;
+
+        if (firstEventAt === null) {
+          firstEventAt = record.receivedAt;
+        }
+
+        if (speed === 'max') {
+          if (eventCount > 0 && eventCount % MAX_SPEED_BATCH === 0) {
+            await new Promise(resolve => setImmediate(resolve));
+          }
+        } else {
+          // Pace against the replay start rather than the previous event, so delays do not drift
+          const dueAt = startedAt + (record.receivedAt - firstEventAt) / speed;
+          await this.sleep(dueAt - Date.now());
+          if (this.stopRequested) break;
+        }
+
+        this.provider.ingestMarketEvent(record.event);
+        lastEventAt = record.receivedAt;
+        eventCount++;
+      }
+    } finally {
+      lines.close();
+      await this.provider.setReplayMode(false);
+      this.running = false;
+    }
+
+    return {
+      filePath,
+      eventCount,
+      firstEventAt,
+      lastEventAt,
+      elapsedMs: Date.now() - startedAt,
+      stopped: this.stopRequested
+    };
+  }
+
+  /**
+   * End the running replay after the current event
+   */
+  stop(): void {
+    if (!this.running) return;
+    this.stopRequested = true;
+    this.wake?.();
+  }
+
+  private sleep(ms: number): Promise<void> {
+    if (ms <= 0) return Promise.resolve();
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.wake = null;
+        resolve();
+      }, ms);
+      this.wake = () => {
+        clearTimeout(timer);
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+}
+
+// Singleton instance
+export const marketReplay = new MarketReplay();
+
+/**
+ * Replay a recording through the shared real-time data provider
+ */
+export async function replayRecording(filePath: string, options: ReplayOptions = {}): Promise<ReplaySummary> {
+  return marketReplay.play(filePath, options);
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileOverview Order Book Depth
+ *
+ * Venue-agnostic helpers over a sorted order book (bids descending, asks
+ * ascending):
+ * - Top-N levels per side
+ * - Cumulative depth ladders (running size and notional from the touch)
+ * - Market impact of a marketable order walked through the book
+ */
+
+import type { OrderBookLevel } from './real-time-data-provider';
+
+export interface OrderBookSides {
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+}
+
+export interface CumulativeDepthLevel {
+  price: number;
+  size: number;
+  cumulativeSize: number; // Size available from the touch through this level
+  cumulativeNotional: number; // Quote value available from the touch through this level
+}
+
+export interface CumulativeDepth {
+  bids: CumulativeDepthLevel[];
+  asks: CumulativeDepthLevel[];
+}
+
+export interface MarketImpact {
+  side: 'buy' | 'sell';
+  requestedNotional: number;
+  filledNotional: number;
+  filledSize: number;
+  averagePrice: number;
+  worstPrice: number;
+  slippage: number; // Average fill price distance from mid, in price units
+  slippagePercent: number;
+  fullyFilled: boolean; // False when the visible book is thinner than the order
+}
+
+/**
+ * Best levels on each side
+ */
+export function getTopLevels(book: OrderBookSides, levels: number): OrderBookSides {
+  return {
+    bids: book.bids.slice(0, levels),
+    asks: book.asks.slice(0, levels)
+  };
+}
+
+/**
+ * Running size and notional per level, starting at the touch
+ */
+export function getCumulativeDepth(book: OrderBookSides, levels: number = Infinity): CumulativeDepth {
+  return {
+    bids: accumulate(book.bids.slice(0, levels)),
+    asks: accumulate(book.asks.slice(0, levels))
+  };
+}
+
+/**
+ * Mid price, or null when either side is empty
+ */
+export function getMidPrice(book: OrderBookSides): number | null {
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  if (bestBid === undefined || bestAsk === undefined) return null;
+  return (bestBid + bestAsk) / 2;
+}
+
+/**
+ * Walk a market order of the given quote notional through the opposite side
+ */
+export function estimateMarketImpact(book: OrderBookSides, side: 'buy' | 'sell', notional: number): MarketImpact {
+  const levels = side === 'buy' ? book.asks : book.bids;
+  const mid = getMidPrice(book) ?? levels[0]?.price ?? 0;
+  let filledNotional = 0;
+  let filledSize = 0;
+  let worstPrice = levels[0]?.price ?? mid;
+
+  for (const level of levels) {
+    if (filledNotional >= notional) break;
+    const take = Math.min(level.size, (notional - filledNotional) / level.price);
+    filledSize += take;
+    filledNotional += take * level.price;
+    worstPrice = level.price;
+  }
+
+  const averagePrice = filledSize > 0 ? filledNotional / filledSize : mid;
+  const slippage = Math.abs(averagePrice - mid);
+
+  return {
+    side,
+    requestedNotional: notional,
+    filledNotional,
+    filledSize,
+    averagePrice,
+    worstPrice,
+    slippage,
+    slippagePercent: mid > 0 ? (slippage / mid) * 100 : 0,
+    fullyFilled: filledNotional >= notional * (1 - 1e-9)
+  };
+}
+
+function accumulate(levels: OrderBookLevel[]): CumulativeDepthLevel[] {
+  let cumulativeSize = 0;
+  let cumulativeNotional = 0;
+
+  return levels.map(level => {
+    cumulativeSize += level.size;
+    cumulativeNotional += level.size * level.price;
+    return { price: level.price, size: level.size, cumulativeSize, cumulativeNotional };
+  });
+}
@@ -0,0 +1,177 @@
+/**
+ * @fileOverview REST Rate Limiter
+ *
+ * Weighted token-bucket limiter shared by every REST caller of an exchange,
+ * sized from ExchangeConfig.rateLimits:
+ * - Requests are queued by priority (UI queries ahead of backfills), FIFO within a priority
+ * - Request weights come from the exchange's weight table (see request-weights)
+ * - HTTP 429/418 responses pause the whole exchange until Retry-After has passed
+ */
+
+import { getExchangeConfig, type ExchangeConfig } from '../config/data-provider-config';
+import { getRequestWeight } from './request-weights';
+
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface RateLimitedFetchOptions {
+  priority?: RequestPriority;
+  weight?: number; // Overrides the weight table
+  maxRetries?: number; // Retries after HTTP 429; 418 (IP ban) is never retried
+}
+
+interface QueuedRequest {
+  weight: number;
+  priority: RequestPriority;
+  resolve: () => void;
+}
+
+const PRIORITY_ORDER: { [priority in RequestPriority]: number } = { high: 0, normal: 1, low: 2 };
+
+// Share of the limit available as a burst; the rest refills over the window,
+// so no window can see more than the configured limit
+const BURST_FRACTION = 0.2;
+
+// Pauses when a 429/418 response carries no Retry-After header
+const RATE_LIMITED_RETRY_MS = 60 * 1000;
+const IP_BANNED_RETRY_MS = 5 * 60 * 1000;
+
+export class TokenBucketRateLimiter {
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private blockedUntil = 0;
+  private queue: QueuedRequest[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(limits: ExchangeConfig['rateLimits']) {
+    this.capacity = Math.max(1, Math.floor(limits.requests * BURST_FRACTION));
+    this.refillPerMs = Math.max(limits.requests - this.capacity, 1) / limits.window;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Resolve once a request of the given weight may be sent. Weights above the
+   * burst size wait for a full bucket and take all of it.
+   */
+  acquire(weight: number = 1, priority: RequestPriority = 'normal'): Promise<void> {
+    return new Promise(resolve => {
+      const request = { weight: Math.min(weight, this.capacity), priority, resolve };
+      const index = this.queue.findIndex(queued => PRIORITY_ORDER[queued.priority] > PRIORITY_ORDER[priority]);
+      if (index === -1) {
+        this.queue.push(request);
+      } else {
+        this.queue.splice(index, 0, request);
+      }
+      this.drain();
+    });
+  }
+
+  /**
+   * Hold every queued and future request until the given time
+   */
+  blockUntil(time: number): void {
+    if (time <= this.blockedUntil) return;
+    this.blockedUntil = time;
+    this.tokens = 0;
+    this.lastRefill = time;
+    this.drain();
+  }
+
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  get isBlocked(): boolean {
+    return Date.now() < this.blockedUntil;
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    if (now > this.lastRefill) {
+      this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+      this.lastRefill = now;
+    }
+
+    // Strict priority: a heavy request at the head is not overtaken by lighter ones behind it
+    while (this.queue.length > 0 && now >= this.blockedUntil && this.tokens >= this.queue[0].weight) {
+      const request = this.queue.shift()!;
+      this.tokens -= request.weight;
+      request.resolve();
+    }
+
+    if (this.queue.length === 0) return;
+
+    const waitMs = now < this.blockedUntil
+      ? this.blockedUntil - now
+      : (this.queue[0].weight - this.tokens) / this.refillPerMs;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(Math.ceil(waitMs), 10));
+  }
+}
+
+const limiters: Map<string, TokenBucketRateLimiter | null> = new Map();
+
+/**
+ * Shared limiter for an exchange, or null when it has no configured rate limits
+ */
+export function getRateLimiter(exchange: string): TokenBucketRateLimiter | null {
+  const name = exchange.toLowerCase();
+  if (!limiters.has(name)) {
+    const limits = getExchangeConfig(name)?.rateLimits;
+    limiters.set(name, limits ? new TokenBucketRateLimiter(limits) : null);
+  }
+  return limiters.get(name)!;
+}
+
+/**
+ * fetch() through the exchange's shared limiter. A 429 or 418 response pauses
+ * the exchange for Retry-After; 429s are retried, and the last response is
+ * returned for the caller's usual !response.ok handling.
+ */
+export async function rateLimitedFetch(
+  exchange: string,
+  url: string,
+  { priority = 'normal', weight, maxRetries = 2 }: RateLimitedFetchOptions = {}
+): Promise<Response> {
+  const limiter = getRateLimiter(exchange);
+  const requestWeight = weight ?? getRequestWeight(exchange, url);
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter?.acquire(requestWeight, priority);
+
+    const response = await fetch(url);
+    if (response.status !== 429 && response.status !== 418) {
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers.get('retry-after'))
+      ?? (response.status === 418 ? IP_BANNED_RETRY_MS : RATE_LIMITED_RETRY_MS);
+    console.warn(`${exchange} rate limit hit (HTTP ${response.status}), pausing requests for ${Math.ceil(retryAfterMs / 1000)}s`);
+    limiter?.blockUntil(Date.now() + retryAfterMs);
+
+    if (response.status === 418 || attempt >= maxRetries || !limiter) {
+      return response;
+    }
+  }
+}
+
+/**
+ * Retry-After as delay seconds or an HTTP date, in milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
@@ -0,0 +1,199 @@
+import { once } from 'events';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BaseExchangeAdapter, type ExchangeStreamContext, type NormalizedMarketEvent, type StreamSubscription } from './adapters/exchange-adapter';
+import { exchangeAdapterRegistry } from './adapters/exchange-adapter-registry';
+import { RealTimeDataProvider, type PriceUpdate } from './real-time-data-provider';
+import { MockExchangeServer, installWebSocketGlobal } from './testing/mock-exchange-server';
+
+// Short reconnect policy for the test exchange so drops, stalls and the circuit play out in milliseconds
+vi.mock('../config/data-provider-config', async importOriginal => {
+  const original = await importOriginal<typeof import('../config/data-provider-config')>();
+  return {
+    ...original,
+    getExchangeConfig: (name: string) => name === 'flaky'
+      ? {
+        name: 'Flaky',
+        enabled: true,
+        websocketUrl: 'ws://127.0.0.1',
+        restApiUrl: 'http://127.0.0.1',
+        rateLimits: { requests: 100, window: 60000 },
+        reconnect: {
+          maxAttempts: 2,
+          backoffMultiplier: 2,
+          maxDelay: 40,
+          circuitResetTimeout: 300,
+          heartbeatInterval: 25,
+          heartbeatTimeout: 150
+        }
+      }
+      : original.getExchangeConfig(name)
+  };
+});
+
+const server = new MockExchangeServer();
+let streamUrl = '';
+
+class FlakyAdapter extends BaseExchangeAdapter {
+  readonly name = 'flaky';
+
+  getStreamUrl(): string {
+    return streamUrl;
+  }
+
+  subscribe(context: ExchangeStreamContext, subscription: StreamSubscription): void {
+    context.send({ op: 'subscribe', symbols: subscription.symbols });
+  }
+
+  getHeartbeatMessage(): unknown {
+    return { op: 'ping' };
+  }
+
+  normalizeMessage(message: any): NormalizedMarketEvent[] {
+    if (typeof message.price !== 'number') return [];
+    return [{
+      type: 'price',
+      data: { symbol: message.symbol, exchange: this.name, price: message.price, timestamp: Date.now(), volume24h: 0, change24h: 0 }
+    }];
+  }
+
+  async fetchHistoricalKlines(): Promise<never[]> {
+    return [];
+  }
+}
+
+describe('RealTimeDataProvider reconnection against a flaky server', () => {
+  let provider: RealTimeDataProvider;
+  const errors: unknown[] = [];
+
+  beforeAll(() => {
+    installWebSocketGlobal();
+    exchangeAdapterRegistry.register('flaky', config => new FlakyAdapter(config));
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    streamUrl = await server.start();
+    errors.length = 0;
+    provider = new RealTimeDataProvider({
+      exchanges: ['flaky'],
+      symbols: ['BTCUSDT', 'ETHUSDT'],
+      dataTypes: ['price'],
+      updateInterval: 100
+    });
+    provider.on('error', error => errors.push(error));
+  });
+
+  afterEach(async () => {
+    await provider.disconnect();
+    await server.stop();
+    server.connections.length = 0;
+    server.refuseConnections = false;
+    vi.restoreAllMocks();
+  });
+
+  it('resubscribes the same streams after the server drops the connection', async () => {
+    const first = server.nextConnection();
+    await provider.connect();
+    const connection = await first;
+    expect(await server.nextMessage(connection)).toEqual({ op: 'subscribe', symbols: ['BTCUSDT', 'ETHUSDT'] });
+
+    const reconnecting = once(provider, 'reconnecting');
+    const second = server.nextConnection();
+    server.dropAll();
+    const [{ attempt, delay }] = await reconnecting;
+    expect(attempt).toBe(1);
+    expect(delay).toBeGreaterThanOrEqual(20);
+    expect(delay).toBeLessThanOrEqual(40);
+
+    const reconnected = await second;
+    expect(await server.nextMessage(reconnected)).toEqual({ op: 'subscribe', symbols: ['BTCUSDT', 'ETHUSDT'] });
+
+    const update = once(provider, 'priceUpdate');
+    server.send({ symbol: 'BTCUSDT', price: 61000 });
+    const [priceUpdate] = (await update) as [PriceUpdate];
+    expect(priceUpdate.price).toBe(61000);
+  });
+
+  it('pings a stalled connection, then times it out and reconnects', async () => {
+    const first = server.nextConnection();
+    await provider.connect();
+    const stalled = await first;
+    const openedAt = Date.now();
+
+    const second = server.nextConnection();
+    await once(provider, 'exchangeDisconnected');
+    expect(Date.now() - openedAt).toBeGreaterThanOrEqual(150);
+    expect(stalled.received).toContainEqual({ op: 'ping' });
+
+    const reconnected = await second;
+    expect(await server.nextMessage(reconnected)).toEqual({ op: 'subscribe', symbols: ['BTCUSDT', 'ETHUSDT'] });
+    await vi.waitFor(() => expect(stalled.socket.readyState).toBe(stalled.socket.CLOSED));
+  });
+
+  it('opens the circuit after repeated refusals and recovers on the half-open retry', async () => {
+    server.refuseConnections = true;
+    const backoffs: number[] = [];
+    provider.on('reconnecting', ({ attempt }) => backoffs.push(attempt));
+
+    await provider.connect();
+    await vi.waitFor(() => expect(errors).toContainEqual({ exchange: 'flaky', error: 'Max reconnection attempts reached' }), { timeout: 2000 });
+    expect(backoffs).toEqual([1, 2]);
+    const circuitOpenedAt = Date.now();
+
+    server.refuseConnections = false;
+    const connection = await server.nextConnection();
+    expect(Date.now() - circuitOpenedAt).toBeGreaterThanOrEqual(250);
+    expect(await server.nextMessage(connection)).toEqual({ op: 'subscribe', symbols: ['BTCUSDT', 'ETHUSDT'] });
+    expect(backoffs).toEqual([1, 2]);
+  });
+
+  it('closes the live streams for a replay and reconnects them when it ends', async () => {
+    const first = server.nextConnection();
+    await provider.connect();
+    const live = await first;
+
+    await provider.setReplayMode(true);
+    await vi.waitFor(() => expect(live.socket.readyState).toBe(live.socket.CLOSED));
+    await provider.connect();
+    expect(server.connections).toHaveLength(1);
+
+    const resumed = server.nextConnection();
+    await provider.setReplayMode(false);
+    expect(await server.nextMessage(await resumed)).toEqual({ op: 'subscribe', symbols: ['BTCUSDT', 'ETHUSDT'] });
+  });
+
+  it('stays disconnected after a replay when no streams were live', async () => {
+    await provider.setReplayMode(true);
+    await provider.setReplayMode(false);
+
+    expect(provider.isReplaying).toBe(false);
+    expect(server.connections).toHaveLength(0);
+  });
+
+  it('clears the snapshot when a replay starts and when it ends', async () => {
+    const ingestBook = (price: number) => provider.ingestMarketEvent({
+      type: 'orderbook',
+      data: { symbol: 'BTCUSDT', exchange: 'flaky', timestamp: price, bids: [{ price, size: 1 }], asks: [] }
+    });
+    const ingestTrade = () => provider.ingestMarketEvent({
+      type: 'trade',
+      data: { symbol: 'BTCUSDT', exchange: 'flaky', timestamp: 1, tradeId: '1', price: 60000, size: 1, side: 'buy', isMaker: false }
+    });
+
+    ingestBook(60000);
+    ingestTrade();
+    await provider.setReplayMode(true);
+    expect(await provider.getOrderBook('BTCUSDT', 'flaky')).toBeNull();
+    expect(await provider.getRecentTrades('BTCUSDT', 'flaky')).toEqual([]);
+
+    ingestBook(50000);
+    ingestTrade();
+    expect(await provider.getOrderBookHistory('BTCUSDT', 'flaky')).toHaveLength(1);
+    await provider.setReplayMode(false);
+    expect(await provider.getOrderBook('BTCUSDT', 'flaky')).toBeNull();
+    expect(await provider.getRecentTrades('BTCUSDT', 'flaky')).toEqual([]);
+    expect(await provider.getOrderBookHistory('BTCUSDT', 'flaky')).toEqual([]);
+  });
+});
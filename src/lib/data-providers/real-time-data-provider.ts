@@ -6,11 +6,17 @@
  */
 
 import { EventEmitter } from 'events';
+import { getExchangeConfig, isSyntheticDataAllowed } from '../config/data-provider-config';
+import { exchangeAdapterRegistry, type ExchangeAdapterFactory } from './adapters/exchange-adapter-registry';
+import type { ExchangeAdapter, ExchangeStreamContext, NormalizedMarketEvent, StreamSubscription } from './adapters/exchange-adapter';
+import { getCumulativeDepth, type CumulativeDepth } from './order-book-depth';
+import type { RequestPriority } from './rate-limiter';
+import { ReconnectionManager } from './reconnection-manager';
 
 export interface RealTimeDataConfig {
   exchanges: string[];
   symbols: string[];
-  dataTypes: ('price' | 'volume' | 'orderbook' | 'trades' | 'klines')[];
+  dataTypes: ('price' | 'volume' | 'orderbook' | 'trades' | 'klines' | 'derivatives')[];
   updateInterval: number; // milliseconds
   apiKeys?: { [exchange: string]: { key: string; secret: string } };
 }
@@ -64,38 +70,65 @@ export interface KlineData {
   trades: number;
 }
 
+export interface MarkPriceUpdate {
+  symbol: string;
+  exchange: string;
+  timestamp: number;
+  markPrice: number;
+  indexPrice: number;
+  fundingRate: number; // Current period's predicted rate, as a fraction (0.0001 = 0.01%)
+  nextFundingTime: number;
+}
+
+export interface LiquidationUpdate {
+  symbol: string;
+  exchange: string;
+  timestamp: number;
+  side: 'long' | 'short'; // Side of the liquidated position
+  price: number;
+  size: number;
+}
+
 export interface MarketDataSnapshot {
   timestamp: number;
   prices: Map<string, PriceUpdate>;
   orderBooks: Map<string, OrderBookUpdate>;
   recentTrades: Map<string, TradeUpdate[]>;
   klines: Map<string, KlineData[]>;
+  markPrices: Map<string, MarkPriceUpdate>;
+  liquidations: Map<string, LiquidationUpdate[]>;
 }
 
+const ORDER_BOOK_SAMPLE_MS = 1000; // Spacing of order book history samples
+const MAX_LIQUIDATIONS = 1000; // Per symbol; liquidations arrive in bursts during cascades
+
 export class RealTimeDataProvider extends EventEmitter {
   private config: RealTimeDataConfig;
   private connections: Map<string, WebSocket> = new Map();
-  private restClients: Map<string, any> = new Map();
+  private adapters: Map<string, ExchangeAdapter> = new Map();
   private isConnected: boolean = false;
-  private reconnectAttempts: Map<string, number> = new Map();
+  private replaying: boolean = false;
+  private resumeAfterReplay: boolean = false; // Streams were live when the replay started
+  private reconnectors: Map<string, ReconnectionManager> = new Map();
+  private subscriptions: Map<string, StreamSubscription> = new Map();
   private dataSnapshot: MarketDataSnapshot;
+  private orderBookHistory: Map<string, OrderBookUpdate[]> = new Map();
   
   constructor(config: RealTimeDataConfig) {
     super();
     this.config = config;
-    this.dataSnapshot = {
-      timestamp: Date.now(),
-      prices: new Map(),
-      orderBooks: new Map(),
-      recentTrades: new Map(),
-      klines: new Map()
-    };
+    this.dataSnapshot = this.emptySnapshot();
   }
   
   /**
    * Start real-time data streams
    */
   async connect(): Promise<void> {
+    if (this.replaying) {
+      console.log('Replay mode active, not connecting to live data streams');
+      return;
+    }
+    
     console.log('Connecting to real-time data streams...');
     
     for (const exchange of this.config.exchanges) {
@@ -104,6 +137,7 @@ export class RealTimeDataProvider extends EventEmitter {
       } catch (error) {
         console.error(`Failed to connect to ${exchange}:`, error);
         this.emit('error', { exchange, error });
+        this.getReconnector(exchange.toLowerCase()).connectionClosed();
       }
     }
     
@@ -117,6 +151,9 @@ export class RealTimeDataProvider extends EventEmitter {
   async disconnect(): Promise<void> {
     console.log('Disconnecting from real-time data streams...');
     
+    this.reconnectors.forEach(reconnector => reconnector.stop());
+    this.reconnectors.clear();
+    
     for (const [exchange, ws] of this.connections) {
       ws.close();
     }
@@ -137,7 +174,8 @@ export class RealTimeDataProvider extends EventEmitter {
   }
   
   /**
-   * Get historical price data
+   * Get historical price data; generated data is flagged with isSynthetic and
+   * refused entirely in strict fallback mode
    */
   async getHistoricalData(
     symbol: string,
@@ -148,18 +186,42 @@ export class RealTimeDataProvider extends EventEmitter {
     prices: number[];
     volumes: number[];
     timestamps: number[];
+    isSynthetic: boolean;
   }> {
     try {
-      const data = await this.fetchHistoricalKlines(exchange, symbol, interval, limit);
+      const data = await this.getHistoricalKlines(symbol, interval, limit, exchange);
       
       return {
         prices: data.map(k => k.close),
         volumes: data.map(k => k.volume),
-        timestamps: data.map(k => k.closeTime)
+        timestamps: data.map(k => k.closeTime),
+        isSynthetic: false
       };
     } catch (error) {
       console.error('Failed to fetch historical data:', error);
-      return this.generateFallbackData(symbol, limit);
+      if (!isSyntheticDataAllowed()) {
+        throw error;
+      }
+      return { ...this.generateFallbackData(symbol, limit), isSynthetic: true };
+    }
+  }
+  
+  /**
+   * Fetch historical klines through the exchange adapter's rate-limited REST API
+   */
+  async getHistoricalKlines(
+    symbol: string,
+    interval: string,
+    limit: number = 100,
+    exchange: string = 'binance',
+    startTime?: number,
+    priority: RequestPriority = 'normal'
+  ): Promise<KlineData[]> {
+    try {
+      return await this.getAdapter(exchange.toLowerCase()).fetchHistoricalKlines(symbol, interval, limit, startTime, priority);
+    } catch (error) {
+      console.error('Error fetching historical klines:', error);
+      throw error;
     }
   }
   
@@ -170,6 +232,21 @@ export class RealTimeDataProvider extends EventEmitter {
     return this.dataSnapshot.orderBooks.get(`${exchange}:${symbol}`) || null;
   }
   
+  /**
+   * Get order books sampled about once a second (keep last 100), oldest first
+   */
+  async getOrderBookHistory(symbol: string, exchange: string = 'binance'): Promise<OrderBookUpdate[]> {
+    return this.orderBookHistory.get(`${exchange}:${symbol}`) || [];
+  }
+  
+  /**
+   * Get cumulative depth over the best levels of the current order book
+   */
+  async getOrderBookDepth(symbol: string, exchange: string = 'binance', levels: number = 20): Promise<CumulativeDepth | null> {
+    const orderBook = await this.getOrderBook(symbol, exchange);
+    return orderBook ? getCumulativeDepth(orderBook, levels) : null;
+  }
+  
   /**
    * Get recent trades
    */
@@ -178,260 +255,315 @@ export class RealTimeDataProvider extends EventEmitter {
   }
   
   /**
-   * Connect to specific exchange
+   * Get the latest mark price, index price and funding rate of a perpetual
    */
-  private async connectToExchange(exchange: string): Promise<void> {
-    switch (exchange.toLowerCase()) {
-      case 'binance':
-        await this.connectToBinance();
-        break;
-      case 'coinbase':
-        await this.connectToCoinbase();
-        break;
-      case 'kraken':
-        await this.connectToKraken();
-        break;
-      default:
-        throw new Error(`Unsupported exchange: ${exchange}`);
-    }
+  async getMarkPrice(symbol: string, exchange: string = 'binance-futures'): Promise<MarkPriceUpdate | null> {
+    return this.dataSnapshot.markPrices.get(`${exchange}:${symbol}`) || null;
   }
   
   /**
-   * Connect to Binance WebSocket streams
+   * Get recent forced liquidations (keep last 1000), oldest first
    */
-  private async connectToBinance(): Promise<void> {
-    const symbols = this.config.symbols.map(s => s.toLowerCase()).join('/');
-    const streams: string[] = [];
-    
-    if (this.config.dataTypes.includes('price')) {
-      this.config.symbols.forEach(symbol => {
-        streams.push(`${symbol.toLowerCase()}@ticker`);
-      });
-    }
+  async getRecentLiquidations(symbol: string, exchange: string = 'binance-futures'): Promise<LiquidationUpdate[]> {
+    return this.dataSnapshot.liquidations.get(`${exchange}:${symbol}`) || [];
+  }
+  
+  /**
+   * Switch replay mode; entering it closes the live streams so recorded events
+   * are the only input, and leaving it reconnects the streams that were live.
+   * The snapshot is cleared on both transitions, so a replay starts from an
+   * empty state and its data never outlives it.
+   */
+  async setReplayMode(enabled: boolean): Promise<void> {
+    if (enabled === this.replaying) return;
     
-    if (this.config.dataTypes.includes('orderbook')) {
-      this.config.symbols.forEach(symbol => {
-        streams.push(`${symbol.toLowerCase()}@depth20@100ms`);
-      });
+    if (enabled) {
+      this.resumeAfterReplay = this.isConnected;
+      this.replaying = true;
+      if (this.isConnected) {
+        await this.disconnect();
+      }
+      this.resetSnapshot();
+      return;
     }
     
-    if (this.config.dataTypes.includes('trades')) {
-      this.config.symbols.forEach(symbol => {
-        streams.push(`${symbol.toLowerCase()}@trade`);
-      });
+    this.resetSnapshot();
+    this.replaying = false;
+    if (this.resumeAfterReplay) {
+      this.resumeAfterReplay = false;
+      await this.connect();
     }
-    
-    if (this.config.dataTypes.includes('klines')) {
-      this.config.symbols.forEach(symbol => {
-        streams.push(`${symbol.toLowerCase()}@kline_1m`);
-      });
+  }
+  
+  get isReplaying(): boolean {
+    return this.replaying;
+  }
+  
+  private emptySnapshot(): MarketDataSnapshot {
+    return {
+      timestamp: Date.now(),
+      prices: new Map(),
+      orderBooks: new Map(),
+      recentTrades: new Map(),
+      klines: new Map(),
+      markPrices: new Map(),
+      liquidations: new Map()
+    };
+  }
+  
+  private resetSnapshot(): void {
+    this.dataSnapshot = this.emptySnapshot();
+    this.orderBookHistory.clear();
+  }
+  
+  /**
+   * Feed a normalized event through the same path as live stream messages
+   */
+  ingestMarketEvent(marketEvent: NormalizedMarketEvent): void {
+    this.dispatchMarketEvent(marketEvent);
+  }
+  
+  /**
+   * Register an adapter for an additional exchange
+   */
+  registerExchangeAdapter(name: string, factory: ExchangeAdapterFactory): void {
+    exchangeAdapterRegistry.register(name, factory);
+  }
+  
+  /**
+   * Connect to specific exchange through its adapter; reconnects resubscribe
+   * the same streams
+   */
+  private async connectToExchange(exchange: string): Promise<void> {
+    const name = exchange.toLowerCase();
+    const adapter = this.getAdapter(name);
+    const reconnector = this.getReconnector(name);
+    let subscription = this.subscriptions.get(name);
+    if (!subscription) {
+      subscription = {
+        symbols: this.config.symbols,
+        dataTypes: this.config.dataTypes
+      };
+      this.subscriptions.set(name, subscription);
     }
     
-    const wsUrl = `wss://stream.binance.com:9443/ws/${streams.join('/')}`;
-    const ws = new WebSocket(wsUrl);
+    adapter.reset();
+    const ws = new WebSocket(adapter.getStreamUrl(subscription));
+    const context: ExchangeStreamContext = {
+      send: (message) => {
+        if (ws.readyState === WebSocket.OPEN) {
+          ws.send(JSON.stringify(message));
+        }
+      },
+      reportError: (error) => {
+        console.error(`${name} stream error:`, error);
+        this.emit('error', { exchange: name, error });
+      }
+    };
     
     ws.onopen = () => {
-      console.log('Connected to Binance WebSocket');
-      this.reconnectAttempts.set('binance', 0);
+      console.log(`Connected to ${name} WebSocket`);
+      reconnector.connectionOpened();
+      reconnector.startHeartbeat(
+        adapter.getHeartbeatMessage ? () => context.send(adapter.getHeartbeatMessage!()) : null,
+        () => {
+          console.warn(`${name} WebSocket went silent, reconnecting`);
+          this.handleConnectionLost(name, ws);
+        }
+      );
+      this.emit('exchangeConnected', { exchange: name });
+      adapter.subscribe(context, subscription!);
     };
     
     ws.onmessage = (event) => {
+      reconnector.recordActivity();
       try {
         const data = JSON.parse(event.data);
-        this.handleBinanceMessage(data);
+        adapter.normalizeMessage(data, context).forEach(marketEvent => this.dispatchMarketEvent(marketEvent));
       } catch (error) {
-        console.error('Error parsing Binance message:', error);
+        context.reportError(`Error parsing message: ${error instanceof Error ? error.message : error}`);
       }
     };
     
     ws.onclose = () => {
-      console.log('Binance WebSocket closed');
-      this.handleReconnect('binance');
+      console.log(`${name} WebSocket closed`);
+      this.handleConnectionLost(name, ws);
     };
     
     ws.onerror = (error) => {
-      console.error('Binance WebSocket error:', error);
+      console.error(`${name} WebSocket error:`, error);
     };
     
-    this.connections.set('binance', ws);
-    
-    // Also set up REST client for historical data
-    this.setupBinanceRestClient();
+    this.connections.set(name, ws);
   }
   
   /**
-   * Handle Binance WebSocket messages
+   * Get or create the adapter for an exchange
    */
-  private handleBinanceMessage(data: any): void {
-    if (data.e === '24hrTicker') {
-      // Price update
-      const priceUpdate: PriceUpdate = {
-        symbol: data.s,
-        exchange: 'binance',
-        price: parseFloat(data.c),
-        timestamp: data.E,
-        volume24h: parseFloat(data.v),
-        change24h: parseFloat(data.P)
-      };
-      
-      this.dataSnapshot.prices.set(`binance:${data.s}`, priceUpdate);
-      this.emit('priceUpdate', priceUpdate);
+  private getAdapter(exchange: string): ExchangeAdapter {
+    let adapter = this.adapters.get(exchange);
+    if (!adapter) {
+      adapter = exchangeAdapterRegistry.create(exchange, getExchangeConfig(exchange));
+      this.adapters.set(exchange, adapter);
     }
+    return adapter;
+  }
+  
+  /**
+   * Route a normalized adapter event into the snapshot
+   */
+  private dispatchMarketEvent(marketEvent: NormalizedMarketEvent): void {
+    this.emit('marketEvent', marketEvent);
     
-    if (data.e === 'depthUpdate') {
-      // Order book update
-      const orderBookUpdate: OrderBookUpdate = {
-        symbol: data.s,
-        exchange: 'binance',
-        timestamp: data.E,
-        bids: data.b.map((bid: string[]) => ({
-          price: parseFloat(bid[0]),
-          size: parseFloat(bid[1])
-        })),
-        asks: data.a.map((ask: string[]) => ({
-          price: parseFloat(ask[0]),
-          size: parseFloat(ask[1])
-        })),
-        lastUpdateId: data.u
-      };
-      
-      this.dataSnapshot.orderBooks.set(`binance:${data.s}`, orderBookUpdate);
-      this.emit('orderBookUpdate', orderBookUpdate);
+    switch (marketEvent.type) {
+      case 'price':
+        this.recordPriceUpdate(marketEvent.data);
+        break;
+      case 'orderbook':
+        this.recordOrderBookUpdate(marketEvent.data);
+        break;
+      case 'trade':
+        this.recordTrade(marketEvent.data);
+        break;
+      case 'kline':
+        this.recordClosedKline(marketEvent.data);
+        break;
+      case 'markPrice':
+        this.recordMarkPrice(marketEvent.data);
+        break;
+      case 'liquidation':
+        this.recordLiquidation(marketEvent.data);
+        break;
     }
+  }
+  
+  /**
+   * Store a price update in the snapshot and notify listeners
+   */
+  private recordPriceUpdate(priceUpdate: PriceUpdate): void {
+    this.dataSnapshot.prices.set(`${priceUpdate.exchange}:${priceUpdate.symbol}`, priceUpdate);
+    this.emit('priceUpdate', priceUpdate);
+  }
+  
+  /**
+   * Store an order book update in the snapshot and notify listeners
+   */
+  private recordOrderBookUpdate(orderBookUpdate: OrderBookUpdate): void {
+    const key = `${orderBookUpdate.exchange}:${orderBookUpdate.symbol}`;
+    this.dataSnapshot.orderBooks.set(key, orderBookUpdate);
     
-    if (data.e === 'trade') {
-      // Trade update
-      const tradeUpdate: TradeUpdate = {
-        symbol: data.s,
-        exchange: 'binance',
-        timestamp: data.T,
-        tradeId: data.t.toString(),
-        price: parseFloat(data.p),
-        size: parseFloat(data.q),
-        side: data.m ? 'sell' : 'buy', // m = true if buyer is market maker
-        isMaker: data.m
-      };
-      
-      // Store recent trades (keep last 100)
-      const key = `binance:${data.s}`;
-      const recentTrades = this.dataSnapshot.recentTrades.get(key) || [];
-      recentTrades.push(tradeUpdate);
-      if (recentTrades.length > 100) {
-        recentTrades.shift();
+    const history = this.orderBookHistory.get(key) || [];
+    const lastSample = history[history.length - 1];
+    if (!lastSample || orderBookUpdate.timestamp - lastSample.timestamp >= ORDER_BOOK_SAMPLE_MS) {
+      history.push(orderBookUpdate);
+      if (history.length > 100) {
+        history.shift();
       }
-      this.dataSnapshot.recentTrades.set(key, recentTrades);
-      
-      this.emit('tradeUpdate', tradeUpdate);
+      this.orderBookHistory.set(key, history);
     }
     
-    if (data.e === 'kline') {
-      // Kline/candlestick update
-      const kline = data.k;
-      const klineData: KlineData = {
-        symbol: kline.s,
-        exchange: 'binance',
-        interval: kline.i,
-        openTime: kline.t,
-        closeTime: kline.T,
-        open: parseFloat(kline.o),
-        high: parseFloat(kline.h),
-        low: parseFloat(kline.l),
-        close: parseFloat(kline.c),
-        volume: parseFloat(kline.v),
-        trades: kline.n
-      };
-      
-      if (kline.x) { // Only process closed klines
-        const key = `binance:${kline.s}:${kline.i}`;
-        const klines = this.dataSnapshot.klines.get(key) || [];
-        klines.push(klineData);
-        if (klines.length > 1000) { // Keep last 1000 klines
-          klines.shift();
-        }
-        this.dataSnapshot.klines.set(key, klines);
-        
-        this.emit('klineUpdate', klineData);
-      }
-    }
+    this.emit('orderBookUpdate', orderBookUpdate);
   }
   
   /**
-   * Setup Binance REST client for historical data
+   * Store a trade in the snapshot (keep last 100) and notify listeners
    */
-  private setupBinanceRestClient(): void {
-    // In a real implementation, you would use the Binance REST API
-    // For now, we'll create a simple wrapper
-    this.restClients.set('binance', {
-      baseURL: 'https://api.binance.com',
-      // Add API key if provided
-      apiKey: this.config.apiKeys?.binance?.key
-    });
+  private recordTrade(tradeUpdate: TradeUpdate): void {
+    const key = `${tradeUpdate.exchange}:${tradeUpdate.symbol}`;
+    const recentTrades = this.dataSnapshot.recentTrades.get(key) || [];
+    recentTrades.push(tradeUpdate);
+    if (recentTrades.length > 100) {
+      recentTrades.shift();
+    }
+    this.dataSnapshot.recentTrades.set(key, recentTrades);
+    
+    this.emit('tradeUpdate', tradeUpdate);
   }
   
   /**
-   * Fetch historical klines from Binance REST API
+   * Store a closed kline in the snapshot (keep last 1000) and notify listeners
    */
-  private async fetchHistoricalKlines(
-    exchange: string,
-    symbol: string,
-    interval: string,
-    limit: number
-  ): Promise<KlineData[]> {
-    if (exchange !== 'binance') {
-      throw new Error(`Historical data not implemented for ${exchange}`);
+  private recordClosedKline(klineData: KlineData): void {
+    const key = `${klineData.exchange}:${klineData.symbol}:${klineData.interval}`;
+    const klines = this.dataSnapshot.klines.get(key) || [];
+    klines.push(klineData);
+    if (klines.length > 1000) {
+      klines.shift();
     }
+    this.dataSnapshot.klines.set(key, klines);
     
-    try {
-      // In a real implementation, you would make an actual HTTP request
-      // For now, we'll simulate the response
-      const url = `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}&limit=${limit}`;
-      
-      // This would be a real fetch call:
-      // const response = await fetch(url);
-      // const data = await response.json();
-      
-      // For now, generate realistic sample data
-      return this.generateRealisticKlineData(symbol, interval, limit);
-    } catch (error) {
-      console.error('Error fetching historical klines:', error);
-      throw error;
-    }
+    this.emit('klineUpdate', klineData);
   }
   
   /**
-   * Connect to Coinbase WebSocket (placeholder)
+   * Store a mark price update in the snapshot and notify listeners
    */
-  private async connectToCoinbase(): Promise<void> {
-    // Placeholder for Coinbase Pro WebSocket implementation
-    console.log('Coinbase connection not yet implemented');
+  private recordMarkPrice(markPriceUpdate: MarkPriceUpdate): void {
+    this.dataSnapshot.markPrices.set(`${markPriceUpdate.exchange}:${markPriceUpdate.symbol}`, markPriceUpdate);
+    this.emit('markPriceUpdate', markPriceUpdate);
   }
   
   /**
-   * Connect to Kraken WebSocket (placeholder)
+   * Store a liquidation in the snapshot and notify listeners
    */
-  private async connectToKraken(): Promise<void> {
-    // Placeholder for Kraken WebSocket implementation
-    console.log('Kraken connection not yet implemented');
+  private recordLiquidation(liquidation: LiquidationUpdate): void {
+    const key = `${liquidation.exchange}:${liquidation.symbol}`;
+    const liquidations = this.dataSnapshot.liquidations.get(key) || [];
+    liquidations.push(liquidation);
+    if (liquidations.length > MAX_LIQUIDATIONS) {
+      liquidations.shift();
+    }
+    this.dataSnapshot.liquidations.set(key, liquidations);
+    
+    this.emit('liquidationUpdate', liquidation);
   }
   
   /**
-   * Handle reconnection logic
+   * Get or create the reconnection manager for an exchange, using its ExchangeConfig.reconnect policy
    */
-  private handleReconnect(exchange: string): void {
-    const attempts = this.reconnectAttempts.get(exchange) || 0;
+  private getReconnector(exchange: string): ReconnectionManager {
+    let reconnector = this.reconnectors.get(exchange);
+    if (!reconnector) {
+      const policy = getExchangeConfig(exchange)?.reconnect || { maxAttempts: 5, backoffMultiplier: 2, maxDelay: 30000 };
+      reconnector = new ReconnectionManager(policy, {
+        reconnect: () => {
+          this.connectToExchange(exchange).catch(error => {
+            console.error(`Failed to reconnect to ${exchange}:`, error);
+            this.emit('error', { exchange, error });
+            reconnector!.connectionClosed();
+          });
+        },
+        onBackoff: (attempt, delay) => {
+          console.log(`Reconnecting to ${exchange} in ${delay}ms (attempt ${attempt})`);
+          this.emit('reconnecting', { exchange, attempt, delay });
+        },
+        onCircuitOpen: (retryIn) => {
+          console.error(`Max reconnection attempts reached for ${exchange}, retrying in ${Math.round(retryIn / 1000)}s`);
+          this.emit('error', { exchange, error: 'Max reconnection attempts reached' });
+        }
+      });
+      this.reconnectors.set(exchange, reconnector);
+    }
+    return reconnector;
+  }
+  
+  /**
+   * Drop a closed or silent socket and schedule a reconnect; later events from
+   * a socket that was already replaced are ignored
+   */
+  private handleConnectionLost(exchange: string, ws: WebSocket): void {
+    if (this.connections.get(exchange) !== ws) return;
     
-    if (attempts < 5) {
-      const delay = Math.pow(2, attempts) * 1000; // Exponential backoff
-      console.log(`Reconnecting to ${exchange} in ${delay}ms (attempt ${attempts + 1})`);
-      
-      setTimeout(() => {
-        this.reconnectAttempts.set(exchange, attempts + 1);
-        this.connectToExchange(exchange);
-      }, delay);
-    } else {
-      console.error(`Max reconnection attempts reached for ${exchange}`);
-      this.emit('error', { exchange, error: 'Max reconnection attempts reached' });
+    this.connections.delete(exchange);
+    ws.onopen = null;
+    ws.onmessage = null;
+    ws.onclose = null;
+    if (ws.readyState === WebSocket.CONNECTING || ws.readyState === WebSocket.OPEN) {
+      ws.close();
     }
+    
+    this.emit('exchangeDisconnected', { exchange });
+    this.reconnectors.get(exchange)?.connectionClosed();
   }
   
   /**
@@ -466,81 +598,14 @@ export class RealTimeDataProvider extends EventEmitter {
     
     return { prices, volumes, timestamps };
   }
-  
-  /**
-   * Generate realistic kline data for testing
-   */
-  private generateRealisticKlineData(symbol: string, interval: string, limit: number): KlineData[] {
-    const klines: KlineData[] = [];
-    let basePrice = symbol.includes('BTC') ? 45000 : 
-                   symbol.includes('ETH') ? 3000 : 1;
-    
-    const now = Date.now();
-    const intervalMs = this.getIntervalMs(interval);
-    
-    for (let i = 0; i < limit; i++) {
-      const openTime = now - (limit - i) * intervalMs;
-      const closeTime = openTime + intervalMs - 1;
-      
-      const volatility = basePrice * 0.01; // 1% volatility per candle
-      const open = basePrice;
-      const change = (Math.random() - 0.5) * volatility;
-      const close = Math.max(basePrice * 0.01, open + change);
-      
-      const high = Math.max(open, close) + Math.random() * volatility * 0.5;
-      const low = Math.min(open, close) - Math.random() * volatility * 0.5;
-      
-      klines.push({
-        symbol,
-        exchange: 'binance',
-        interval,
-        openTime,
-        closeTime,
-        open,
-        high,
-        low,
-        close,
-        volume: 1000 + Math.random() * 5000,
-        trades: Math.floor(100 + Math.random() * 500)
-      });
-      
-      basePrice = close;
-    }
-    
-    return klines;
-  }
-  
-  /**
-   * Convert interval string to milliseconds
-   */
-  private getIntervalMs(interval: string): number {
-    const intervals: { [key: string]: number } = {
-      '1m': 60 * 1000,
-      '3m': 3 * 60 * 1000,
-      '5m': 5 * 60 * 1000,
-      '15m': 15 * 60 * 1000,
-      '30m': 30 * 60 * 1000,
-      '1h': 60 * 60 * 1000,
-      '2h': 2 * 60 * 60 * 1000,
-      '4h': 4 * 60 * 60 * 1000,
-      '6h': 6 * 60 * 60 * 1000,
-      '8h': 8 * 60 * 60 * 1000,
-      '12h': 12 * 60 * 60 * 1000,
-      '1d': 24 * 60 * 60 * 1000,
-      '3d': 3 * 24 * 60 * 60 * 1000,
-      '1w': 7 * 24 * 60 * 60 * 1000,
-      '1M': 30 * 24 * 60 * 60 * 1000
-    };
-    
-    return intervals[interval] || 60 * 1000; // Default to 1 minute
-  }
 }
 
 // Create a singleton instance
 export const realTimeDataProvider = new RealTimeDataProvider({
-  exchanges: ['binance'], // Start with Binance
+  // Spot market data from Binance, plus mark prices and liquidations from its perpetuals
+  exchanges: getExchangeConfig('binance-futures')?.enabled ? ['binance', 'binance-futures'] : ['binance'],
   symbols: ['BTCUSDT', 'ETHUSDT', 'BNBUSDT'],
-  dataTypes: ['price', 'volume', 'orderbook', 'trades', 'klines'],
+  dataTypes: ['price', 'volume', 'orderbook', 'trades', 'klines', 'derivatives'],
   updateInterval: 100,
   // apiKeys would be provided via environment variables
 });
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReconnectionManager } from './reconnection-manager';
+
+const STABLE_CONNECTION_MS = 30000;
+
+const policy = {
+  maxAttempts: 3,
+  backoffMultiplier: 2,
+  maxDelay: 5000,
+  circuitResetTimeout: 60000,
+  heartbeatInterval: 1000,
+  heartbeatTimeout: 3000
+};
+
+describe('ReconnectionManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('jitters each backoff between half and the full capped delay', () => {
+    const manager = new ReconnectionManager(policy, { reconnect: () => {} });
+
+    [1000, 2000, 4000, 5000, 5000].forEach((fullDelay, attempt) => {
+      for (let i = 0; i < 50; i++) {
+        const delay = manager.getDelay(attempt);
+        expect(delay).toBeGreaterThanOrEqual(fullDelay / 2);
+        expect(delay).toBeLessThanOrEqual(fullDelay);
+      }
+    });
+
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    expect(manager.getDelay(2)).toBe(2000);
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999999);
+    expect(manager.getDelay(2)).toBe(4000);
+  });
+
+  it('backs off after each failure and reconnects when the delay elapses', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.9999999);
+    const reconnect = vi.fn();
+    const onBackoff = vi.fn();
+    const manager = new ReconnectionManager(policy, { reconnect, onBackoff });
+
+    manager.connectionClosed();
+    expect(manager.state).toBe('backoff');
+    expect(onBackoff).toHaveBeenLastCalledWith(1, 1000);
+    vi.advanceTimersByTime(999);
+    expect(reconnect).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(reconnect).toHaveBeenCalledTimes(1);
+
+    // Opening and dropping straight away is still a failure
+    manager.connectionOpened();
+    manager.connectionClosed();
+    expect(onBackoff).toHaveBeenLastCalledWith(2, 2000);
+    expect(manager.failedAttempts).toBe(2);
+  });
+
+  it('resets the attempt count once a connection has been stable', () => {
+    const manager = new ReconnectionManager(policy, { reconnect: () => {} });
+
+    manager.connectionClosed(0);
+    vi.runOnlyPendingTimers();
+    manager.connectionClosed(1000);
+    vi.runOnlyPendingTimers();
+    expect(manager.failedAttempts).toBe(2);
+
+    manager.connectionOpened(10000);
+    manager.connectionClosed(10000 + STABLE_CONNECTION_MS);
+    expect(manager.failedAttempts).toBe(1);
+  });
+
+  it('opens the circuit after maxAttempts failures and retries once per reset timeout (half-open)', () => {
+    const reconnect = vi.fn();
+    const onCircuitOpen = vi.fn();
+    const manager = new ReconnectionManager(policy, { reconnect, onCircuitOpen });
+
+    for (let i = 0; i < policy.maxAttempts; i++) {
+      manager.connectionClosed();
+      vi.runOnlyPendingTimers();
+    }
+    expect(reconnect).toHaveBeenCalledTimes(3);
+
+    manager.connectionClosed();
+    expect(manager.state).toBe('circuit-open');
+    expect(onCircuitOpen).toHaveBeenCalledWith(60000);
+    vi.advanceTimersByTime(59999);
+    expect(reconnect).toHaveBeenCalledTimes(3);
+    vi.advanceTimersByTime(1);
+    expect(reconnect).toHaveBeenCalledTimes(4);
+
+    // The half-open attempt fails: the circuit opens again rather than backing off
+    manager.connectionClosed();
+    expect(manager.state).toBe('circuit-open');
+    expect(onCircuitOpen).toHaveBeenCalledTimes(2);
+
+    // It succeeds and holds: back to normal backoff on the next drop
+    vi.advanceTimersByTime(60000);
+    manager.connectionOpened(0);
+    manager.connectionClosed(STABLE_CONNECTION_MS);
+    expect(manager.state).toBe('backoff');
+    expect(manager.failedAttempts).toBe(1);
+  });
+
+  it('pings every heartbeat interval and times out a silent connection', () => {
+    const ping = vi.fn();
+    const onTimeout = vi.fn();
+    const manager = new ReconnectionManager(policy, { reconnect: () => {} });
+
+    manager.connectionOpened();
+    manager.startHeartbeat(ping, onTimeout);
+    vi.advanceTimersByTime(2000);
+    expect(ping).toHaveBeenCalledTimes(2);
+
+    // Messages keep it alive
+    manager.recordActivity();
+    vi.advanceTimersByTime(3000);
+    expect(onTimeout).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+    vi.advanceTimersByTime(10000);
+    expect(onTimeout).toHaveBeenCalledTimes(1);
+  });
+
+  it('ignores closes and pending reconnects after stop', () => {
+    const reconnect = vi.fn();
+    const manager = new ReconnectionManager(policy, { reconnect });
+
+    manager.connectionClosed();
+    manager.stop();
+    vi.runAllTimers();
+    manager.connectionClosed();
+    vi.runAllTimers();
+    expect(reconnect).not.toHaveBeenCalled();
+    expect(manager.state).toBe('stopped');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * @fileOverview Reconnection Manager
+ *
+ * Reconnect policy for one exchange stream, driven by ExchangeConfig.reconnect:
+ * - Exponential backoff (backoffMultiplier, capped at maxDelay) with jitter
+ * - A circuit breaker after maxAttempts consecutive failures, retried with a
+ *   single attempt every circuitResetTimeout instead of giving up
+ * - Heartbeat liveness: an optional application ping plus an inactivity
+ *   timeout for sockets that stay open but stop delivering messages
+ *
+ * A connection only counts as recovered once it has stayed open for a while,
+ * so a socket that opens and drops straight away keeps backing off.
+ */
+
+import type { ExchangeConfig } from '../config/data-provider-config';
+
+export type ReconnectState = 'idle' | 'open' | 'backoff' | 'circuit-open' | 'stopped';
+
+export interface ReconnectHandlers {
+  reconnect(): void;
+  onBackoff?(attempt: number, delay: number): void;
+  onCircuitOpen?(retryIn: number): void;
+}
+
+const BASE_DELAY_MS = 1000;
+const STABLE_CONNECTION_MS = 30000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15000;
+const DEFAULT_HEARTBEAT_TIMEOUT_MS = 60000;
+const MIN_CIRCUIT_RESET_MS = 60000;
+
+export class ReconnectionManager {
+  private attempts = 0;
+  private currentState: ReconnectState = 'idle';
+  private openedAt: number | null = null;
+  private lastActivity = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly policy: ExchangeConfig['reconnect'],
+    private readonly handlers: ReconnectHandlers
+  ) {}
+
+  get state(): ReconnectState {
+    return this.currentState;
+  }
+
+  /** Consecutive failed connections since the last stable one */
+  get failedAttempts(): number {
+    return this.attempts;
+  }
+
+  /**
+   * Backoff before the given attempt (0-based), jittered between half and the full delay
+   */
+  getDelay(attempt: number): number {
+    const delay = Math.min(BASE_DELAY_MS * Math.pow(this.policy.backoffMultiplier, attempt), this.policy.maxDelay);
+    return Math.round(delay * (0.5 + Math.random() * 0.5));
+  }
+
+  connectionOpened(now: number = Date.now()): void {
+    if (this.currentState === 'stopped') return;
+    this.clearReconnectTimer();
+    this.currentState = 'open';
+    this.openedAt = now;
+    this.lastActivity = now;
+  }
+
+  /**
+   * Schedule the next attempt after a close or failed connect, opening the
+   * circuit once maxAttempts consecutive attempts have failed
+   */
+  connectionClosed(now: number = Date.now()): void {
+    this.stopHeartbeat();
+    if (this.currentState === 'stopped' || this.reconnectTimer) return;
+
+    if (this.openedAt !== null && now - this.openedAt >= STABLE_CONNECTION_MS) {
+      this.attempts = 0;
+    }
+    this.openedAt = null;
+
+    if (this.attempts >= this.policy.maxAttempts) {
+      const retryIn = this.policy.circuitResetTimeout ?? Math.max(this.policy.maxDelay * 10, MIN_CIRCUIT_RESET_MS);
+      this.currentState = 'circuit-open';
+      this.handlers.onCircuitOpen?.(retryIn);
+      // Half-open: a single attempt; if it fails the circuit opens again
+      this.scheduleReconnect(retryIn);
+      return;
+    }
+
+    const delay = this.getDelay(this.attempts);
+    this.attempts++;
+    this.currentState = 'backoff';
+    this.handlers.onBackoff?.(this.attempts, delay);
+    this.scheduleReconnect(delay);
+  }
+
+  /** Any message from the socket proves it is alive */
+  recordActivity(now: number = Date.now()): void {
+    this.lastActivity = now;
+  }
+
+  /**
+   * Send the optional ping every heartbeat interval and call onTimeout when
+   * nothing has arrived within the heartbeat timeout
+   */
+  startHeartbeat(ping: (() => void) | null, onTimeout: () => void): void {
+    this.stopHeartbeat();
+    const interval = this.policy.heartbeatInterval ?? DEFAULT_HEARTBEAT_INTERVAL_MS;
+    const timeout = this.policy.heartbeatTimeout ?? DEFAULT_HEARTBEAT_TIMEOUT_MS;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (Date.now() - this.lastActivity > timeout) {
+        this.stopHeartbeat();
+        onTimeout();
+        return;
+      }
+      ping?.();
+    }, interval);
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Cancel pending reconnects and heartbeats; closes after this are ignored
+   */
+  stop(): void {
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.currentState = 'stopped';
+  }
+
+  private scheduleReconnect(delay: number): void {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (this.currentState !== 'stopped') {
+        this.handlers.reconnect();
+      }
+    }, delay);
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+}
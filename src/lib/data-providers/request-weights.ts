@@ -0,0 +1,81 @@
+/**
+ * @fileOverview REST Request Weights
+ *
+ * Per-exchange request weight tables used by the rate limiter. Binance
+ * charges each endpoint a weight against its per-minute limit, some of them
+ * depending on the parameters; exchanges and endpoints without an entry
+ * count every request as 1.
+ */
+
+type WeightRule = number | ((params: URLSearchParams) => number);
+
+// https://developers.binance.com/docs/binance-spot-api-docs/rest-api (spot /api/v3)
+const BINANCE_WEIGHTS: { [endpoint: string]: WeightRule } = {
+  '/v3/ping': 1,
+  '/v3/time': 1,
+  '/v3/exchangeInfo': 20,
+  '/v3/klines': 2,
+  '/v3/uiKlines': 2,
+  '/v3/trades': 25,
+  '/v3/aggTrades': 4,
+  '/v3/avgPrice': 2,
+  '/v3/depth': params => {
+    const limit = parseInt(params.get('limit') || '100');
+    if (limit <= 100) return 5;
+    if (limit <= 500) return 25;
+    if (limit <= 1000) return 50;
+    return 250;
+  },
+  '/v3/ticker/24hr': params => {
+    if (params.has('symbol')) return 2;
+    const symbols = params.get('symbols');
+    if (!symbols) return 80;
+    const count = symbols.split(',').length;
+    return count <= 20 ? 2 : count <= 100 ? 40 : 80;
+  },
+  '/v3/ticker/price': params => (params.has('symbol') ? 2 : 4),
+  '/v3/ticker/bookTicker': params => (params.has('symbol') ? 2 : 4)
+};
+
+// https://developers.binance.com/docs/derivatives/usds-margined-futures (/fapi/v1)
+const BINANCE_FUTURES_WEIGHTS: { [endpoint: string]: WeightRule } = {
+  '/v1/ping': 1,
+  '/v1/time': 1,
+  '/v1/exchangeInfo': 1,
+  '/v1/klines': params => {
+    const limit = parseInt(params.get('limit') || '500');
+    if (limit < 100) return 1;
+    if (limit < 500) return 2;
+    if (limit <= 1000) return 5;
+    return 10;
+  },
+  '/v1/premiumIndex': params => (params.has('symbol') ? 1 : 10),
+  '/v1/fundingRate': 1,
+  '/v1/openInterest': 1
+};
+
+const WEIGHT_TABLES: { [exchange: string]: { [endpoint: string]: WeightRule } } = {
+  binance: BINANCE_WEIGHTS,
+  'binance-futures': BINANCE_FUTURES_WEIGHTS
+};
+
+/**
+ * Weight of a REST request, looked up by the versioned endpoint path (e.g. /v3/klines)
+ */
+export function getRequestWeight(exchange: string, url: string): number {
+  const table = WEIGHT_TABLES[exchange.toLowerCase()];
+  if (!table) return 1;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 1;
+  }
+
+  const endpoint = parsed.pathname.match(/\/v\d+\/.*$/)?.[0].replace(/\/$/, '');
+  const rule = endpoint ? table[endpoint] : undefined;
+  if (rule === undefined) return 1;
+
+  return typeof rule === 'number' ? rule : rule(parsed.searchParams);
+}
@@ -0,0 +1,124 @@
+/**
+ * @fileOverview Stream Recorder
+ *
+ * Records the normalized market events flowing through a RealTimeDataProvider
+ * to disk so sessions can be replayed later (see market-replay):
+ * - One JSON Lines file per recording, one event per line with its receive time
+ * - Optional symbol and event type filters
+ * - Writes are streamed, so long sessions do not accumulate in memory
+ */
+
+import { createWriteStream, promises as fs, type WriteStream } from 'fs';
+import path from 'path';
+import type { EventEmitter } from 'events';
+import type { NormalizedMarketEvent } from './adapters/exchange-adapter';
+
+export interface RecordedMarketEvent {
+  receivedAt: number;
+  event: NormalizedMarketEvent;
+}
+
+export interface RecordingOptions {
+  name?: string; // File name without extension; defaults to a timestamp
+  symbols?: string[];
+  types?: NormalizedMarketEvent['type'][];
+}
+
+export interface RecordingSummary {
+  filePath: string;
+  startedAt: number;
+  stoppedAt: number;
+  eventCount: number;
+}
+
+export const DEFAULT_RECORDING_DIR = process.env.STREAM_RECORDING_DIR
+  || path.join(process.cwd(), '.data', 'recordings');
+
+export class StreamRecorder {
+  private output: WriteStream | null = null;
+  private detach: (() => void) | null = null;
+  private filePath = '';
+  private startedAt = 0;
+  private eventCount = 0;
+
+  constructor(private readonly directory: string = DEFAULT_RECORDING_DIR) {}
+
+  get isRecording(): boolean {
+    return this.output !== null;
+  }
+
+  /**
+   * Start writing the provider's events to a new recording; returns its path
+   */
+  async start(provider: EventEmitter, { name, symbols, types }: RecordingOptions = {}): Promise<string> {
+    if (this.output) {
+      throw new Error(`Already recording to ${this.filePath}`);
+    }
+
+    await fs.mkdir(this.directory, { recursive: true });
+    this.startedAt = Date.now();
+    this.eventCount = 0;
+    this.filePath = path.join(this.directory, `${name || new Date(this.startedAt).toISOString().replace(/[:.]/g, '-')}.jsonl`);
+
+    const output = createWriteStream(this.filePath, { flags: 'wx' });
+    output.on('error', error => console.error(`Stream recording to ${this.filePath} failed:`, error));
+    this.output = output;
+
+    const onMarketEvent = (event: NormalizedMarketEvent) => {
+      if (symbols && !symbols.includes(event.data.symbol)) return;
+      if (types && !types.includes(event.type)) return;
+
+      const record: RecordedMarketEvent = { receivedAt: Date.now(), event };
+      output.write(`${JSON.stringify(record)}\n`);
+      this.eventCount++;
+    };
+
+    provider.on('marketEvent', onMarketEvent);
+    this.detach = () => provider.off('marketEvent', onMarketEvent);
+
+    console.log(`Recording market events to ${this.filePath}`);
+    return this.filePath;
+  }
+
+  /**
+   * Stop recording and flush the file
+   */
+  async stop(): Promise<RecordingSummary> {
+    const output = this.output;
+    if (!output) {
+      throw new Error('Not recording');
+    }
+
+    this.detach?.();
+    this.detach = null;
+    this.output = null;
+    await new Promise<void>(resolve => output.end(resolve));
+
+    return {
+      filePath: this.filePath,
+      startedAt: this.startedAt,
+      stoppedAt: Date.now(),
+      eventCount: this.eventCount
+    };
+  }
+
+  /**
+   * Recordings in the directory, newest first
+   */
+  async listRecordings(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      return files
+        .filter(file => file.endsWith('.jsonl'))
+        .sort()
+        .reverse()
+        .map(file => path.join(this.directory, file));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return [];
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const streamRecorder = new StreamRecorder();
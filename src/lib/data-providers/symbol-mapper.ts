@@ -0,0 +1,85 @@
+/**
+ * @fileOverview Exchange Symbol Mapper
+ *
+ * Converts between the normalized symbol format used throughout the app
+ * (Binance style, e.g. BTCUSDT) and exchange-specific product identifiers
+ * such as Coinbase's BTC-USD or Kraken's XBT/USD.
+ */
+
+const QUOTE_ASSETS = ['USDT', 'USDC', 'BUSD', 'USD', 'EUR', 'GBP', 'BTC', 'ETH'];
+
+// Kraken uses legacy ISO-style codes for a few assets
+const KRAKEN_ASSET_ALIASES: { [asset: string]: string } = {
+  BTC: 'XBT',
+  DOGE: 'XDG'
+};
+
+// USD-quoted venues are mapped onto the app's USDT-quoted symbols
+const NORMALIZED_QUOTE_ALIASES: { [quote: string]: string } = {
+  USD: 'USDT'
+};
+
+const EXCHANGE_QUOTE_ALIASES: { [exchange: string]: { [quote: string]: string } } = {
+  coinbase: { USDT: 'USD' },
+  kraken: { USDT: 'USD' }
+};
+
+/**
+ * Split a normalized symbol (e.g. BTCUSDT) into base and quote assets
+ */
+export function splitSymbol(symbol: string): { base: string; quote: string } {
+  const upper = symbol.toUpperCase();
+
+  for (const quote of QUOTE_ASSETS) {
+    if (upper.endsWith(quote) && upper.length > quote.length) {
+      return { base: upper.slice(0, -quote.length), quote };
+    }
+  }
+
+  throw new Error(`Unable to determine quote asset for symbol: ${symbol}`);
+}
+
+/**
+ * Convert a normalized symbol to an exchange-specific product identifier
+ */
+export function toExchangeSymbol(exchange: string, symbol: string): string {
+  const exchangeName = exchange.toLowerCase();
+  if (exchangeName === 'binance') return symbol.toUpperCase();
+
+  const { base, quote } = splitSymbol(symbol);
+  const exchangeQuote = EXCHANGE_QUOTE_ALIASES[exchangeName]?.[quote] || quote;
+
+  switch (exchangeName) {
+    case 'coinbase':
+      return `${base}-${exchangeQuote}`;
+    case 'kraken':
+      return `${KRAKEN_ASSET_ALIASES[base] || base}/${KRAKEN_ASSET_ALIASES[exchangeQuote] || exchangeQuote}`;
+    default:
+      throw new Error(`Symbol mapping not supported for exchange: ${exchange}`);
+  }
+}
+
+/**
+ * Convert an exchange-specific product identifier to a normalized symbol
+ */
+export function fromExchangeSymbol(exchange: string, exchangeSymbol: string): string {
+  const exchangeName = exchange.toLowerCase();
+  if (exchangeName === 'binance') return exchangeSymbol.toUpperCase();
+
+  const separator = exchangeName === 'coinbase' ? '-' : '/';
+  const [rawBase, rawQuote] = exchangeSymbol.toUpperCase().split(separator);
+
+  if (!rawBase || !rawQuote) {
+    throw new Error(`Invalid ${exchange} symbol: ${exchangeSymbol}`);
+  }
+
+  const base = exchangeName === 'kraken' ? fromKrakenAsset(rawBase) : rawBase;
+  const quote = exchangeName === 'kraken' ? fromKrakenAsset(rawQuote) : rawQuote;
+
+  return `${base}${NORMALIZED_QUOTE_ALIASES[quote] || quote}`;
+}
+
+function fromKrakenAsset(asset: string): string {
+  const entry = Object.entries(KRAKEN_ASSET_ALIASES).find(([, alias]) => alias === asset);
+  return entry ? entry[0] : asset;
+}
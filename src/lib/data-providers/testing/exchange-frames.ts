@@ -0,0 +1,149 @@
+/**
+ * @fileOverview Exchange Frame Fixtures
+ *
+ * WebSocket frames in the shape Coinbase and Kraken send them, for replaying
+ * through MockExchangeServer. Kraken checksums were computed independently
+ * (zlib CRC32 over the documented price/volume string format), not with
+ * KrakenOrderBook.
+ */
+
+export const COINBASE_FRAMES = {
+  subscriptions: {
+    type: 'subscriptions',
+    channels: [
+      { name: 'ticker', product_ids: ['BTC-USD'] },
+      { name: 'level2_batch', product_ids: ['BTC-USD'] },
+      { name: 'matches', product_ids: ['BTC-USD'] }
+    ]
+  },
+  ticker: {
+    type: 'ticker',
+    sequence: 72119412841,
+    product_id: 'BTC-USD',
+    price: '61010.10',
+    open_24h: '59800.00',
+    volume_24h: '15234.50000000',
+    low_24h: '59500.00',
+    high_24h: '61200.00',
+    best_bid: '61010.00',
+    best_ask: '61010.10',
+    side: 'buy',
+    time: '2024-03-01T12:00:00.123456Z',
+    trade_id: 615447301,
+    last_size: '0.00100000'
+  },
+  snapshot: {
+    type: 'snapshot',
+    product_id: 'BTC-USD',
+    bids: [['61010.00', '1.00000000'], ['61009.50', '0.20000000'], ['61009.00', '0.80000000']],
+    asks: [['61010.10', '0.50000000'], ['61010.50', '1.20000000'], ['61011.00', '0.03000000']]
+  },
+  l2update: {
+    type: 'l2update',
+    product_id: 'BTC-USD',
+    changes: [['buy', '61010.00', '0.00000000'], ['sell', '61010.50', '2.50000000'], ['sell', '61010.20', '0.10000000']],
+    time: '2024-03-01T12:00:01.000000Z'
+  },
+  // Maker sold, so the aggressor bought
+  match: {
+    type: 'match',
+    trade_id: 615447302,
+    maker_order_id: 'ac928c66-ca53-498f-9c13-a110027a60e8',
+    taker_order_id: '132fb6ae-456b-4654-b4e0-d681ac05cea1',
+    side: 'sell',
+    size: '0.01000000',
+    price: '61010.10',
+    product_id: 'BTC-USD',
+    sequence: 72119412842,
+    time: '2024-03-01T12:00:01.500000Z'
+  },
+  error: {
+    type: 'error',
+    message: 'Failed to subscribe',
+    reason: 'FOO-BAR is not a valid product'
+  }
+};
+
+export const KRAKEN_FRAMES = {
+  systemStatus: { connectionID: 8628615390848610000, event: 'systemStatus', status: 'online', version: '1.9.1' },
+  subscriptionStatus: { channelID: 336, channelName: 'book-10', event: 'subscriptionStatus', pair: 'XBT/USD', status: 'subscribed', subscription: { depth: 10, name: 'book' } },
+  heartbeat: { event: 'heartbeat' },
+  ticker: [
+    340,
+    {
+      a: ['61010.10000', 0, '0.50000000'],
+      b: ['61010.00000', 1, '1.00000000'],
+      c: ['61010.10000', '0.00100000'],
+      v: ['1200.50000000', '3500.25000000'],
+      p: ['60800.12345', '60650.54321'],
+      t: [4210, 12874],
+      l: ['60400.00000', '59500.00000'],
+      h: ['61200.00000', '61200.00000'],
+      o: ['60500.00000', '59800.00000']
+    },
+    'ticker',
+    'XBT/USD'
+  ],
+  trade: [
+    337,
+    [
+      ['61010.10000', '0.01000000', '1709294400.123456', 'b', 'l', ''],
+      ['61009.90000', '0.25000000', '1709294400.223456', 's', 'm', '']
+    ],
+    'trade',
+    'XBT/USD'
+  ],
+  bookSnapshot: [
+    336,
+    {
+      as: [
+        ['61010.10000', '0.50000000', '1709294399.100000'],
+        ['61010.50000', '1.20000000', '1709294399.100000'],
+        ['61011.00000', '0.03000000', '1709294399.100000'],
+        ['61012.40000', '2.00000000', '1709294399.100000'],
+        ['61013.00000', '0.75000000', '1709294399.100000'],
+        ['61014.80000', '3.10000000', '1709294399.100000'],
+        ['61015.00000', '0.10000000', '1709294399.100000'],
+        ['61016.20000', '1.00000000', '1709294399.100000'],
+        ['61018.00000', '5.00000000', '1709294399.100000'],
+        ['61020.00000', '0.40000000', '1709294399.100000']
+      ],
+      bs: [
+        ['61010.00000', '1.00000000', '1709294399.100000'],
+        ['61009.50000', '0.20000000', '1709294399.100000'],
+        ['61009.00000', '0.80000000', '1709294399.100000'],
+        ['61008.10000', '1.50000000', '1709294399.100000'],
+        ['61007.00000', '0.05000000', '1709294399.100000'],
+        ['61006.60000', '2.25000000', '1709294399.100000'],
+        ['61005.00000', '0.60000000', '1709294399.100000'],
+        ['61003.30000', '1.10000000', '1709294399.100000'],
+        ['61002.00000', '4.00000000', '1709294399.100000'],
+        ['61000.00000', '10.00000000', '1709294399.100000']
+      ]
+    },
+    'book-10',
+    'XBT/USD'
+  ],
+  snapshotChecksum: 2314562913,
+  // Ask and bid changes in separate payloads; the bid at 61009.5 is removed and 60999 fills the depth
+  bookUpdate: [
+    336,
+    { a: [['61010.10000', '0.25000000', '1709294400.200000']] },
+    {
+      b: [
+        ['61009.50000', '0.00000000', '1709294400.200000'],
+        ['60999.00000', '0.30000000', '1709294400.200000', 'r']
+      ],
+      c: '341074993'
+    },
+    'book-10',
+    'XBT/USD'
+  ],
+  // Same change with a checksum that does not match
+  corruptBookUpdate: [
+    336,
+    { a: [['61010.10000', '0.25000000', '1709294400.200000']], c: '1234567890' },
+    'book-10',
+    'XBT/USD'
+  ]
+};
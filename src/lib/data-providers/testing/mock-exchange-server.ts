@@ -0,0 +1,114 @@
+/**
+ * @fileOverview Mock Exchange Server
+ *
+ * Local WebSocket server for provider and adapter tests. It can:
+ * - Replay recorded exchange frames to connected clients
+ * - Drop connections; a connection it stops sending to stalls (stays open but silent)
+ * - Refuse new connections, to exercise backoff and the circuit breaker
+ * - Record every message clients send, per connection
+ */
+
+import type { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+export interface MockConnection {
+  socket: WebSocket;
+  received: unknown[]; // Parsed client messages, in order
+}
+
+export class MockExchangeServer {
+  readonly connections: MockConnection[] = [];
+  refuseConnections = false;
+  private server: WebSocketServer | null = null;
+  private connectionWaiters: ((connection: MockConnection) => void)[] = [];
+  private messageWaiters: { connection: MockConnection; resolve: (message: unknown) => void }[] = [];
+
+  /**
+   * Listen on a free local port and resolve with the ws:// URL
+   */
+  async start(): Promise<string> {
+    const server = new WebSocketServer({
+      host: '127.0.0.1',
+      port: 0,
+      verifyClient: () => !this.refuseConnections
+    });
+    this.server = server;
+
+    server.on('connection', socket => {
+      const connection: MockConnection = { socket, received: [] };
+      this.connections.push(connection);
+
+      socket.on('message', data => {
+        const message = JSON.parse(data.toString());
+        connection.received.push(message);
+        this.messageWaiters = this.messageWaiters.filter(waiter => {
+          if (waiter.connection !== connection) return true;
+          waiter.resolve(message);
+          return false;
+        });
+      });
+
+      const waiters = this.connectionWaiters;
+      this.connectionWaiters = [];
+      waiters.forEach(resolve => resolve(connection));
+    });
+
+    await new Promise<void>(resolve => server.once('listening', () => resolve()));
+    return `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  get latest(): MockConnection | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+
+  /**
+   * Resolve with the next client connection
+   */
+  nextConnection(): Promise<MockConnection> {
+    return new Promise(resolve => this.connectionWaiters.push(resolve));
+  }
+
+  /**
+   * Resolve with the next message the client sends on a connection, or one it already sent
+   */
+  nextMessage(connection: MockConnection, alreadyReceived: number = 0): Promise<unknown> {
+    if (connection.received.length > alreadyReceived) {
+      return Promise.resolve(connection.received[alreadyReceived]);
+    }
+    return new Promise(resolve => this.messageWaiters.push({ connection, resolve }));
+  }
+
+  /**
+   * Send frames, as recorded from the exchange, to every open client
+   */
+  send(...frames: unknown[]): void {
+    this.connections
+      .filter(connection => connection.socket.readyState === WebSocket.OPEN)
+      .forEach(connection => frames.forEach(frame => connection.socket.send(JSON.stringify(frame))));
+  }
+
+  /**
+   * Kill every open connection without a close handshake
+   */
+  dropAll(): void {
+    this.connections.forEach(connection => connection.socket.terminate());
+  }
+
+  async stop(): Promise<void> {
+    this.dropAll();
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+}
+
+/**
+ * Node 20 has no global WebSocket; the provider uses the browser API, which `ws` implements
+ */
+export function installWebSocketGlobal(): void {
+  if (typeof globalThis.WebSocket === 'undefined') {
+    (globalThis as any).WebSocket = WebSocket;
+  }
+}
@@ -3,8 +3,14 @@
  * 
  * When AI needs higher timeframe confirmation, it will request specific charts
  * and refuse to give trade recommendations until those confirmations are provided.
+ * OHLCV for every tier is resampled from the same stored 1m candles so the
+ * timeframes never disagree about a shared bar.
  */
 
+import { candleStore } from './data-providers/candle-store';
+import { getBucketStart, resampleToTimeframes, type ResampledKline } from './data-providers/kline-resampler';
+import { getIntervalMs } from './data-providers/intervals';
+
 export interface TimeframeHierarchy {
   current: string;
   next: string[];
@@ -86,6 +92,40 @@ export function getTimeframeHierarchy(currentTimeframe: string): TimeframeHierar
   };
 }
 
+/**
+ * Loads candles for the current timeframe and its higher tiers, all derived
+ * from 1m history. The 1m lookback is capped, so the highest tiers may
+ * return fewer than `bars` candles.
+ */
+export async function getTimeframeCandles(
+  symbol: string,
+  currentTimeframe: string,
+  options: {
+    exchange?: string;
+    bars?: number; // Candles wanted per timeframe
+    timeframes?: string[]; // Defaults to the current timeframe plus the next tiers
+    maxSourceCandles?: number; // Cap on 1m candles loaded
+  } = {}
+): Promise<{ [timeframe: string]: ResampledKline[] }> {
+  const { exchange = 'binance', bars = 50, maxSourceCandles = 100000 } = options;
+  const hierarchy = getTimeframeHierarchy(currentTimeframe);
+  const timeframes = options.timeframes || [hierarchy.current, ...hierarchy.next];
+  
+  const now = Date.now();
+  const longest = timeframes.reduce((a, b) => (getIntervalMs(b) > getIntervalMs(a) ? b : a));
+  const wantedStart = getBucketStart(now - bars * getIntervalMs(longest), longest, exchange);
+  const startTime = Math.max(wantedStart, now - maxSourceCandles * getIntervalMs('1m'));
+  
+  const oneMinute = await candleStore.getCandles({ exchange, symbol, interval: '1m' }, startTime, now);
+  const resampled = resampleToTimeframes(oneMinute, timeframes, { now });
+  
+  Object.keys(resampled).forEach(timeframe => {
+    resampled[timeframe] = resampled[timeframe].slice(-bars);
+  });
+  
+  return resampled;
+}
+
 /**
  * Determines if higher timeframe confirmation is needed
  */
@@ -10,10 +10,13 @@
  * - Real-time pattern monitoring
  */
 
-import { mlPatternDetector, type PatternPrediction, type PatternFeatures } from './ml-pattern-detector';
+import { mlPatternDetector, type PatternPrediction, type PatternFeatures, type CandleRange } from './ml-pattern-detector';
 import { volumeProfileAnalyzer, type VolumeProfileAnalysis, type PriceVolumeData } from './volume-profile-analyzer';
 import { marketMicrostructureAnalyzer, type MarketMicrostructureAnalysis, type OrderBookData, type TradeData } from './market-microstructure-analyzer';
 import { harmonicPatternDetector, type PatternScan, type HarmonicPattern } from './harmonic-pattern-detector';
+import { buildFootprintCandles, type FootprintCandle } from './footprint-aggregator';
+import type { KlineData } from '../data-providers/real-time-data-provider';
+import { getIntervalMs } from '../data-providers/intervals';
 
 export interface ComprehensivePatternAnalysis {
   timestamp: number;
@@ -102,7 +105,9 @@ export class AdvancedPatternRecognitionSystem {
   private alertCallbacks: ((alert: PatternAlert) => void)[] = [];
   
   /**
-   * Performs comprehensive pattern analysis combining all methodologies
+   * Performs comprehensive pattern analysis from close prices only.
+   * Candle ranges are unknown, so each bar is treated as a single price;
+   * prefer analyzeCandles when OHLC data is available.
    */
   async analyzePatterns(
     asset: string,
@@ -114,24 +119,64 @@ export class AdvancedPatternRecognitionSystem {
     tradeData?: TradeData[],
     currentPrice?: number
   ): Promise<ComprehensivePatternAnalysis> {
-    
-    const analysisTimestamp = Date.now();
-    
-    // Prepare price-volume data
-    const priceVolumeData: PriceVolumeData[] = priceData.map((price, i) => ({
+    const candles: PriceVolumeData[] = priceData.map((price, i) => ({
       timestamp: timestamps[i] || Date.now() - (priceData.length - i) * 60000,
       open: price,
-      high: price * 1.01, // Simplified - would use actual OHLC
-      low: price * 0.99,
+      high: price,
+      low: price,
       close: price,
       volume: volumeData[i] || 1000
     }));
     
+    return this.analyzeCandles(asset, timeframe, candles, orderBookData, tradeData, currentPrice);
+  }
+  
+  /**
+   * Performs comprehensive pattern analysis combining all methodologies on
+   * OHLCV candles, so true highs and lows reach every analyzer
+   */
+  async analyzeCandles(
+    asset: string,
+    timeframe: string,
+    candles: KlineData[] | PriceVolumeData[],
+    orderBookData?: OrderBookData[],
+    tradeData?: TradeData[],
+    currentPrice?: number
+  ): Promise<ComprehensivePatternAnalysis> {
+    if (candles.length === 0) {
+      throw new Error('Cannot analyze patterns without candles');
+    }
+    
+    const analysisTimestamp = Date.now();
+    
+    // Normalize klines to price-volume data
+    const priceVolumeData: PriceVolumeData[] = (candles as (KlineData | PriceVolumeData)[]).map(candle => ({
+      timestamp: 'timestamp' in candle ? candle.timestamp : candle.openTime,
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume
+    }));
+    
+    const priceData = priceVolumeData.map(candle => candle.close);
+    const volumeData = priceVolumeData.map(candle => candle.volume);
+    const timestamps = priceVolumeData.map(candle => candle.timestamp);
+    const candleRange = {
+      highs: priceVolumeData.map(candle => candle.high),
+      lows: priceVolumeData.map(candle => candle.low)
+    };
+    
+    // Real aggressor volume per price for the candles the trades cover
+    const footprint: FootprintCandle[] | undefined = tradeData && tradeData.length > 0
+      ? buildFootprintCandles(tradeData, { intervalMs: getIntervalMs(timeframe) })
+      : undefined;
+    
     // Run parallel analysis
     const [mlPatterns, volumeProfile, harmonicPatterns] = await Promise.all([
-      this.runMLPatternAnalysis(priceData, volumeData, timeframe, asset),
-      this.runVolumeProfileAnalysis(priceVolumeData, currentPrice || priceData[priceData.length - 1]),
-      this.runHarmonicPatternAnalysis(priceData, timestamps)
+      this.runMLPatternAnalysis(priceData, volumeData, timeframe, asset, candleRange),
+      this.runVolumeProfileAnalysis(priceVolumeData, currentPrice || priceData[priceData.length - 1], footprint),
+      this.runHarmonicPatternAnalysis(priceData, timestamps, candleRange)
     ]);
     
     // Run microstructure analysis if data available
@@ -140,7 +185,8 @@ export class AdvancedPatternRecognitionSystem {
       microstructure = marketMicrostructureAnalyzer.analyzeMarketMicrostructure(
         orderBookData,
         tradeData,
-        currentPrice
+        currentPrice,
+        footprint
       );
     } else {
       // Create default microstructure analysis
@@ -272,10 +318,11 @@ export class AdvancedPatternRecognitionSystem {
     priceData: number[],
     volumeData: number[],
     timeframe: string,
-    asset: string
+    asset: string,
+    candleRange: CandleRange
   ): Promise<PatternPrediction[]> {
     try {
-      return await mlPatternDetector.detectPatterns(priceData, volumeData, timeframe, asset);
+      return await mlPatternDetector.detectPatterns(priceData, volumeData, timeframe, asset, candleRange);
     } catch (error) {
       console.warn('ML pattern analysis failed:', error);
       return [];
@@ -287,10 +334,11 @@ export class AdvancedPatternRecognitionSystem {
    */
   private runVolumeProfileAnalysis(
     priceVolumeData: PriceVolumeData[],
-    currentPrice: number
+    currentPrice: number,
+    footprint?: FootprintCandle[]
   ): VolumeProfileAnalysis {
     try {
-      return volumeProfileAnalyzer.analyzeVolumeProfile(priceVolumeData, currentPrice);
+      return volumeProfileAnalyzer.analyzeVolumeProfile(priceVolumeData, currentPrice, undefined, footprint);
     } catch (error) {
       console.warn('Volume profile analysis failed:', error);
       return this.createDefaultVolumeProfileAnalysis();
@@ -302,10 +350,11 @@ export class AdvancedPatternRecognitionSystem {
    */
   private runHarmonicPatternAnalysis(
     priceData: number[],
-    timestamps: number[]
+    timestamps: number[],
+    candleRange: CandleRange
   ): PatternScan {
     try {
-      return harmonicPatternDetector.scanForHarmonicPatterns(priceData, timestamps);
+      return harmonicPatternDetector.scanForHarmonicPatterns(priceData, timestamps, 'all', candleRange);
     } catch (error) {
       console.warn('Harmonic pattern analysis failed:', error);
       return {
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { detectChartPatterns, type PriceData } from '../advanced-technical-indicators';
+import { ChartPatternDetector, type ChartPatternType } from './chart-pattern-detector';
+
+const HOUR = 60 * 60 * 1000;
+const LEG_BARS = 10;
+
+/**
+ * Straight legs between the vertices; the first and last vertices are the
+ * series ends, every other vertex is a swing pivot
+ */
+function buildCandles(vertices: number[], legBars: number[] = vertices.slice(1).map(() => LEG_BARS)): PriceData[] {
+  const closes = [vertices[0]];
+  legBars.forEach((bars, leg) => {
+    for (let step = 1; step <= bars; step++) {
+      closes.push(vertices[leg] + (vertices[leg + 1] - vertices[leg]) * step / bars);
+    }
+  });
+
+  return closes.map((close, i) => ({
+    timestamp: i * HOUR,
+    open: close,
+    high: close + 0.5,
+    low: close - 0.5,
+    close,
+    volume: 100
+  }));
+}
+
+const mirror = (vertices: number[]) => vertices.map(price => 300 - price);
+
+interface PatternFixture {
+  type: ChartPatternType;
+  direction: 'bullish' | 'bearish';
+  vertices: number[];
+  legBars?: number[];
+}
+
+// Bullish-side fixtures are mirrored into their bearish counterparts below
+const doubleTop: PatternFixture = { type: 'double_top', direction: 'bearish', vertices: [100, 120, 110, 120, 100] };
+const headShoulders: PatternFixture = { type: 'head_shoulders', direction: 'bearish', vertices: [100, 120, 110, 130, 110, 120, 95] };
+const ascendingTriangle: PatternFixture = { type: 'ascending_triangle', direction: 'bullish', vertices: [105, 120, 100, 120, 106, 120, 112, 130] };
+const risingWedge: PatternFixture = { type: 'wedge_rising', direction: 'bearish', vertices: [110, 120, 100, 126, 110, 132, 120, 100] };
+const bullFlag: PatternFixture = { type: 'bull_flag', direction: 'bullish', vertices: [100, 90, 130, 122, 128, 121, 140], legBars: [5, 8, 4, 4, 4, 6] };
+const rectangleBreakout: PatternFixture = { type: 'rectangle', direction: 'bullish', vertices: [110, 100, 120, 100, 120, 100, 120, 150] };
+
+const mirrored = (fixture: PatternFixture, type: ChartPatternType): PatternFixture => ({
+  ...fixture,
+  type,
+  direction: fixture.direction === 'bullish' ? 'bearish' : 'bullish',
+  vertices: mirror(fixture.vertices)
+});
+
+const fixtures: PatternFixture[] = [
+  doubleTop,
+  mirrored(doubleTop, 'double_bottom'),
+  headShoulders,
+  mirrored(headShoulders, 'inverse_head_shoulders'),
+  ascendingTriangle,
+  mirrored(ascendingTriangle, 'descending_triangle'),
+  risingWedge,
+  mirrored(risingWedge, 'wedge_falling'),
+  bullFlag,
+  mirrored(bullFlag, 'bear_flag'),
+  rectangleBreakout,
+  mirrored(rectangleBreakout, 'rectangle')
+];
+
+describe('ChartPatternDetector', () => {
+  const detector = new ChartPatternDetector();
+
+  it.each(fixtures)('confirms a $direction $type breakout', ({ type, direction, vertices, legBars }) => {
+    const candles = buildCandles(vertices, legBars);
+    const pattern = detector.detectPatterns(candles).find(candidate => candidate.type === type);
+
+    expect(pattern).toMatchObject({ type, direction, status: 'confirmed' });
+    expect(pattern!.breakoutIndex).toBeGreaterThan(pattern!.endIndex);
+    // The measured move points the way of the breakout
+    expect(Math.sign(pattern!.target - pattern!.breakoutLevel)).toBe(direction === 'bullish' ? 1 : -1);
+  });
+
+  it('reports a rectangle that breaks down as a confirmed bearish breakout', () => {
+    const candles = buildCandles([110, 120, 100, 120, 100, 120, 100, 70]);
+
+    const rectangles = detector.detectPatterns(candles).filter(pattern => pattern.type === 'rectangle');
+    expect(rectangles.length).toBeGreaterThan(0);
+    rectangles.forEach(rectangle => expect(rectangle).toMatchObject({ direction: 'bearish', status: 'confirmed', invalidation: 120.5 }));
+
+    expect(detectChartPatterns(candles).patterns).toContainEqual(
+      expect.objectContaining({ type: 'rectangle', direction: 'bearish', status: 'confirmed' })
+    );
+  });
+
+  it('leaves a pattern forming until price closes through the breakout line', () => {
+    const candles = buildCandles([100, 120, 110, 120, 112]);
+    const pattern = detector.detectPatterns(candles).find(candidate => candidate.type === 'double_top');
+
+    expect(pattern).toMatchObject({ direction: 'bearish', status: 'forming', breakoutIndex: undefined });
+  });
+});
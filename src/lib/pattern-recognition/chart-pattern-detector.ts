@@ -0,0 +1,570 @@
+/**
+ * @fileOverview Classical Chart Pattern Detector
+ *
+ * Pivot-based geometric detection of classical chart patterns:
+ * - Double tops and bottoms
+ * - Head & shoulders and inverse head & shoulders (sloped necklines)
+ * - Ascending/descending triangles, rising/falling wedges and rectangles,
+ *   from least-squares lines through alternating swing highs and lows
+ * - Bull and bear flags (impulse pole plus counter-trend consolidation)
+ *
+ * Every pattern carries its breakout level, measured-move target, invalidation
+ * price and whether price has since broken out or invalidated it. Tolerances
+ * scale with ATR so the same rules work across assets and timeframes.
+ */
+
+import type { ChartPoint } from '../types';
+import type { PriceData } from '../advanced-technical-indicators';
+
+// Names shared with MLPatternDetector's pattern models
+export type ChartPatternType =
+  | 'double_top'
+  | 'double_bottom'
+  | 'head_shoulders'
+  | 'inverse_head_shoulders'
+  | 'ascending_triangle'
+  | 'descending_triangle'
+  | 'wedge_rising'
+  | 'wedge_falling'
+  | 'bull_flag'
+  | 'bear_flag'
+  | 'rectangle';
+
+export interface ChartPatternPivot {
+  index: number;
+  timestamp: number;
+  price: number;
+  type: 'high' | 'low';
+}
+
+export interface DetectedChartPattern {
+  type: ChartPatternType;
+  name: string;
+  direction: 'bullish' | 'bearish';
+  status: 'forming' | 'confirmed' | 'invalidated';
+  confidence: number; // 0-100
+  startIndex: number;
+  endIndex: number; // Last pivot of the pattern
+  breakoutIndex?: number;
+  pivots: ChartPatternPivot[];
+  breakoutLevel: number; // Neckline/boundary price at the breakout bar, or at the last bar while forming
+  target: number; // Measured move from the breakout level
+  invalidation: number;
+  height: number;
+  // Chart points use x = candle index and y = price; map them to pixels before drawing
+  points: ChartPoint[]; // Pivots in order
+  boundaries: ChartPoint[][]; // Neckline or upper/lower trendlines
+}
+
+interface TrendLine {
+  slope: number; // Price per bar
+  intercept: number;
+}
+
+const PATTERN_NAMES: { [type in ChartPatternType]: string } = {
+  double_top: 'Double Top',
+  double_bottom: 'Double Bottom',
+  head_shoulders: 'Head and Shoulders',
+  inverse_head_shoulders: 'Inverse Head and Shoulders',
+  ascending_triangle: 'Ascending Triangle',
+  descending_triangle: 'Descending Triangle',
+  wedge_rising: 'Rising Wedge',
+  wedge_falling: 'Falling Wedge',
+  bull_flag: 'Bull Flag',
+  bear_flag: 'Bear Flag',
+  rectangle: 'Rectangle'
+};
+
+export class ChartPatternDetector {
+  private readonly PIVOT_STRENGTH = 3; // Bars before/after for pivot validation
+  private readonly ATR_PERIOD = 14;
+  private readonly LEVEL_TOLERANCE_ATR = 1; // Prices within this many ATRs count as equal
+  private readonly MIN_HEIGHT_ATR = 2; // Smaller structures are noise
+  private readonly MIN_PATTERN_BARS = 10;
+  private readonly MIN_PEAK_SEPARATION = 5; // Bars between the two tops/bottoms
+  private readonly POLE_MIN_ATR = 4; // Flag poles move at least this many ATRs
+  private readonly MAX_POLE_BARS = 15;
+  private readonly MAX_FLAG_RETRACEMENT = 0.5; // Of the pole
+  private readonly MAX_FLAG_SLOPE_RATIO = 1 / 3; // Flag drift per bar relative to the pole's
+  private readonly MIN_FLAG_BARS = 3;
+
+  /**
+   * Detects classical chart patterns, most recent first
+   */
+  detectPatterns(candles: PriceData[]): DetectedChartPattern[] {
+    if (candles.length < this.MIN_PATTERN_BARS + this.PIVOT_STRENGTH * 2) return [];
+
+    const atr = this.calculateATRSeries(candles);
+    const pivots = this.findPivots(candles);
+
+    const patterns = [
+      ...this.detectDoubleTopsBottoms(candles, pivots, atr),
+      ...this.detectHeadAndShoulders(candles, pivots, atr),
+      ...this.detectTrendlinePatterns(candles, pivots, atr),
+      ...this.detectFlags(candles, pivots, atr)
+    ];
+
+    return this.removeOverlaps(patterns)
+      .sort((a, b) => b.endIndex - a.endIndex || b.confidence - a.confidence);
+  }
+
+  /**
+   * Alternating swing highs and lows; consecutive pivots of the same type
+   * collapse into the more extreme one
+   */
+  findPivots(candles: PriceData[]): ChartPatternPivot[] {
+    const strength = this.PIVOT_STRENGTH;
+    const pivots: ChartPatternPivot[] = [];
+
+    for (let i = strength; i < candles.length - strength; i++) {
+      let isHighPivot = true;
+      let isLowPivot = true;
+
+      for (let j = i - strength; j <= i + strength; j++) {
+        if (j === i) continue;
+        if (candles[j].high >= candles[i].high) isHighPivot = false;
+        if (candles[j].low <= candles[i].low) isLowPivot = false;
+      }
+
+      if (isHighPivot) this.pushAlternating(pivots, { index: i, timestamp: candles[i].timestamp, price: candles[i].high, type: 'high' });
+      if (isLowPivot) this.pushAlternating(pivots, { index: i, timestamp: candles[i].timestamp, price: candles[i].low, type: 'low' });
+    }
+
+    return pivots;
+  }
+
+  private pushAlternating(pivots: ChartPatternPivot[], pivot: ChartPatternPivot): void {
+    const last = pivots[pivots.length - 1];
+    if (!last || last.type !== pivot.type) {
+      pivots.push(pivot);
+      return;
+    }
+
+    const moreExtreme = pivot.type === 'high' ? pivot.price > last.price : pivot.price < last.price;
+    if (moreExtreme) {
+      pivots[pivots.length - 1] = pivot;
+    }
+  }
+
+  /**
+   * Two comparable peaks (troughs) with a trough (peak) between them; the
+   * neckline is the intervening extreme
+   */
+  private detectDoubleTopsBottoms(candles: PriceData[], pivots: ChartPatternPivot[], atr: number[]): DetectedChartPattern[] {
+    const patterns: DetectedChartPattern[] = [];
+
+    for (let i = 0; i + 2 < pivots.length; i++) {
+      const [first, middle, second] = pivots.slice(i, i + 3);
+      const isTop = first.type === 'high';
+      const tolerance = atr[second.index] * this.LEVEL_TOLERANCE_ATR;
+      const extreme = isTop ? Math.max(first.price, second.price) : Math.min(first.price, second.price);
+      const height = Math.abs((first.price + second.price) / 2 - middle.price);
+      const difference = Math.abs(first.price - second.price);
+
+      if (difference > tolerance) continue;
+      if (height < atr[second.index] * this.MIN_HEIGHT_ATR) continue;
+      if (second.index - first.index < this.MIN_PEAK_SEPARATION) continue;
+
+      const direction = isTop ? 'bearish' : 'bullish';
+      const breakout = this.findBreakout(candles, second.index, () => middle.price, direction, extreme);
+      const breakoutLevel = middle.price;
+
+      let confidence = 50 + (1 - difference / tolerance) * 20;
+      if (this.hasPriorTrend(pivots, i, isTop ? 'up' : 'down')) confidence += 10;
+      confidence += this.breakoutScore(candles, breakout, first.index);
+
+      const endIndex = breakout.index ?? candles.length - 1;
+      patterns.push(this.buildPattern(isTop ? 'double_top' : 'double_bottom', direction, breakout, confidence, [first, middle, second], {
+        breakoutLevel,
+        target: isTop ? breakoutLevel - height : breakoutLevel + height,
+        invalidation: extreme,
+        height,
+        boundaries: [[this.toPoint(first.index, breakoutLevel, candles), this.toPoint(endIndex, breakoutLevel, candles)]]
+      }));
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Head above (below) two comparable shoulders; the neckline runs through
+   * the two intervening troughs (peaks) and may slope
+   */
+  private detectHeadAndShoulders(candles: PriceData[], pivots: ChartPatternPivot[], atr: number[]): DetectedChartPattern[] {
+    const patterns: DetectedChartPattern[] = [];
+
+    for (let i = 0; i + 4 < pivots.length; i++) {
+      const [leftShoulder, leftTrough, head, rightTrough, rightShoulder] = pivots.slice(i, i + 5);
+      const isTop = head.type === 'high';
+      const sign = isTop ? 1 : -1;
+      const tolerance = atr[rightShoulder.index] * this.LEVEL_TOLERANCE_ATR;
+
+      if (sign * (head.price - leftShoulder.price) <= tolerance) continue;
+      if (sign * (head.price - rightShoulder.price) <= tolerance) continue;
+
+      const shoulderDifference = Math.abs(leftShoulder.price - rightShoulder.price);
+      if (shoulderDifference > tolerance * 2) continue;
+
+      const neckline = this.lineThrough(leftTrough, rightTrough);
+      const height = sign * (head.price - this.valueAt(neckline, head.index));
+      if (height < atr[head.index] * this.MIN_HEIGHT_ATR) continue;
+      if (rightShoulder.index - leftShoulder.index < this.MIN_PATTERN_BARS) continue;
+
+      // Shoulders must stand clear of the neckline
+      if (sign * (rightShoulder.price - this.valueAt(neckline, rightShoulder.index)) <= 0) continue;
+
+      const direction = isTop ? 'bearish' : 'bullish';
+      const breakout = this.findBreakout(candles, rightShoulder.index, index => this.valueAt(neckline, index), direction, rightShoulder.price);
+      const endIndex = breakout.index ?? candles.length - 1;
+      const breakoutLevel = this.valueAt(neckline, endIndex);
+
+      let confidence = 50 + (1 - shoulderDifference / (tolerance * 2)) * 15;
+      if (this.hasPriorTrend(pivots, i, isTop ? 'up' : 'down')) confidence += 10;
+      confidence += this.breakoutScore(candles, breakout, leftShoulder.index);
+
+      patterns.push(this.buildPattern(isTop ? 'head_shoulders' : 'inverse_head_shoulders', direction, breakout, confidence,
+        [leftShoulder, leftTrough, head, rightTrough, rightShoulder], {
+          breakoutLevel,
+          target: breakoutLevel - sign * height,
+          invalidation: rightShoulder.price,
+          height,
+          boundaries: [[
+            this.toPoint(leftTrough.index, leftTrough.price, candles),
+            this.toPoint(endIndex, breakoutLevel, candles)
+          ]]
+        }));
+    }
+
+    return patterns;
+  }
+
+  /**
+   * Triangles, wedges and rectangles: least-squares lines through at least
+   * two highs and two lows, classified by their slopes
+   */
+  private detectTrendlinePatterns(candles: PriceData[], pivots: ChartPatternPivot[], atr: number[]): DetectedChartPattern[] {
+    const patterns: DetectedChartPattern[] = [];
+
+    for (const size of [6, 5, 4]) {
+      for (let i = 0; i + size <= pivots.length; i++) {
+        const window = pivots.slice(i, i + size);
+        const pattern = this.classifyTrendlineWindow(candles, pivots, i, window, atr);
+        if (pattern) patterns.push(pattern);
+      }
+    }
+
+    return patterns;
+  }
+
+  private classifyTrendlineWindow(
+    candles: PriceData[],
+    pivots: ChartPatternPivot[],
+    windowStart: number,
+    window: ChartPatternPivot[],
+    atr: number[]
+  ): DetectedChartPattern | null {
+    const first = window[0];
+    const last = window[window.length - 1];
+    const span = last.index - first.index;
+    if (span < this.MIN_PATTERN_BARS) return null;
+
+    const highs = window.filter(pivot => pivot.type === 'high');
+    const lows = window.filter(pivot => pivot.type === 'low');
+    const tolerance = atr[last.index] * this.LEVEL_TOLERANCE_ATR;
+    const upper = this.fitLine(highs);
+    const lower = this.fitLine(lows);
+
+    // Every pivot must sit on its line
+    const fitError = Math.max(
+      ...highs.map(pivot => Math.abs(pivot.price - this.valueAt(upper, pivot.index))),
+      ...lows.map(pivot => Math.abs(pivot.price - this.valueAt(lower, pivot.index)))
+    );
+    if (fitError > tolerance) return null;
+
+    const startWidth = this.valueAt(upper, first.index) - this.valueAt(lower, first.index);
+    const endWidth = this.valueAt(upper, last.index) - this.valueAt(lower, last.index);
+    if (startWidth < atr[first.index] * this.MIN_HEIGHT_ATR || endWidth <= 0) return null;
+
+    const upperChange = upper.slope * span;
+    const lowerChange = lower.slope * span;
+    const upperFlat = Math.abs(upperChange) <= tolerance;
+    const lowerFlat = Math.abs(lowerChange) <= tolerance;
+    const converging = endWidth < startWidth - tolerance;
+
+    let type: ChartPatternType;
+    if (upperFlat && lowerFlat) {
+      type = 'rectangle';
+    } else if (upperFlat && lowerChange > tolerance && converging) {
+      type = 'ascending_triangle';
+    } else if (lowerFlat && upperChange < -tolerance && converging) {
+      type = 'descending_triangle';
+    } else if (upperChange > tolerance && lowerChange > upperChange && converging) {
+      type = 'wedge_rising';
+    } else if (lowerChange < -tolerance && upperChange < lowerChange && converging) {
+      type = 'wedge_falling';
+    } else {
+      return null;
+    }
+
+    // Rectangles break either way; the others have a conventional direction
+    let direction: 'bullish' | 'bearish';
+    if (type === 'rectangle') {
+      const upside = this.findBreakout(candles, last.index, index => this.valueAt(upper, index), 'bullish', -Infinity);
+      const downside = this.findBreakout(candles, last.index, index => this.valueAt(lower, index), 'bearish', Infinity);
+      if (upside.index !== undefined && (downside.index === undefined || upside.index <= downside.index)) {
+        direction = 'bullish';
+      } else if (downside.index !== undefined) {
+        direction = 'bearish';
+      } else {
+        direction = this.hasPriorTrend(pivots, windowStart, 'up') ? 'bullish' : 'bearish';
+      }
+    } else {
+      direction = type === 'ascending_triangle' || type === 'wedge_falling' ? 'bullish' : 'bearish';
+    }
+
+    const breakoutLine = direction === 'bullish' ? upper : lower;
+    const opposite = direction === 'bullish' ? lows : highs;
+    const invalidation = opposite[opposite.length - 1].price;
+    const breakout = this.findBreakout(candles, last.index, index => this.valueAt(breakoutLine, index), direction, invalidation);
+    const endIndex = breakout.index ?? candles.length - 1;
+    const breakoutLevel = this.valueAt(breakoutLine, endIndex);
+
+    let confidence = 45 + (1 - fitError / tolerance) * 15 + Math.min(10, (window.length - 4) * 5);
+    confidence += this.breakoutScore(candles, breakout, first.index);
+
+    return this.buildPattern(type, direction, breakout, confidence, window, {
+      breakoutLevel,
+      target: direction === 'bullish' ? breakoutLevel + startWidth : breakoutLevel - startWidth,
+      invalidation,
+      height: startWidth,
+      boundaries: [
+        [this.toPoint(first.index, this.valueAt(upper, first.index), candles), this.toPoint(endIndex, this.valueAt(upper, endIndex), candles)],
+        [this.toPoint(first.index, this.valueAt(lower, first.index), candles), this.toPoint(endIndex, this.valueAt(lower, endIndex), candles)]
+      ]
+    });
+  }
+
+  /**
+   * A sharp pole between two pivots followed by a shallow counter-trend
+   * consolidation of further swings; the flag's outer edge runs through the
+   * pole's end and the flag's lower highs (higher lows for a bear flag)
+   */
+  private detectFlags(candles: PriceData[], pivots: ChartPatternPivot[], atr: number[]): DetectedChartPattern[] {
+    const patterns: DetectedChartPattern[] = [];
+
+    for (let i = 0; i + 3 < pivots.length; i++) {
+      const poleStart = pivots[i];
+      const poleEnd = pivots[i + 1];
+      const isBull = poleEnd.type === 'high';
+      const sign = isBull ? 1 : -1;
+      const pole = sign * (poleEnd.price - poleStart.price);
+      const poleBars = poleEnd.index - poleStart.index;
+
+      if (pole < atr[poleEnd.index] * this.POLE_MIN_ATR || poleBars > this.MAX_POLE_BARS) continue;
+
+      // Extend the flag while its swings stay shallow and short enough
+      const retracementLimit = poleEnd.price - sign * pole * this.MAX_FLAG_RETRACEMENT;
+      let last = i + 1;
+      for (let j = i + 2; j < pivots.length; j++) {
+        const pivot = pivots[j];
+        if (pivot.index - poleEnd.index > poleBars * 3) break;
+        if (sign * (pivot.price - retracementLimit) < 0) break;
+        if (pivot.type === poleEnd.type && sign * (pivot.price - poleEnd.price) > 0) break;
+        last = j;
+      }
+
+      // At least one counter swing and one lower high (higher low)
+      if (last < i + 3) continue;
+      const flag = pivots.slice(i + 1, last + 1);
+      const flagEnd = flag[flag.length - 1];
+      if (flagEnd.index - poleEnd.index < this.MIN_FLAG_BARS) continue;
+
+      const edge = this.fitLine(flag.filter(pivot => pivot.type === poleEnd.type));
+      if (sign * edge.slope > 0) continue;
+      if (Math.abs(edge.slope) > (pole / poleBars) * this.MAX_FLAG_SLOPE_RATIO) continue;
+
+      const counterSwings = flag.filter(pivot => pivot.type !== poleEnd.type).map(pivot => pivot.price);
+      const flagExtreme = isBull ? Math.min(...counterSwings) : Math.max(...counterSwings);
+      const retracement = sign * (poleEnd.price - flagExtreme) / pole;
+      const direction = isBull ? 'bullish' : 'bearish';
+      const breakout = this.findBreakout(candles, flagEnd.index, index => this.valueAt(edge, index), direction, flagExtreme);
+      const endIndex = breakout.index ?? candles.length - 1;
+      const breakoutLevel = this.valueAt(edge, endIndex);
+
+      let confidence = 50 + (1 - retracement / this.MAX_FLAG_RETRACEMENT) * 15;
+      if (this.isVolumeContracting(candles, poleStart.index, poleEnd.index, flagEnd.index)) confidence += 10;
+      confidence += this.breakoutScore(candles, breakout, poleStart.index);
+
+      patterns.push(this.buildPattern(isBull ? 'bull_flag' : 'bear_flag', direction, breakout, confidence,
+        [poleStart, ...flag], {
+          breakoutLevel,
+          target: breakoutLevel + sign * pole,
+          invalidation: flagExtreme,
+          height: pole,
+          boundaries: [[
+            this.toPoint(poleEnd.index, this.valueAt(edge, poleEnd.index), candles),
+            this.toPoint(endIndex, breakoutLevel, candles)
+          ]]
+        }));
+    }
+
+    return patterns;
+  }
+
+  /**
+   * First close through the breakout line after `fromIndex`, unless price
+   * trades through the invalidation level first
+   */
+  private findBreakout(
+    candles: PriceData[],
+    fromIndex: number,
+    lineAt: (index: number) => number,
+    direction: 'bullish' | 'bearish',
+    invalidation: number
+  ): { status: DetectedChartPattern['status']; index?: number } {
+    for (let i = fromIndex + 1; i < candles.length; i++) {
+      const candle = candles[i];
+
+      if (direction === 'bullish') {
+        if (candle.close > lineAt(i)) return { status: 'confirmed', index: i };
+        if (candle.low < invalidation) return { status: 'invalidated', index: i };
+      } else {
+        if (candle.close < lineAt(i)) return { status: 'confirmed', index: i };
+        if (candle.high > invalidation) return { status: 'invalidated', index: i };
+      }
+    }
+
+    return { status: 'forming' };
+  }
+
+  /**
+   * Confidence adjustment for the breakout: confirmation, extra if volume expanded
+   */
+  private breakoutScore(candles: PriceData[], breakout: { status: DetectedChartPattern['status']; index?: number }, startIndex: number): number {
+    if (breakout.status === 'invalidated') return -30;
+    if (breakout.status !== 'confirmed' || breakout.index === undefined) return 0;
+
+    const patternCandles = candles.slice(startIndex, breakout.index);
+    const averageVolume = patternCandles.reduce((sum, c) => sum + c.volume, 0) / Math.max(1, patternCandles.length);
+    return candles[breakout.index].volume > averageVolume * 1.5 ? 20 : 15;
+  }
+
+  /**
+   * Whether the two pivots before the pattern show the trend a reversal pattern needs
+   */
+  private hasPriorTrend(pivots: ChartPatternPivot[], patternStart: number, trend: 'up' | 'down'): boolean {
+    if (patternStart < 2) return false;
+
+    const before = pivots[patternStart - 2];
+    const start = pivots[patternStart];
+    return trend === 'up' ? start.price > before.price : start.price < before.price;
+  }
+
+  private isVolumeContracting(candles: PriceData[], poleStart: number, poleEnd: number, flagEnd: number): boolean {
+    const average = (slice: PriceData[]) => slice.reduce((sum, c) => sum + c.volume, 0) / Math.max(1, slice.length);
+    return average(candles.slice(poleEnd + 1, flagEnd + 1)) < average(candles.slice(poleStart, poleEnd + 1));
+  }
+
+  private buildPattern(
+    type: ChartPatternType,
+    direction: 'bullish' | 'bearish',
+    breakout: { status: DetectedChartPattern['status']; index?: number },
+    confidence: number,
+    pivots: ChartPatternPivot[],
+    levels: Pick<DetectedChartPattern, 'breakoutLevel' | 'target' | 'invalidation' | 'height' | 'boundaries'>
+  ): DetectedChartPattern {
+    return {
+      type,
+      name: PATTERN_NAMES[type],
+      direction,
+      status: breakout.status,
+      confidence: Math.round(Math.max(0, Math.min(95, confidence))),
+      startIndex: pivots[0].index,
+      endIndex: pivots[pivots.length - 1].index,
+      breakoutIndex: breakout.index,
+      pivots,
+      ...levels,
+      points: pivots.map(pivot => ({ x: pivot.index, y: pivot.price, price: pivot.price, timestamp: pivot.timestamp }))
+    };
+  }
+
+  /**
+   * Keep the most confident of overlapping patterns of the same type
+   */
+  private removeOverlaps(patterns: DetectedChartPattern[]): DetectedChartPattern[] {
+    const kept: DetectedChartPattern[] = [];
+
+    [...patterns]
+      .sort((a, b) => b.confidence - a.confidence || (b.endIndex - b.startIndex) - (a.endIndex - a.startIndex))
+      .forEach(pattern => {
+        const overlaps = kept.some(other =>
+          other.type === pattern.type &&
+          pattern.startIndex <= other.endIndex &&
+          other.startIndex <= pattern.endIndex
+        );
+        if (!overlaps) kept.push(pattern);
+      });
+
+    return kept;
+  }
+
+  private toPoint(index: number, price: number, candles: PriceData[]): ChartPoint {
+    return { x: index, y: price, price, timestamp: candles[Math.min(index, candles.length - 1)].timestamp };
+  }
+
+  private lineThrough(a: { index: number; price: number }, b: { index: number; price: number }): TrendLine {
+    const slope = (b.price - a.price) / (b.index - a.index);
+    return { slope, intercept: a.price - slope * a.index };
+  }
+
+  /**
+   * Least-squares line through points; a single point gives a flat line
+   */
+  private fitLine(points: { index: number; price: number }[]): TrendLine {
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.index, 0) / n;
+    const meanY = points.reduce((sum, p) => sum + p.price, 0) / n;
+
+    let covariance = 0;
+    let variance = 0;
+    points.forEach(p => {
+      covariance += (p.index - meanX) * (p.price - meanY);
+      variance += (p.index - meanX) ** 2;
+    });
+
+    const slope = variance > 0 ? covariance / variance : 0;
+    return { slope, intercept: meanY - slope * meanX };
+  }
+
+  private valueAt(line: TrendLine, index: number): number {
+    return line.slope * index + line.intercept;
+  }
+
+  /**
+   * Simple moving average of true range per bar (shorter warm-up at the start)
+   */
+  private calculateATRSeries(candles: PriceData[]): number[] {
+    const trueRanges = candles.map((candle, i) => {
+      if (i === 0) return candle.high - candle.low;
+      const previousClose = candles[i - 1].close;
+      return Math.max(
+        candle.high - candle.low,
+        Math.abs(candle.high - previousClose),
+        Math.abs(candle.low - previousClose)
+      );
+    });
+
+    const atr: number[] = [];
+    let sum = 0;
+    trueRanges.forEach((range, i) => {
+      sum += range;
+      if (i >= this.ATR_PERIOD) sum -= trueRanges[i - this.ATR_PERIOD];
+      atr.push(sum / Math.min(i + 1, this.ATR_PERIOD));
+    });
+
+    return atr;
+  }
+}
+
+// Singleton instance
+export const chartPatternDetector = new ChartPatternDetector();
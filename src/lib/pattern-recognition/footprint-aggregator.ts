@@ -0,0 +1,268 @@
+/**
+ * @fileOverview Footprint Aggregator
+ *
+ * Builds footprint (order-flow) candles from executed trades, using each
+ * trade's aggressor side instead of estimating buy/sell volume from candle
+ * shape:
+ * - Per-candle, per-price bid volume (sells hitting the bid) and ask volume
+ *   (buys lifting the offer)
+ * - Delta per price level and per candle, plus cumulative delta
+ * - Diagonal imbalances and stacks of them across consecutive price levels
+ */
+
+import type { EventEmitter } from 'events';
+import type { TradeUpdate } from '../data-providers/real-time-data-provider';
+
+export type FootprintTrade = Pick<TradeUpdate, 'timestamp' | 'price' | 'size' | 'side'>;
+
+export interface FootprintLevel {
+  price: number;
+  bidVolume: number; // Sold into the bid by aggressive sellers
+  askVolume: number; // Bought from the offer by aggressive buyers
+  delta: number; // askVolume - bidVolume
+  trades: number;
+}
+
+export interface StackedImbalance {
+  direction: 'bullish' | 'bearish';
+  lowPrice: number;
+  highPrice: number;
+  levels: number;
+}
+
+export interface FootprintCandle {
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  buyVolume: number;
+  sellVolume: number;
+  delta: number;
+  cumulativeDelta: number; // Running delta including this candle
+  levels: FootprintLevel[]; // Ascending by price
+  stackedImbalances: StackedImbalance[];
+}
+
+export interface FootprintOptions {
+  intervalMs: number;
+  priceStep?: number; // Price bin size; derived from the first trade price when omitted
+  imbalanceRatio?: number; // Diagonal volume ratio that counts as an imbalance
+  minStackedLevels?: number; // Consecutive imbalanced levels that form a stack
+  maxCandles?: number;
+}
+
+export class FootprintAggregator {
+  private readonly intervalMs: number;
+  private readonly imbalanceRatio: number;
+  private readonly minStackedLevels: number;
+  private readonly maxCandles: number;
+  private priceStep: number | null;
+
+  private candles: FootprintCandle[] = [];
+  private levelMaps: Map<number, Map<number, FootprintLevel>> = new Map(); // openTime -> bin -> level
+  private staleCandles: Set<FootprintCandle> = new Set(); // Levels and stacks not yet rebuilt
+  private cumulativeDelta = 0;
+
+  constructor({
+    intervalMs,
+    priceStep,
+    imbalanceRatio = 3,
+    minStackedLevels = 3,
+    maxCandles = 500
+  }: FootprintOptions) {
+    if (!(intervalMs > 0)) {
+      throw new Error(`Invalid footprint interval: ${intervalMs}`);
+    }
+
+    this.intervalMs = intervalMs;
+    this.priceStep = priceStep ?? null;
+    this.imbalanceRatio = imbalanceRatio;
+    this.minStackedLevels = minStackedLevels;
+    this.maxCandles = maxCandles;
+  }
+
+  /**
+   * Add a trade to its candle; trades older than the current candle are ignored
+   */
+  addTrade(trade: FootprintTrade): void {
+    if (this.priceStep === null) {
+      this.priceStep = getDefaultPriceStep(trade.price);
+    }
+    const step = this.priceStep;
+    const openTime = Math.floor(trade.timestamp / this.intervalMs) * this.intervalMs;
+    let candle = this.candles[this.candles.length - 1];
+
+    if (candle && openTime < candle.openTime) return;
+
+    if (!candle || openTime > candle.openTime) {
+      candle = {
+        openTime,
+        closeTime: openTime + this.intervalMs - 1,
+        open: trade.price,
+        high: trade.price,
+        low: trade.price,
+        close: trade.price,
+        volume: 0,
+        buyVolume: 0,
+        sellVolume: 0,
+        delta: 0,
+        cumulativeDelta: this.cumulativeDelta,
+        levels: [],
+        stackedImbalances: []
+      };
+      this.candles.push(candle);
+      this.levelMaps.set(openTime, new Map());
+
+      if (this.candles.length > this.maxCandles) {
+        const removed = this.candles.shift()!;
+        this.levelMaps.delete(removed.openTime);
+        this.staleCandles.delete(removed);
+      }
+    }
+
+    candle.high = Math.max(candle.high, trade.price);
+    candle.low = Math.min(candle.low, trade.price);
+    candle.close = trade.price;
+    candle.volume += trade.size;
+
+    const bin = Math.round(trade.price / step);
+    const levels = this.levelMaps.get(openTime)!;
+    let level = levels.get(bin);
+    if (!level) {
+      level = { price: roundToStep(bin * step, step), bidVolume: 0, askVolume: 0, delta: 0, trades: 0 };
+      levels.set(bin, level);
+    }
+    level.trades++;
+
+    if (trade.side === 'buy') {
+      level.askVolume += trade.size;
+      candle.buyVolume += trade.size;
+    } else {
+      level.bidVolume += trade.size;
+      candle.sellVolume += trade.size;
+    }
+    level.delta = level.askVolume - level.bidVolume;
+
+    const signedSize = trade.side === 'buy' ? trade.size : -trade.size;
+    candle.delta += signedSize;
+    candle.cumulativeDelta += signedSize;
+    this.cumulativeDelta += signedSize;
+
+    this.staleCandles.add(candle);
+  }
+
+  addTrades(trades: FootprintTrade[]): void {
+    trades.forEach(trade => this.addTrade(trade));
+  }
+
+  /**
+   * Footprint candles, oldest first; the last one may still be forming
+   */
+  getCandles(): FootprintCandle[] {
+    this.staleCandles.forEach(candle => {
+      candle.levels = Array.from(this.levelMaps.get(candle.openTime)!.values()).sort((a, b) => a.price - b.price);
+      candle.stackedImbalances = this.findStackedImbalances(candle.levels, this.priceStep!);
+    });
+    this.staleCandles.clear();
+
+    return [...this.candles];
+  }
+
+  getCumulativeDelta(): number {
+    return this.cumulativeDelta;
+  }
+
+  /**
+   * Feed a provider's trades for one symbol into the aggregator; returns a detach function
+   */
+  attach(provider: EventEmitter, symbol: string, exchange?: string): () => void {
+    const onTrade = (trade: TradeUpdate) => {
+      if (trade.symbol !== symbol) return;
+      if (exchange && trade.exchange !== exchange) return;
+      this.addTrade(trade);
+    };
+
+    provider.on('tradeUpdate', onTrade);
+    return () => provider.off('tradeUpdate', onTrade);
+  }
+
+  reset(): void {
+    this.candles = [];
+    this.levelMaps.clear();
+    this.staleCandles.clear();
+    this.cumulativeDelta = 0;
+  }
+
+  /**
+   * Diagonal imbalances compare a level's ask volume with the bid volume one
+   * step below it (and bid volume with the ask volume one step above), since
+   * buyers lift the offer while sellers hit the bid beneath it
+   */
+  private findStackedImbalances(levels: FootprintLevel[], step: number): StackedImbalance[] {
+    const byBin: Map<number, FootprintLevel> = new Map();
+    levels.forEach(level => byBin.set(Math.round(level.price / step), level));
+
+    const stacks: StackedImbalance[] = [];
+    let run: { direction: StackedImbalance['direction']; prices: number[] } | null = null;
+
+    const closeRun = () => {
+      if (run && run.prices.length >= this.minStackedLevels) {
+        stacks.push({
+          direction: run.direction,
+          lowPrice: run.prices[0],
+          highPrice: run.prices[run.prices.length - 1],
+          levels: run.prices.length
+        });
+      }
+      run = null;
+    };
+
+    levels.forEach(level => {
+      const bin = Math.round(level.price / step);
+      const below = byBin.get(bin - 1);
+      const above = byBin.get(bin + 1);
+      const bullish = below !== undefined && level.askVolume > 0 && level.askVolume >= this.imbalanceRatio * below.bidVolume;
+      const bearish = above !== undefined && level.bidVolume > 0 && level.bidVolume >= this.imbalanceRatio * above.askVolume;
+      const direction = bullish && !bearish ? 'bullish' : bearish && !bullish ? 'bearish' : null;
+
+      const previousPrice = run?.prices[run.prices.length - 1];
+      const contiguous = previousPrice !== undefined && Math.round(previousPrice / step) === bin - 1;
+
+      if (!direction || !run || run.direction !== direction || !contiguous) {
+        closeRun();
+      }
+      if (direction) {
+        run = run ?? { direction, prices: [] };
+        run.prices.push(level.price);
+      }
+    });
+    closeRun();
+
+    return stacks;
+  }
+}
+
+/**
+ * About five significant digits of price resolution (1 for BTC near 60000, 0.1 for ETH near 3000)
+ */
+function getDefaultPriceStep(price: number): number {
+  if (!(price > 0)) return 1;
+  return Math.pow(10, Math.floor(Math.log10(price)) - 4);
+}
+
+function roundToStep(price: number, step: number): number {
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  return Number(price.toFixed(decimals));
+}
+
+/**
+ * Footprint candles for a batch of trades, oldest first
+ */
+export function buildFootprintCandles(trades: FootprintTrade[], options: FootprintOptions): FootprintCandle[] {
+  const aggregator = new FootprintAggregator({ maxCandles: Number.MAX_SAFE_INTEGER, ...options });
+  aggregator.addTrades([...trades].sort((a, b) => a.timestamp - b.timestamp));
+  return aggregator.getCandles();
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import { HarmonicPatternDetector, type HarmonicPatternType, type PatternPointName, type RatioKey } from './harmonic-pattern-detector';
+
+const LEG_BARS = 25;
+const EDGE_BARS = 10;
+const TOLERANCE = 0.05;
+
+interface HarmonicFixture {
+  type: HarmonicPatternType;
+  points: PatternPointName[];
+  prices: number[]; // Bullish pivot prices, O/X first and D last
+  ratios: Partial<Record<RatioKey, number>>; // Ratios the prices were built from
+  przBands: { leg: PatternPointName; base: [PatternPointName, PatternPointName]; min: number; max: number }[];
+}
+
+/**
+ * Straight legs between the pivots, with a lead-in and a pullback so the
+ * first and last points are swings
+ */
+function buildSeries(pivots: number[]): { prices: number[]; timestamps: number[]; indices: number[] } {
+  const first = pivots[0] + (pivots[1] - pivots[0]) * 0.3;
+  const last = pivots[pivots.length - 1] + (pivots[pivots.length - 2] - pivots[pivots.length - 1]) * 0.3;
+  const vertices = [first, ...pivots, last];
+  const legLengths = vertices.slice(1).map((_, i) => (i === 0 || i === pivots.length ? EDGE_BARS : LEG_BARS));
+
+  const prices = [vertices[0]];
+  const indices: number[] = [];
+  legLengths.forEach((bars, leg) => {
+    for (let step = 1; step <= bars; step++) {
+      prices.push(vertices[leg] + (vertices[leg + 1] - vertices[leg]) * step / bars);
+    }
+    if (leg < pivots.length) indices.push(prices.length - 1);
+  });
+
+  return { prices, timestamps: prices.map((_, i) => i * 3600000), indices };
+}
+
+const mirror = (price: number) => 400 - price;
+
+// Bullish legs; each bearish fixture is the mirror image
+const X = 100;
+const A = 200;
+
+const cypherC = X + 1.272 * (A - X);
+const sharkB = 150;
+const sharkC = sharkB + 1.272 * (A - sharkB);
+const abcdC = 150 + 0.618 * 50;
+const fiveZero = { O: 200, X: 100, A: 161.8 };
+const fiveZeroB = fiveZero.A - 1.272 * (fiveZero.A - fiveZero.X);
+const fiveZeroC = fiveZeroB + 1.618 * (fiveZero.A - fiveZeroB);
+const drives = { O: 200, X: 150, A: 150 + 0.618 * 50 };
+const drivesB = drives.A - 1.272 * (drives.A - drives.X);
+const drivesC = drivesB + 0.618 * (drives.A - drivesB);
+
+const fixtures: HarmonicFixture[] = [
+  {
+    type: 'cypher',
+    points: ['X', 'A', 'B', 'C', 'D'],
+    prices: [X, A, 150, cypherC, cypherC - 0.786 * (cypherC - X)],
+    ratios: { AB_XA: 0.5, XC_XA: 1.272, CD_XC: 0.786 },
+    przBands: [{ leg: 'C', base: ['X', 'C'], min: 0.786, max: 0.786 }]
+  },
+  {
+    type: 'shark',
+    points: ['X', 'A', 'B', 'C', 'D'],
+    prices: [X, A, sharkB, sharkC, sharkC - 0.886 * (sharkC - X)],
+    ratios: { AB_XA: 0.5, BC_AB: 1.272, CD_XC: 0.886, CD_BC: 0.886 * (sharkC - X) / (sharkC - sharkB) },
+    przBands: [
+      { leg: 'C', base: ['B', 'C'], min: 1.618, max: 2.24 },
+      { leg: 'C', base: ['X', 'C'], min: 0.886, max: 1.13 }
+    ]
+  },
+  {
+    type: 'abcd',
+    points: ['A', 'B', 'C', 'D'],
+    prices: [200, 150, abcdC, abcdC - 50],
+    ratios: { BC_AB: 0.618, CD_AB: 1, CD_BC: 50 / (abcdC - 150) },
+    przBands: [
+      { leg: 'C', base: ['B', 'C'], min: 1.272, max: 1.618 },
+      { leg: 'C', base: ['A', 'B'], min: 1, max: 1 }
+    ]
+  },
+  {
+    type: 'five_zero',
+    points: ['O', 'X', 'A', 'B', 'C', 'D'],
+    prices: [fiveZero.O, fiveZero.X, fiveZero.A, fiveZeroB, fiveZeroC, fiveZeroC - 0.5 * (fiveZeroC - fiveZeroB)],
+    ratios: { XA_OX: 0.618, AB_XA: 1.272, BC_AB: 1.618, CD_BC: 0.5 },
+    przBands: [{ leg: 'C', base: ['B', 'C'], min: 0.5, max: 0.5 }]
+  },
+  {
+    type: 'three_drives',
+    points: ['O', 'X', 'A', 'B', 'C', 'D'],
+    prices: [drives.O, drives.X, drives.A, drivesB, drivesC, drivesC - 1.272 * (drivesC - drivesB)],
+    ratios: { XA_OX: 0.618, AB_XA: 1.272, BC_AB: 0.618, CD_BC: 1.272 },
+    przBands: [{ leg: 'C', base: ['B', 'C'], min: 1.272, max: 1.618 }]
+  }
+];
+
+describe('HarmonicPatternDetector templates', () => {
+  const detector = new HarmonicPatternDetector();
+  const cases = fixtures.flatMap(fixture => (['bullish', 'bearish'] as const).map(direction => ({
+    ...fixture,
+    direction,
+    prices: direction === 'bullish' ? fixture.prices : fixture.prices.map(mirror)
+  })));
+
+  it.each(cases)('detects a $direction $type with its ratios and PRZ', ({ type, direction, points, prices, ratios, przBands }) => {
+    const series = buildSeries(prices);
+    const scan = detector.scanForHarmonicPatterns(series.prices, series.timestamps);
+
+    const pattern = scan.completedPatterns.find(candidate =>
+      candidate.type === type &&
+      candidate.direction === direction &&
+      points.every((name, i) => candidate.points[name]?.index === series.indices[i])
+    );
+    expect(pattern).toBeDefined();
+    points.forEach((name, i) => expect(pattern!.points[name]!.price).toBeCloseTo(prices[i], 8));
+
+    (Object.keys(ratios) as RatioKey[]).forEach(key => {
+      expect(pattern!.fibonacciRatios[key]!.isValid).toBe(true);
+      expect(pattern!.fibonacciRatios[key]!.actualRatio).toBeCloseTo(ratios[key]!, 6);
+    });
+    expect(pattern!.completion.validationScore).toBeGreaterThan(0.7);
+
+    // PRZ is the overlap of each D projection band, widened by the ratio tolerance
+    const priceOf = (name: PatternPointName) => prices[points.indexOf(name)];
+    const sign = direction === 'bullish' ? -1 : 1;
+    const bands = przBands.map(({ leg, base, min, max }) => {
+      const length = Math.abs(priceOf(base[1]) - priceOf(base[0]));
+      const edges = [priceOf(leg) + sign * min * (1 - TOLERANCE) * length, priceOf(leg) + sign * max * (1 + TOLERANCE) * length];
+      return { low: Math.min(...edges), high: Math.max(...edges) };
+    });
+    const prz = pattern!.prz!;
+    expect(prz.isConfluent).toBe(true);
+    expect(prz.low).toBeCloseTo(Math.max(...bands.map(band => band.low)), 6);
+    expect(prz.high).toBeCloseTo(Math.min(...bands.map(band => band.high)), 6);
+
+    const d = prices[prices.length - 1];
+    expect(d).toBeGreaterThanOrEqual(prz.low);
+    expect(d).toBeLessThanOrEqual(prz.high);
+    expect(prz.center).toBeGreaterThanOrEqual(prz.low);
+    expect(prz.center).toBeLessThanOrEqual(prz.high);
+  });
+
+  it('does not complete a Cypher whose D stops short of the PRZ', () => {
+    const series = buildSeries([X, A, 150, cypherC, cypherC - 0.5 * (cypherC - X)]);
+    const scan = detector.scanForHarmonicPatterns(series.prices, series.timestamps);
+
+    expect(scan.completedPatterns.filter(pattern => pattern.type === 'cypher')).toEqual([]);
+  });
+});
@@ -6,8 +6,11 @@
  * - Butterfly patterns (Bullish/Bearish)
  * - Bat patterns (Bullish/Bearish)
  * - Crab patterns
+ * - Cypher and Shark patterns
  * - ABCD patterns
+ * - 5-0 and Three Drives patterns (six pivots, starting from an origin O)
  * - Fibonacci ratio validation
+ * - Potential Reversal Zone (PRZ) calculation
  * - Pattern completion predictions
  */
 
@@ -25,22 +28,55 @@ export interface FibonacciRatio {
   deviation: number;
 }
 
+export type HarmonicPatternType =
+  | 'gartley'
+  | 'butterfly'
+  | 'bat'
+  | 'crab'
+  | 'abcd'
+  | 'cypher'
+  | 'shark'
+  | 'five_zero'
+  | 'three_drives';
+
+export type PatternPointName = 'O' | 'X' | 'A' | 'B' | 'C' | 'D';
+
+/**
+ * Ratio keys read as LEG_BASE: 'CD_XC' is the C->D leg measured against the X->C leg
+ */
+export type RatioKey =
+  | 'AB_XA'
+  | 'BC_AB'
+  | 'CD_BC'
+  | 'AD_XA'
+  | 'XA_OX'
+  | 'XC_XA'
+  | 'CD_XC'
+  | 'CD_AB';
+
+export interface PatternPoints {
+  O?: PricePoint; // Origin of the first leg (5-0, Three Drives)
+  X?: PricePoint; // Absent for AB=CD
+  A: PricePoint;
+  B: PricePoint;
+  C: PricePoint;
+  D?: PricePoint; // Completion point (may be projected)
+}
+
+export interface PotentialReversalZone {
+  low: number;
+  high: number;
+  center: number; // Mean of the ideal D projections
+  projections: { ratio: RatioKey; ideal: number; low: number; high: number }[];
+  isConfluent: boolean; // True when every projection band overlaps the zone
+}
+
 export interface HarmonicPattern {
-  type: 'gartley' | 'butterfly' | 'bat' | 'crab' | 'abcd' | 'cypher' | 'shark';
+  type: HarmonicPatternType;
   direction: 'bullish' | 'bearish';
-  points: {
-    X: PricePoint;
-    A: PricePoint;
-    B: PricePoint;
-    C: PricePoint;
-    D?: PricePoint; // Completion point (may be projected)
-  };
-  fibonacciRatios: {
-    AB_XA: FibonacciRatio;
-    BC_AB: FibonacciRatio;
-    CD_BC?: FibonacciRatio;
-    AD_XA?: FibonacciRatio;
-  };
+  points: PatternPoints;
+  fibonacciRatios: Partial<Record<RatioKey, FibonacciRatio>>;
+  prz?: PotentialReversalZone;
   completion: {
     isComplete: boolean;
     projectedD?: number;
@@ -67,19 +103,23 @@ export interface PatternScan {
   };
 }
 
+export interface RatioRange {
+  min: number;
+  max: number;
+  ideal: number;
+}
+
 export interface PatternTemplate {
-  type: string;
+  type: HarmonicPatternType;
   direction: 'bullish' | 'bearish';
-  ratios: {
-    AB_XA: { min: number; max: number; ideal: number };
-    BC_AB: { min: number; max: number; ideal: number };
-    CD_BC: { min: number; max: number; ideal: number };
-    AD_XA: { min: number; max: number; ideal: number };
-  };
+  points: PatternPointName[]; // Pivots in order, ending with D
+  ratios: Partial<Record<RatioKey, RatioRange>>;
   description: string;
   reliability: number;
 }
 
+const XABCD_POINTS: PatternPointName[] = ['X', 'A', 'B', 'C', 'D'];
+
 export class HarmonicPatternDetector {
   private readonly FIBONACCI_TOLERANCE = 0.05; // 5% tolerance for Fibonacci ratios
   private readonly MIN_PATTERN_BARS = 20; // Minimum bars between pattern points
@@ -98,14 +138,15 @@ export class HarmonicPatternDetector {
   scanForHarmonicPatterns(
     priceData: number[],
     timestamps: number[],
-    scanType: 'all' | 'complete' | 'potential' = 'all'
+    scanType: 'all' | 'complete' | 'potential' = 'all',
+    candleRange?: { highs: number[]; lows: number[] }
   ): PatternScan {
     if (priceData.length < this.MIN_PATTERN_BARS * 4) {
       throw new Error('Insufficient data for harmonic pattern analysis');
     }
     
     // Find significant pivots
-    const pivots = this.findPivots(priceData, timestamps);
+    const pivots = this.findPivots(priceData, timestamps, candleRange);
     
     // Scan for different pattern types
     const allPatterns: HarmonicPattern[] = [];
@@ -150,13 +191,13 @@ export class HarmonicPatternDetector {
       timeframe: string;
     };
   } {
-    const template = this.patternTemplates.get(pattern.type);
+    const template = this.getPatternTemplate(pattern.type, pattern.direction);
     if (!template) {
       throw new Error(`Unknown pattern type: ${pattern.type}`);
     }
     
-    // Calculate D point projection
-    const projectedD = this.calculateDPointProjection(pattern, template);
+    // Project D from the center of the reversal zone
+    const projectedD = this.calculatePRZ(pattern.points, template).center;
     
     // Estimate time to completion
     const avgPatternDuration = this.calculateAveragePatternDuration(pattern);
@@ -180,57 +221,73 @@ export class HarmonicPatternDetector {
    * Validates Fibonacci ratios for a pattern
    */
   validateFibonacciRatios(
-    points: HarmonicPattern['points'],
+    points: PatternPoints,
     template: PatternTemplate
   ): HarmonicPattern['fibonacciRatios'] {
-    const { X, A, B, C, D } = points;
+    const ratios: HarmonicPattern['fibonacciRatios'] = {};
     
-    // Calculate actual ratios
-    const xaDistance = Math.abs(A.price - X.price);
-    const abDistance = Math.abs(B.price - A.price);
-    const bcDistance = Math.abs(C.price - B.price);
-    
-    const ab_xa_ratio = abDistance / xaDistance;
-    const bc_ab_ratio = bcDistance / abDistance;
+    (Object.keys(template.ratios) as RatioKey[]).forEach(key => {
+      const actualRatio = this.measureRatio(points, key);
+      if (actualRatio !== undefined) {
+        ratios[key] = this.validateRatio(actualRatio, template.ratios[key]!, this.FIBONACCI_TOLERANCE);
+      }
+    });
     
-    // Validate AB/XA ratio
-    const AB_XA = this.validateRatio(
-      ab_xa_ratio,
-      template.ratios.AB_XA.ideal,
-      this.FIBONACCI_TOLERANCE
-    );
+    return ratios;
+  }
+  
+  /**
+   * Calculates the Potential Reversal Zone: the price band where every
+   * D-defining ratio of the template is satisfied
+   */
+  calculatePRZ(points: PatternPoints, template: PatternTemplate): PotentialReversalZone {
+    const sign = template.direction === 'bullish' ? -1 : 1; // Bullish patterns complete at a low
+    const projections: PotentialReversalZone['projections'] = [];
+    
+    (Object.keys(template.ratios) as RatioKey[])
+      .filter(key => key.charAt(1) === 'D')
+      .forEach(key => {
+        const range = template.ratios[key]!;
+        const legStart = points[key.charAt(0) as PatternPointName];
+        const basePoints = [points[key.charAt(3) as PatternPointName], points[key.charAt(4) as PatternPointName]];
+        if (!legStart || !basePoints[0] || !basePoints[1]) return;
+        
+        const base = Math.abs(basePoints[1].price - basePoints[0].price);
+        const project = (ratio: number) => legStart.price + sign * ratio * base;
+        const edges = [
+          project(range.min * (1 - this.FIBONACCI_TOLERANCE)),
+          project(range.max * (1 + this.FIBONACCI_TOLERANCE))
+        ];
+        
+        projections.push({
+          ratio: key,
+          ideal: project(range.ideal),
+          low: Math.min(...edges),
+          high: Math.max(...edges)
+        });
+      });
     
-    // Validate BC/AB ratio
-    const BC_AB = this.validateRatio(
-      bc_ab_ratio,
-      template.ratios.BC_AB.ideal,
-      this.FIBONACCI_TOLERANCE
-    );
+    if (projections.length === 0) {
+      throw new Error(`Template ${template.type} has no ratio defining point D`);
+    }
     
-    let CD_BC: FibonacciRatio | undefined;
-    let AD_XA: FibonacciRatio | undefined;
+    const overlapLow = Math.max(...projections.map(p => p.low));
+    const overlapHigh = Math.min(...projections.map(p => p.high));
+    const isConfluent = overlapLow <= overlapHigh;
+    const ideals = projections.map(p => p.ideal);
     
-    if (D) {
-      const cdDistance = Math.abs(D.price - C.price);
-      const adDistance = Math.abs(D.price - A.price);
-      
-      const cd_bc_ratio = cdDistance / bcDistance;
-      const ad_xa_ratio = adDistance / xaDistance;
-      
-      CD_BC = this.validateRatio(
-        cd_bc_ratio,
-        template.ratios.CD_BC.ideal,
-        this.FIBONACCI_TOLERANCE
-      );
-      
-      AD_XA = this.validateRatio(
-        ad_xa_ratio,
-        template.ratios.AD_XA.ideal,
-        this.FIBONACCI_TOLERANCE
-      );
-    }
+    // Without a common overlap, fall back to the spread of the ideal projections
+    const low = isConfluent ? overlapLow : Math.min(...ideals);
+    const high = isConfluent ? overlapHigh : Math.max(...ideals);
+    const center = ideals.reduce((sum, price) => sum + price, 0) / ideals.length;
     
-    return { AB_XA, BC_AB, CD_BC, AD_XA };
+    return {
+      low,
+      high,
+      center: Math.min(Math.max(center, low), high),
+      projections,
+      isConfluent
+    };
   }
   
   /**
@@ -250,11 +307,17 @@ export class HarmonicPatternDetector {
     // Entry at D point
     const entry = dPrice;
     
-    // Stop loss beyond X point
-    const stopLossBuffer = Math.abs(points.A.price - points.X.price) * 0.236; // 23.6% of XA move
+    // Stop loss beyond X, or beyond D when the pattern completes past X (or has no X)
+    const anchorLeg = points.X
+      ? Math.abs(points.A.price - points.X.price)
+      : Math.abs(dPrice - points.C.price);
+    const stopLossBuffer = anchorLeg * 0.236; // 23.6% of XA move (CD for AB=CD)
+    const invalidation = points.X
+      ? (direction === 'bullish' ? Math.min(points.X.price, dPrice) : Math.max(points.X.price, dPrice))
+      : dPrice;
     const stopLoss = direction === 'bullish' 
-      ? points.X.price - stopLossBuffer
-      : points.X.price + stopLossBuffer;
+      ? invalidation - stopLossBuffer
+      : invalidation + stopLossBuffer;
     
     // Targets based on Fibonacci retracements
     const adMove = Math.abs(dPrice - points.A.price);
@@ -283,20 +346,25 @@ export class HarmonicPatternDetector {
   }
   
   /**
-   * Find significant price pivots
+   * Find significant price pivots (swing highs on highs, swing lows on lows when candle extremes are given)
    */
-  private findPivots(priceData: number[], timestamps: number[]): PricePoint[] {
+  private findPivots(
+    priceData: number[],
+    timestamps: number[],
+    candleRange?: { highs: number[]; lows: number[] }
+  ): PricePoint[] {
     const pivots: PricePoint[] = [];
     const strength = this.PIVOT_STRENGTH;
+    const highs = candleRange?.highs || priceData;
+    const lows = candleRange?.lows || priceData;
     
     for (let i = strength; i < priceData.length - strength; i++) {
-      const currentPrice = priceData[i];
       let isHighPivot = true;
       let isLowPivot = true;
       
       // Check if current point is a high pivot
       for (let j = i - strength; j <= i + strength; j++) {
-        if (j !== i && priceData[j] >= currentPrice) {
+        if (j !== i && highs[j] >= highs[i]) {
           isHighPivot = false;
           break;
         }
@@ -304,18 +372,18 @@ export class HarmonicPatternDetector {
       
       // Check if current point is a low pivot
       for (let j = i - strength; j <= i + strength; j++) {
-        if (j !== i && priceData[j] <= currentPrice) {
+        if (j !== i && lows[j] <= lows[i]) {
           isLowPivot = false;
           break;
         }
       }
       
-      if (isHighPivot || isLowPivot) {
-        pivots.push({
-          timestamp: timestamps[i],
-          price: currentPrice,
-          index: i
-        });
+      // An outside bar can be both a swing high and a swing low
+      if (isHighPivot) {
+        pivots.push({ timestamp: timestamps[i], price: highs[i], index: i });
+      }
+      if (isLowPivot) {
+        pivots.push({ timestamp: timestamps[i], price: lows[i], index: i });
       }
     }
     
@@ -331,112 +399,102 @@ export class HarmonicPatternDetector {
     priceData: number[]
   ): HarmonicPattern[] {
     const patterns: HarmonicPattern[] = [];
+    const leadingPoints = template.points.slice(0, -1); // Everything before D
     
-    // Need at least 4 pivots for XABC pattern
-    if (pivots.length < 4) return patterns;
-    
-    // Scan through pivot combinations
-    for (let x = 0; x < pivots.length - 3; x++) {
-      for (let a = x + 1; a < pivots.length - 2; a++) {
-        for (let b = a + 1; b < pivots.length - 1; b++) {
-          for (let c = b + 1; c < pivots.length; c++) {
-            const xPoint = pivots[x];
-            const aPoint = pivots[a];
-            const bPoint = pivots[b];
-            const cPoint = pivots[c];
-            
-            // Check if pivot sequence matches pattern direction
-            if (!this.isValidPivotSequence(xPoint, aPoint, bPoint, cPoint, template.direction)) {
-              continue;
-            }
-            
-            // Check time constraints
-            if (!this.isValidTimeSequence(xPoint, aPoint, bPoint, cPoint)) {
-              continue;
-            }
-            
-            const points = { X: xPoint, A: aPoint, B: bPoint, C: cPoint };
-            
-            // Validate Fibonacci ratios for XAB and ABC
-            const partialRatios = this.validatePartialFibonacciRatios(points, template);
-            
-            if (partialRatios.AB_XA.isValid && partialRatios.BC_AB.isValid) {
-              // Calculate D point projection
-              const projectedD = this.calculateDPointProjection({ 
-                type: template.type as any, 
-                direction: template.direction, 
-                points, 
-                fibonacciRatios: partialRatios,
-                completion: { isComplete: false, confidenceScore: 0, validationScore: 0 },
-                tradingLevels: { entry: 0, stopLoss: 0, targets: [], riskRewardRatio: 0 },
-                reliability: 0
-              }, template);
-              
-              // Check if we have actual D point (pattern completion)
-              const actualDIndex = this.findNearestPivot(pivots, projectedD, cPoint.index);
-              const isComplete = actualDIndex !== -1;
-              const dPoint = isComplete ? pivots[actualDIndex] : undefined;
-              
-              const completionPoints = dPoint 
-                ? { ...points, D: dPoint }
-                : points;
-              
-              // Calculate full ratios if pattern is complete
-              const fibonacciRatios = dPoint
-                ? this.validateFibonacciRatios(completionPoints, template)
-                : partialRatios;
-              
-              // Calculate validation score
-              const validationScore = this.calculateValidationScore(fibonacciRatios, template);
-              
-              if (validationScore > 0.6) { // Minimum validation threshold
-                const pattern: HarmonicPattern = {
-                  type: template.type as any,
-                  direction: template.direction,
-                  points: completionPoints,
-                  fibonacciRatios,
-                  completion: {
-                    isComplete,
-                    projectedD: projectedD,
-                    confidenceScore: this.calculateConfidenceScore(fibonacciRatios),
-                    validationScore
-                  },
-                  tradingLevels: this.calculateTradingLevels({ 
-                    type: template.type as any, 
-                    direction: template.direction, 
-                    points: completionPoints, 
-                    fibonacciRatios, 
-                    completion: { isComplete, confidenceScore: 0, validationScore: 0 },
-                    tradingLevels: { entry: 0, stopLoss: 0, targets: [], riskRewardRatio: 0 },
-                    reliability: 0
-                  }, projectedD),
-                  reliability: template.reliability
-                };
-                
-                patterns.push(pattern);
-              }
-            }
-          }
+    if (pivots.length < leadingPoints.length) return patterns;
+    
+    // Assign pivots to O/X/A/B/C in order, pruning as soon as a leg fails
+    const assign = (pointIndex: number, fromPivot: number, points: Partial<PatternPoints>) => {
+      if (pointIndex === leadingPoints.length) {
+        const pattern = this.buildPattern(points as PatternPoints, template, pivots);
+        if (pattern) patterns.push(pattern);
+        return;
+      }
+      
+      const name = leadingPoints[pointIndex];
+      const previous = pointIndex > 0 ? points[leadingPoints[pointIndex - 1]] : undefined;
+      const first = pointIndex > 0 ? points[leadingPoints[0]] : undefined;
+      
+      for (let i = fromPivot; i < pivots.length; i++) {
+        const pivot = pivots[i];
+        
+        if (previous) {
+          if (pivot.index - previous.index < this.MIN_PATTERN_BARS) continue;
+          if (pivot.index - first!.index > this.MAX_PATTERN_BARS) break;
+          if (!this.isValidPivotSequence(previous, pivot, this.isHighPoint(name, template.direction))) continue;
         }
+        
+        const candidate = { ...points, [name]: pivot };
+        if (!this.ratiosHoldSoFar(candidate as PatternPoints, template)) continue;
+        
+        assign(pointIndex + 1, i + 1, candidate);
       }
-    }
+    };
+    
+    assign(0, 0, {});
     
     return patterns;
   }
   
   /**
-   * Validate a Fibonacci ratio
+   * Complete a pattern from its leading points: locate D inside the PRZ and score the result
+   */
+  private buildPattern(
+    points: PatternPoints,
+    template: PatternTemplate,
+    pivots: PricePoint[]
+  ): HarmonicPattern | null {
+    const prz = this.calculatePRZ(points, template);
+    const projectedD = prz.center;
+    
+    // Check if we have actual D point (pattern completion)
+    const actualDIndex = this.findPivotInZone(pivots, prz, points.C, template.direction);
+    const isComplete = actualDIndex !== -1;
+    const completionPoints: PatternPoints = isComplete
+      ? { ...points, D: pivots[actualDIndex] }
+      : points;
+    
+    const fibonacciRatios = this.validateFibonacciRatios(completionPoints, template);
+    const validationScore = this.calculateValidationScore(fibonacciRatios, template);
+    
+    if (validationScore <= 0.6) { // Minimum validation threshold
+      return null;
+    }
+    
+    const pattern: HarmonicPattern = {
+      type: template.type,
+      direction: template.direction,
+      points: completionPoints,
+      fibonacciRatios,
+      prz,
+      completion: {
+        isComplete,
+        projectedD,
+        confidenceScore: this.calculateConfidenceScore(fibonacciRatios),
+        validationScore
+      },
+      tradingLevels: { entry: 0, stopLoss: 0, targets: [], riskRewardRatio: 0 },
+      reliability: template.reliability
+    };
+    
+    pattern.tradingLevels = this.calculateTradingLevels(pattern, isComplete ? undefined : projectedD);
+    
+    return pattern;
+  }
+  
+  /**
+   * Validate a Fibonacci ratio against a template range
    */
   private validateRatio(
     actualRatio: number,
-    expectedRatio: number,
+    range: RatioRange,
     tolerance: number
   ): FibonacciRatio {
-    const deviation = Math.abs(actualRatio - expectedRatio) / expectedRatio;
-    const isValid = deviation <= tolerance;
+    const deviation = Math.abs(actualRatio - range.ideal) / range.ideal;
+    const isValid = actualRatio >= range.min * (1 - tolerance) && actualRatio <= range.max * (1 + tolerance);
     
     return {
-      ratio: expectedRatio,
+      ratio: range.ideal,
       tolerance,
       isValid,
       actualRatio,
@@ -445,108 +503,62 @@ export class HarmonicPatternDetector {
   }
   
   /**
-   * Check if pivot sequence matches pattern direction
+   * Measure a LEG_BASE ratio, or undefined when a point is missing
    */
-  private isValidPivotSequence(
-    x: PricePoint,
-    a: PricePoint,
-    b: PricePoint,
-    c: PricePoint,
-    direction: 'bullish' | 'bearish'
-  ): boolean {
-    if (direction === 'bullish') {
-      // Bullish: X high, A low, B high, C low
-      return x.price > a.price && b.price > a.price && c.price < b.price;
-    } else {
-      // Bearish: X low, A high, B low, C high
-      return x.price < a.price && b.price < a.price && c.price > b.price;
-    }
+  private measureRatio(points: PatternPoints, key: RatioKey): number | undefined {
+    const [legStart, legEnd, baseStart, baseEnd] = [0, 1, 3, 4]
+      .map(i => points[key.charAt(i) as PatternPointName]);
+    
+    if (!legStart || !legEnd || !baseStart || !baseEnd) return undefined;
+    
+    const base = Math.abs(baseEnd.price - baseStart.price);
+    return base > 0 ? Math.abs(legEnd.price - legStart.price) / base : undefined;
   }
   
   /**
-   * Check if time sequence is valid
+   * Check every ratio that can already be measured
    */
-  private isValidTimeSequence(
-    x: PricePoint,
-    a: PricePoint,
-    b: PricePoint,
-    c: PricePoint
-  ): boolean {
-    const xa_bars = a.index - x.index;
-    const ab_bars = b.index - a.index;
-    const bc_bars = c.index - b.index;
-    
-    return (
-      xa_bars >= this.MIN_PATTERN_BARS &&
-      ab_bars >= this.MIN_PATTERN_BARS &&
-      bc_bars >= this.MIN_PATTERN_BARS &&
-      (c.index - x.index) <= this.MAX_PATTERN_BARS
-    );
+  private ratiosHoldSoFar(points: PatternPoints, template: PatternTemplate): boolean {
+    return Object.values(this.validateFibonacciRatios(points, template)).every(ratio => ratio!.isValid);
   }
   
   /**
-   * Validate partial Fibonacci ratios (for incomplete patterns)
+   * Whether a named point is a swing high for the pattern direction
    */
-  private validatePartialFibonacciRatios(
-    points: { X: PricePoint; A: PricePoint; B: PricePoint; C: PricePoint },
-    template: PatternTemplate
-  ): { AB_XA: FibonacciRatio; BC_AB: FibonacciRatio } {
-    const { X, A, B, C } = points;
-    
-    const xaDistance = Math.abs(A.price - X.price);
-    const abDistance = Math.abs(B.price - A.price);
-    const bcDistance = Math.abs(C.price - B.price);
-    
-    const ab_xa_ratio = abDistance / xaDistance;
-    const bc_ab_ratio = bcDistance / abDistance;
-    
-    const AB_XA = this.validateRatio(
-      ab_xa_ratio,
-      template.ratios.AB_XA.ideal,
-      this.FIBONACCI_TOLERANCE
-    );
-    
-    const BC_AB = this.validateRatio(
-      bc_ab_ratio,
-      template.ratios.BC_AB.ideal,
-      this.FIBONACCI_TOLERANCE
-    );
-    
-    return { AB_XA, BC_AB };
+  private isHighPoint(name: PatternPointName, direction: 'bullish' | 'bearish'): boolean {
+    // Bullish: O, A and C are highs; X, B and D are lows. Bearish mirrors it.
+    const bullishHigh = name === 'O' || name === 'A' || name === 'C';
+    return direction === 'bullish' ? bullishHigh : !bullishHigh;
   }
   
   /**
-   * Calculate D point projection
+   * Check that consecutive points alternate between swing lows and highs
    */
-  private calculateDPointProjection(
-    pattern: HarmonicPattern,
-    template: PatternTemplate
-  ): number {
-    const { A, C } = pattern.points;
-    const bcDistance = Math.abs(C.price - pattern.points.B.price);
-    
-    // Use CD/BC ratio to project D point
-    const cdDistance = bcDistance * template.ratios.CD_BC.ideal;
-    
-    if (pattern.direction === 'bullish') {
-      return C.price - cdDistance; // D should be below C for bullish pattern
-    } else {
-      return C.price + cdDistance; // D should be above C for bearish pattern
-    }
+  private isValidPivotSequence(
+    previous: PricePoint,
+    current: PricePoint,
+    currentIsHigh: boolean
+  ): boolean {
+    return currentIsHigh ? current.price > previous.price : current.price < previous.price;
   }
   
   /**
-   * Find nearest pivot to projected price
+   * Find the first swing after C that trades into the PRZ
    */
-  private findNearestPivot(
+  private findPivotInZone(
     pivots: PricePoint[],
-    projectedPrice: number,
-    afterIndex: number
+    prz: PotentialReversalZone,
+    c: PricePoint,
+    direction: 'bullish' | 'bearish'
   ): number {
-    const tolerance = projectedPrice * 0.02; // 2% tolerance
+    const tolerance = prz.center * 0.02; // 2% tolerance
     
-    for (let i = afterIndex + 1; i < pivots.length; i++) {
-      if (Math.abs(pivots[i].price - projectedPrice) <= tolerance) {
+    for (let i = 0; i < pivots.length; i++) {
+      const pivot = pivots[i];
+      if (pivot.index <= c.index) continue;
+      if (!this.isValidPivotSequence(c, pivot, direction === 'bearish')) continue;
+      
+      if (pivot.price >= prz.low - tolerance && pivot.price <= prz.high + tolerance) {
         return i;
       }
     }
@@ -561,59 +573,32 @@ export class HarmonicPatternDetector {
     ratios: HarmonicPattern['fibonacciRatios'],
     template: PatternTemplate
   ): number {
-    let score = 0;
-    let totalRatios = 0;
-    
-    if (ratios.AB_XA.isValid) score += (1 - ratios.AB_XA.deviation);
-    totalRatios++;
-    
-    if (ratios.BC_AB.isValid) score += (1 - ratios.BC_AB.deviation);
-    totalRatios++;
+    const measured = Object.values(ratios);
+    const score = measured
+      .filter(ratio => ratio!.isValid)
+      .reduce((sum, ratio) => sum + Math.max(0, 1 - ratio!.deviation), 0);
     
-    if (ratios.CD_BC) {
-      if (ratios.CD_BC.isValid) score += (1 - ratios.CD_BC.deviation);
-      totalRatios++;
-    }
-    
-    if (ratios.AD_XA) {
-      if (ratios.AD_XA.isValid) score += (1 - ratios.AD_XA.deviation);
-      totalRatios++;
-    }
-    
-    return totalRatios > 0 ? score / totalRatios : 0;
+    return measured.length > 0 ? score / measured.length : 0;
   }
   
   /**
    * Calculate confidence score
    */
   private calculateConfidenceScore(ratios: HarmonicPattern['fibonacciRatios']): number {
-    const validRatios = [
-      ratios.AB_XA,
-      ratios.BC_AB,
-      ratios.CD_BC,
-      ratios.AD_XA
-    ].filter(ratio => ratio?.isValid).length;
-    
-    const totalRatios = [
-      ratios.AB_XA,
-      ratios.BC_AB,
-      ratios.CD_BC,
-      ratios.AD_XA
-    ].filter(ratio => ratio !== undefined).length;
-    
-    return totalRatios > 0 ? (validRatios / totalRatios) * 100 : 0;
+    const measured = Object.values(ratios);
+    const validRatios = measured.filter(ratio => ratio?.isValid).length;
+    
+    return measured.length > 0 ? (validRatios / measured.length) * 100 : 0;
   }
   
   /**
    * Calculate average pattern duration
    */
   private calculateAveragePatternDuration(pattern: HarmonicPattern): number {
-    const { X, A, B, C } = pattern.points;
-    const xa_duration = A.index - X.index;
-    const ab_duration = B.index - A.index;
-    const bc_duration = C.index - B.index;
+    const { O, X, A, B, C } = pattern.points;
+    const legs = [O, X, A, B, C].filter((point): point is PricePoint => point !== undefined);
     
-    return (xa_duration + ab_duration + bc_duration) / 3;
+    return (C.index - legs[0].index) / (legs.length - 1);
   }
   
   /**
@@ -671,7 +656,8 @@ export class HarmonicPatternDetector {
    * Get recommended timeframe
    */
   private getRecommendedTimeframe(pattern: HarmonicPattern): string {
-    const patternDuration = pattern.points.C.index - pattern.points.X.index;
+    const { O, X, A, C } = pattern.points;
+    const patternDuration = C.index - (O || X || A).index;
     
     if (patternDuration < 50) return '1h-4h';
     if (patternDuration < 100) return '4h-1d';
@@ -705,6 +691,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('gartley_bullish', {
       type: 'gartley',
       direction: 'bullish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.568, max: 0.618, ideal: 0.618 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -718,6 +705,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('gartley_bearish', {
       type: 'gartley',
       direction: 'bearish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.568, max: 0.618, ideal: 0.618 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -732,6 +720,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('butterfly_bullish', {
       type: 'butterfly',
       direction: 'bullish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.786, max: 0.786, ideal: 0.786 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -745,6 +734,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('butterfly_bearish', {
       type: 'butterfly',
       direction: 'bearish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.786, max: 0.786, ideal: 0.786 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -759,6 +749,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('bat_bullish', {
       type: 'bat',
       direction: 'bullish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.382, max: 0.5, ideal: 0.382 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -772,6 +763,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('bat_bearish', {
       type: 'bat',
       direction: 'bearish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.382, max: 0.5, ideal: 0.382 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -786,6 +778,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('crab_bullish', {
       type: 'crab',
       direction: 'bullish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.382, max: 0.618, ideal: 0.618 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -799,6 +792,7 @@ export class HarmonicPatternDetector {
     this.patternTemplates.set('crab_bearish', {
       type: 'crab',
       direction: 'bearish',
+      points: XABCD_POINTS,
       ratios: {
         AB_XA: { min: 0.382, max: 0.618, ideal: 0.618 },
         BC_AB: { min: 0.382, max: 0.886, ideal: 0.618 },
@@ -808,6 +802,83 @@ export class HarmonicPatternDetector {
       description: 'Bearish Crab Pattern',
       reliability: 85
     });
+    
+    (['bullish', 'bearish'] as const).forEach(direction => {
+      const label = direction === 'bullish' ? 'Bullish' : 'Bearish';
+      
+      // Cypher Pattern: C extends beyond A, D retraces XC
+      this.patternTemplates.set(`cypher_${direction}`, {
+        type: 'cypher',
+        direction,
+        points: XABCD_POINTS,
+        ratios: {
+          AB_XA: { min: 0.382, max: 0.618, ideal: 0.5 },
+          XC_XA: { min: 1.272, max: 1.414, ideal: 1.272 },
+          CD_XC: { min: 0.786, max: 0.786, ideal: 0.786 }
+        },
+        description: `${label} Cypher Pattern`,
+        reliability: 75
+      });
+      
+      // Shark Pattern: C extends AB, D completes near X
+      this.patternTemplates.set(`shark_${direction}`, {
+        type: 'shark',
+        direction,
+        points: XABCD_POINTS,
+        ratios: {
+          AB_XA: { min: 0.382, max: 0.618, ideal: 0.5 },
+          BC_AB: { min: 1.13, max: 1.618, ideal: 1.272 },
+          CD_BC: { min: 1.618, max: 2.24, ideal: 1.618 },
+          CD_XC: { min: 0.886, max: 1.13, ideal: 0.886 }
+        },
+        description: `${label} Shark Pattern`,
+        reliability: 70
+      });
+      
+      // AB=CD Pattern: CD mirrors AB
+      this.patternTemplates.set(`abcd_${direction}`, {
+        type: 'abcd',
+        direction,
+        points: ['A', 'B', 'C', 'D'],
+        ratios: {
+          BC_AB: { min: 0.618, max: 0.786, ideal: 0.618 },
+          CD_BC: { min: 1.272, max: 1.618, ideal: 1.618 },
+          CD_AB: { min: 1.0, max: 1.0, ideal: 1.0 }
+        },
+        description: `${label} AB=CD Pattern`,
+        reliability: 65
+      });
+      
+      // 5-0 Pattern: B overshoots X, C overshoots A, D retraces half of BC
+      this.patternTemplates.set(`five_zero_${direction}`, {
+        type: 'five_zero',
+        direction,
+        points: ['O', 'X', 'A', 'B', 'C', 'D'],
+        ratios: {
+          XA_OX: { min: 0.382, max: 0.886, ideal: 0.618 },
+          AB_XA: { min: 1.13, max: 1.618, ideal: 1.272 },
+          BC_AB: { min: 1.618, max: 2.24, ideal: 1.618 },
+          CD_BC: { min: 0.5, max: 0.5, ideal: 0.5 }
+        },
+        description: `${label} 5-0 Pattern`,
+        reliability: 70
+      });
+      
+      // Three Drives Pattern: drives O->X, A->B, C->D separated by two corrections
+      this.patternTemplates.set(`three_drives_${direction}`, {
+        type: 'three_drives',
+        direction,
+        points: ['O', 'X', 'A', 'B', 'C', 'D'],
+        ratios: {
+          XA_OX: { min: 0.618, max: 0.786, ideal: 0.618 },
+          AB_XA: { min: 1.272, max: 1.618, ideal: 1.272 },
+          BC_AB: { min: 0.618, max: 0.786, ideal: 0.618 },
+          CD_BC: { min: 1.272, max: 1.618, ideal: 1.272 }
+        },
+        description: `${label} Three Drives Pattern`,
+        reliability: 65
+      });
+    });
   }
   
   /**
@@ -822,7 +893,7 @@ export class HarmonicPatternDetector {
    */
   getAvailablePatternTypes(): string[] {
     return Array.from(new Set(
-      Array.from(this.patternTemplates.keys()).map(key => key.split('_')[0])
+      Array.from(this.patternTemplates.values()).map(template => template.type)
     ));
   }
 }
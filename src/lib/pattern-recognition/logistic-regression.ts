@@ -0,0 +1,192 @@
+/**
+ * @fileOverview Logistic Regression Classifier
+ *
+ * Dependency-free binary classifier used by MLPatternDetector to turn
+ * pattern features into a calibrated success probability:
+ * - Per-feature standardization fitted on the training split
+ * - Full-batch gradient descent with L2 regularization
+ * - Early stopping on validation log-loss
+ * - JSON serialization of the fitted weights
+ */
+
+export interface ClassifierTrainingOptions {
+  learningRate: number;
+  epochs: number;
+  l2: number;
+  earlyStoppingPatience: number; // Epochs without validation improvement before stopping
+}
+
+export interface ClassifierMetrics {
+  trainSamples: number;
+  validationSamples: number;
+  epochs: number;
+  trainLoss: number;
+  validationLoss: number;
+  trainAccuracy: number;
+  validationAccuracy: number;
+}
+
+export interface SerializedClassifier {
+  featureNames: string[];
+  weights: number[];
+  bias: number;
+  means: number[];
+  stds: number[];
+}
+
+const DEFAULT_OPTIONS: ClassifierTrainingOptions = {
+  learningRate: 0.1,
+  epochs: 500,
+  l2: 0.01,
+  earlyStoppingPatience: 25
+};
+
+export class LogisticRegressionClassifier {
+  private weights: number[];
+  private bias = 0;
+  private means: number[];
+  private stds: number[];
+
+  constructor(readonly featureNames: string[]) {
+    this.weights = new Array(featureNames.length).fill(0);
+    this.means = new Array(featureNames.length).fill(0);
+    this.stds = new Array(featureNames.length).fill(1);
+  }
+
+  /**
+   * Fit the model; validation data drives early stopping when provided
+   */
+  train(
+    trainX: number[][],
+    trainY: number[],
+    validationX: number[][] = [],
+    validationY: number[] = [],
+    options: Partial<ClassifierTrainingOptions> = {}
+  ): ClassifierMetrics {
+    const { learningRate, epochs, l2, earlyStoppingPatience } = { ...DEFAULT_OPTIONS, ...options };
+
+    if (trainX.length === 0) {
+      throw new Error('Cannot train classifier without examples');
+    }
+    if (trainX.some(row => row.length !== this.featureNames.length)) {
+      throw new Error(`Expected ${this.featureNames.length} features per example`);
+    }
+
+    this.fitScaler(trainX);
+    const scaledTrain = trainX.map(row => this.scale(row));
+    const scaledValidation = validationX.map(row => this.scale(row));
+
+    // Start from the base rate so an uninformative model predicts the prior
+    const positiveRate = clampProbability(trainY.reduce((sum, y) => sum + y, 0) / trainY.length);
+    this.weights = new Array(this.featureNames.length).fill(0);
+    this.bias = Math.log(positiveRate / (1 - positiveRate));
+
+    let best = { loss: Infinity, weights: [...this.weights], bias: this.bias, epoch: 0 };
+    let epoch = 0;
+
+    for (epoch = 1; epoch <= epochs; epoch++) {
+      const gradient = new Array(this.weights.length).fill(0);
+      let biasGradient = 0;
+
+      scaledTrain.forEach((row, i) => {
+        const error = this.predictScaled(row) - trainY[i];
+        row.forEach((value, j) => {
+          gradient[j] += error * value;
+        });
+        biasGradient += error;
+      });
+
+      const n = scaledTrain.length;
+      this.weights = this.weights.map((w, j) => w - learningRate * (gradient[j] / n + l2 * w));
+      this.bias -= learningRate * (biasGradient / n);
+
+      const monitorX = scaledValidation.length > 0 ? scaledValidation : scaledTrain;
+      const monitorY = scaledValidation.length > 0 ? validationY : trainY;
+      const loss = this.logLoss(monitorX, monitorY);
+
+      if (loss < best.loss - 1e-6) {
+        best = { loss, weights: [...this.weights], bias: this.bias, epoch };
+      } else if (epoch - best.epoch >= earlyStoppingPatience) {
+        break;
+      }
+    }
+
+    this.weights = best.weights;
+    this.bias = best.bias;
+
+    return {
+      trainSamples: scaledTrain.length,
+      validationSamples: scaledValidation.length,
+      epochs: Math.min(epoch, epochs),
+      trainLoss: this.logLoss(scaledTrain, trainY),
+      validationLoss: scaledValidation.length > 0 ? this.logLoss(scaledValidation, validationY) : NaN,
+      trainAccuracy: this.accuracy(scaledTrain, trainY),
+      validationAccuracy: scaledValidation.length > 0 ? this.accuracy(scaledValidation, validationY) : NaN
+    };
+  }
+
+  /**
+   * Probability that the example belongs to the positive class
+   */
+  predictProbability(features: number[]): number {
+    return this.predictScaled(this.scale(features));
+  }
+
+  toJSON(): SerializedClassifier {
+    return {
+      featureNames: [...this.featureNames],
+      weights: [...this.weights],
+      bias: this.bias,
+      means: [...this.means],
+      stds: [...this.stds]
+    };
+  }
+
+  static fromJSON(data: SerializedClassifier): LogisticRegressionClassifier {
+    const lengths = [data.weights.length, data.means.length, data.stds.length];
+    if (lengths.some(length => length !== data.featureNames.length)) {
+      throw new Error('Serialized classifier has inconsistent dimensions');
+    }
+
+    const classifier = new LogisticRegressionClassifier(data.featureNames);
+    classifier.weights = [...data.weights];
+    classifier.bias = data.bias;
+    classifier.means = [...data.means];
+    classifier.stds = [...data.stds];
+    return classifier;
+  }
+
+  private fitScaler(rows: number[][]): void {
+    this.means = this.featureNames.map((_, j) => rows.reduce((sum, row) => sum + row[j], 0) / rows.length);
+    this.stds = this.featureNames.map((_, j) => {
+      const variance = rows.reduce((sum, row) => sum + Math.pow(row[j] - this.means[j], 2), 0) / rows.length;
+      return Math.sqrt(variance) || 1; // Constant features pass through centered
+    });
+  }
+
+  private scale(row: number[]): number[] {
+    return row.map((value, j) => (Number.isFinite(value) ? value - this.means[j] : 0) / this.stds[j]);
+  }
+
+  private predictScaled(row: number[]): number {
+    const z = row.reduce((sum, value, j) => sum + value * this.weights[j], this.bias);
+    return 1 / (1 + Math.exp(-z));
+  }
+
+  private logLoss(rows: number[][], labels: number[]): number {
+    const total = rows.reduce((sum, row, i) => {
+      const p = clampProbability(this.predictScaled(row));
+      return sum - (labels[i] * Math.log(p) + (1 - labels[i]) * Math.log(1 - p));
+    }, 0);
+    return total / rows.length;
+  }
+
+  private accuracy(rows: number[][], labels: number[]): number {
+    const correct = rows.filter((row, i) => (this.predictScaled(row) >= 0.5 ? 1 : 0) === labels[i]).length;
+    return correct / rows.length;
+  }
+}
+
+function clampProbability(p: number): number {
+  return Math.min(Math.max(p, 1e-6), 1 - 1e-6);
+}
@@ -2,13 +2,16 @@
  * @fileOverview Market Microstructure Analyzer
  * 
  * This module provides institutional-grade market microstructure analysis including:
- * - Order flow analysis
+ * - Order flow analysis, from footprint candles when available
  * - Bid-ask spread dynamics
  * - Liquidity assessment
  * - Market depth analysis
  * - Smart money flow detection
  */
 
+import { estimateMarketImpact, getMidPrice } from '../data-providers/order-book-depth';
+import type { FootprintCandle, StackedImbalance } from './footprint-aggregator';
+
 export interface OrderBookData {
   timestamp: number;
   bids: OrderLevel[];
@@ -46,6 +49,8 @@ export interface OrderFlowMetrics {
   aggressiveRatio: number;
   passiveRatio: number;
   volumeWeightedPrice: number;
+  cumulativeDelta?: number; // Footprint only
+  stackedImbalances?: StackedImbalance[]; // Footprint only, latest candle
 }
 
 export interface LiquidityMetrics {
@@ -103,6 +108,8 @@ export class MarketMicrostructureAnalyzer {
   private readonly SPREAD_THRESHOLD = 0.005; // 0.5% spread threshold
   private readonly LIQUIDITY_LOOKBACK = 100; // Lookback for liquidity calculations
   private readonly FLOW_WINDOW = 50; // Window for flow calculations
+  private readonly IMPACT_NOTIONAL = 100000; // Quote size of the standard trade used for impact cost
+  private readonly NEAR_TOUCH_LEVELS = 10; // Levels per side counted as near-touch depth
   
   private recentTrades: TradeData[] = [];
   private recentOrderBooks: OrderBookData[] = [];
@@ -114,7 +121,8 @@ export class MarketMicrostructureAnalyzer {
   analyzeMarketMicrostructure(
     orderBookData: OrderBookData[],
     tradeData: TradeData[],
-    currentPrice: number
+    currentPrice: number,
+    footprint?: FootprintCandle[]
   ): MarketMicrostructureAnalysis {
     // Update internal data
     this.recentOrderBooks = orderBookData.slice(-this.LIQUIDITY_LOOKBACK);
@@ -123,7 +131,7 @@ export class MarketMicrostructureAnalyzer {
     
     // Analyze different components
     const spreadAnalysis = this.analyzeSpread(orderBookData, currentPrice);
-    const orderFlow = this.analyzeOrderFlow(tradeData);
+    const orderFlow = this.analyzeOrderFlow(tradeData, footprint);
     const liquidity = this.analyzeLiquidity(orderBookData);
     const smartMoney = this.detectSmartMoneyFlow(tradeData);
     
@@ -153,7 +161,8 @@ export class MarketMicrostructureAnalyzer {
    */
   detectMicrostructureSignals(
     orderBookData: OrderBookData[],
-    tradeData: TradeData[]
+    tradeData: TradeData[],
+    footprint?: FootprintCandle[]
   ): MicrostructureSignal[] {
     const signals: MicrostructureSignal[] = [];
     
@@ -165,6 +174,11 @@ export class MarketMicrostructureAnalyzer {
     const flowSignals = this.detectFlowImbalances(tradeData);
     signals.push(...flowSignals);
     
+    // Detect stacked footprint imbalances
+    if (footprint && footprint.length > 0) {
+      signals.push(...this.detectStackedImbalanceSignals(footprint[footprint.length - 1]));
+    }
+    
     // Detect spread anomalies
     const spreadSignals = this.detectSpreadAnomalies(orderBookData);
     signals.push(...spreadSignals);
@@ -185,12 +199,11 @@ export class MarketMicrostructureAnalyzer {
     }
     
     const latestBook = orderBookData[orderBookData.length - 1];
-    const bestBid = latestBook.bids[0]?.price || 0;
-    const bestAsk = latestBook.asks[0]?.price || Infinity;
-    
-    const bidAskSpread = bestAsk - bestBid;
-    const midPrice = (bestBid + bestAsk) / 2;
-    const spreadPercent = (bidAskSpread / midPrice) * 100;
+    const midPrice = getMidPrice(latestBook) ?? currentPrice;
+    const bidAskSpread = latestBook.bids.length > 0 && latestBook.asks.length > 0
+      ? latestBook.asks[0].price - latestBook.bids[0].price
+      : 0;
+    const spreadPercent = midPrice > 0 ? (bidAskSpread / midPrice) * 100 : 0;
     
     // Calculate spread trend
     const spreadTrend = this.calculateSpreadTrend(orderBookData);
@@ -199,7 +212,7 @@ export class MarketMicrostructureAnalyzer {
     const liquidity = this.assessLiquidityLevel(latestBook);
     
     // Calculate impact cost for a standard trade size
-    const impactCost = this.calculateImpactCost(latestBook, currentPrice);
+    const impactCost = this.calculateImpactCost(latestBook, this.IMPACT_NOTIONAL);
     
     return {
       bidAskSpread,
@@ -212,9 +225,14 @@ export class MarketMicrostructureAnalyzer {
   }
   
   /**
-   * Analyzes order flow metrics
+   * Analyzes order flow metrics; footprint candles replace the raw trade
+   * window for volume, delta and VWAP
    */
-  private analyzeOrderFlow(tradeData: TradeData[]): OrderFlowMetrics {
+  private analyzeOrderFlow(tradeData: TradeData[], footprint?: FootprintCandle[]): OrderFlowMetrics {
+    if (footprint && footprint.length > 0) {
+      return this.analyzeFootprintFlow(tradeData, footprint);
+    }
+    
     if (tradeData.length === 0) {
       return {
         buyPressure: 50,
@@ -263,6 +281,40 @@ export class MarketMicrostructureAnalyzer {
     };
   }
   
+  /**
+   * Order flow from footprint candles: aggressor volume and delta over the
+   * candles, cumulative delta and the latest candle's stacked imbalances
+   */
+  private analyzeFootprintFlow(tradeData: TradeData[], footprint: FootprintCandle[]): OrderFlowMetrics {
+    const buyVolume = footprint.reduce((sum, candle) => sum + candle.buyVolume, 0);
+    const sellVolume = footprint.reduce((sum, candle) => sum + candle.sellVolume, 0);
+    const totalVolume = buyVolume + sellVolume;
+    const netFlow = buyVolume - sellVolume;
+    const buyPressure = totalVolume > 0 ? (buyVolume / totalVolume) * 100 : 50;
+    
+    let tradedValue = 0;
+    footprint.forEach(candle => {
+      candle.levels.forEach(level => {
+        tradedValue += level.price * (level.askVolume + level.bidVolume);
+      });
+    });
+    
+    const aggressiveRatio = this.calculateAggressiveRatio(tradeData.slice(-this.FLOW_WINDOW));
+    const latestCandle = footprint[footprint.length - 1];
+    
+    return {
+      buyPressure,
+      sellPressure: 100 - buyPressure,
+      netFlow,
+      flowImbalance: totalVolume > 0 ? Math.abs(netFlow) / totalVolume : 0,
+      aggressiveRatio,
+      passiveRatio: 1 - aggressiveRatio,
+      volumeWeightedPrice: totalVolume > 0 ? tradedValue / totalVolume : 0,
+      cumulativeDelta: latestCandle.cumulativeDelta,
+      stackedImbalances: latestCandle.stackedImbalances
+    };
+  }
+  
   /**
    * Analyzes liquidity metrics
    */
@@ -419,26 +471,20 @@ export class MarketMicrostructureAnalyzer {
   }
   
   /**
-   * Calculate impact cost for trading
+   * Calculate impact cost for trading: average slippage from mid of a market
+   * buy and sell of the given notional, walked through the book
    */
-  private calculateImpactCost(orderBook: OrderBookData, tradeSize: number): number {
-    // Simplified impact cost calculation
-    const midPrice = ((orderBook.asks[0]?.price || 0) + (orderBook.bids[0]?.price || 0)) / 2;
-    const spread = (orderBook.asks[0]?.price || 0) - (orderBook.bids[0]?.price || 0);
-    
-    // Base impact is half the spread
-    let impactCost = spread / 2;
-    
-    // Add size-based impact
-    const totalNearLiquidity = orderBook.bids.slice(0, 5).reduce((sum, level) => sum + level.size, 0) +
-                              orderBook.asks.slice(0, 5).reduce((sum, level) => sum + level.size, 0);
-    
-    if (totalNearLiquidity > 0) {
-      const sizeImpact = (tradeSize / totalNearLiquidity) * midPrice * 0.001; // 0.1% per 100% of liquidity
-      impactCost += sizeImpact;
-    }
-    
-    return impactCost;
+  private calculateImpactCost(orderBook: OrderBookData, notional: number): number {
+    const midPrice = getMidPrice(orderBook);
+    if (midPrice === null) return 0;
+    
+    // When the visible book is thinner than the order, the remainder is charged at the deepest visible price
+    const slippages = (['buy', 'sell'] as const).map(side => {
+      const impact = estimateMarketImpact(orderBook, side, notional);
+      const unfilled = Math.max(0, notional - impact.filledNotional);
+      return (impact.slippage * impact.filledNotional + Math.abs(impact.worstPrice - midPrice) * unfilled) / notional;
+    });
+    return (slippages[0] + slippages[1]) / 2;
   }
   
   /**
@@ -470,24 +516,41 @@ export class MarketMicrostructureAnalyzer {
   }
   
   /**
-   * Calculate liquidity resiliency
+   * Calculate liquidity resiliency: the share of near-touch depth drops that
+   * are replenished within the next few books
    */
   private calculateLiquidityResiliency(orderBookData: OrderBookData[]): number {
     if (orderBookData.length < 5) return 50; // Default value
     
-    // Measure how quickly liquidity recovers after being consumed
-    const liquidityLevels = orderBookData.slice(-10).map(book => 
-      book.bids.reduce((sum, level) => sum + level.size, 0) +
-      book.asks.reduce((sum, level) => sum + level.size, 0)
+    const depthLevels = orderBookData.map(book =>
+      book.bids.slice(0, this.NEAR_TOUCH_LEVELS).reduce((sum, level) => sum + level.size, 0) +
+      book.asks.slice(0, this.NEAR_TOUCH_LEVELS).reduce((sum, level) => sum + level.size, 0)
     );
     
-    const avgLiquidity = liquidityLevels.reduce((a, b) => a + b) / liquidityLevels.length;
-    const liquidityStability = liquidityLevels.reduce((sum, level) => {
-      return sum + Math.abs(level - avgLiquidity);
-    }, 0) / liquidityLevels.length;
+    const RECOVERY_WINDOW = 3;
+    let drops = 0;
+    let recoveries = 0;
+    
+    for (let i = 1; i < depthLevels.length - RECOVERY_WINDOW; i++) {
+      const before = depthLevels[i - 1];
+      if (before <= 0 || depthLevels[i] >= before * 0.8) continue;
+      
+      drops++;
+      if (depthLevels.slice(i + 1, i + 1 + RECOVERY_WINDOW).some(depth => depth >= before * 0.9)) {
+        recoveries++;
+      }
+    }
+    
+    if (drops > 0) {
+      return (recoveries / drops) * 100;
+    }
     
-    // Lower instability means higher resiliency
-    return Math.max(0, Math.min(100, 100 - (liquidityStability / avgLiquidity) * 100));
+    // No depth was consumed; fall back to how stable depth has been
+    const recent = depthLevels.slice(-10);
+    const avgDepth = recent.reduce((a, b) => a + b) / recent.length;
+    if (avgDepth <= 0) return 0;
+    const instability = recent.reduce((sum, depth) => sum + Math.abs(depth - avgDepth), 0) / recent.length;
+    return Math.max(0, Math.min(100, 100 - (instability / avgDepth) * 100));
   }
   
   /**
@@ -655,6 +718,17 @@ export class MarketMicrostructureAnalyzer {
     return signals;
   }
   
+  private detectStackedImbalanceSignals(candle: FootprintCandle): MicrostructureSignal[] {
+    return candle.stackedImbalances.map(stack => ({
+      type: 'flow_imbalance' as const,
+      strength: Math.min(100, stack.levels * 20),
+      direction: stack.direction,
+      timeframe: 1, // The latest footprint candle
+      description: `${stack.levels} stacked ${stack.direction === 'bullish' ? 'buy' : 'sell'} imbalances from ${stack.lowPrice} to ${stack.highPrice}`,
+      actionable: true
+    }));
+  }
+  
   private detectSpreadAnomalies(orderBookData: OrderBookData[]): MicrostructureSignal[] {
     const signals: MicrostructureSignal[] = [];
     
@@ -0,0 +1,96 @@
+import os from 'os';
+import path from 'path';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { MLPatternDetector, type TrainingExample } from './ml-pattern-detector';
+
+// Zigzag closes: each pair of bars moves down by `down` and back up by `up`
+function zigzag(start: number, pairs: number, down: number, up: number): number[] {
+  const closes: number[] = [];
+  let price = start;
+  for (let i = 0; i < pairs; i++) {
+    price -= down;
+    closes.push(price);
+    price += up;
+    closes.push(price);
+  }
+  return closes;
+}
+
+describe('MLPatternDetector.extractFeatures', () => {
+  let detector: MLPatternDetector;
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    detector = new MLPatternDetector(path.join(os.tmpdir(), 'ml-pattern-detector-test-models'));
+  });
+
+  // A steep decline that slows down: lower closes, rising RSI
+  const slowingDecline = [...zigzag(200, 20, 3, 1), ...zigzag(160, 10, 1.2, 1)];
+  const volumes = slowingDecline.map((_, i) => 100 + (i % 5) * 10);
+
+  it('computes the same features for the same input', () => {
+    expect(detector.extractFeatures(slowingDecline, volumes, '1h'))
+      .toEqual(detector.extractFeatures(slowingDecline, volumes, '1h'));
+  });
+
+  it('scores RSI divergence by the direction price and RSI disagree in', () => {
+    const bullish = detector.extractFeatures(slowingDecline, volumes, '1h').rsiDivergence;
+    const bearish = detector.extractFeatures(slowingDecline.map(price => 400 - price), volumes, '1h').rsiDivergence;
+
+    expect(bullish).toBeGreaterThan(0);
+    expect(bearish).toBeCloseTo(-bullish, 10);
+  });
+
+  it('leaves MACD at 0 until the slow average has warmed up', () => {
+    const rising = Array.from({ length: 40 }, (_, i) => 100 * Math.pow(1.01, i));
+
+    expect(detector.extractFeatures(rising.slice(0, 24), volumes.slice(0, 24), '1h').macdSignal).toBe(0);
+    expect(detector.extractFeatures(rising, volumes.slice(0, 40), '1h').macdSignal).toBeGreaterThan(0);
+  });
+});
+
+describe('MLPatternDetector predictions', () => {
+  const HOUR = 60 * 60 * 1000;
+  const series = Array.from({ length: 400 }, (_, i) => 100 + 10 * Math.sin(i / 9) + 4 * Math.sin(i / 2.3));
+  const volumes = series.map((_, i) => 100 + (i * 37 % 50));
+
+  // Windows labelled by whether the next 5 bars closed higher
+  const examples = (detector: MLPatternDetector): TrainingExample[] => Array.from({ length: 60 }, (_, n) => {
+    const end = 50 + n * 5;
+    const actualMove = (series[end + 5] - series[end - 1]) / series[end - 1];
+    return {
+      id: `example-${n}`,
+      timestamp: end * HOUR,
+      asset: 'BTC',
+      timeframe: '1h',
+      features: detector.extractFeatures(series.slice(end - 50, end), volumes.slice(end - 50, end), '1h'),
+      patternType: 'bull_flag',
+      outcome: { success: actualMove > 0, actualMove, timeToTarget: 5, maxDrawdown: 0 }
+    };
+  });
+
+  const trainedDetector = (): MLPatternDetector => {
+    const detector = new MLPatternDetector(path.join(os.tmpdir(), 'ml-pattern-detector-test-models'));
+    detector.addTrainingExamples(examples(detector));
+    detector.trainModels();
+    return detector;
+  };
+
+  beforeAll(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('fits the same model and predicts the same patterns twice on the same input', async () => {
+    const first = trainedDetector();
+    const second = trainedDetector();
+    expect(second.exportModels().models).toEqual(first.exportModels().models);
+
+    const window = series.slice(-50);
+    const windowVolumes = volumes.slice(-50);
+    const predictions = await first.detectPatterns(window, windowVolumes, '1h');
+    // The fitted bull_flag classifier clears the confidence threshold
+    expect(predictions).toContainEqual(expect.objectContaining({ patternType: 'bull_flag' }));
+    expect(await first.detectPatterns(window, windowVolumes, '1h')).toEqual(predictions);
+    expect(await second.detectPatterns(window, windowVolumes, '1h')).toEqual(predictions);
+  });
+});
@@ -7,8 +7,20 @@
  * - Historical success rate tracking
  * - Confidence scoring based on pattern quality
  * - Multi-timeframe pattern correlation
+ * - Per-pattern logistic regression classifiers trained on TrainingExample
+ *   features, persisted as versioned JSON model files
  */
 
+import { promises as fs } from 'fs';
+import path from 'path';
+import { computeIndicatorSeries, pricesToCandles, StreamingMACD, StreamingRSI } from '../streaming-indicators';
+import {
+  LogisticRegressionClassifier,
+  type ClassifierMetrics,
+  type ClassifierTrainingOptions,
+  type SerializedClassifier
+} from './logistic-regression';
+
 export interface PatternFeatures {
   // Price action features
   priceRange: number;
@@ -43,6 +55,7 @@ export interface PatternPrediction {
   riskRewardRatio: number;
   features: PatternFeatures;
   similarity: number;
+  modelVersion?: number; // Set when confidence comes from a fitted classifier
 }
 
 export interface TrainingExample {
@@ -70,14 +83,64 @@ export interface PatternModel {
   lastUpdated: number;
 }
 
+export interface ModelTrainingOptions extends Partial<ClassifierTrainingOptions> {
+  validationSplit: number; // Most recent fraction of examples held out for validation
+  minExamples: number; // Patterns with fewer examples keep heuristic scoring
+}
+
+export interface PatternModelFile {
+  formatVersion: number;
+  version: number;
+  createdAt: number;
+  featureNames: string[];
+  models: {
+    [patternType: string]: {
+      classifier: SerializedClassifier;
+      metrics: ClassifierMetrics;
+    };
+  };
+}
+
+/**
+ * True candle extremes aligned with the close series; closes stand in when omitted
+ */
+export interface CandleRange {
+  highs: number[];
+  lows: number[];
+}
+
+// v2: rsiDivergence and macdSignal are computed from the closes; v1 models were fitted to random values
+export const MODEL_FORMAT_VERSION = 2;
+
+// Order of the vector produced by featuresToVector
+export const PATTERN_FEATURE_NAMES = [
+  'priceRange', 'volatility', 'momentum', 'trendStrength',
+  'volumeTrend', 'volumeConfirmation', 'rsiDivergence', 'macdSignal',
+  'fibonacciLevel', 'supportResistance', 'higherHighs', 'higherLows',
+  'structureBreak', 'liquidityZone'
+];
+
+const DIVERGENCE_LOOKBACK = 14; // Bars between the closes compared for RSI divergence
+
+const DEFAULT_TRAINING_OPTIONS: ModelTrainingOptions = {
+  validationSplit: 0.2,
+  minExamples: 30
+};
+
 export class MLPatternDetector {
   private trainingData: Map<string, TrainingExample[]> = new Map();
   private patternModels: Map<string, PatternModel> = new Map();
   private featureWeights: Map<string, number> = new Map();
-  
-  constructor() {
+  private classifiers: Map<string, { classifier: LogisticRegressionClassifier; metrics: ClassifierMetrics }> = new Map();
+  private modelVersion: number | null = null;
+  private modelsReady: Promise<void>;
+  
+  constructor(
+    private readonly modelDirectory: string = process.env.ML_PATTERN_MODEL_DIR
+      || path.join(process.cwd(), '.data', 'models', 'ml-pattern')
+  ) {
     this.initializeModels();
-    this.loadTrainingData();
+    this.modelsReady = this.loadTrainingData();
   }
   
   /**
@@ -87,9 +150,11 @@ export class MLPatternDetector {
     priceData: number[],
     volumeData: number[],
     timeframe: string,
-    asset: string = 'BTC'
+    asset: string = 'BTC',
+    candleRange?: CandleRange
   ): Promise<PatternPrediction[]> {
-    const features = this.extractFeatures(priceData, volumeData, timeframe);
+    await this.modelsReady;
+    const features = this.extractFeatures(priceData, volumeData, timeframe, candleRange);
     const predictions: PatternPrediction[] = [];
     
     // Analyze each pattern type
@@ -110,17 +175,20 @@ export class MLPatternDetector {
   /**
    * Extracts comprehensive features from price and volume data
    */
-  private extractFeatures(
+  extractFeatures(
     priceData: number[],
     volumeData: number[],
-    timeframe: string
+    timeframe: string,
+    candleRange?: CandleRange
   ): PatternFeatures {
     const length = Math.min(priceData.length, volumeData.length);
     const prices = priceData.slice(-length);
     const volumes = volumeData.slice(-length);
+    const highs = candleRange ? candleRange.highs.slice(-length) : prices;
+    const lows = candleRange ? candleRange.lows.slice(-length) : prices;
     
     // Price action features
-    const priceRange = (Math.max(...prices) - Math.min(...prices)) / prices[0];
+    const priceRange = (Math.max(...highs) - Math.min(...lows)) / prices[0];
     const volatility = this.calculateVolatility(prices);
     const momentum = this.calculateMomentum(prices);
     const trendStrength = this.calculateTrendStrength(prices);
@@ -133,12 +201,12 @@ export class MLPatternDetector {
     // Technical features
     const rsiDivergence = this.calculateRSIDivergence(prices);
     const macdSignal = this.calculateMACDSignal(prices);
-    const fibonacciLevel = this.calculateFibonacciLevel(prices);
+    const fibonacciLevel = this.calculateFibonacciLevel(prices, highs, lows);
     const supportResistance = this.calculateSRLevel(prices);
     
     // Market structure
-    const higherHighs = this.detectHigherHighs(prices);
-    const higherLows = this.detectHigherLows(prices);
+    const higherHighs = this.detectHigherHighs(highs);
+    const higherLows = this.detectHigherLows(lows);
     const structureBreak = this.detectStructureBreak(prices);
     const liquidityZone = this.detectLiquidityZone(prices, volumes);
     
@@ -177,8 +245,11 @@ export class MLPatternDetector {
     // Calculate similarity with historical patterns
     const similarity = this.calculateSimilarity(features, patternType);
     
-    // Neural network-inspired classification
-    const confidence = this.calculateNeuralNetworkScore(features, patternType);
+    // Fitted classifier when one has been trained for this pattern, heuristic scoring otherwise
+    const trained = this.classifiers.get(patternType);
+    const confidence = trained
+      ? trained.classifier.predictProbability(this.featuresToVector(features))
+      : this.calculateNeuralNetworkScore(features, patternType);
     
     // Get historical success rate for this pattern
     const historicalSuccessRate = model.successRate;
@@ -197,7 +268,8 @@ export class MLPatternDetector {
       timeframe,
       riskRewardRatio,
       features,
-      similarity
+      similarity,
+      modelVersion: trained ? this.modelVersion ?? undefined : undefined
     };
   }
   
@@ -355,19 +427,36 @@ export class MLPatternDetector {
   }
   
   // Additional technical calculation methods
+  /**
+   * RSI divergence against the close `DIVERGENCE_LOOKBACK` bars earlier:
+   * price lower with RSI higher gives the (positive) RSI gain as a 0-1
+   * fraction, price higher with RSI lower gives the (negative) RSI loss, and
+   * agreement or too little history gives 0
+   */
   private calculateRSIDivergence(prices: number[]): number {
-    // Simplified RSI divergence detection
-    return Math.random() * 0.5; // Placeholder - would implement full RSI calculation
+    const rsi = computeIndicatorSeries(new StreamingRSI(), pricesToCandles(prices));
+    const last = prices.length - 1;
+    const earlier = last - DIVERGENCE_LOOKBACK;
+    if (earlier < 0 || rsi[last] === null || rsi[earlier] === null) return 0;
+    
+    const priceChange = prices[last] - prices[earlier];
+    const rsiChange = (rsi[last]! - rsi[earlier]!) / 100;
+    return Math.sign(priceChange) === -Math.sign(rsiChange) ? rsiChange : 0;
   }
   
+  /**
+   * MACD histogram relative to the last close: positive while the MACD line
+   * is above its signal line, 0 until MACD has warmed up
+   */
   private calculateMACDSignal(prices: number[]): number {
-    // Simplified MACD signal
-    return Math.random() * 0.5; // Placeholder
+    const macd = computeIndicatorSeries(new StreamingMACD(), pricesToCandles(prices));
+    const latest = macd[macd.length - 1];
+    return latest ? latest.histogram / prices[prices.length - 1] : 0;
   }
   
-  private calculateFibonacciLevel(prices: number[]): number {
-    const high = Math.max(...prices);
-    const low = Math.min(...prices);
+  private calculateFibonacciLevel(prices: number[], highs: number[] = prices, lows: number[] = prices): number {
+    const high = Math.max(...highs);
+    const low = Math.min(...lows);
     const current = prices[prices.length - 1];
     
     // Check proximity to key Fibonacci levels
@@ -393,24 +482,24 @@ export class MLPatternDetector {
     return levels.length / prices.length;
   }
   
-  private detectHigherHighs(prices: number[]): number {
+  private detectHigherHighs(highs: number[]): number {
     let higherHighs = 0;
-    for (let i = 2; i < prices.length; i++) {
-      if (prices[i] > prices[i - 1] && prices[i - 1] > prices[i - 2]) {
+    for (let i = 2; i < highs.length; i++) {
+      if (highs[i] > highs[i - 1] && highs[i - 1] > highs[i - 2]) {
         higherHighs++;
       }
     }
-    return higherHighs / prices.length;
+    return higherHighs / highs.length;
   }
   
-  private detectHigherLows(prices: number[]): number {
+  private detectHigherLows(lows: number[]): number {
     let higherLows = 0;
-    for (let i = 2; i < prices.length; i++) {
-      if (prices[i] > prices[i - 1] && prices[i - 1] > prices[i - 2]) {
+    for (let i = 2; i < lows.length; i++) {
+      if (lows[i] > lows[i - 1] && lows[i - 1] > lows[i - 2]) {
         higherLows++;
       }
     }
-    return higherLows / prices.length;
+    return higherLows / lows.length;
   }
   
   private detectStructureBreak(prices: number[]): number {
@@ -528,6 +617,23 @@ export class MLPatternDetector {
     this.updateModel(patternType);
   }
   
+  /**
+   * Add a batch of training examples, updating each pattern model once
+   */
+  addTrainingExamples(examples: TrainingExample[]): void {
+    const patternTypes = new Set<string>();
+    
+    examples.forEach(example => {
+      if (!this.trainingData.has(example.patternType)) {
+        this.trainingData.set(example.patternType, []);
+      }
+      this.trainingData.get(example.patternType)!.push(example);
+      patternTypes.add(example.patternType);
+    });
+    
+    patternTypes.forEach(patternType => this.updateModel(patternType));
+  }
+  
   /**
    * Update model based on new training data
    */
@@ -561,6 +667,156 @@ export class MLPatternDetector {
       bestTimeframes,
       lastUpdated: Date.now()
     });
+    
+    // Keep reporting out-of-sample accuracy once a classifier is fitted
+    const trained = this.classifiers.get(patternType);
+    if (trained) {
+      this.applyClassifierAccuracy(patternType, trained.metrics);
+    }
+  }
+  
+  /**
+   * Train a classifier per pattern type on its examples' features.
+   * Examples are split chronologically so validation never precedes training data.
+   */
+  trainModels(options: Partial<ModelTrainingOptions> = {}): Map<string, ClassifierMetrics> {
+    const { validationSplit, minExamples, ...classifierOptions } = { ...DEFAULT_TRAINING_OPTIONS, ...options };
+    const results = new Map<string, ClassifierMetrics>();
+    
+    for (const [patternType, examples] of this.trainingData) {
+      if (examples.length < minExamples) continue;
+      
+      const sorted = [...examples].sort((a, b) => a.timestamp - b.timestamp);
+      const splitIndex = Math.floor(sorted.length * (1 - validationSplit));
+      const train = sorted.slice(0, splitIndex);
+      const validation = sorted.slice(splitIndex);
+      
+      const labels = train.map(e => e.outcome.success ? 1 : 0);
+      if (!labels.includes(0) || !labels.includes(1)) {
+        console.warn(`Skipping ${patternType}: training split needs both successful and failed examples`);
+        continue;
+      }
+      
+      const classifier = new LogisticRegressionClassifier(PATTERN_FEATURE_NAMES);
+      const metrics = classifier.train(
+        train.map(e => this.featuresToVector(e.features)),
+        labels,
+        validation.map(e => this.featuresToVector(e.features)),
+        validation.map(e => e.outcome.success ? 1 : 0),
+        classifierOptions
+      );
+      
+      this.classifiers.set(patternType, { classifier, metrics });
+      this.applyClassifierAccuracy(patternType, metrics);
+      results.set(patternType, metrics);
+    }
+    
+    if (results.size > 0) {
+      this.modelVersion = null; // Unsaved until saveModels assigns a version
+    }
+    
+    return results;
+  }
+  
+  /**
+   * Serialize fitted classifiers
+   */
+  exportModels(): PatternModelFile {
+    const models: PatternModelFile['models'] = {};
+    this.classifiers.forEach(({ classifier, metrics }, patternType) => {
+      models[patternType] = { classifier: classifier.toJSON(), metrics };
+    });
+    
+    return {
+      formatVersion: MODEL_FORMAT_VERSION,
+      version: this.modelVersion ?? 0,
+      createdAt: Date.now(),
+      featureNames: PATTERN_FEATURE_NAMES,
+      models
+    };
+  }
+  
+  /**
+   * Replace fitted classifiers with a serialized model set
+   */
+  importModels(file: PatternModelFile): void {
+    if (file.formatVersion !== MODEL_FORMAT_VERSION) {
+      throw new Error(`Unsupported model format v${file.formatVersion} (expected v${MODEL_FORMAT_VERSION})`);
+    }
+    if (file.featureNames.join(',') !== PATTERN_FEATURE_NAMES.join(',')) {
+      throw new Error(`Model v${file.version} was trained on a different feature set`);
+    }
+    
+    this.classifiers.clear();
+    Object.entries(file.models).forEach(([patternType, { classifier, metrics }]) => {
+      this.classifiers.set(patternType, { classifier: LogisticRegressionClassifier.fromJSON(classifier), metrics });
+      this.applyClassifierAccuracy(patternType, metrics);
+    });
+    this.modelVersion = file.version;
+  }
+  
+  /**
+   * Write fitted classifiers as the next model version
+   */
+  async saveModels(): Promise<{ version: number; filePath: string }> {
+    if (this.classifiers.size === 0) {
+      throw new Error('No trained models to save');
+    }
+    
+    await fs.mkdir(this.modelDirectory, { recursive: true });
+    const versions = await this.listModelVersions();
+    const version = (versions[versions.length - 1] || 0) + 1;
+    const filePath = this.getModelPath(version);
+    
+    this.modelVersion = version;
+    await fs.writeFile(filePath, JSON.stringify(this.exportModels(), null, 2), 'utf-8');
+    return { version, filePath };
+  }
+  
+  /**
+   * Load a specific model version, or the latest one
+   */
+  async loadModels(version?: number): Promise<number> {
+    const versions = await this.listModelVersions();
+    const target = version ?? versions[versions.length - 1];
+    
+    if (target === undefined || !versions.includes(target)) {
+      throw new Error(`Model version ${version ?? 'latest'} not found in ${this.modelDirectory}`);
+    }
+    
+    const content = await fs.readFile(this.getModelPath(target), 'utf-8');
+    this.importModels(JSON.parse(content));
+    return target;
+  }
+  
+  /**
+   * Saved model versions in ascending order
+   */
+  async listModelVersions(): Promise<number[]> {
+    let files: string[] = [];
+    try {
+      files = await fs.readdir(this.modelDirectory);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') throw error;
+    }
+    
+    return files
+      .map(file => file.match(/^model-v(\d+)\.json$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .sort((a, b) => a - b);
+  }
+  
+  private getModelPath(version: number): string {
+    return path.join(this.modelDirectory, `model-v${version}.json`);
+  }
+  
+  private applyClassifierAccuracy(patternType: string, metrics: ClassifierMetrics): void {
+    const model = this.patternModels.get(patternType);
+    if (!model) return;
+    
+    model.accuracy = Number.isFinite(metrics.validationAccuracy) ? metrics.validationAccuracy : metrics.trainAccuracy;
+    model.lastUpdated = Date.now();
   }
   
   /**
@@ -587,12 +843,21 @@ export class MLPatternDetector {
   }
   
   /**
-   * Load historical training data (placeholder)
+   * Load the latest saved model version, if any
    */
-  private loadTrainingData(): void {
-    // In a real implementation, this would load from a database
-    // For now, we'll start with empty training data
-    console.log('ML Pattern Detector initialized with default models');
+  private async loadTrainingData(): Promise<void> {
+    try {
+      const versions = await this.listModelVersions();
+      if (versions.length === 0) {
+        console.log('ML Pattern Detector initialized with default models');
+        return;
+      }
+      
+      const version = await this.loadModels();
+      console.log(`ML Pattern Detector loaded model v${version} (${this.classifiers.size} trained patterns)`);
+    } catch (error) {
+      console.warn('Failed to load ML pattern models, using heuristic scoring:', error);
+    }
   }
   
   /**
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { PriceData } from '../advanced-technical-indicators';
+import { SupportResistanceEngine } from './support-resistance-engine';
+
+// A range between ~100 and ~120 that drifts up, so the last close sits near the top
+const candles: PriceData[] = Array.from({ length: 120 }, (_, i) => {
+  const close = 110 + 10 * Math.sin(i / 4) + i * 0.05;
+  return {
+    timestamp: i * 3600000,
+    open: close - 0.5,
+    high: close + 1,
+    low: close - 1,
+    close,
+    volume: 1000 + (i % 7) * 100
+  };
+});
+
+describe('SupportResistanceEngine.analyze', () => {
+  const engine = new SupportResistanceEngine();
+
+  it('finds support and resistance levels around the last close', () => {
+    const analysis = engine.analyze(candles);
+
+    expect(analysis.currentPrice).toBe(candles[candles.length - 1].close);
+    expect(analysis.levels.length).toBeGreaterThan(0);
+    analysis.support.forEach(level => expect(level.type).toBe('support'));
+    analysis.resistance.forEach(level => expect(level.type).toBe('resistance'));
+  });
+
+  it('gives newest-first candles the same levels as chronological ones', () => {
+    expect(engine.analyze([...candles].reverse())).toEqual(engine.analyze(candles));
+  });
+});
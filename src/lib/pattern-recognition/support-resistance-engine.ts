@@ -0,0 +1,215 @@
+/**
+ * @fileOverview Support/Resistance Engine
+ *
+ * Builds support and resistance zones by clustering swing pivots instead of
+ * counting exact price matches:
+ * - Pivots within an ATR-scaled tolerance merge into one level, so the same
+ *   rules hold for BTC at $60k and for sub-cent tokens
+ * - Each touch is weighted by its relative volume and decays with age
+ * - Levels touched as both support and resistance are flagged as flipped
+ *   (role reversal) and scored higher
+ * - Levels carry a 0-100 strength score, their zone bounds and the full
+ *   touch history
+ */
+
+import type { PriceData } from '../advanced-technical-indicators';
+import { StreamingATR, computeIndicatorSeries } from '../streaming-indicators';
+
+export type LevelRole = 'support' | 'resistance';
+
+export interface LevelTouch {
+  index: number;
+  timestamp: number;
+  price: number;
+  role: LevelRole; // Swing lows act as support, swing highs as resistance
+  volume: number;
+  weight: number; // Relative volume times recency decay
+}
+
+export interface SupportResistanceLevel {
+  price: number; // Weighted center of the touches
+  lowerBound: number;
+  upperBound: number;
+  type: LevelRole; // Relative to the current price
+  strength: number; // 0-100
+  touches: LevelTouch[]; // Oldest first
+  firstTouch: number; // Timestamps
+  lastTouch: number;
+  flipped: boolean; // Has acted as both support and resistance
+  roleChanges: number;
+}
+
+export interface SupportResistanceAnalysis {
+  currentPrice: number;
+  atr: number;
+  tolerance: number;
+  levels: SupportResistanceLevel[]; // Strongest first
+  support: SupportResistanceLevel[]; // Below the current price, nearest first
+  resistance: SupportResistanceLevel[]; // Above the current price, nearest first
+}
+
+export interface SupportResistanceOptions {
+  pivotStrength?: number; // Bars on each side a swing must exceed
+  atrPeriod?: number;
+  toleranceATR?: number; // Cluster radius in ATRs
+  recencyHalfLife?: number; // Bars for a touch's weight to halve
+  minTouches?: number;
+  maxLevels?: number; // Per side
+}
+
+const DEFAULT_OPTIONS: Required<SupportResistanceOptions> = {
+  pivotStrength: 3,
+  atrPeriod: 14,
+  toleranceATR: 0.5,
+  recencyHalfLife: 100,
+  minTouches: 1,
+  maxLevels: 8
+};
+
+export class SupportResistanceEngine {
+  private readonly MIN_VOLUME_WEIGHT = 0.5;
+  private readonly MAX_VOLUME_WEIGHT = 3;
+  private readonly STRENGTH_SCALE = 2; // Touch weight that scores about 63
+  private readonly FLIP_BONUS = 1.25;
+
+  /**
+   * Clustered support/resistance levels for the candles, classified against the
+   * last close. Candles are put in chronological order first, since touch
+   * recency and the current price depend on it.
+   */
+  analyze(priceData: PriceData[], options: SupportResistanceOptions = {}): SupportResistanceAnalysis {
+    const settings = { ...DEFAULT_OPTIONS, ...options };
+    const candles = [...priceData].sort((a, b) => a.timestamp - b.timestamp);
+    const currentPrice = candles.length > 0 ? candles[candles.length - 1].close : 0;
+    const atr = this.getATR(candles, settings.atrPeriod);
+    const tolerance = atr * settings.toleranceATR;
+
+    if (candles.length < settings.pivotStrength * 2 + 1 || !(tolerance > 0)) {
+      return { currentPrice, atr, tolerance, levels: [], support: [], resistance: [] };
+    }
+
+    const touches = this.findTouches(candles, settings);
+    const levels = this.clusterTouches(touches, tolerance)
+      .filter(cluster => cluster.length >= settings.minTouches)
+      .map(cluster => this.buildLevel(cluster, currentPrice))
+      .sort((a, b) => b.strength - a.strength);
+
+    const support = levels
+      .filter(level => level.type === 'support')
+      .sort((a, b) => b.price - a.price)
+      .slice(0, settings.maxLevels);
+    const resistance = levels
+      .filter(level => level.type === 'resistance')
+      .sort((a, b) => a.price - b.price)
+      .slice(0, settings.maxLevels);
+
+    return { currentPrice, atr, tolerance, levels, support, resistance };
+  }
+
+  /**
+   * Swing highs and lows as weighted touches, oldest first
+   */
+  private findTouches(priceData: PriceData[], settings: Required<SupportResistanceOptions>): LevelTouch[] {
+    const strength = settings.pivotStrength;
+    const lastIndex = priceData.length - 1;
+    const averageVolume = priceData.reduce((sum, candle) => sum + candle.volume, 0) / priceData.length;
+    const touches: LevelTouch[] = [];
+
+    for (let i = strength; i < priceData.length - strength; i++) {
+      let isHigh = true;
+      let isLow = true;
+
+      for (let j = i - strength; j <= i + strength; j++) {
+        if (j === i) continue;
+        if (priceData[j].high >= priceData[i].high) isHigh = false;
+        if (priceData[j].low <= priceData[i].low) isLow = false;
+      }
+      if (!isHigh && !isLow) continue;
+
+      const candle = priceData[i];
+      const volumeWeight = averageVolume > 0
+        ? Math.max(this.MIN_VOLUME_WEIGHT, Math.min(this.MAX_VOLUME_WEIGHT, candle.volume / averageVolume))
+        : 1;
+      const weight = volumeWeight * Math.pow(0.5, (lastIndex - i) / settings.recencyHalfLife);
+
+      if (isHigh) {
+        touches.push({ index: i, timestamp: candle.timestamp, price: candle.high, role: 'resistance', volume: candle.volume, weight });
+      }
+      if (isLow) {
+        touches.push({ index: i, timestamp: candle.timestamp, price: candle.low, role: 'support', volume: candle.volume, weight });
+      }
+    }
+
+    return touches;
+  }
+
+  /**
+   * Single pass over touches sorted by price; a touch joins the current
+   * cluster while it is within tolerance of the cluster's weighted center
+   */
+  private clusterTouches(touches: LevelTouch[], tolerance: number): LevelTouch[][] {
+    const clusters: LevelTouch[][] = [];
+    let current: LevelTouch[] = [];
+    let weightedSum = 0;
+    let totalWeight = 0;
+
+    [...touches]
+      .sort((a, b) => a.price - b.price)
+      .forEach(touch => {
+        if (current.length > 0 && touch.price - weightedSum / totalWeight > tolerance) {
+          clusters.push(current);
+          current = [];
+          weightedSum = 0;
+          totalWeight = 0;
+        }
+        current.push(touch);
+        weightedSum += touch.price * touch.weight;
+        totalWeight += touch.weight;
+      });
+
+    if (current.length > 0) clusters.push(current);
+    return clusters;
+  }
+
+  private buildLevel(cluster: LevelTouch[], currentPrice: number): SupportResistanceLevel {
+    const touches = [...cluster].sort((a, b) => a.index - b.index);
+    const totalWeight = touches.reduce((sum, touch) => sum + touch.weight, 0);
+    const price = touches.reduce((sum, touch) => sum + touch.price * touch.weight, 0) / totalWeight;
+
+    let roleChanges = 0;
+    for (let i = 1; i < touches.length; i++) {
+      if (touches[i].role !== touches[i - 1].role) roleChanges++;
+    }
+    const flipped = roleChanges > 0;
+
+    const score = totalWeight * (flipped ? this.FLIP_BONUS : 1);
+    const strength = Math.round(100 * (1 - Math.exp(-score / this.STRENGTH_SCALE)));
+
+    return {
+      price,
+      lowerBound: Math.min(...touches.map(touch => touch.price)),
+      upperBound: Math.max(...touches.map(touch => touch.price)),
+      type: price <= currentPrice ? 'support' : 'resistance',
+      strength,
+      touches,
+      firstTouch: touches[0].timestamp,
+      lastTouch: touches[touches.length - 1].timestamp,
+      flipped,
+      roleChanges
+    };
+  }
+
+  /**
+   * Latest ATR, or the mean bar range when there is not enough data for one
+   */
+  private getATR(priceData: PriceData[], period: number): number {
+    const atr = computeIndicatorSeries(new StreamingATR(period), priceData).pop();
+    if (atr !== null && atr !== undefined) return atr;
+
+    if (priceData.length === 0) return 0;
+    return priceData.reduce((sum, candle) => sum + (candle.high - candle.low), 0) / priceData.length;
+  }
+}
+
+// Singleton instance
+export const supportResistanceEngine = new SupportResistanceEngine();
@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { KlineData } from '../data-providers/real-time-data-provider';
+import type { ChartPatternDetector, DetectedChartPattern } from './chart-pattern-detector';
+import { TrainingDatasetGenerator, chartPatternLabelSpecs } from './training-dataset-generator';
+
+const HOUR = 60 * 60 * 1000;
+
+const klines: KlineData[] = Array.from({ length: 60 }, (_, i) => ({
+  symbol: 'BTCUSDT',
+  exchange: 'binance',
+  interval: '1h',
+  openTime: i * HOUR,
+  closeTime: (i + 1) * HOUR - 1,
+  open: 100,
+  high: 101,
+  low: 99,
+  close: 100,
+  volume: 10,
+  trades: 1
+}));
+
+describe('chartPatternLabelSpecs', () => {
+  it('labels windows with the detector pattern names once per breakout', () => {
+    // A double top whose breakout lands on candle 32 of the series
+    const detectPatterns = vi.fn((candles: { timestamp: number }[]): Partial<DetectedChartPattern>[] => {
+      const breakoutIndex = candles.findIndex(candle => candle.timestamp === 32 * HOUR);
+      return breakoutIndex === -1 ? [] : [{ type: 'double_top', direction: 'bearish', status: 'confirmed', breakoutIndex }];
+    });
+    const detector = { detectPatterns } as unknown as ChartPatternDetector;
+    const generator = new TrainingDatasetGenerator({
+      lookbackBars: 30,
+      stepBars: 5,
+      horizonBars: 5,
+      patterns: chartPatternLabelSpecs(5, detector)
+    });
+
+    const examples = generator.generate(klines);
+
+    expect(examples.map(example => [example.patternType, example.timestamp])).toEqual([['double_top', 35 * HOUR - 1]]);
+    // One detection per window, shared by every spec
+    expect(detectPatterns).toHaveBeenCalledTimes(6);
+  });
+
+  it('covers every chart pattern type by default', () => {
+    const generator = new TrainingDatasetGenerator();
+    const { config } = generator.buildDataset(klines.slice(0, 10));
+
+    expect(config.patterns.map(spec => spec.patternType)).toEqual([
+      'double_top', 'double_bottom', 'head_shoulders', 'inverse_head_shoulders',
+      'ascending_triangle', 'descending_triangle', 'wedge_rising', 'wedge_falling',
+      'bull_flag', 'bear_flag', 'rectangle', 'rectangle'
+    ]);
+    expect(config.patterns.every(spec => spec.filtered)).toBe(true);
+    expect(config.patterns.find(spec => spec.patternType === 'bull_flag')?.direction).toBe('long');
+  });
+});
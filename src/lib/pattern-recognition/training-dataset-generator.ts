@@ -0,0 +1,338 @@
+/**
+ * @fileOverview Training Dataset Generator
+ *
+ * Builds labelled TrainingExamples for MLPatternDetector from historical
+ * klines:
+ * - Slides a lookback window over the candles and extracts PatternFeatures
+ *   with the detector's own feature functions
+ * - By default labels a window with each chart pattern ChartPatternDetector
+ *   confirms near its end, using the pattern names the ML models are keyed by
+ * - Labels the forward outcome over a configurable horizon: success when the
+ *   target is reached before the stop, plus actual move, time to target and
+ *   max drawdown
+ * - Writes versioned datasets (examples plus generation metadata and a hash
+ *   of the source candles) so models can be retrained reproducibly
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { KlineData } from '../data-providers/real-time-data-provider';
+import { mlPatternDetector, PATTERN_FEATURE_NAMES, type MLPatternDetector, type PatternFeatures, type TrainingExample } from './ml-pattern-detector';
+import { chartPatternDetector, type ChartPatternDetector, type ChartPatternType, type DetectedChartPattern } from './chart-pattern-detector';
+
+export interface PatternLabelSpec {
+  patternType: string;
+  direction: 'long' | 'short';
+  /** Restrict which windows count as this pattern; every window qualifies when omitted */
+  matches?: (features: PatternFeatures, window: KlineData[]) => boolean;
+}
+
+export interface DatasetGeneratorConfig {
+  lookbackBars: number; // Candles fed to feature extraction
+  stepBars: number; // Candles between consecutive samples
+  horizonBars: number; // Forward candles used to label the outcome
+  targetPercent: number; // Favorable move that counts as success
+  stopPercent: number; // Adverse move that counts as failure
+  patterns: PatternLabelSpec[];
+}
+
+export interface TrainingDataset {
+  version: number;
+  createdAt: number;
+  featureNames: string[];
+  source: {
+    symbol: string;
+    exchange: string;
+    interval: string;
+    from: number;
+    to: number;
+    klineCount: number;
+    sha256: string; // Hash of the source OHLCV, to verify reproductions
+  };
+  config: Omit<DatasetGeneratorConfig, 'patterns'> & {
+    patterns: { patternType: string; direction: 'long' | 'short'; filtered: boolean }[];
+  };
+  stats: { [patternType: string]: { examples: number; successRate: number } };
+  examples: TrainingExample[];
+}
+
+const DEFAULT_CONFIG: Omit<DatasetGeneratorConfig, 'patterns'> = {
+  lookbackBars: 50,
+  stepBars: 5,
+  horizonBars: 24,
+  targetPercent: 2,
+  stopPercent: 1
+};
+
+// Rectangles break either way, so they are labelled in both directions
+const CHART_PATTERN_DIRECTIONS: [ChartPatternType, 'bullish' | 'bearish'][] = [
+  ['double_top', 'bearish'],
+  ['double_bottom', 'bullish'],
+  ['head_shoulders', 'bearish'],
+  ['inverse_head_shoulders', 'bullish'],
+  ['ascending_triangle', 'bullish'],
+  ['descending_triangle', 'bearish'],
+  ['wedge_rising', 'bearish'],
+  ['wedge_falling', 'bullish'],
+  ['bull_flag', 'bullish'],
+  ['bear_flag', 'bearish'],
+  ['rectangle', 'bullish'],
+  ['rectangle', 'bearish']
+];
+
+const DEFAULT_DATASET_DIRECTORY = process.env.ML_PATTERN_DATASET_DIR
+  || path.join(process.cwd(), '.data', 'datasets', 'ml-pattern');
+
+export class TrainingDatasetGenerator {
+  private config: DatasetGeneratorConfig;
+
+  constructor(
+    config: Partial<DatasetGeneratorConfig> = {},
+    private detector: MLPatternDetector = mlPatternDetector
+  ) {
+    const settings = { ...DEFAULT_CONFIG, ...config };
+    this.config = { ...settings, patterns: config.patterns ?? chartPatternLabelSpecs(settings.stepBars) };
+
+    if (this.config.lookbackBars < 2 || this.config.horizonBars < 1 || this.config.stepBars < 1) {
+      throw new Error('lookbackBars must be >= 2, horizonBars and stepBars >= 1');
+    }
+  }
+
+  /**
+   * Label every sampled window that has a complete forward horizon
+   */
+  generate(klines: KlineData[]): TrainingExample[] {
+    const { lookbackBars, stepBars, horizonBars, patterns } = this.config;
+    const sorted = [...klines].sort((a, b) => a.openTime - b.openTime);
+    const examples: TrainingExample[] = [];
+
+    for (let end = lookbackBars; end + horizonBars <= sorted.length; end += stepBars) {
+      const window = sorted.slice(end - lookbackBars, end);
+      const forward = sorted.slice(end, end + horizonBars);
+      const signalBar = window[window.length - 1];
+
+      const features = this.detector.extractFeatures(
+        window.map(k => k.close),
+        window.map(k => k.volume),
+        signalBar.interval,
+        { highs: window.map(k => k.high), lows: window.map(k => k.low) }
+      );
+
+      patterns
+        .filter(spec => !spec.matches || spec.matches(features, window))
+        .forEach(spec => {
+          examples.push({
+            id: `${signalBar.symbol}_${signalBar.interval}_${signalBar.closeTime}_${spec.patternType}`,
+            timestamp: signalBar.closeTime,
+            asset: signalBar.symbol,
+            timeframe: signalBar.interval,
+            features,
+            patternType: spec.patternType,
+            outcome: this.labelOutcome(signalBar.close, signalBar.closeTime, forward, spec.direction)
+          });
+        });
+    }
+
+    return examples;
+  }
+
+  /**
+   * Generate examples and wrap them with dataset metadata (version assigned on save)
+   */
+  buildDataset(klines: KlineData[]): Omit<TrainingDataset, 'version'> {
+    if (klines.length === 0) {
+      throw new Error('Cannot build a dataset from an empty kline series');
+    }
+
+    const sorted = [...klines].sort((a, b) => a.openTime - b.openTime);
+    const examples = this.generate(sorted);
+
+    const stats: TrainingDataset['stats'] = {};
+    examples.forEach(example => {
+      const entry = stats[example.patternType] || { examples: 0, successRate: 0 };
+      entry.successRate = (entry.successRate * entry.examples + (example.outcome.success ? 1 : 0)) / (entry.examples + 1);
+      entry.examples += 1;
+      stats[example.patternType] = entry;
+    });
+
+    const { patterns, ...settings } = this.config;
+
+    return {
+      createdAt: Date.now(),
+      featureNames: PATTERN_FEATURE_NAMES,
+      source: {
+        symbol: sorted[0].symbol,
+        exchange: sorted[0].exchange,
+        interval: sorted[0].interval,
+        from: sorted[0].openTime,
+        to: sorted[sorted.length - 1].closeTime,
+        klineCount: sorted.length,
+        sha256: hashKlines(sorted)
+      },
+      config: {
+        ...settings,
+        patterns: patterns.map(({ patternType, direction, matches }) => ({ patternType, direction, filtered: !!matches }))
+      },
+      stats,
+      examples
+    };
+  }
+
+  /**
+   * Walk the forward candles: target before stop is a success. Stops are
+   * assumed to trade first when both fall inside the same candle.
+   */
+  private labelOutcome(
+    entry: number,
+    entryTime: number,
+    forward: KlineData[],
+    direction: 'long' | 'short'
+  ): TrainingExample['outcome'] {
+    const { targetPercent, stopPercent } = this.config;
+    const sign = direction === 'long' ? 1 : -1;
+    const target = entry * (1 + sign * targetPercent / 100);
+    const stop = entry * (1 - sign * stopPercent / 100);
+    let maxDrawdown = 0;
+
+    for (const bar of forward) {
+      const adverse = direction === 'long' ? bar.low : bar.high;
+      maxDrawdown = Math.max(maxDrawdown, -sign * (adverse - entry) / entry);
+
+      const stopHit = direction === 'long' ? bar.low <= stop : bar.high >= stop;
+      if (stopHit) {
+        return {
+          success: false,
+          actualMove: -stopPercent / 100,
+          timeToTarget: (bar.closeTime - entryTime) / (60 * 60 * 1000),
+          maxDrawdown: Math.max(maxDrawdown, stopPercent / 100)
+        };
+      }
+
+      const targetHit = direction === 'long' ? bar.high >= target : bar.low <= target;
+      if (targetHit) {
+        return {
+          success: true,
+          actualMove: targetPercent / 100,
+          timeToTarget: (bar.closeTime - entryTime) / (60 * 60 * 1000),
+          maxDrawdown
+        };
+      }
+    }
+
+    // Horizon expired: label by the close, success only if the target was reached
+    const last = forward[forward.length - 1];
+    return {
+      success: false,
+      actualMove: sign * (last.close - entry) / entry,
+      timeToTarget: (last.closeTime - entryTime) / (60 * 60 * 1000),
+      maxDrawdown
+    };
+  }
+}
+
+/**
+ * One label spec per chart pattern and direction: a window matches when the
+ * detector confirmed that pattern's breakout within its last `recentBars`
+ * candles. With recentBars equal to stepBars each breakout is labelled once.
+ */
+export function chartPatternLabelSpecs(
+  recentBars: number,
+  detector: ChartPatternDetector = chartPatternDetector
+): PatternLabelSpec[] {
+  // Every spec is checked against the same window, so detect once per window
+  const detections = new WeakMap<KlineData[], DetectedChartPattern[]>();
+  const detect = (window: KlineData[]) => {
+    let patterns = detections.get(window);
+    if (!patterns) {
+      patterns = detector.detectPatterns(window.map(k => ({
+        timestamp: k.openTime,
+        open: k.open,
+        high: k.high,
+        low: k.low,
+        close: k.close,
+        volume: k.volume
+      })));
+      detections.set(window, patterns);
+    }
+    return patterns;
+  };
+
+  return CHART_PATTERN_DIRECTIONS.map(([patternType, direction]) => ({
+    patternType,
+    direction: direction === 'bullish' ? 'long' : 'short',
+    matches: (_features, window) => detect(window).some(pattern =>
+      pattern.type === patternType &&
+      pattern.direction === direction &&
+      pattern.status === 'confirmed' &&
+      pattern.breakoutIndex !== undefined &&
+      pattern.breakoutIndex >= window.length - recentBars
+    )
+  }));
+}
+
+/**
+ * Write a dataset as the next version in the dataset directory
+ */
+export async function saveTrainingDataset(
+  dataset: Omit<TrainingDataset, 'version'>,
+  directory: string = DEFAULT_DATASET_DIRECTORY
+): Promise<{ version: number; filePath: string }> {
+  await fs.mkdir(directory, { recursive: true });
+  const versions = await listDatasetVersions(directory);
+  const version = (versions[versions.length - 1] || 0) + 1;
+  const filePath = path.join(directory, `dataset-v${version}.json`);
+
+  await fs.writeFile(filePath, JSON.stringify({ version, ...dataset }), 'utf-8');
+  return { version, filePath };
+}
+
+/**
+ * Load a specific dataset version, or the latest one
+ */
+export async function loadTrainingDataset(
+  version?: number,
+  directory: string = DEFAULT_DATASET_DIRECTORY
+): Promise<TrainingDataset> {
+  const versions = await listDatasetVersions(directory);
+  const target = version ?? versions[versions.length - 1];
+
+  if (target === undefined || !versions.includes(target)) {
+    throw new Error(`Dataset version ${version ?? 'latest'} not found in ${directory}`);
+  }
+
+  const content = await fs.readFile(path.join(directory, `dataset-v${target}.json`), 'utf-8');
+  const dataset: TrainingDataset = JSON.parse(content);
+
+  if (dataset.featureNames.join(',') !== PATTERN_FEATURE_NAMES.join(',')) {
+    throw new Error(`Dataset v${target} was generated with a different feature set`);
+  }
+
+  return dataset;
+}
+
+/**
+ * Saved dataset versions in ascending order
+ */
+export async function listDatasetVersions(directory: string = DEFAULT_DATASET_DIRECTORY): Promise<number[]> {
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(directory);
+  } catch (error: any) {
+    if (error?.code !== 'ENOENT') throw error;
+  }
+
+  return files
+    .map(file => file.match(/^dataset-v(\d+)\.json$/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+    .map(match => parseInt(match[1], 10))
+    .sort((a, b) => a - b);
+}
+
+function hashKlines(klines: KlineData[]): string {
+  const hash = createHash('sha256');
+  klines.forEach(k => {
+    hash.update(`${k.openTime},${k.open},${k.high},${k.low},${k.close},${k.volume}\n`);
+  });
+  return hash.digest('hex');
+}
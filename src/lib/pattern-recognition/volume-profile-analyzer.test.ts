@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { buildFootprintCandles } from './footprint-aggregator';
+import { VolumeProfileAnalyzer, type PriceVolumeData } from './volume-profile-analyzer';
+
+const candle = (timestamp: number, low: number, high: number, close: number, volume: number): PriceVolumeData => ({
+  timestamp, open: close, high, low, close, volume
+});
+
+describe('VolumeProfileAnalyzer.createVolumeProfile', () => {
+  const analyzer = new VolumeProfileAnalyzer();
+
+  it('keeps the volume of single-price candles at the range maximum', () => {
+    const profile = analyzer.createVolumeProfile([
+      candle(0, 100, 110, 105, 10),
+      candle(1, 110, 110, 110, 7),
+      candle(2, 100, 100, 100, 3)
+    ], 10);
+
+    expect(profile.totalVolume).toBeCloseTo(20, 8);
+    expect(profile.nodes[profile.nodes.length - 1].volume).toBeGreaterThanOrEqual(7);
+    expect(profile.nodes[0].volume).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('VolumeProfileAnalyzer.calculateProfileLevels', () => {
+  const analyzer = new VolumeProfileAnalyzer();
+  const HOUR = 60 * 60 * 1000;
+
+  it('returns the latest session levels and POCs no later bar traded through', () => {
+    // Day one trades around 100, day two stays above 110
+    const data = Array.from({ length: 48 }, (_, i) => i < 24
+      ? candle(i * HOUR, 99, 101, 100, 10)
+      : candle(i * HOUR, 110, 112, 111, 10));
+
+    const levels = analyzer.calculateProfileLevels(data, 'daily', 1, 20);
+
+    expect(levels.map(level => [level.kind, level.label])).toEqual([
+      ['poc', 'Daily 1970-01-02 POC'],
+      ['vah', 'Daily 1970-01-02 VAH'],
+      ['val', 'Daily 1970-01-02 VAL'],
+      ['naked_poc', 'Naked Daily POC 1970-01-01']
+    ]);
+    expect(levels[3].price).toBeGreaterThanOrEqual(99);
+    expect(levels[3].price).toBeLessThanOrEqual(101);
+  });
+});
+
+describe('VolumeProfileAnalyzer.detectVolumeImbalances', () => {
+  const analyzer = new VolumeProfileAnalyzer();
+  const MINUTE = 60 * 1000;
+
+  it('uses footprint volume only for candles the trades fully cover', () => {
+    // Closes at the high read as buying; the trades say the last two candles were sold
+    const data = [
+      candle(0, 100, 110, 110, 10),
+      candle(MINUTE, 120, 130, 130, 10),
+      candle(2 * MINUTE, 140, 150, 150, 10)
+    ];
+    const footprint = buildFootprintCandles([
+      { timestamp: MINUTE + 30000, price: 125, size: 2, side: 'sell' },
+      { timestamp: 2 * MINUTE, price: 145, size: 10, side: 'sell' }
+    ], { intervalMs: MINUTE, priceStep: 1 });
+
+    const imbalances = analyzer.detectVolumeImbalances(data, footprint);
+
+    expect(imbalances.map(imbalance => [imbalance.priceLevel, imbalance.direction]).sort()).toEqual([
+      [110, 'bullish'],
+      [130, 'bullish'],
+      [145, 'bearish']
+    ]);
+  });
+});
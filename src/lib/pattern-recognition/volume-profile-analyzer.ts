@@ -7,8 +7,12 @@
  * - Value Area calculations
  * - Volume imbalance detection
  * - Institutional accumulation/distribution zones
+ * - Session (Asia/London/New York/daily UTC), anchored and composite profiles
+ * - Developing POC/VAH/VAL series and naked POC tracking
  */
 
+import type { FootprintCandle } from './footprint-aggregator';
+
 export interface PriceVolumeData {
   timestamp: number;
   open: number;
@@ -72,11 +76,65 @@ export interface VolumeProfileAnalysis {
   };
 }
 
+export type TradingSession = 'asia' | 'london' | 'new_york' | 'daily';
+
+export interface SessionVolumeProfile {
+  session: TradingSession;
+  startTime: number;
+  endTime: number; // Exclusive
+  profile: VolumeProfile;
+  isComplete: boolean; // Later bars exist, so the session has closed
+}
+
+export interface DevelopingProfilePoint {
+  timestamp: number;
+  pointOfControl: number;
+  valueAreaHigh: number;
+  valueAreaLow: number;
+}
+
+export interface AnchoredVolumeProfile {
+  anchorTime: number;
+  profile: VolumeProfile;
+  developing: DevelopingProfilePoint[];
+}
+
+export interface NakedPointOfControl {
+  price: number;
+  session: TradingSession;
+  sessionStart: number;
+}
+
+export interface VolumeProfileLevel {
+  price: number;
+  kind: 'poc' | 'vah' | 'val' | 'naked_poc';
+  label: string;
+}
+
+// Session windows in UTC hours; London and New York overlap
+const SESSION_HOURS_UTC: { [session in TradingSession]: { start: number; end: number } } = {
+  asia: { start: 0, end: 8 },
+  london: { start: 7, end: 16 },
+  new_york: { start: 13, end: 22 },
+  daily: { start: 0, end: 24 }
+};
+
+const SESSION_LABELS: { [session in TradingSession]: string } = {
+  asia: 'Asia',
+  london: 'London',
+  new_york: 'New York',
+  daily: 'Daily'
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
 export class VolumeProfileAnalyzer {
   private readonly DEFAULT_PROFILE_BINS = 100;
   private readonly VALUE_AREA_PERCENT = 0.70; // 70% of volume
   private readonly HIGH_VOLUME_THRESHOLD = 1.5; // 1.5x average volume
   private readonly IMBALANCE_THRESHOLD = 0.7; // 70% buy or sell volume
+  private readonly FOOTPRINT_COVERAGE = 0.9; // Share of a candle's volume its trades must account for
   
   /**
    * Creates a comprehensive volume profile from price/volume data
@@ -140,13 +198,14 @@ export class VolumeProfileAnalyzer {
   analyzeVolumeProfile(
     data: PriceVolumeData[],
     currentPrice: number,
-    lookbackPeriods: number = 30
+    lookbackPeriods: number = 30,
+    footprint?: FootprintCandle[]
   ): VolumeProfileAnalysis {
     const recentData = data.slice(-lookbackPeriods);
     const profile = this.createVolumeProfile(recentData);
     
     // Detect volume imbalances
-    const imbalances = this.detectVolumeImbalances(recentData);
+    const imbalances = this.detectVolumeImbalances(recentData, footprint);
     
     // Analyze market structure
     const marketStructure = this.analyzeMarketStructure(profile, currentPrice);
@@ -164,50 +223,71 @@ export class VolumeProfileAnalyzer {
   }
   
   /**
-   * Identifies volume imbalances at different price levels
+   * Identifies volume imbalances at different price levels. Candles covered by
+   * footprint candles use the traded bid/ask volume per price; the rest
+   * estimate buy/sell volume from candle shape at their close.
    */
-  detectVolumeImbalances(data: PriceVolumeData[]): VolumeImbalance[] {
-    const imbalances: VolumeImbalance[] = [];
-    
-    // Group data by price levels for imbalance analysis
-    const priceGroups = this.groupByPriceLevels(data);
+  detectVolumeImbalances(data: PriceVolumeData[], footprint: FootprintCandle[] = []): VolumeImbalance[] {
+    const volumeByPrice: Map<number, { buy: number; sell: number }> = new Map();
+    const addVolume = (price: number, buy: number, sell: number) => {
+      const volume = volumeByPrice.get(price) || { buy: 0, sell: 0 };
+      volume.buy += buy;
+      volume.sell += sell;
+      volumeByPrice.set(price, volume);
+    };
     
-    Object.entries(priceGroups).forEach(([priceLevel, candles]) => {
-      const price = parseFloat(priceLevel);
-      let buyVolume = 0;
-      let sellVolume = 0;
-      
-      candles.forEach(candle => {
-        // Estimate buy/sell volume based on price action
-        const { buy, sell } = this.estimateBuySellVolume(candle);
-        buyVolume += buy;
-        sellVolume += sell;
-      });
-      
-      const totalVolume = buyVolume + sellVolume;
-      if (totalVolume === 0) return;
-      
-      const imbalanceRatio = buyVolume / totalVolume;
-      
-      // Identify significant imbalances
-      if (imbalanceRatio > this.IMBALANCE_THRESHOLD || imbalanceRatio < (1 - this.IMBALANCE_THRESHOLD)) {
-        const direction = imbalanceRatio > 0.5 ? 'bullish' : 'bearish';
-        const strength = Math.abs(imbalanceRatio - 0.5) * 200; // 0-100 scale
-        
-        imbalances.push({
-          priceLevel: price,
-          buyVolume,
-          sellVolume,
-          imbalanceRatio,
-          direction,
-          strength
-        });
+    data.forEach(candle => {
+      const traded = this.findCoveringFootprint(candle, footprint);
+      if (traded) {
+        traded.levels.forEach(level => addVolume(level.price, level.askVolume, level.bidVolume));
+        return;
       }
+      
+      // Estimate buy/sell volume based on price action, rounded to the nearest cent
+      const { buy, sell } = this.estimateBuySellVolume(candle);
+      addVolume(Math.round(candle.close * 100) / 100, buy, sell);
+    });
+    
+    const imbalances: VolumeImbalance[] = [];
+    volumeByPrice.forEach(({ buy, sell }, price) => {
+      const imbalance = this.toVolumeImbalance(price, buy, sell);
+      if (imbalance) imbalances.push(imbalance);
     });
     
     return imbalances.sort((a, b) => b.strength - a.strength);
   }
   
+  /**
+   * Footprint candle over the candle's time that holds (nearly) all of its
+   * volume; candles the trade history only partly covers get undefined
+   */
+  private findCoveringFootprint(candle: PriceVolumeData, footprint: FootprintCandle[]): FootprintCandle | undefined {
+    const traded = footprint.find(fp => candle.timestamp >= fp.openTime && candle.timestamp <= fp.closeTime);
+    return traded && traded.volume >= candle.volume * this.FOOTPRINT_COVERAGE ? traded : undefined;
+  }
+  
+  /**
+   * Significant imbalance at a price level, or null when buying and selling are balanced
+   */
+  private toVolumeImbalance(priceLevel: number, buyVolume: number, sellVolume: number): VolumeImbalance | null {
+    const totalVolume = buyVolume + sellVolume;
+    if (totalVolume === 0) return null;
+    
+    const imbalanceRatio = buyVolume / totalVolume;
+    if (imbalanceRatio <= this.IMBALANCE_THRESHOLD && imbalanceRatio >= (1 - this.IMBALANCE_THRESHOLD)) {
+      return null;
+    }
+    
+    return {
+      priceLevel,
+      buyVolume,
+      sellVolume,
+      imbalanceRatio,
+      direction: imbalanceRatio > 0.5 ? 'bullish' : 'bearish',
+      strength: Math.abs(imbalanceRatio - 0.5) * 200 // 0-100 scale
+    };
+  }
+  
   /**
    * Calculates session-based volume profiles (useful for day trading)
    */
@@ -223,6 +303,177 @@ export class VolumeProfileAnalyzer {
     return this.createVolumeProfile(sessionData);
   }
   
+  /**
+   * One profile per UTC session window (or UTC day), oldest first
+   */
+  createSessionProfiles(
+    data: PriceVolumeData[],
+    session: TradingSession = 'daily',
+    bins: number = this.DEFAULT_PROFILE_BINS
+  ): SessionVolumeProfile[] {
+    const hours = SESSION_HOURS_UTC[session];
+    const groups: Map<number, PriceVolumeData[]> = new Map();
+    
+    data.forEach(candle => {
+      const sessionStart = Math.floor(candle.timestamp / DAY_MS) * DAY_MS + hours.start * HOUR_MS;
+      const sessionEnd = sessionStart + (hours.end - hours.start) * HOUR_MS;
+      if (candle.timestamp < sessionStart || candle.timestamp >= sessionEnd) return;
+      
+      const group = groups.get(sessionStart) || [];
+      group.push(candle);
+      groups.set(sessionStart, group);
+    });
+    
+    const lastTimestamp = data.length > 0 ? data[data.length - 1].timestamp : 0;
+    
+    return Array.from(groups.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([startTime, candles]) => {
+        const endTime = startTime + (hours.end - hours.start) * HOUR_MS;
+        return {
+          session,
+          startTime,
+          endTime,
+          profile: this.createVolumeProfile(candles, bins),
+          isComplete: lastTimestamp >= endTime
+        };
+      });
+  }
+  
+  /**
+   * Profile from an arbitrary start bar to the latest bar, with its developing levels
+   */
+  createAnchoredProfile(
+    data: PriceVolumeData[],
+    anchorIndex: number,
+    bins: number = this.DEFAULT_PROFILE_BINS
+  ): AnchoredVolumeProfile {
+    if (anchorIndex < 0 || anchorIndex >= data.length) {
+      throw new Error(`Anchor index ${anchorIndex} is outside the data (0-${data.length - 1})`);
+    }
+    
+    const anchoredData = data.slice(anchorIndex);
+    
+    return {
+      anchorTime: anchoredData[0].timestamp,
+      profile: this.createVolumeProfile(anchoredData, bins),
+      developing: this.calculateDevelopingProfile(anchoredData, bins)
+    };
+  }
+  
+  /**
+   * Composite profile over the last `days` UTC days of the data, including the current day
+   */
+  createCompositeProfile(
+    data: PriceVolumeData[],
+    days: number,
+    bins: number = this.DEFAULT_PROFILE_BINS
+  ): VolumeProfile {
+    if (data.length === 0) {
+      throw new Error('No data available for volume profile calculation');
+    }
+    
+    const lastDayStart = Math.floor(data[data.length - 1].timestamp / DAY_MS) * DAY_MS;
+    return this.createVolumeProfile(data, bins, lastDayStart - (days - 1) * DAY_MS);
+  }
+  
+  /**
+   * POC, VAH and VAL as they stood after each bar. Bins span the whole
+   * window's range so levels stay comparable from bar to bar.
+   */
+  calculateDevelopingProfile(
+    data: PriceVolumeData[],
+    bins: number = this.DEFAULT_PROFILE_BINS
+  ): DevelopingProfilePoint[] {
+    if (data.length === 0) return [];
+    
+    const priceRange = this.calculatePriceRange(data);
+    const binSize = (priceRange.max - priceRange.min) / bins;
+    const nodes = this.createEmptyNodes(priceRange.min, binSize, bins);
+    
+    return data.map(candle => {
+      this.distributeCandleVolume(nodes, candle, priceRange.min, binSize);
+      
+      const pointOfControl = nodes.reduce((max, node) => 
+        node.volume > max.volume ? node : max
+      );
+      const valueArea = this.calculateValueArea(nodes, pointOfControl);
+      
+      return {
+        timestamp: candle.timestamp,
+        pointOfControl: pointOfControl.price,
+        valueAreaHigh: valueArea.high,
+        valueAreaLow: valueArea.low
+      };
+    });
+  }
+  
+  /**
+   * POCs of closed sessions that no later bar has traded through, newest first
+   */
+  findNakedPointsOfControl(
+    data: PriceVolumeData[],
+    sessionProfiles: SessionVolumeProfile[]
+  ): NakedPointOfControl[] {
+    return sessionProfiles
+      .filter(sessionProfile => sessionProfile.isComplete)
+      .filter(sessionProfile => {
+        const poc = sessionProfile.profile.pointOfControl.price;
+        return !data.some(candle => 
+          candle.timestamp >= sessionProfile.endTime && candle.low <= poc && candle.high >= poc
+        );
+      })
+      .map(sessionProfile => ({
+        price: sessionProfile.profile.pointOfControl.price,
+        session: sessionProfile.session,
+        sessionStart: sessionProfile.startTime
+      }))
+      .reverse();
+  }
+  
+  /**
+   * Chart levels for the most recent session profiles and any naked POCs
+   */
+  getProfileLevels(
+    sessionProfiles: SessionVolumeProfile[],
+    nakedPocs: NakedPointOfControl[] = [],
+    recentSessions: number = 1
+  ): VolumeProfileLevel[] {
+    const levels: VolumeProfileLevel[] = [];
+    
+    sessionProfiles.slice(-recentSessions).forEach(({ session, startTime, profile }) => {
+      const name = `${SESSION_LABELS[session]} ${new Date(startTime).toISOString().slice(0, 10)}`;
+      levels.push(
+        { price: profile.pointOfControl.price, kind: 'poc', label: `${name} POC` },
+        { price: profile.valueAreaHigh, kind: 'vah', label: `${name} VAH` },
+        { price: profile.valueAreaLow, kind: 'val', label: `${name} VAL` }
+      );
+    });
+    
+    nakedPocs.forEach(({ price, session, sessionStart }) => {
+      levels.push({
+        price,
+        kind: 'naked_poc',
+        label: `Naked ${SESSION_LABELS[session]} POC ${new Date(sessionStart).toISOString().slice(0, 10)}`
+      });
+    });
+    
+    return levels;
+  }
+  
+  /**
+   * Session levels plus naked POCs for a chart, from candles in chronological order
+   */
+  calculateProfileLevels(
+    data: PriceVolumeData[],
+    session: TradingSession = 'daily',
+    recentSessions: number = 1,
+    bins: number = this.DEFAULT_PROFILE_BINS
+  ): VolumeProfileLevel[] {
+    const sessionProfiles = this.createSessionProfiles(data, session, bins);
+    return this.getProfileLevels(sessionProfiles, this.findNakedPointsOfControl(data, sessionProfiles), recentSessions);
+  }
+  
   /**
    * Compares current volume profile with historical profiles
    */
@@ -291,7 +542,24 @@ export class VolumeProfileAnalyzer {
     binSize: number,
     bins: number
   ): VolumeNode[] {
-    const nodes: VolumeNode[] = Array.from({ length: bins }, (_, i) => ({
+    const nodes = this.createEmptyNodes(minPrice, binSize, bins);
+    
+    data.forEach(candle => this.distributeCandleVolume(nodes, candle, minPrice, binSize));
+    
+    // Calculate imbalance ratios
+    nodes.forEach(node => {
+      const totalVolume = node.buyVolume + node.sellVolume;
+      node.imbalance = totalVolume > 0 ? node.buyVolume / totalVolume : 0.5;
+    });
+    
+    return nodes;
+  }
+  
+  /**
+   * Empty price bins from minPrice upwards
+   */
+  private createEmptyNodes(minPrice: number, binSize: number, bins: number): VolumeNode[] {
+    return Array.from({ length: bins }, (_, i) => ({
       price: minPrice + (i + 0.5) * binSize,
       volume: 0,
       volumePercent: 0,
@@ -300,58 +568,52 @@ export class VolumeProfileAnalyzer {
       sellVolume: 0,
       imbalance: 0
     }));
+  }
+  
+  /**
+   * Add a candle's volume to the bins it spans
+   */
+  private distributeCandleVolume(nodes: VolumeNode[], candle: PriceVolumeData, minPrice: number, binSize: number): void {
+    const bins = nodes.length;
+    const priceRange = candle.high - candle.low;
+    
+    if (priceRange === 0) {
+      // Single price level; a candle at the range maximum belongs to the last bin
+      const binIndex = Math.min(bins - 1, Math.floor((candle.close - minPrice) / binSize));
+      if (binIndex >= 0) {
+        const { buy, sell } = this.estimateBuySellVolume(candle);
+        nodes[binIndex].volume += candle.volume;
+        nodes[binIndex].trades += 1;
+        nodes[binIndex].buyVolume += buy;
+        nodes[binIndex].sellVolume += sell;
+      }
+      return;
+    }
     
-    data.forEach(candle => {
-      // Distribute volume across price range of the candle
-      const priceRange = candle.high - candle.low;
+    // Distribute volume proportionally across the price range
+    const startBin = Math.max(0, Math.floor((candle.low - minPrice) / binSize));
+    const endBin = Math.min(bins - 1, Math.floor((candle.high - minPrice) / binSize));
+    const { buy, sell } = this.estimateBuySellVolume(candle);
+    
+    for (let i = startBin; i <= endBin; i++) {
+      // Calculate portion of volume for this bin
+      let volumePortion = 0;
       
-      if (priceRange === 0) {
-        // Single price level
-        const binIndex = Math.floor((candle.close - minPrice) / binSize);
-        if (binIndex >= 0 && binIndex < bins) {
-          const { buy, sell } = this.estimateBuySellVolume(candle);
-          nodes[binIndex].volume += candle.volume;
-          nodes[binIndex].trades += 1;
-          nodes[binIndex].buyVolume += buy;
-          nodes[binIndex].sellVolume += sell;
-        }
+      if (i === startBin && i === endBin) {
+        volumePortion = 1;
+      } else if (i === startBin) {
+        volumePortion = (minPrice + (i + 1) * binSize - candle.low) / priceRange;
+      } else if (i === endBin) {
+        volumePortion = (candle.high - (minPrice + i * binSize)) / priceRange;
       } else {
-        // Distribute volume proportionally across the price range
-        const startBin = Math.max(0, Math.floor((candle.low - minPrice) / binSize));
-        const endBin = Math.min(bins - 1, Math.floor((candle.high - minPrice) / binSize));
-        
-        for (let i = startBin; i <= endBin; i++) {
-          const binPrice = minPrice + (i + 0.5) * binSize;
-          
-          // Calculate portion of volume for this bin
-          let volumePortion = 0;
-          
-          if (i === startBin && i === endBin) {
-            volumePortion = 1;
-          } else if (i === startBin) {
-            volumePortion = (minPrice + (i + 1) * binSize - candle.low) / priceRange;
-          } else if (i === endBin) {
-            volumePortion = (candle.high - (minPrice + i * binSize)) / priceRange;
-          } else {
-            volumePortion = binSize / priceRange;
-          }
-          
-          const { buy, sell } = this.estimateBuySellVolume(candle);
-          nodes[i].volume += candle.volume * volumePortion;
-          nodes[i].trades += volumePortion;
-          nodes[i].buyVolume += buy * volumePortion;
-          nodes[i].sellVolume += sell * volumePortion;
-        }
+        volumePortion = binSize / priceRange;
       }
-    });
-    
-    // Calculate imbalance ratios
-    nodes.forEach(node => {
-      const totalVolume = node.buyVolume + node.sellVolume;
-      node.imbalance = totalVolume > 0 ? node.buyVolume / totalVolume : 0.5;
-    });
-    
-    return nodes;
+      
+      nodes[i].volume += candle.volume * volumePortion;
+      nodes[i].trades += volumePortion;
+      nodes[i].buyVolume += buy * volumePortion;
+      nodes[i].sellVolume += sell * volumePortion;
+    }
   }
   
   /**
@@ -465,24 +727,6 @@ export class VolumeProfileAnalyzer {
     return levels.sort((a, b) => b.strength - a.strength);
   }
   
-  /**
-   * Group data by price levels for analysis
-   */
-  private groupByPriceLevels(data: PriceVolumeData[]): { [price: string]: PriceVolumeData[] } {
-    const groups: { [price: string]: PriceVolumeData[] } = {};
-    
-    data.forEach(candle => {
-      // Round to nearest cent or appropriate precision
-      const roundedPrice = Math.round(candle.close * 100) / 100;
-      const key = roundedPrice.toString();
-      
-      if (!groups[key]) groups[key] = [];
-      groups[key].push(candle);
-    });
-    
-    return groups;
-  }
-  
   /**
    * Analyze market structure from volume profile
    */
@@ -0,0 +1,153 @@
+/**
+ * @fileOverview JSON-Lines Performance Store
+ *
+ * Server-side PerformanceStore backed by an append-only JSON-lines file.
+ * The first line is a header carrying the schema version; every save
+ * appends the full record and the latest line per id wins on load.
+ * The file is rewritten when it is migrated or when superseded lines
+ * outnumber live records.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { RecommendationTrack } from '../ai-performance-monitor';
+import { filterRecommendations, type PerformanceStore, type RecommendationQuery } from './performance-store';
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from './migrations';
+
+interface HeaderLine {
+  type: 'header';
+  schemaVersion: number;
+  createdAt: number;
+}
+
+interface RecordLine {
+  type: 'recommendation';
+  savedAt: number;
+  data: RecommendationTrack;
+}
+
+const COMPACTION_MIN_LINES = 500;
+
+export class JsonLinesPerformanceStore implements PerformanceStore {
+  readonly backend = 'jsonl';
+
+  private records: Map<string, RecommendationTrack> | null = null;
+  private lineCount = 0;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  async loadAll(): Promise<RecommendationTrack[]> {
+    const records = await this.open();
+    return Array.from(records.values());
+  }
+
+  async save(recommendation: RecommendationTrack): Promise<void> {
+    const records = await this.open();
+
+    await this.enqueue(async () => {
+      records.set(recommendation.id, recommendation);
+
+      if (this.lineCount === 0) {
+        // First write creates the file with its header
+        await this.rewrite(records);
+        return;
+      }
+
+      const line: RecordLine = { type: 'recommendation', savedAt: Date.now(), data: recommendation };
+      await fs.appendFile(this.filePath, JSON.stringify(line) + '\n', 'utf-8');
+      this.lineCount += 1;
+
+      if (this.lineCount > COMPACTION_MIN_LINES && this.lineCount > records.size * 2) {
+        await this.rewrite(records);
+      }
+    });
+  }
+
+  async query(query: RecommendationQuery = {}): Promise<RecommendationTrack[]> {
+    const records = await this.open();
+    return filterRecommendations(Array.from(records.values()), query);
+  }
+
+  /**
+   * Read the file once, migrating it to the current schema if needed
+   */
+  private async open(): Promise<Map<string, RecommendationTrack>> {
+    if (this.records) return this.records;
+
+    return this.enqueue(async () => {
+      if (this.records) return this.records;
+
+      const records = new Map<string, RecommendationTrack>();
+      let content = '';
+
+      try {
+        content = await fs.readFile(this.filePath, 'utf-8');
+      } catch (error: any) {
+        if (error?.code !== 'ENOENT') throw error;
+      }
+
+      const lines = content.split('\n').filter(line => line.trim().length > 0);
+      if (lines.length === 0) {
+        this.records = records;
+        return records;
+      }
+
+      let schemaVersion = 0;
+      lines.forEach((line, index) => {
+        let parsed: HeaderLine | RecordLine;
+        try {
+          parsed = JSON.parse(line);
+        } catch {
+          // A crash mid-append can leave a truncated final line
+          console.warn(`Skipping malformed line ${index + 1} in ${this.filePath}`);
+          return;
+        }
+
+        if (parsed.type === 'header') {
+          schemaVersion = parsed.schemaVersion;
+        } else if (parsed.type === 'recommendation') {
+          const track = migrateRecord(parsed.data, schemaVersion);
+          records.set(track.id, track);
+        }
+      });
+
+      this.lineCount = lines.length;
+
+      if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+        console.log(`Migrating ${this.filePath} from schema v${schemaVersion} to v${CURRENT_SCHEMA_VERSION}`);
+        await this.rewrite(records);
+      }
+
+      this.records = records;
+      return records;
+    });
+  }
+
+  /**
+   * Write a compacted file (header plus one line per record) atomically
+   */
+  private async rewrite(records: Map<string, RecommendationTrack>): Promise<void> {
+    const header: HeaderLine = { type: 'header', schemaVersion: CURRENT_SCHEMA_VERSION, createdAt: Date.now() };
+    const savedAt = Date.now();
+    const lines = [
+      JSON.stringify(header),
+      ...Array.from(records.values()).map(data => JSON.stringify({ type: 'recommendation', savedAt, data } as RecordLine))
+    ];
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, lines.join('\n') + '\n', 'utf-8');
+    await fs.rename(tempPath, this.filePath);
+    this.lineCount = lines.length;
+  }
+
+  /**
+   * Serialize file operations so appends and rewrites never interleave
+   */
+  private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
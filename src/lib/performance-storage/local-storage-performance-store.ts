@@ -0,0 +1,76 @@
+/**
+ * @fileOverview localStorage Performance Store
+ *
+ * Client-side PerformanceStore that keeps every recommendation in a single
+ * versioned localStorage entry. Reads the pre-versioning format written by
+ * earlier releases and upgrades it in place.
+ */
+
+import type { RecommendationTrack } from '../ai-performance-monitor';
+import { filterRecommendations, type PerformanceStore, type RecommendationQuery } from './performance-store';
+import { CURRENT_SCHEMA_VERSION, migrateRecord } from './migrations';
+
+interface StoredPerformanceData {
+  schemaVersion: number;
+  recommendations: RecommendationTrack[];
+}
+
+export class LocalStoragePerformanceStore implements PerformanceStore {
+  readonly backend = 'localStorage';
+
+  private records: Map<string, RecommendationTrack> | null = null;
+
+  constructor(private readonly storageKey: string = 'ai_performance_data') {}
+
+  async loadAll(): Promise<RecommendationTrack[]> {
+    return Array.from(this.open().values());
+  }
+
+  async save(recommendation: RecommendationTrack): Promise<void> {
+    const records = this.open();
+    records.set(recommendation.id, recommendation);
+    this.write(records);
+  }
+
+  async query(query: RecommendationQuery = {}): Promise<RecommendationTrack[]> {
+    return filterRecommendations(Array.from(this.open().values()), query);
+  }
+
+  private open(): Map<string, RecommendationTrack> {
+    if (this.records) return this.records;
+
+    const records = new Map<string, RecommendationTrack>();
+    const raw = typeof window !== 'undefined' ? localStorage.getItem(this.storageKey) : null;
+
+    if (raw) {
+      try {
+        const parsed = JSON.parse(raw);
+        const schemaVersion: number = parsed.schemaVersion ?? 0;
+
+        (parsed.recommendations || []).forEach((record: any) => {
+          const track = migrateRecord(record, schemaVersion);
+          records.set(track.id, track);
+        });
+
+        if (schemaVersion < CURRENT_SCHEMA_VERSION) {
+          this.write(records);
+        }
+      } catch (e) {
+        console.warn('Failed to load performance data:', e);
+      }
+    }
+
+    this.records = records;
+    return records;
+  }
+
+  private write(records: Map<string, RecommendationTrack>): void {
+    if (typeof window === 'undefined') return;
+
+    const data: StoredPerformanceData = {
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      recommendations: Array.from(records.values())
+    };
+    localStorage.setItem(this.storageKey, JSON.stringify(data));
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Performance Store Migrations
+ *
+ * Ordered schema migrations for stored RecommendationTrack records. Each
+ * backend records the schema version it wrote; on load, records are passed
+ * through every migration newer than that version.
+ *
+ * Version 0 is the original localStorage format written before the storage
+ * abstraction existed: `{ recommendations: [id, track][], outcomes: [id, outcome][] }`.
+ */
+
+import type { RecommendationTrack } from '../ai-performance-monitor';
+
+export interface PerformanceMigration {
+  version: number;
+  description: string;
+  migrate(record: any): any;
+}
+
+export const PERFORMANCE_MIGRATIONS: PerformanceMigration[] = [
+  {
+    version: 1,
+    description: 'Unwrap [id, track] entries and backfill status and confluence factors',
+    migrate(record: any) {
+      const track = Array.isArray(record) ? { ...record[1], id: record[1]?.id ?? record[0] } : { ...record };
+
+      track.status = track.status ?? (track.outcome ? 'completed' : 'pending');
+      track.recommendation = {
+        ...track.recommendation,
+        confluenceFactors: track.recommendation?.confluenceFactors ?? []
+      };
+
+      return track;
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = PERFORMANCE_MIGRATIONS[PERFORMANCE_MIGRATIONS.length - 1].version;
+
+/**
+ * Bring a stored record up to the current schema
+ */
+export function migrateRecord(record: any, fromVersion: number): RecommendationTrack {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Performance store schema v${fromVersion} is newer than supported v${CURRENT_SCHEMA_VERSION}`);
+  }
+
+  return PERFORMANCE_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => migration.migrate(migrated), record);
+}
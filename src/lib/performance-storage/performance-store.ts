@@ -0,0 +1,55 @@
+/**
+ * @fileOverview Performance Store
+ *
+ * Storage abstraction for AIPerformanceMonitor recommendations and outcomes.
+ * Backends persist RecommendationTrack records (outcomes are embedded) and
+ * answer filtered queries:
+ * - JsonLinesPerformanceStore: append-only file on the server
+ * - LocalStoragePerformanceStore: browser localStorage on the client
+ */
+
+import type { RecommendationTrack } from '../ai-performance-monitor';
+
+export interface RecommendationQuery {
+  asset?: string;
+  persona?: string;
+  timeframe?: string;
+  aiVersion?: string;
+  status?: RecommendationTrack['status'];
+  from?: number; // Inclusive timestamp (ms)
+  to?: number; // Inclusive timestamp (ms)
+  limit?: number; // Most recent N matches
+}
+
+export interface PerformanceStore {
+  readonly backend: string;
+
+  /** Load every stored recommendation, migrating older schemas */
+  loadAll(): Promise<RecommendationTrack[]>;
+
+  /** Insert or replace a recommendation by id */
+  save(recommendation: RecommendationTrack): Promise<void>;
+
+  /** Recommendations matching the query, newest first */
+  query(query?: RecommendationQuery): Promise<RecommendationTrack[]>;
+}
+
+/**
+ * Apply a query to an in-memory list of recommendations
+ */
+export function filterRecommendations(
+  recommendations: RecommendationTrack[],
+  query: RecommendationQuery = {}
+): RecommendationTrack[] {
+  const matches = recommendations
+    .filter(r => !query.asset || r.asset.toUpperCase() === query.asset.toUpperCase())
+    .filter(r => !query.persona || r.persona === query.persona)
+    .filter(r => !query.timeframe || r.timeframe === query.timeframe)
+    .filter(r => !query.aiVersion || r.aiVersion === query.aiVersion)
+    .filter(r => !query.status || r.status === query.status)
+    .filter(r => query.from === undefined || r.timestamp >= query.from)
+    .filter(r => query.to === undefined || r.timestamp <= query.to)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return query.limit !== undefined ? matches.slice(0, query.limit) : matches;
+}
@@ -10,6 +10,7 @@
 import { PriceData, calculateATR, analyzeMarketStructure } from './advanced-technical-indicators';
 import { getPricePrecision, formatPrice } from './trading-precision';
 import { getOptimalEntryTiming, type CandlePattern } from './candle-confirmation-system';
+import { supportResistanceEngine, type SupportResistanceLevel } from './pattern-recognition/support-resistance-engine';
 
 export interface OptimizedEntry {
   entryPrice: number;
@@ -56,6 +57,7 @@ export interface EntryOptimizationInput {
   direction: 'long' | 'short';
   supportLevels: number[];
   resistanceLevels: number[];
+  levels?: SupportResistanceLevel[]; // Structured levels (see SupportResistanceEngine); take precedence over the price lists
   tradingPersona: string;
   riskTolerance: 'conservative' | 'moderate' | 'aggressive';
   patternType?: string;
@@ -91,11 +93,14 @@ export interface OptimizationResult {
   };
 }
 
+const PLAIN_LEVEL_STRENGTH = 50; // Price-only levels carry no touch history
+const KEY_LEVEL_MIN_STRENGTH = 40;
+
 /**
  * Finds optimal entry zones using multiple technical factors with candle confirmation
  */
 export function optimizeEntry(input: EntryOptimizationInput): OptimizedEntry {
-  const { currentPrice, priceData, direction, supportLevels, resistanceLevels, tradingPersona } = input;
+  const { currentPrice, priceData, direction, tradingPersona } = input;
   
   // Calculate key levels and indicators
   const atr = calculateATR(priceData, 14);
@@ -104,18 +109,16 @@ export function optimizeEntry(input: EntryOptimizationInput): OptimizedEntry {
   const recentLow = Math.min(...priceData.slice(-20).map(d => d.low));
   
   // Find the closest relevant levels
-  const relevantSupports = supportLevels.filter(level => 
-    direction === 'long' ? level < currentPrice && level > currentPrice * 0.95 : level < currentPrice
-  ).sort((a, b) => Math.abs(currentPrice - a) - Math.abs(currentPrice - b));
-  
-  const relevantResistances = resistanceLevels.filter(level => 
-    direction === 'long' ? level > currentPrice : level > currentPrice && level < currentPrice * 1.05
-  ).sort((a, b) => Math.abs(currentPrice - a) - Math.abs(currentPrice - b));
+  const levels = getStructuredLevels(input);
+  const nearestSupport = findKeyLevel(levels, 'below', currentPrice,
+    direction === 'long' ? currentPrice * 0.05 : Infinity);
+  const nearestResistance = findKeyLevel(levels, 'above', currentPrice,
+    direction === 'long' ? Infinity : currentPrice * 0.05);
 
   // Get the key level for candle confirmation
   const keyLevel = direction === 'long' ? 
-    (relevantSupports[0] || currentPrice * 0.995) : 
-    (relevantResistances[0] || currentPrice * 1.005);
+    (nearestSupport?.price || currentPrice * 0.995) : 
+    (nearestResistance?.price || currentPrice * 1.005);
 
   // Create mock current candle and previous candles for confirmation analysis
   const currentCandle = {
@@ -189,8 +192,6 @@ export function optimizeEntry(input: EntryOptimizationInput): OptimizedEntry {
   } else {
     // Traditional entry logic with candle awareness
     if (direction === 'long') {
-      const nearestSupport = relevantSupports[0];
-      
       if (tradingPersona.toLowerCase().includes('scalp')) {
         optimalEntry = currentPrice * 0.9985;
         entryReason = 'Scalping entry - but wait for candle confirmation to avoid premature entry';
@@ -209,13 +210,14 @@ export function optimizeEntry(input: EntryOptimizationInput): OptimizedEntry {
           }
         };
       } else {
+        // Enter at the top of the support zone rather than its center
         const pullbackTarget = nearestSupport ? 
-          nearestSupport + (atr * 0.25) : 
+          nearestSupport.upperBound + (atr * 0.25) : 
           currentPrice * 0.992;
         
         optimalEntry = pullbackTarget;
-        entryReason = `Swing entry on pullback + candle confirmation (prevents "one candle too early" entries)`;
-        confidence = nearestSupport ? 70 : 60; // Reduced due to confirmation needed
+        entryReason = `Swing entry on pullback${describeLevel(nearestSupport, 'support', input.asset)} + candle confirmation (prevents "one candle too early" entries)`;
+        confidence = nearestSupport ? 70 + getLevelConfidenceBonus(nearestSupport) : 60; // Reduced due to confirmation needed
         timing = {
           immediate: false,
           waitForPullback: true,
@@ -232,20 +234,18 @@ export function optimizeEntry(input: EntryOptimizationInput): OptimizedEntry {
       }
     } else {
       // Short trade logic with confirmation
-      const nearestResistance = relevantResistances[0];
-      
       if (tradingPersona.toLowerCase().includes('scalp')) {
         optimalEntry = currentPrice * 1.0015;
         entryReason = 'Scalping short - wait for candle confirmation';
         confidence = 60;
       } else {
         const bounceTarget = nearestResistance ? 
-          nearestResistance - (atr * 0.25) :
+          nearestResistance.lowerBound - (atr * 0.25) :
           currentPrice * 1.008;
         
         optimalEntry = bounceTarget;
-        entryReason = `Short entry on bounce + candle confirmation`;
-        confidence = nearestResistance ? 70 : 60;
+        entryReason = `Short entry on bounce${describeLevel(nearestResistance, 'resistance', input.asset)} + candle confirmation`;
+        confidence = nearestResistance ? 70 + getLevelConfidenceBonus(nearestResistance) : 60;
       }
       
       timing = {
@@ -289,10 +289,11 @@ export function optimizeStopLoss(
   input: EntryOptimizationInput,
   entryPrice: number
 ): OptimizedStopLoss {
-  const { currentPrice, priceData, direction, supportLevels, resistanceLevels, tradingPersona, riskTolerance } = input;
+  const { currentPrice, priceData, direction, tradingPersona, riskTolerance } = input;
   
   const atr = calculateATR(priceData, 14);
   const marketStructure = analyzeMarketStructure(priceData);
+  const levels = getStructuredLevels(input);
   
   // Calculate volatility-based buffer
   const volatilityMultiplier = getVolatilityMultiplier(riskTolerance, tradingPersona);
@@ -305,17 +306,13 @@ export function optimizeStopLoss(
   
   if (direction === 'long') {
     // Find the most relevant support below entry
-    const relevantSupports = supportLevels
-      .filter(level => level < entryPrice)
-      .sort((a, b) => b - a); // Sort descending (closest first)
+    const keySupport = findKeyLevel(levels, 'below', entryPrice, atr * 3);
     
-    const keySupport = relevantSupports[0];
-    
-    if (keySupport && (entryPrice - keySupport) < (atr * 3)) {
-      // Use technical support with buffer
+    if (keySupport) {
+      // Use technical support with buffer below the whole zone
       buffer = Math.max(atr * 0.3, entryPrice * 0.002); // At least 30% of ATR or 0.2%
-      stopPrice = keySupport - buffer;
-      stopReason = `Technical stop below key support at ${formatPrice(keySupport, getPricePrecision(input.asset, entryPrice))} with ${formatPrice(buffer, getPricePrecision(input.asset, entryPrice))} buffer`;
+      stopPrice = keySupport.lowerBound - buffer;
+      stopReason = `Technical stop below key support at ${formatPrice(keySupport.price, getPricePrecision(input.asset, entryPrice))}${describeLevelHistory(keySupport)} with ${formatPrice(buffer, getPricePrecision(input.asset, entryPrice))} buffer`;
       stopType = 'technical';
     } else {
       // Use volatility-based stop if no clear support
@@ -336,16 +333,12 @@ export function optimizeStopLoss(
     
   } else {
     // Short trade stop logic
-    const relevantResistances = resistanceLevels
-      .filter(level => level > entryPrice)
-      .sort((a, b) => a - b); // Sort ascending (closest first)
-    
-    const keyResistance = relevantResistances[0];
+    const keyResistance = findKeyLevel(levels, 'above', entryPrice, atr * 3);
     
-    if (keyResistance && (keyResistance - entryPrice) < (atr * 3)) {
+    if (keyResistance) {
       buffer = Math.max(atr * 0.3, entryPrice * 0.002);
-      stopPrice = keyResistance + buffer;
-      stopReason = `Technical stop above key resistance at ${formatPrice(keyResistance, getPricePrecision(input.asset, entryPrice))} with buffer`;
+      stopPrice = keyResistance.upperBound + buffer;
+      stopReason = `Technical stop above key resistance at ${formatPrice(keyResistance.price, getPricePrecision(input.asset, entryPrice))}${describeLevelHistory(keyResistance)} with buffer`;
       stopType = 'technical';
     } else {
       buffer = volatilityBuffer;
@@ -380,6 +373,85 @@ export function optimizeStopLoss(
   };
 }
 
+/**
+ * Levels for entry and stop placement: structured levels when supplied, else
+ * the plain price lists, else levels detected from the price data
+ */
+function getStructuredLevels(input: EntryOptimizationInput): SupportResistanceLevel[] {
+  if (input.levels && input.levels.length > 0) {
+    return input.levels;
+  }
+  
+  if (input.supportLevels.length > 0 || input.resistanceLevels.length > 0) {
+    return [
+      ...input.supportLevels.map(price => toPlainLevel(price, 'support')),
+      ...input.resistanceLevels.map(price => toPlainLevel(price, 'resistance'))
+    ];
+  }
+  
+  return supportResistanceEngine.analyze(input.priceData).levels;
+}
+
+/**
+ * Wraps a bare price as a zero-width level of neutral strength
+ */
+function toPlainLevel(price: number, type: 'support' | 'resistance'): SupportResistanceLevel {
+  return {
+    price,
+    lowerBound: price,
+    upperBound: price,
+    type,
+    strength: PLAIN_LEVEL_STRENGTH,
+    touches: [],
+    firstTouch: 0,
+    lastTouch: 0,
+    flipped: false,
+    roleChanges: 0
+  };
+}
+
+/**
+ * Nearest level on one side of a price within maxDistance; a weak level is
+ * skipped when a stronger one lies within range
+ */
+function findKeyLevel(
+  levels: SupportResistanceLevel[],
+  side: 'below' | 'above',
+  price: number,
+  maxDistance: number
+): SupportResistanceLevel | undefined {
+  const candidates = levels
+    .filter(level => side === 'below'
+      ? level.price < price && price - level.price <= maxDistance
+      : level.price > price && level.price - price <= maxDistance)
+    .sort((a, b) => Math.abs(price - a.price) - Math.abs(price - b.price));
+  
+  return candidates.find(level => level.strength >= KEY_LEVEL_MIN_STRENGTH) || candidates[0];
+}
+
+/**
+ * Extra entry confidence for well-tested levels
+ */
+function getLevelConfidenceBonus(level: SupportResistanceLevel): number {
+  if (level.strength >= 80) return level.flipped ? 8 : 5;
+  if (level.strength >= 60) return 3;
+  return 0;
+}
+
+function describeLevel(level: SupportResistanceLevel | undefined, role: string, asset: string): string {
+  if (!level || level.touches.length === 0) return '';
+  return ` to ${role} at ${formatPrice(level.price, getPricePrecision(asset, level.price))}${describeLevelHistory(level)}`;
+}
+
+/**
+ * Touch count, strength and role reversal for detected levels; empty for plain prices
+ */
+function describeLevelHistory(level: SupportResistanceLevel): string {
+  if (level.touches.length === 0) return '';
+  const flipped = level.flipped ? ', flipped' : '';
+  return ` (${level.touches.length} touch${level.touches.length === 1 ? '' : 'es'}, strength ${level.strength}${flipped})`;
+}
+
 /**
  * Gets volatility multiplier based on risk tolerance and trading style
  * Updated with +5% more space to prevent premature stop hits
@@ -0,0 +1,66 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AIPerformanceMonitor, RecommendationTrack } from './ai-performance-monitor';
+import type { KlineRangeRequest, MarketDataService } from './data-providers/market-data-service';
+import { RecommendationOutcomeResolver, toTradingSymbol } from './recommendation-outcome-resolver';
+
+describe('toTradingSymbol', () => {
+  it('appends USDT to bare assets, including ones ending in BTC or ETH', () => {
+    expect(toTradingSymbol('BTC')).toBe('BTCUSDT');
+    expect(toTradingSymbol('wbtc')).toBe('WBTCUSDT');
+    expect(toTradingSymbol('STETH')).toBe('STETHUSDT');
+    expect(toTradingSymbol('USDC')).toBe('USDCUSDT');
+  });
+
+  it('keeps pairs written with a separator or a stablecoin quote', () => {
+    expect(toTradingSymbol('BTC/USDT')).toBe('BTCUSDT');
+    expect(toTradingSymbol('eth-btc')).toBe('ETHBTC');
+    expect(toTradingSymbol('SOLUSDC')).toBe('SOLUSDC');
+    expect(toTradingSymbol('ETHUSDT')).toBe('ETHUSDT');
+  });
+});
+
+describe('RecommendationOutcomeResolver', () => {
+  it('settles pending recommendations from the klines of the mapped symbol', async () => {
+    const track: RecommendationTrack = {
+      id: 'rec_1',
+      timestamp: 0,
+      aiVersion: 'test',
+      asset: 'WBTC',
+      timeframe: '1h',
+      persona: 'Default',
+      riskTolerance: 'moderate',
+      marketConditions: { trend: 'unknown', volatility: 'medium', sentiment: 0, marketPhase: 'unknown' },
+      recommendation: { entryPrice: 100, takeProfitLevels: [110], stopLoss: 95, riskRewardRatio: 2, confidence: 70, confluenceFactors: [] },
+      status: 'pending'
+    };
+    const monitor = {
+      whenReady: async () => {},
+      getPendingRecommendations: () => [track],
+      updateOutcome: vi.fn(),
+      cancelRecommendation: vi.fn()
+    };
+    const requests: KlineRangeRequest[] = [];
+    const hour = 60 * 60 * 1000;
+    const bar = (i: number, low: number, high: number) => ({
+      symbol: 'WBTCUSDT', exchange: 'binance', interval: '15m', openTime: i * hour, closeTime: (i + 1) * hour - 1,
+      open: (low + high) / 2, high, low, close: (low + high) / 2, volume: 1, trades: 1
+    });
+    const dataService = {
+      getKlines: async (request: KlineRangeRequest) => {
+        requests.push(request);
+        return [bar(0, 99, 101), bar(1, 100, 111)];
+      }
+    };
+
+    const resolver = new RecommendationOutcomeResolver(
+      {},
+      monitor as unknown as AIPerformanceMonitor,
+      dataService as unknown as MarketDataService
+    );
+    const summary = await resolver.resolvePending();
+
+    expect(requests[0].symbol).toBe('WBTCUSDT');
+    expect(summary).toEqual({ completed: 1, cancelled: 0, pending: 0, failed: 0 });
+    expect(monitor.updateOutcome).toHaveBeenCalledWith('rec_1', expect.objectContaining({ actualExitReason: 'take_profit', exitPrice: 110 }));
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * @fileOverview Recommendation Outcome Resolver
+ *
+ * Resolves pending RecommendationTracks automatically by walking the klines
+ * that followed each recommendation:
+ * - Entry fill (price trading through the entry, or gapping across it)
+ * - First take-profit or stop-loss hit, with stops assumed to trade first
+ *   when both fall inside the same bar
+ * - Max favorable/adverse excursion as maxRunup/maxDrawdown
+ * - Timeout exit after a configurable number of timeframe bars
+ *
+ * Entries that never fill within the expiry window are cancelled.
+ */
+
+import {
+  aiPerformanceMonitor,
+  type AIPerformanceMonitor,
+  type RecommendationTrack,
+  type TradeOutcome
+} from './ai-performance-monitor';
+import { marketDataService, type MarketDataService } from './data-providers/market-data-service';
+import type { KlineData } from './data-providers/real-time-data-provider';
+import { getIntervalMs } from './data-providers/intervals';
+
+export interface OutcomeResolverConfig {
+  exchange: string;
+  entryTolerance: number; // Fractional distance at which the entry counts as touched
+  entryExpiryBars: number; // Recommendation-timeframe bars the entry stays valid
+  maxHoldingBars: number; // Recommendation-timeframe bars before a timeout exit
+  resolutionInterval?: string; // Kline interval to walk; derived from the timeframe when omitted
+}
+
+export type OutcomeResolution =
+  | { status: 'pending' }
+  | { status: 'completed'; outcome: TradeOutcome }
+  | { status: 'cancelled'; reason: string };
+
+export interface ResolutionSummary {
+  completed: number;
+  cancelled: number;
+  pending: number;
+  failed: number;
+}
+
+const STABLE_QUOTES = ['USDT', 'USDC', 'BUSD', 'FDUSD'];
+
+const DEFAULT_CONFIG: OutcomeResolverConfig = {
+  exchange: 'binance',
+  entryTolerance: 0.0005,
+  entryExpiryBars: 5,
+  maxHoldingBars: 50
+};
+
+/**
+ * Determine the outcome of a recommendation from the klines that followed it
+ */
+export function resolveOutcomeFromKlines(
+  track: RecommendationTrack,
+  klines: KlineData[],
+  config: OutcomeResolverConfig = DEFAULT_CONFIG
+): OutcomeResolution {
+  const { entryPrice, stopLoss, takeProfitLevels } = track.recommendation;
+  const direction = getDirection(entryPrice, stopLoss, takeProfitLevels);
+  const targets = takeProfitLevels
+    .filter(target => direction === 'long' ? target > entryPrice : target < entryPrice)
+    .sort((a, b) => direction === 'long' ? a - b : b - a);
+
+  const timeframeMs = getIntervalMs(track.timeframe);
+  const entryDeadline = track.timestamp + config.entryExpiryBars * timeframeMs;
+  const bars = klines
+    .filter(k => k.openTime >= track.timestamp)
+    .sort((a, b) => a.openTime - b.openTime);
+
+  let fill: { time: number; price: number } | null = null;
+  let previousClose: number | null = null;
+  let maxRunup = 0;
+  let maxDrawdown = 0;
+
+  for (const bar of bars) {
+    if (!fill) {
+      if (bar.openTime > entryDeadline) {
+        return { status: 'cancelled', reason: `Entry not filled within ${config.entryExpiryBars} ${track.timeframe} bars` };
+      }
+
+      const gapped = previousClose !== null && (previousClose - entryPrice) * (bar.open - entryPrice) < 0;
+      const touched = bar.low <= entryPrice * (1 + config.entryTolerance)
+        && bar.high >= entryPrice * (1 - config.entryTolerance);
+
+      if (gapped || touched) {
+        fill = {
+          time: bar.openTime,
+          price: gapped ? bar.open : Math.min(Math.max(entryPrice, bar.low), bar.high)
+        };
+
+        // Only the adverse side of the fill bar is known to come after the fill
+        const adverse = direction === 'long' ? bar.low : bar.high;
+        maxDrawdown = Math.max(maxDrawdown, -movePercent(direction, fill.price, adverse));
+
+        const stopHit = direction === 'long' ? bar.low <= stopLoss : bar.high >= stopLoss;
+        if (stopHit) {
+          const stopFill = direction === 'long' ? Math.min(fill.price, stopLoss) : Math.max(fill.price, stopLoss);
+          return complete(track, fill, bar, stopFill, 'stop_loss', undefined, targets, direction, maxRunup, maxDrawdown);
+        }
+      }
+
+      previousClose = bar.close;
+      continue;
+    }
+
+    const favorable = direction === 'long' ? bar.high : bar.low;
+    const adverse = direction === 'long' ? bar.low : bar.high;
+    maxRunup = Math.max(maxRunup, movePercent(direction, fill.price, favorable));
+    maxDrawdown = Math.max(maxDrawdown, -movePercent(direction, fill.price, adverse));
+
+    // Conservative intrabar ordering: the stop is assumed to trade before any target
+    const stopHit = direction === 'long' ? bar.low <= stopLoss : bar.high >= stopLoss;
+    if (stopHit) {
+      const stopFill = direction === 'long' ? Math.min(bar.open, stopLoss) : Math.max(bar.open, stopLoss);
+      return complete(track, fill, bar, stopFill, 'stop_loss', undefined, targets, direction, maxRunup, maxDrawdown);
+    }
+
+    // Exit at the furthest target reached in the bar where the first one is hit
+    let level = 0;
+    while (level < targets.length && (direction === 'long' ? bar.high >= targets[level] : bar.low <= targets[level])) {
+      level++;
+    }
+    if (level > 0) {
+      return complete(track, fill, bar, targets[level - 1], 'take_profit', level, targets, direction, maxRunup, maxDrawdown);
+    }
+
+    if (bar.closeTime + 1 >= fill.time + config.maxHoldingBars * timeframeMs) {
+      return complete(track, fill, bar, bar.close, 'timeout', undefined, targets, direction, maxRunup, maxDrawdown);
+    }
+  }
+
+  return { status: 'pending' };
+}
+
+export class RecommendationOutcomeResolver {
+  private config: OutcomeResolverConfig;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private running = false;
+
+  constructor(
+    config: Partial<OutcomeResolverConfig> = {},
+    private monitor: AIPerformanceMonitor = aiPerformanceMonitor,
+    private dataService: MarketDataService = marketDataService
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Resolve every pending recommendation tracked by the monitor
+   */
+  async resolvePending(): Promise<ResolutionSummary> {
+    const summary: ResolutionSummary = { completed: 0, cancelled: 0, pending: 0, failed: 0 };
+    if (this.running) return summary;
+
+    this.running = true;
+    try {
+      await this.monitor.whenReady();
+
+      for (const track of this.monitor.getPendingRecommendations()) {
+        try {
+          const resolution = await this.resolveRecommendation(track);
+
+          if (resolution.status === 'completed') {
+            this.monitor.updateOutcome(track.id, resolution.outcome);
+          } else if (resolution.status === 'cancelled') {
+            this.monitor.cancelRecommendation(track.id);
+          }
+          summary[resolution.status]++;
+        } catch (error) {
+          console.warn(`Failed to resolve recommendation ${track.id}:`, error);
+          summary.failed++;
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Fetch the klines following a recommendation and resolve its outcome
+   */
+  async resolveRecommendation(track: RecommendationTrack): Promise<OutcomeResolution> {
+    const timeframeMs = getIntervalMs(track.timeframe);
+    const horizon = (this.config.entryExpiryBars + this.config.maxHoldingBars + 1) * timeframeMs;
+    const interval = this.config.resolutionInterval || getResolutionInterval(track.timeframe);
+
+    const klines = await this.dataService.getKlines({
+      symbol: toTradingSymbol(track.asset),
+      interval,
+      startTime: track.timestamp,
+      endTime: Math.min(Date.now(), track.timestamp + horizon),
+      exchange: this.config.exchange
+    });
+
+    return resolveOutcomeFromKlines(track, klines, this.config);
+  }
+
+  /**
+   * Periodically resolve pending recommendations
+   */
+  start(intervalMs: number = 15 * 60 * 1000): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.resolvePending().catch(error => console.error('Outcome resolution failed:', error));
+    };
+    run();
+    this.timer = setInterval(run, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+function complete(
+  track: RecommendationTrack,
+  fill: { time: number; price: number },
+  exitBar: KlineData,
+  exitPrice: number,
+  reason: TradeOutcome['actualExitReason'],
+  level: number | undefined,
+  targets: number[],
+  direction: 'long' | 'short',
+  maxRunup: number,
+  maxDrawdown: number
+): OutcomeResolution {
+  return {
+    status: 'completed',
+    outcome: {
+      id: `out_${track.id}`,
+      timestamp: exitBar.closeTime,
+      asset: track.asset,
+      entryTime: fill.time,
+      entryPrice: fill.price,
+      exitPrice,
+      stopLossPrice: track.recommendation.stopLoss,
+      takeProfitPrices: targets,
+      actualExitReason: reason,
+      actualExitLevel: level,
+      holdingPeriod: (exitBar.closeTime - fill.time) / (60 * 60 * 1000),
+      pnlPercent: movePercent(direction, fill.price, exitPrice),
+      maxDrawdown,
+      maxRunup
+    }
+  };
+}
+
+function getDirection(entryPrice: number, stopLoss: number, takeProfitLevels: number[]): 'long' | 'short' {
+  if (takeProfitLevels.length > 0) {
+    return takeProfitLevels[0] > entryPrice ? 'long' : 'short';
+  }
+  return stopLoss < entryPrice ? 'long' : 'short';
+}
+
+function movePercent(direction: 'long' | 'short', from: number, to: number): number {
+  const change = ((to - from) / from) * 100;
+  return direction === 'long' ? change : -change;
+}
+
+/**
+ * Walk finer klines than the recommendation timeframe so fills and exits are ordered accurately
+ */
+function getResolutionInterval(timeframe: string): string {
+  const timeframeMs = getIntervalMs(timeframe);
+  if (timeframeMs <= getIntervalMs('5m')) return '1m';
+  if (timeframeMs <= getIntervalMs('30m')) return '5m';
+  if (timeframeMs <= getIntervalMs('2h')) return '15m';
+  return '1h';
+}
+
+/**
+ * Recommendations store bare assets (BTC, WBTC) or pairs (BTC/USDT, ETHUSDT);
+ * klines need BTCUSDT. Only a separator or a stablecoin quote marks a pair,
+ * so assets ending in BTC or ETH (WBTC, STETH) are not split.
+ */
+export function toTradingSymbol(asset: string): string {
+  const upper = asset.toUpperCase().trim();
+  if (/[\/\-]/.test(upper)) {
+    return upper.replace(/[\/\-]/g, '');
+  }
+
+  const isPair = STABLE_QUOTES.some(quote => upper.endsWith(quote) && upper.length > quote.length);
+  return isPair ? upper : `${upper}USDT`;
+}
+
+// Singleton instance
+export const recommendationOutcomeResolver = new RecommendationOutcomeResolver();
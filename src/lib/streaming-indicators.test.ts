@@ -0,0 +1,317 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateATR,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateEMASeries,
+  calculateMACD,
+  calculateMFI,
+  calculateRSI,
+  calculateSupportResistance,
+  type PriceData
+} from './advanced-technical-indicators';
+import {
+  StreamingADX,
+  StreamingATR,
+  StreamingBollingerBands,
+  StreamingDonchianChannels,
+  StreamingEMA,
+  StreamingIchimoku,
+  StreamingKeltnerChannels,
+  StreamingMACD,
+  StreamingMFI,
+  StreamingOBV,
+  StreamingRSI,
+  StreamingStochasticRSI,
+  StreamingSuperTrend,
+  computeIndicatorSeries,
+  type StreamingIndicator
+} from './streaming-indicators';
+
+const MINUTE = 60000;
+
+// Deterministic random walk around 60k with realistic wicks and volume
+function randomCandles(count: number, seed: number = 7): PriceData[] {
+  let state = seed;
+  const random = () => (state = (state * 16807) % 2147483647) / 2147483647;
+  let price = 60000;
+
+  return Array.from({ length: count }, (_, i) => {
+    const open = price;
+    price *= 1 + (random() - 0.5) * 0.01;
+    return {
+      timestamp: i * MINUTE,
+      open,
+      high: Math.max(open, price) * (1 + random() * 0.003),
+      low: Math.min(open, price) * (1 - random() * 0.003),
+      close: price,
+      volume: 1 + random() * 100
+    };
+  });
+}
+
+// Each candle arrives as a few forming ticks before its final values
+function feedWithRevisions<T>(indicator: StreamingIndicator<T>, candles: PriceData[]): (T | null)[] {
+  candles.forEach((candle, i) => {
+    const wobble = 1 + ((i % 5) - 2) * 0.002;
+    indicator.update({ ...candle, close: candle.open, high: candle.open, low: candle.open, volume: 0 });
+    indicator.update({ ...candle, close: candle.close * wobble, high: candle.high * wobble, volume: candle.volume / 2 });
+    indicator.update(candle);
+  });
+  return indicator.getSeries();
+}
+
+function expectSeriesClose(actual: unknown[], expected: unknown[]): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => {
+    if (value === null || expected[i] === null) {
+      expect(value).toBe(expected[i]);
+    } else if (typeof value === 'number') {
+      expect(value).toBeCloseTo(expected[i] as number, 6);
+    } else {
+      Object.entries(value as Record<string, unknown>).forEach(([key, field]) => {
+        const expectedField = (expected[i] as Record<string, unknown>)[key];
+        if (typeof field === 'number' && typeof expectedField === 'number') {
+          expect(field).toBeCloseTo(expectedField, 6);
+        } else {
+          expect(field).toEqual(expectedField);
+        }
+      });
+    }
+  });
+}
+
+const candles = randomCandles(300);
+const closes = candles.map(candle => candle.close);
+
+describe('streaming indicators match the batch functions', () => {
+  it('EMA', () => {
+    const series = computeIndicatorSeries(new StreamingEMA(20), candles);
+    [0, 19, 150, 299].forEach(i => {
+      expect(series[i]).toBeCloseTo(calculateEMA(closes.slice(0, i + 1), 20), 6);
+    });
+    expectSeriesClose(series, calculateEMASeries(closes, 20));
+  });
+
+  it('RSI (Wilder)', () => {
+    const series = computeIndicatorSeries(new StreamingRSI(14), candles);
+    expect(series.slice(0, 14).every(value => value === null)).toBe(true);
+    [14, 100, 299].forEach(i => {
+      expect(series[i]).toBeCloseTo(calculateRSI(closes.slice(0, i + 1), 14).rsi, 6);
+    });
+
+    // Textbook Wilder smoothing over the whole series
+    let averageGain = 0;
+    let averageLoss = 0;
+    for (let i = 1; i <= 14; i++) {
+      const change = closes[i] - closes[i - 1];
+      averageGain += Math.max(change, 0) / 14;
+      averageLoss += Math.max(-change, 0) / 14;
+    }
+    for (let i = 15; i < closes.length; i++) {
+      const change = closes[i] - closes[i - 1];
+      averageGain = (averageGain * 13 + Math.max(change, 0)) / 14;
+      averageLoss = (averageLoss * 13 + Math.max(-change, 0)) / 14;
+    }
+    expect(series[299]).toBeCloseTo(100 - 100 / (1 + averageGain / averageLoss), 6);
+  });
+
+  it('MACD', () => {
+    const series = computeIndicatorSeries(new StreamingMACD(12, 26, 9), candles);
+    expect(series[24]).toBeNull();
+    [25, 120, 299].forEach(i => {
+      const batch = calculateMACD(closes.slice(0, i + 1), 12, 26, 9);
+      expect(series[i]!.macd).toBeCloseTo(batch.macd, 6);
+      expect(series[i]!.signal).toBeCloseTo(batch.signal, 6);
+      expect(series[i]!.histogram).toBeCloseTo(batch.histogram, 6);
+    });
+
+    // Signal line is the EMA of the MACD line
+    const macdLine = closes.map((_, i) => calculateEMA(closes.slice(0, i + 1), 12) - calculateEMA(closes.slice(0, i + 1), 26));
+    expect(series[299]!.signal).toBeCloseTo(calculateEMA(macdLine, 9), 6);
+  });
+
+  it('Bollinger Bands', () => {
+    const series = computeIndicatorSeries(new StreamingBollingerBands(20, 2), candles);
+    expect(series[18]).toBeNull();
+    [19, 150, 299].forEach(i => {
+      const batch = calculateBollingerBands(closes.slice(0, i + 1), 20, 2);
+      expect(series[i]!.upper).toBeCloseTo(batch.upper, 6);
+      expect(series[i]!.middle).toBeCloseTo(batch.middle, 6);
+      expect(series[i]!.lower).toBeCloseTo(batch.lower, 6);
+      expect(series[i]!.bandwidth).toBeCloseTo(batch.bandwidth, 6);
+    });
+  });
+
+  it('ATR', () => {
+    const series = computeIndicatorSeries(new StreamingATR(14), candles);
+    expect(series[13]).toBeNull();
+    [14, 150, 299].forEach(i => {
+      expect(series[i]).toBeCloseTo(calculateATR(candles.slice(0, i + 1), 14), 6);
+    });
+  });
+
+  it('MFI', () => {
+    const series = computeIndicatorSeries(new StreamingMFI(14), candles);
+    expect(series[13]).toBeNull();
+    [14, 150, 299].forEach(i => {
+      expect(series[i]).toBeCloseTo(calculateMFI(candles.slice(0, i + 1), 14).value, 6);
+    });
+  });
+});
+
+describe('candle revisions', () => {
+  const factories: [string, () => StreamingIndicator<unknown>][] = [
+    ['EMA', () => new StreamingEMA(20)],
+    ['RSI', () => new StreamingRSI(14)],
+    ['MACD', () => new StreamingMACD()],
+    ['Bollinger Bands', () => new StreamingBollingerBands()],
+    ['ATR', () => new StreamingATR(14)],
+    ['Wilder ATR', () => new StreamingATR(14, 'wilder')],
+    ['MFI', () => new StreamingMFI(14)],
+    ['Stochastic RSI', () => new StreamingStochasticRSI()],
+    ['ADX', () => new StreamingADX()],
+    ['Ichimoku', () => new StreamingIchimoku()],
+    ['SuperTrend', () => new StreamingSuperTrend()],
+    ['OBV', () => new StreamingOBV()],
+    ['Keltner Channels', () => new StreamingKeltnerChannels()],
+    ['Donchian Channels', () => new StreamingDonchianChannels()]
+  ];
+
+  it.each(factories)('%s gives the same series when forming candles are revised', (_, create) => {
+    const clean = create();
+    candles.forEach(candle => clean.update(candle));
+
+    expectSeriesClose(feedWithRevisions(create(), candles), clean.getSeries());
+  });
+
+  it('rejects candles older than the latest one', () => {
+    const ema = new StreamingEMA(5);
+    ema.update(candles[1]);
+    expect(() => ema.update(candles[0])).toThrow(/older than the latest candle/);
+  });
+});
+
+describe('indicator fixtures', () => {
+  // Steady uptrend: close = 100 + i, one-point wicks
+  const trend = Array.from({ length: 120 }, (_, i): PriceData => ({
+    timestamp: i * MINUTE,
+    open: 99.5 + i,
+    high: 101 + i,
+    low: 99 + i,
+    close: 100 + i,
+    volume: 10
+  }));
+
+  it('Stochastic RSI stays within 0-100 and %K smooths the raw value', () => {
+    const series = computeIndicatorSeries(new StreamingStochasticRSI(14, 14, 3, 3), candles);
+    const firstIndex = series.findIndex(value => value !== null);
+    expect(firstIndex).toBe(14 + 13 + 2 + 2); // RSI, stochastic, %K and %D warm-up
+
+    series.slice(firstIndex).forEach((value, offset) => {
+      expect(value!.stochRsi).toBeGreaterThanOrEqual(0);
+      expect(value!.stochRsi).toBeLessThanOrEqual(100);
+      if (offset >= 2) {
+        const raw = series.slice(firstIndex + offset - 2, firstIndex + offset + 1).map(v => v!.stochRsi);
+        expect(value!.k).toBeCloseTo((raw[0] + raw[1] + raw[2]) / 3, 8);
+      }
+    });
+  });
+
+  it('ADX reads a strong trend with +DI above -DI', () => {
+    const series = computeIndicatorSeries(new StreamingADX(14), trend);
+    expect(series[26]).toBeNull();
+    expect(series[27]).not.toBeNull();
+
+    const last = series[series.length - 1]!;
+    expect(last.plusDI).toBeGreaterThan(last.minusDI);
+    expect(last.minusDI).toBe(0);
+    expect(last.adx).toBeCloseTo(100, 6);
+  });
+
+  it('Ichimoku lines follow the midpoints of their windows', () => {
+    const series = computeIndicatorSeries(new StreamingIchimoku(9, 26, 52, 26), trend);
+    expect(series[50]).toBeNull();
+
+    const bar = 100;
+    const value = series[bar]!;
+    expect(value.conversion).toBeCloseTo(((101 + bar) + (99 + bar - 8)) / 2, 8);
+    expect(value.base).toBeCloseTo(((101 + bar) + (99 + bar - 25)) / 2, 8);
+    expect(value.leadingSpanB).toBeCloseTo(((101 + bar) + (99 + bar - 51)) / 2, 8);
+    expect(value.leadingSpanA).toBeCloseTo((value.conversion + value.base) / 2, 8);
+    expect(value.cloudA).toBeCloseTo(series[bar - 26]!.leadingSpanA, 8);
+    expect(value.laggingSpan).toBe(100 + bar);
+    expect(series[60]!.cloudA).toBeNull();
+  });
+
+  it('SuperTrend follows an uptrend and flips on a crash', () => {
+    const crash = [...trend, ...Array.from({ length: 10 }, (_, i): PriceData => ({
+      timestamp: (trend.length + i) * MINUTE,
+      open: 210 - i * 15,
+      high: 211 - i * 15,
+      low: 195 - i * 15,
+      close: 196 - i * 15,
+      volume: 10
+    }))];
+    const series = computeIndicatorSeries(new StreamingSuperTrend(10, 3), crash);
+
+    const beforeCrash = series[trend.length - 1]!;
+    expect(beforeCrash.direction).toBe('up');
+    expect(beforeCrash.value).toBeLessThan(trend[trend.length - 1].close);
+
+    const afterCrash = series[series.length - 1]!;
+    expect(afterCrash.direction).toBe('down');
+    expect(afterCrash.value).toBeGreaterThan(crash[crash.length - 1].close);
+  });
+
+  it('OBV adds volume on up closes and subtracts it on down closes', () => {
+    const bars = [10, 11, 11, 9, 12].map((close, i): PriceData => ({
+      timestamp: i, open: close, high: close, low: close, close, volume: (i + 1) * 100
+    }));
+    expect(computeIndicatorSeries(new StreamingOBV(), bars)).toEqual([0, 200, 200, -200, 300]);
+  });
+
+  it('Keltner Channels are symmetric Wilder ATR bands around the EMA', () => {
+    const keltner = computeIndicatorSeries(new StreamingKeltnerChannels(20, 10, 2), candles);
+    const ema = computeIndicatorSeries(new StreamingEMA(20), candles);
+    const atr = computeIndicatorSeries(new StreamingATR(10, 'wilder'), candles);
+
+    expect(keltner[9]).toBeNull();
+    [10, 200].forEach(i => {
+      expect(keltner[i]!.middle).toBeCloseTo(ema[i]!, 8);
+      expect(keltner[i]!.upper - keltner[i]!.middle).toBeCloseTo(2 * atr[i]!, 8);
+      expect(keltner[i]!.middle - keltner[i]!.lower).toBeCloseTo(2 * atr[i]!, 8);
+    });
+  });
+
+  it('Donchian Channels track the highest high and lowest low', () => {
+    const series = computeIndicatorSeries(new StreamingDonchianChannels(20), candles);
+    expect(series[18]).toBeNull();
+    [19, 123, 299].forEach(i => {
+      const window = candles.slice(i - 19, i + 1);
+      expect(series[i]!.upper).toBe(Math.max(...window.map(c => c.high)));
+      expect(series[i]!.lower).toBe(Math.min(...window.map(c => c.low)));
+    });
+  });
+});
+
+describe('batch callers', () => {
+  // Flows stamp mock candles with Date.now() - i * interval, so timestamps run newest-first
+  const newestFirst = candles.map((candle, i) => ({ ...candle, timestamp: Date.now() - i * MINUTE }));
+
+  it('takes array order as bar order regardless of timestamps', () => {
+    expect(calculateATR(newestFirst, 14)).toBeCloseTo(calculateATR(candles, 14), 8);
+    expect(calculateMFI(newestFirst, 14).value).toBeCloseTo(calculateMFI(candles, 14).value, 8);
+    expect(computeIndicatorSeries(new StreamingRSI(14), newestFirst)).toEqual(computeIndicatorSeries(new StreamingRSI(14), candles));
+  });
+
+  it('does not merge candles that share a timestamp', () => {
+    const sameTimestamp = candles.map(candle => ({ ...candle, timestamp: 0 }));
+    expect(computeIndicatorSeries(new StreamingEMA(20), sameTimestamp)).toHaveLength(candles.length);
+  });
+
+  it('support/resistance analysis accepts newest-first candles', () => {
+    expect(() => calculateSupportResistance(newestFirst)).not.toThrow();
+    expect(calculateSupportResistance(newestFirst).levels.length).toBeGreaterThan(0);
+  });
+});
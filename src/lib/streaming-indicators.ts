@@ -0,0 +1,693 @@
+/**
+ * @fileOverview Streaming technical indicators
+ *
+ * Stateful indicators for live feeds. Each `update(candle)` costs O(1)
+ * (amortized for the rolling min/max windows) instead of recomputing from
+ * the whole history:
+ * - A candle with the same timestamp as the latest one revises it (a
+ *   forming candle ticking), anything newer appends a bar
+ * - Every indicator keeps its full series aligned to the input candles,
+ *   with null during warm-up
+ * - EMA, RSI, MACD, Bollinger Bands, ATR and MFI match the batch functions
+ *   in advanced-technical-indicators, which run on these classes
+ * - Stochastic RSI, ADX/DMI, Ichimoku, SuperTrend, OBV, Keltner Channels
+ *   and Donchian Channels
+ *
+ * Indicators composed of other indicators hold their own instances, so one
+ * candle stream can feed any number of indicators independently.
+ */
+
+import type { PriceData } from './advanced-technical-indicators';
+
+export interface MACDValue {
+  macd: number;
+  signal: number;
+  histogram: number;
+}
+
+export interface BandsValue {
+  upper: number;
+  middle: number;
+  lower: number;
+}
+
+export interface BollingerBandsValue extends BandsValue {
+  bandwidth: number; // Percent of the middle band
+}
+
+export interface StochasticRSIValue {
+  stochRsi: number; // 0-100
+  k: number;
+  d: number;
+}
+
+export interface ADXValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+export interface IchimokuValue {
+  conversion: number; // Tenkan-sen
+  base: number; // Kijun-sen
+  leadingSpanA: number; // Senkou span A, plotted `displacement` bars ahead
+  leadingSpanB: number; // Senkou span B, plotted `displacement` bars ahead
+  cloudA: number | null; // Span A plotted at this bar (computed `displacement` bars ago)
+  cloudB: number | null;
+  laggingSpan: number; // Chikou span: this close, plotted `displacement` bars back
+}
+
+export interface SuperTrendValue {
+  value: number; // Active band: lower band in an uptrend, upper band in a downtrend
+  direction: 'up' | 'down';
+  upper: number;
+  lower: number;
+}
+
+export type ATRSmoothing = 'sma' | 'wilder';
+
+/**
+ * Exponential smoothing seeded with the first value (seedPeriod 1) or with
+ * the simple average of the first seedPeriod values (Wilder style)
+ */
+class ExponentialSmoother {
+  private value: number | null = null;
+  private count = 0;
+  private seedSum = 0;
+  private saved = { value: null as number | null, count: 0, seedSum: 0 };
+
+  constructor(private readonly alpha: number, private readonly seedPeriod: number = 1) {}
+
+  update(input: number, revise: boolean): number | null {
+    if (revise) {
+      this.value = this.saved.value;
+      this.count = this.saved.count;
+      this.seedSum = this.saved.seedSum;
+    } else {
+      this.saved = { value: this.value, count: this.count, seedSum: this.seedSum };
+    }
+
+    this.count++;
+    if (this.count < this.seedPeriod) {
+      this.seedSum += input;
+      return null;
+    }
+
+    this.value = this.count === this.seedPeriod
+      ? (this.seedSum + input) / this.seedPeriod
+      : input * this.alpha + (this.value as number) * (1 - this.alpha);
+    return this.value;
+  }
+}
+
+/**
+ * Fixed-size window with running sum and variance. Sums are kept relative
+ * to a reference value and rebuilt once per window cycle, so drift and
+ * cancellation stay bounded at any price scale.
+ */
+class RollingWindow {
+  private readonly buffer: number[] = [];
+  private next = 0; // Slot the next pushed value goes into
+  private reference = 0;
+  private shiftedSum = 0;
+  private shiftedSquares = 0;
+
+  constructor(private readonly size: number) {}
+
+  update(input: number, revise: boolean): void {
+    if (revise && this.buffer.length > 0) {
+      const last = (this.next - 1 + this.size) % this.size;
+      this.remove(this.buffer[last]);
+      this.buffer[last] = input;
+      this.add(input);
+      return;
+    }
+
+    if (this.buffer.length < this.size) {
+      this.buffer.push(input);
+      this.add(input);
+    } else {
+      this.remove(this.buffer[this.next]);
+      this.buffer[this.next] = input;
+      this.add(input);
+    }
+
+    this.next = (this.next + 1) % this.size;
+    if (this.next === 0) this.rebuild();
+  }
+
+  get isFull(): boolean {
+    return this.buffer.length === this.size;
+  }
+
+  get sum(): number {
+    return this.reference * this.buffer.length + this.shiftedSum;
+  }
+
+  get mean(): number {
+    return this.reference + this.shiftedSum / this.buffer.length;
+  }
+
+  /**
+   * Population variance
+   */
+  get variance(): number {
+    const n = this.buffer.length;
+    return Math.max(0, (this.shiftedSquares - (this.shiftedSum * this.shiftedSum) / n) / n);
+  }
+
+  private add(value: number): void {
+    this.shiftedSum += value - this.reference;
+    this.shiftedSquares += (value - this.reference) ** 2;
+  }
+
+  private remove(value: number): void {
+    this.shiftedSum -= value - this.reference;
+    this.shiftedSquares -= (value - this.reference) ** 2;
+  }
+
+  private rebuild(): void {
+    this.reference = this.buffer[0];
+    this.shiftedSum = 0;
+    this.shiftedSquares = 0;
+    this.buffer.forEach(value => this.add(value));
+  }
+}
+
+/**
+ * Sliding-window maximum (or minimum) over a monotonic deque. Values a push
+ * evicts from the back are kept until the next bar so a revision can
+ * restore them.
+ */
+class RollingExtreme {
+  private items: { index: number; value: number }[] = [];
+  private head = 0;
+  private index = -1;
+  private evicted: { index: number; value: number }[] = [];
+
+  constructor(private readonly size: number, private readonly mode: 'max' | 'min') {}
+
+  update(input: number, revise: boolean): number {
+    if (revise && this.index >= 0) {
+      this.items.pop();
+      for (let i = this.evicted.length - 1; i >= 0; i--) {
+        this.items.push(this.evicted[i]);
+      }
+    } else {
+      this.index++;
+      while (this.head < this.items.length && this.items[this.head].index <= this.index - this.size) {
+        this.head++;
+      }
+      if (this.head > this.size && this.head * 2 > this.items.length) {
+        this.items = this.items.slice(this.head);
+        this.head = 0;
+      }
+    }
+
+    this.evicted = [];
+    while (this.items.length > this.head && this.dominates(input, this.items[this.items.length - 1].value)) {
+      this.evicted.push(this.items.pop()!);
+    }
+    this.items.push({ index: this.index, value: input });
+
+    return this.items[this.head].value;
+  }
+
+  get isFull(): boolean {
+    return this.index >= this.size - 1;
+  }
+
+  private dominates(value: number, other: number): boolean {
+    return this.mode === 'max' ? value >= other : value <= other;
+  }
+}
+
+function trueRange(candle: PriceData, previous: PriceData): number {
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - previous.close),
+    Math.abs(candle.low - previous.close)
+  );
+}
+
+/**
+ * Base class: routes new and revised candles and records the series
+ */
+export abstract class StreamingIndicator<T> {
+  private readonly values: (T | null)[] = [];
+  private lastTimestamp: number | null = null;
+  private latestCandle: PriceData | null = null;
+  protected previousCandle: PriceData | null = null; // Bar before the one being computed
+
+  /**
+   * Apply a new candle, or revise the latest one when the timestamp repeats
+   */
+  update(candle: PriceData): T | null {
+    if (this.lastTimestamp !== null && candle.timestamp < this.lastTimestamp) {
+      throw new Error(`Candle at ${candle.timestamp} is older than the latest candle at ${this.lastTimestamp}`);
+    }
+
+    const revise = candle.timestamp === this.lastTimestamp;
+    if (revise) {
+      this.values.pop();
+    } else {
+      this.previousCandle = this.latestCandle;
+    }
+    this.latestCandle = candle;
+    this.lastTimestamp = candle.timestamp;
+
+    const value = this.compute(candle, revise);
+    this.values.push(value);
+    return value;
+  }
+
+  /**
+   * Latest value, null during warm-up
+   */
+  get value(): T | null {
+    return this.values.length > 0 ? this.values[this.values.length - 1] : null;
+  }
+
+  /**
+   * One value per candle, oldest first
+   */
+  getSeries(): (T | null)[] {
+    return [...this.values];
+  }
+
+  // Index of the candle being computed
+  protected get index(): number {
+    return this.values.length;
+  }
+
+  protected valueAt(index: number): T | null {
+    return index >= 0 && index < this.values.length ? this.values[index] : null;
+  }
+
+  protected abstract compute(candle: PriceData, revise: boolean): T | null;
+}
+
+/**
+ * EMA of closes, seeded with the first close
+ */
+export class StreamingEMA extends StreamingIndicator<number> {
+  private readonly smoother: ExponentialSmoother;
+
+  constructor(period: number) {
+    super();
+    this.smoother = new ExponentialSmoother(2 / (period + 1));
+  }
+
+  protected compute(candle: PriceData, revise: boolean): number | null {
+    return this.smoother.update(candle.close, revise);
+  }
+}
+
+/**
+ * Wilder RSI: averages seeded with the simple mean of the first period changes
+ */
+export class StreamingRSI extends StreamingIndicator<number> {
+  private readonly gains: ExponentialSmoother;
+  private readonly losses: ExponentialSmoother;
+
+  constructor(period: number = 14) {
+    super();
+    this.gains = new ExponentialSmoother(1 / period, period);
+    this.losses = new ExponentialSmoother(1 / period, period);
+  }
+
+  protected compute(candle: PriceData, revise: boolean): number | null {
+    if (!this.previousCandle) return null;
+
+    const change = candle.close - this.previousCandle.close;
+    const averageGain = this.gains.update(Math.max(change, 0), revise);
+    const averageLoss = this.losses.update(Math.max(-change, 0), revise);
+    if (averageGain === null || averageLoss === null) return null;
+
+    if (averageLoss === 0) return averageGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + averageGain / averageLoss);
+  }
+}
+
+/**
+ * MACD line, signal line and histogram; EMAs are seeded with the first
+ * value, values start once slowPeriod candles are in
+ */
+export class StreamingMACD extends StreamingIndicator<MACDValue> {
+  private readonly fast: ExponentialSmoother;
+  private readonly slow: ExponentialSmoother;
+  private readonly signal: ExponentialSmoother;
+
+  constructor(fastPeriod: number = 12, private readonly slowPeriod: number = 26, signalPeriod: number = 9) {
+    super();
+    this.fast = new ExponentialSmoother(2 / (fastPeriod + 1));
+    this.slow = new ExponentialSmoother(2 / (slowPeriod + 1));
+    this.signal = new ExponentialSmoother(2 / (signalPeriod + 1));
+  }
+
+  protected compute(candle: PriceData, revise: boolean): MACDValue | null {
+    const macd = (this.fast.update(candle.close, revise) as number) - (this.slow.update(candle.close, revise) as number);
+    const signal = this.signal.update(macd, revise) as number;
+
+    if (this.index < this.slowPeriod - 1) return null;
+    return { macd, signal, histogram: macd - signal };
+  }
+}
+
+/**
+ * Bollinger Bands with population standard deviation
+ */
+export class StreamingBollingerBands extends StreamingIndicator<BollingerBandsValue> {
+  private readonly window: RollingWindow;
+
+  constructor(period: number = 20, private readonly stdDev: number = 2) {
+    super();
+    this.window = new RollingWindow(period);
+  }
+
+  protected compute(candle: PriceData, revise: boolean): BollingerBandsValue | null {
+    this.window.update(candle.close, revise);
+    if (!this.window.isFull) return null;
+
+    const middle = this.window.mean;
+    const deviation = Math.sqrt(this.window.variance) * this.stdDev;
+    return {
+      upper: middle + deviation,
+      middle,
+      lower: middle - deviation,
+      bandwidth: (deviation * 2) / middle * 100
+    };
+  }
+}
+
+/**
+ * Average true range; 'sma' matches calculateATR, 'wilder' is the classic
+ * smoothing used by SuperTrend and Keltner Channels
+ */
+export class StreamingATR extends StreamingIndicator<number> {
+  private readonly window: RollingWindow;
+  private readonly smoother: ExponentialSmoother;
+
+  constructor(period: number = 14, private readonly smoothing: ATRSmoothing = 'sma') {
+    super();
+    this.window = new RollingWindow(period);
+    this.smoother = new ExponentialSmoother(1 / period, period);
+  }
+
+  protected compute(candle: PriceData, revise: boolean): number | null {
+    if (!this.previousCandle) return null;
+
+    const range = trueRange(candle, this.previousCandle);
+    if (this.smoothing === 'wilder') {
+      return this.smoother.update(range, revise);
+    }
+
+    this.window.update(range, revise);
+    return this.window.isFull ? this.window.mean : null;
+  }
+}
+
+/**
+ * Money Flow Index; unchanged typical prices count as negative flow
+ */
+export class StreamingMFI extends StreamingIndicator<number> {
+  private readonly positiveFlows: RollingWindow;
+  private readonly negativeFlows: RollingWindow;
+
+  constructor(period: number = 14) {
+    super();
+    this.positiveFlows = new RollingWindow(period);
+    this.negativeFlows = new RollingWindow(period);
+  }
+
+  protected compute(candle: PriceData, revise: boolean): number | null {
+    if (!this.previousCandle) return null;
+
+    const typicalPrice = (candle.high + candle.low + candle.close) / 3;
+    const previous = this.previousCandle;
+    const previousTypicalPrice = (previous.high + previous.low + previous.close) / 3;
+    const moneyFlow = typicalPrice * candle.volume;
+    const isPositive = typicalPrice > previousTypicalPrice;
+
+    this.positiveFlows.update(isPositive ? moneyFlow : 0, revise);
+    this.negativeFlows.update(isPositive ? 0 : moneyFlow, revise);
+    if (!this.positiveFlows.isFull) return null;
+
+    const negativeFlow = this.negativeFlows.sum;
+    if (negativeFlow <= 0) return this.positiveFlows.sum > 0 ? 100 : 50;
+    return 100 - 100 / (1 + this.positiveFlows.sum / negativeFlow);
+  }
+}
+
+/**
+ * Stochastic of RSI with %K and %D smoothing; a flat RSI range reads 50
+ */
+export class StreamingStochasticRSI extends StreamingIndicator<StochasticRSIValue> {
+  private readonly rsi: StreamingRSI;
+  private readonly highest: RollingExtreme;
+  private readonly lowest: RollingExtreme;
+  private readonly kWindow: RollingWindow;
+  private readonly dWindow: RollingWindow;
+
+  constructor(rsiPeriod: number = 14, stochasticPeriod: number = 14, kPeriod: number = 3, dPeriod: number = 3) {
+    super();
+    this.rsi = new StreamingRSI(rsiPeriod);
+    this.highest = new RollingExtreme(stochasticPeriod, 'max');
+    this.lowest = new RollingExtreme(stochasticPeriod, 'min');
+    this.kWindow = new RollingWindow(kPeriod);
+    this.dWindow = new RollingWindow(dPeriod);
+  }
+
+  protected compute(candle: PriceData, revise: boolean): StochasticRSIValue | null {
+    const rsi = this.rsi.update(candle);
+    if (rsi === null) return null;
+
+    const highest = this.highest.update(rsi, revise);
+    const lowest = this.lowest.update(rsi, revise);
+    if (!this.highest.isFull) return null;
+
+    const stochRsi = highest > lowest ? ((rsi - lowest) / (highest - lowest)) * 100 : 50;
+    this.kWindow.update(stochRsi, revise);
+    if (!this.kWindow.isFull) return null;
+
+    const k = this.kWindow.mean;
+    this.dWindow.update(k, revise);
+    if (!this.dWindow.isFull) return null;
+
+    return { stochRsi, k, d: this.dWindow.mean };
+  }
+}
+
+/**
+ * Wilder's ADX with the +DI/-DI directional indicators
+ */
+export class StreamingADX extends StreamingIndicator<ADXValue> {
+  private readonly trueRanges: ExponentialSmoother;
+  private readonly plusMoves: ExponentialSmoother;
+  private readonly minusMoves: ExponentialSmoother;
+  private readonly adx: ExponentialSmoother;
+
+  constructor(period: number = 14) {
+    super();
+    this.trueRanges = new ExponentialSmoother(1 / period, period);
+    this.plusMoves = new ExponentialSmoother(1 / period, period);
+    this.minusMoves = new ExponentialSmoother(1 / period, period);
+    this.adx = new ExponentialSmoother(1 / period, period);
+  }
+
+  protected compute(candle: PriceData, revise: boolean): ADXValue | null {
+    const previous = this.previousCandle;
+    if (!previous) return null;
+
+    const upMove = candle.high - previous.high;
+    const downMove = previous.low - candle.low;
+    const range = this.trueRanges.update(trueRange(candle, previous), revise);
+    const plusMove = this.plusMoves.update(upMove > downMove && upMove > 0 ? upMove : 0, revise);
+    const minusMove = this.minusMoves.update(downMove > upMove && downMove > 0 ? downMove : 0, revise);
+    if (range === null || plusMove === null || minusMove === null) return null;
+
+    const plusDI = range > 0 ? (plusMove / range) * 100 : 0;
+    const minusDI = range > 0 ? (minusMove / range) * 100 : 0;
+    const diSum = plusDI + minusDI;
+    const adx = this.adx.update(diSum > 0 ? (Math.abs(plusDI - minusDI) / diSum) * 100 : 0, revise);
+    if (adx === null) return null;
+
+    return { adx, plusDI, minusDI };
+  }
+}
+
+/**
+ * Ichimoku Kinko Hyo; values start once the span B window is full
+ */
+export class StreamingIchimoku extends StreamingIndicator<IchimokuValue> {
+  private readonly conversionHigh: RollingExtreme;
+  private readonly conversionLow: RollingExtreme;
+  private readonly baseHigh: RollingExtreme;
+  private readonly baseLow: RollingExtreme;
+  private readonly spanBHigh: RollingExtreme;
+  private readonly spanBLow: RollingExtreme;
+
+  constructor(
+    conversionPeriod: number = 9,
+    basePeriod: number = 26,
+    spanBPeriod: number = 52,
+    private readonly displacement: number = 26
+  ) {
+    super();
+    this.conversionHigh = new RollingExtreme(conversionPeriod, 'max');
+    this.conversionLow = new RollingExtreme(conversionPeriod, 'min');
+    this.baseHigh = new RollingExtreme(basePeriod, 'max');
+    this.baseLow = new RollingExtreme(basePeriod, 'min');
+    this.spanBHigh = new RollingExtreme(spanBPeriod, 'max');
+    this.spanBLow = new RollingExtreme(spanBPeriod, 'min');
+  }
+
+  protected compute(candle: PriceData, revise: boolean): IchimokuValue | null {
+    const conversion = (this.conversionHigh.update(candle.high, revise) + this.conversionLow.update(candle.low, revise)) / 2;
+    const base = (this.baseHigh.update(candle.high, revise) + this.baseLow.update(candle.low, revise)) / 2;
+    const leadingSpanB = (this.spanBHigh.update(candle.high, revise) + this.spanBLow.update(candle.low, revise)) / 2;
+    if (!this.spanBHigh.isFull || !this.baseHigh.isFull) return null;
+
+    const projected = this.valueAt(this.index - this.displacement);
+    return {
+      conversion,
+      base,
+      leadingSpanA: (conversion + base) / 2,
+      leadingSpanB,
+      cloudA: projected?.leadingSpanA ?? null,
+      cloudB: projected?.leadingSpanB ?? null,
+      laggingSpan: candle.close
+    };
+  }
+}
+
+/**
+ * SuperTrend on Wilder ATR bands around the bar midpoint
+ */
+export class StreamingSuperTrend extends StreamingIndicator<SuperTrendValue> {
+  private readonly atr: StreamingATR;
+  private state: { upper: number; lower: number; direction: 'up' | 'down' } | null = null;
+  private savedState: { upper: number; lower: number; direction: 'up' | 'down' } | null = null;
+
+  constructor(period: number = 10, private readonly multiplier: number = 3) {
+    super();
+    this.atr = new StreamingATR(period, 'wilder');
+  }
+
+  protected compute(candle: PriceData, revise: boolean): SuperTrendValue | null {
+    if (revise) {
+      this.state = this.savedState;
+    } else {
+      this.savedState = this.state;
+    }
+
+    const atr = this.atr.update(candle);
+    if (atr === null || !this.previousCandle) return null;
+
+    const midpoint = (candle.high + candle.low) / 2;
+    const basicUpper = midpoint + this.multiplier * atr;
+    const basicLower = midpoint - this.multiplier * atr;
+    const previousClose = this.previousCandle.close;
+    const previous = this.state;
+
+    // Bands only tighten until price closes through them
+    const upper = previous && basicUpper > previous.upper && previousClose <= previous.upper ? previous.upper : basicUpper;
+    const lower = previous && basicLower < previous.lower && previousClose >= previous.lower ? previous.lower : basicLower;
+
+    let direction: 'up' | 'down';
+    if (!previous) {
+      direction = candle.close >= midpoint ? 'up' : 'down';
+    } else if (previous.direction === 'down') {
+      direction = candle.close > upper ? 'up' : 'down';
+    } else {
+      direction = candle.close < lower ? 'down' : 'up';
+    }
+
+    this.state = { upper, lower, direction };
+    return { value: direction === 'up' ? lower : upper, direction, upper, lower };
+  }
+}
+
+/**
+ * On-balance volume, starting from zero at the first candle
+ */
+export class StreamingOBV extends StreamingIndicator<number> {
+  protected compute(candle: PriceData): number {
+    const previous = this.previousCandle;
+    const previousObv = this.valueAt(this.index - 1) ?? 0;
+    if (!previous) return 0;
+
+    if (candle.close > previous.close) return previousObv + candle.volume;
+    if (candle.close < previous.close) return previousObv - candle.volume;
+    return previousObv;
+  }
+}
+
+/**
+ * Keltner Channels: EMA of closes with Wilder ATR bands
+ */
+export class StreamingKeltnerChannels extends StreamingIndicator<BandsValue> {
+  private readonly ema: StreamingEMA;
+  private readonly atr: StreamingATR;
+
+  constructor(emaPeriod: number = 20, atrPeriod: number = 10, private readonly multiplier: number = 2) {
+    super();
+    this.ema = new StreamingEMA(emaPeriod);
+    this.atr = new StreamingATR(atrPeriod, 'wilder');
+  }
+
+  protected compute(candle: PriceData): BandsValue | null {
+    const middle = this.ema.update(candle);
+    const atr = this.atr.update(candle);
+    if (middle === null || atr === null) return null;
+
+    return { upper: middle + this.multiplier * atr, middle, lower: middle - this.multiplier * atr };
+  }
+}
+
+/**
+ * Donchian Channels: highest high and lowest low over the period
+ */
+export class StreamingDonchianChannels extends StreamingIndicator<BandsValue> {
+  private readonly highest: RollingExtreme;
+  private readonly lowest: RollingExtreme;
+
+  constructor(period: number = 20) {
+    super();
+    this.highest = new RollingExtreme(period, 'max');
+    this.lowest = new RollingExtreme(period, 'min');
+  }
+
+  protected compute(candle: PriceData, revise: boolean): BandsValue | null {
+    const upper = this.highest.update(candle.high, revise);
+    const lower = this.lowest.update(candle.low, revise);
+    if (!this.highest.isFull) return null;
+
+    return { upper, middle: (upper + lower) / 2, lower };
+  }
+}
+
+/**
+ * Run an indicator over a batch of candles and return its full series. Like
+ * the batch functions, this takes the array order as bar order: candles are
+ * re-stamped by index, so duplicate or descending timestamps neither merge
+ * bars nor throw.
+ */
+export function computeIndicatorSeries<T>(indicator: StreamingIndicator<T>, candles: PriceData[]): (T | null)[] {
+  candles.forEach((candle, index) => indicator.update({ ...candle, timestamp: index }));
+  return indicator.getSeries();
+}
+
+/**
+ * Close-only candles for running the streaming indicators over a price array
+ */
+export function pricesToCandles(prices: number[]): PriceData[] {
+  return prices.map((price, index) => ({
+    timestamp: index,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 0
+  }));
+}
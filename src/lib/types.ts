@@ -1,3 +1,5 @@
+import type { DataProvenance } from '@/lib/data-providers/data-provenance';
+
 
 export interface RecommendationItem {
   value: string;
@@ -22,6 +24,15 @@ export interface Message {
   audioDataUri?: string;
   isSoundEnabled?: boolean;
   personaDescription?: string;
+  dataProvenance?: DataProvenance;
+}
+
+// Chart coordinates, optionally tied to a price and time
+export interface ChartPoint {
+  x: number;
+  y: number;
+  price?: number;
+  timestamp?: number;
 }
 
 export interface Persona {